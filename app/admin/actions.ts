@@ -2,7 +2,41 @@
 
 import { createSupabaseAdminClient } from '@/lib/supabase-admin'
 import { revalidatePath } from 'next/cache'
-import { sendApplicationApprovalEmail, sendApplicationRejectionEmail } from '@/lib/email'
+import {
+  sendApplicationApprovalEmail,
+  sendApplicationQuestionEmail,
+  sendApplicationRejectionEmail,
+} from '@/lib/email'
+import { lookupPostcode, toPostgisPoint } from '@/lib/postcodes'
+import { SENSITIVE_FIELDS } from '@/lib/chef-portal'
+import { replaceChefAvailability, type AvailabilityInput } from '@/lib/availability-server'
+import { removeChefDish, reorderChefDishes, upsertChefDish } from '@/lib/dishes-server'
+import type { DishInput } from '@/lib/dishes'
+import { validateReplyBody } from '@/lib/review-replies'
+import { MODERATION_CONFIG } from '@/lib/review-moderation'
+import { REVIEW_PHOTO_CONFIG } from '@/lib/review-photos'
+import { signReviewPhotos } from '@/lib/review-photos-server'
+import { availabilityCellsToSlots } from '@/lib/availability'
+import {
+  copyApplicationMedia,
+  removeChefMedia,
+  uploadChefMedia,
+  type CopiedApplicationMedia,
+} from '@/lib/chef-media-server'
+import { imageVariantUrls } from '@/lib/image-variants'
+import { runStorageGc } from '@/lib/storage-gc-server'
+import { applicationStatusPath, validateApplicationMessage } from '@/lib/application-status'
+import {
+  CONDITION_FIELD_TYPES,
+  OPTION_FIELD_TYPES,
+  QUESTION_KEYS,
+  YES_NO_OPTIONS,
+  chefFieldsFromAnswers,
+  isLockedQuestionKey,
+  validateQuestion,
+  type ApplicationAnswers,
+  type QuestionInput,
+} from '@/lib/application-questions'
 
 export async function approveChef(chefId: string) {
   try {
@@ -46,6 +80,7 @@ export async function fetchAdminData() {
         verified,
         photo_url,
         created_at,
+        availability_needs_review,
         chef_cuisines(cuisine)
       `)
       .order('created_at', { ascending: false })
@@ -62,6 +97,7 @@ export async function fetchAdminData() {
         id,
         answers,
         status,
+        duplicate_matches,
         admin_notes,
         created_at,
         updated_at,
@@ -85,7 +121,9 @@ export async function fetchAdminData() {
         status,
         created_at,
         published_at,
-        chefs(id, name)
+        chefs(id, name),
+        review_replies(id, review_id, body, status, created_at, updated_at, published_at),
+        review_photos(id, storage_path, display_order)
       `)
       .order('created_at', { ascending: false })
 
@@ -94,12 +132,58 @@ export async function fetchAdminData() {
       return { success: false, error: `Error loading reviews: ${reviewsError.message}` }
     }
 
+    // Review photos are in a private bucket - sign them so admins can check them
+    const reviewsWithPhotos = await Promise.all((reviews || []).map(async ({ review_photos, ...review }) => ({
+      ...review,
+      photos: await signReviewPhotos(supabase, review_photos)
+    })))
+
+    // Fetch chef portal changes awaiting approval
+    const { data: changeRequests, error: changeRequestsError } = await supabase
+      .from('chef_profile_change_requests')
+      .select(`
+        id,
+        chef_id,
+        changes,
+        previous_values,
+        created_at,
+        chefs(id, name)
+      `)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    if (changeRequestsError) {
+      console.error('Error fetching change requests:', changeRequestsError)
+      // Continue anyway - the rest of the dashboard still works
+    }
+
+    // Fetch verification documents awaiting review
+    const { data: pendingDocuments, error: pendingDocumentsError } = await supabase
+      .from('chef_documents')
+      .select(`
+        id,
+        chef_id,
+        document_type,
+        expires_on,
+        created_at,
+        chefs(id, name)
+      `)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    if (pendingDocumentsError) {
+      console.error('Error fetching pending documents:', pendingDocumentsError)
+      // Continue anyway - the rest of the dashboard still works
+    }
+
     return {
       success: true,
       data: {
         chefs: chefs || [],
-        reviews: reviews || [],
-        applications: applications || []
+        reviews: reviewsWithPhotos,
+        applications: applications || [],
+        changeRequests: changeRequests || [],
+        pendingDocuments: pendingDocuments || []
       }
     }
   } catch (error) {
@@ -242,6 +326,326 @@ export async function deleteReview(reviewId: string) {
   }
 }
 
+/**
+ * Approves or rejects a review held in the moderation queue
+ *
+ * @param reviewId - UUID of a review in 'awaiting_moderation'
+ * @param decision - 'approve' publishes it, 'reject' marks it as spam
+ * @param reason - Required explanation, stored on the review and in review_events
+ */
+export async function moderateReview(reviewId: string, decision: 'approve' | 'reject', reason: string) {
+  try {
+    const trimmedReason = reason.trim()
+    if (trimmedReason.length < MODERATION_CONFIG.MIN_REASON_LENGTH) {
+      return { success: false, error: 'Please give a reason for this decision' }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    const { data: review, error: fetchError } = await supabase
+      .from('reviews')
+      .select('id, chef_id, status')
+      .eq('id', reviewId)
+      .single()
+
+    if (fetchError || !review) {
+      console.error('Error fetching review:', fetchError)
+      return { success: false, error: 'Review not found' }
+    }
+
+    if (review.status !== 'awaiting_moderation') {
+      return { success: false, error: `Review is not awaiting moderation (status: ${review.status})` }
+    }
+
+    const now = new Date().toISOString()
+    const toStatus = decision === 'approve' ? 'published' : 'spam'
+
+    // Status guard stops two admins deciding the same review
+    const { data: updated, error: updateError } = await supabase
+      .from('reviews')
+      .update({
+        status: toStatus,
+        published_at: decision === 'approve' ? now : null,
+        moderated_at: now,
+        moderation_reason: trimmedReason
+      })
+      .eq('id', reviewId)
+      .eq('status', 'awaiting_moderation')
+      .select('id')
+
+    if (updateError) {
+      console.error('Error moderating review:', updateError)
+      return { success: false, error: updateError.message }
+    }
+
+    if (!updated || updated.length === 0) {
+      return { success: false, error: 'This review has already been moderated' }
+    }
+
+    // Log the action for audit trail
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: reviewId,
+        from_status: 'awaiting_moderation',
+        to_status: toStatus,
+        actor: 'admin',
+        notes: `${decision === 'approve' ? 'Approved' : 'Rejected'} by admin: ${trimmedReason}`
+      })
+
+    if (decision === 'approve') {
+      try {
+        await supabase.rpc('refresh_chef_rating_stats', { chef_id: review.chef_id })
+      } catch (refreshError) {
+        console.error('Error refreshing materialized view:', refreshError)
+        // Continue anyway - the review is still published
+      }
+    }
+
+    revalidatePath('/admin')
+    revalidatePath('/admin/reviews')
+    revalidatePath(`/chef/${review.chef_id}`)
+    revalidatePath('/')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in moderateReview action:', error)
+    return { success: false, error: 'Failed to moderate review' }
+  }
+}
+
+/**
+ * Removes a single photo from a review, leaving the review itself untouched
+ */
+export async function removeReviewPhoto(photoId: string) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: photo, error: fetchError } = await supabase
+      .from('review_photos')
+      .select('id, review_id, storage_path, reviews(chef_id, status)')
+      .eq('id', photoId)
+      .single()
+
+    if (fetchError || !photo) {
+      console.error('Error fetching review photo:', fetchError)
+      return { success: false, error: 'Photo not found' }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('review_photos')
+      .delete()
+      .eq('id', photoId)
+
+    if (deleteError) {
+      console.error('Error deleting review photo:', deleteError)
+      return { success: false, error: deleteError.message }
+    }
+
+    const { error: storageError } = await supabase.storage
+      .from(REVIEW_PHOTO_CONFIG.BUCKET_NAME)
+      .remove([photo.storage_path])
+
+    if (storageError) {
+      console.error('Error removing review photo from storage:', storageError)
+      // Continue anyway - the photo is no longer linked to the review
+    }
+
+    const review = Array.isArray(photo.reviews) ? photo.reviews[0] : photo.reviews
+
+    // Log the action for audit trail
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: photo.review_id,
+        from_status: review?.status,
+        to_status: review?.status,
+        actor: 'admin',
+        notes: 'Photo removed by admin'
+      })
+
+    revalidatePath('/admin')
+    revalidatePath('/admin/reviews')
+    if (review?.chef_id) {
+      revalidatePath(`/chef/${review.chef_id}`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in removeReviewPhoto action:', error)
+    return { success: false, error: 'Failed to remove photo' }
+  }
+}
+
+/**
+ * Publishes a chef's reply to a review after moderation
+ */
+export async function publishReviewReply(replyId: string) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: reply, error: fetchError } = await supabase
+      .from('review_replies')
+      .select('id, review_id, chef_id, status')
+      .eq('id', replyId)
+      .single()
+
+    if (fetchError || !reply) {
+      console.error('Error fetching review reply:', fetchError)
+      return { success: false, error: 'Reply not found' }
+    }
+
+    if (reply.status !== 'awaiting_moderation') {
+      return { success: false, error: `Reply cannot be published from status: ${reply.status}` }
+    }
+
+    const { error: updateError } = await supabase
+      .from('review_replies')
+      .update({ status: 'published', published_at: new Date().toISOString() })
+      .eq('id', replyId)
+      .eq('status', 'awaiting_moderation')
+
+    if (updateError) {
+      console.error('Error publishing review reply:', updateError)
+      return { success: false, error: updateError.message }
+    }
+
+    // Log the action for audit trail
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: reply.review_id,
+        reply_id: replyId,
+        from_status: 'awaiting_moderation',
+        to_status: 'published',
+        actor: 'admin',
+        notes: 'Reply published by admin'
+      })
+
+    revalidatePath('/admin')
+    revalidatePath('/chef-portal')
+    revalidatePath(`/chef/${reply.chef_id}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in publishReviewReply action:', error)
+    return { success: false, error: 'Failed to publish reply' }
+  }
+}
+
+/**
+ * Edits the text of a chef's reply (e.g. to remove personal details)
+ *
+ * Keeps the reply's current status - admin edits don't need re-moderation.
+ */
+export async function updateReviewReply(replyId: string, body: string) {
+  try {
+    const validationError = validateReplyBody(body)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    const { data: reply, error: fetchError } = await supabase
+      .from('review_replies')
+      .select('id, review_id, chef_id, status')
+      .eq('id', replyId)
+      .single()
+
+    if (fetchError || !reply) {
+      console.error('Error fetching review reply:', fetchError)
+      return { success: false, error: 'Reply not found' }
+    }
+
+    const { error: updateError } = await supabase
+      .from('review_replies')
+      .update({ body: body.trim(), updated_at: new Date().toISOString() })
+      .eq('id', replyId)
+
+    if (updateError) {
+      console.error('Error updating review reply:', updateError)
+      return { success: false, error: updateError.message }
+    }
+
+    // Log the action for audit trail
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: reply.review_id,
+        reply_id: replyId,
+        from_status: reply.status,
+        to_status: reply.status,
+        actor: 'admin',
+        notes: 'Reply edited by admin'
+      })
+
+    revalidatePath('/admin')
+    revalidatePath('/chef-portal')
+    revalidatePath(`/chef/${reply.chef_id}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updateReviewReply action:', error)
+    return { success: false, error: 'Failed to update reply' }
+  }
+}
+
+/**
+ * Removes a chef's reply (soft delete to spam, like reviews)
+ */
+export async function deleteReviewReply(replyId: string) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: reply, error: fetchError } = await supabase
+      .from('review_replies')
+      .select('id, review_id, chef_id, status')
+      .eq('id', replyId)
+      .single()
+
+    if (fetchError || !reply) {
+      console.error('Error fetching review reply:', fetchError)
+      return { success: false, error: 'Reply not found' }
+    }
+
+    if (reply.status === 'spam') {
+      return { success: false, error: 'Reply is already deleted' }
+    }
+
+    const { error: updateError } = await supabase
+      .from('review_replies')
+      .update({ status: 'spam' })
+      .eq('id', replyId)
+
+    if (updateError) {
+      console.error('Error deleting review reply:', updateError)
+      return { success: false, error: updateError.message }
+    }
+
+    // Log the action for audit trail
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: reply.review_id,
+        reply_id: replyId,
+        from_status: reply.status,
+        to_status: 'spam',
+        actor: 'admin',
+        notes: 'Reply deleted by admin'
+      })
+
+    revalidatePath('/admin')
+    revalidatePath('/chef-portal')
+    revalidatePath(`/chef/${reply.chef_id}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deleteReviewReply action:', error)
+    return { success: false, error: 'Failed to delete reply' }
+  }
+}
+
 /**
  * ============================================================================
  * CHEF APPLICATION MANAGEMENT FUNCTIONS
@@ -251,6 +655,7 @@ export async function deleteReview(reviewId: string) {
  * - approveApplication: Converts applications to live chef profiles
  * - rejectApplication: Marks applications as rejected with optional reason
  * - updateApplicationNotes: Adds internal admin notes to applications
+ * - requestApplicationInformation: Asks the applicant for more information
  * 
  * All functions use the admin client for full database access and include
  * proper error handling, logging, and cache invalidation.
@@ -262,11 +667,14 @@ export async function deleteReview(reviewId: string) {
  * @returns Promise with success status and optional chef ID
  * 
  * Process:
- * 1. Validates application exists and is pending
- * 2. Creates chef record with verified=true
- * 3. Transfers photos and videos to chef profile
- * 4. Updates application status to approved
+ * 1. Copies the application's photos and videos into the public chefs bucket
+ * 2. Maps answers onto chef fields, availability slots and cuisines
+ * 3. approve_chef_application() creates the verified chef with its photos
+ *    and videos and marks the application approved in one transaction
+ * 4. Emails the chef (first approval only)
  * 5. Revalidates affected page caches
+ *
+ * Safe to retry: an approved application returns its existing chef.
  */
 export async function approveApplication(applicationId: string) {
   try {
@@ -275,7 +683,7 @@ export async function approveApplication(applicationId: string) {
     // First, get the application data
     const { data: application, error: fetchError } = await supabase
       .from('chef_applications')
-      .select('*')
+      .select('status, chef_id, answers, file_uploads')
       .eq('id', applicationId)
       .single()
 
@@ -283,126 +691,106 @@ export async function approveApplication(applicationId: string) {
       return { success: false, error: 'Application not found' }
     }
 
-    if (application.status !== 'pending') {
-      return { success: false, error: 'Application has already been processed' }
+    // Already approved - nothing to copy (the database function checks again)
+    if (application.status === 'approved' && application.chef_id) {
+      return { success: true, chefId: application.chef_id as string }
     }
 
-    // Create chef record from application data
-    const answers = application.answers as Record<string, any>
-    const fileUploads = application.file_uploads || { profile_photos: [], food_photos: [] }
-    
-    // Get the first profile photo URL if available
-    let photoUrl = null
-    if (fileUploads.profile_photos && fileUploads.profile_photos.length > 0) {
-      photoUrl = fileUploads.profile_photos[0].fileUrl
+    const answers = application.answers as ApplicationAnswers
+
+    // Media is copied into the new chef's own folder before the chef exists,
+    // so the chef never points at application files
+    const newChefId = crypto.randomUUID()
+    let media: CopiedApplicationMedia
+    try {
+      media = await copyApplicationMedia(supabase, application.file_uploads || {}, newChefId)
+    } catch (copyError) {
+      console.error('Error copying application media:', copyError)
+      return { success: false, error: 'Failed to copy application photos and videos' }
     }
-    
-    const { data: newChef, error: chefError } = await supabase
-      .from('chefs')
-      .insert({
-        name: answers['Full Name'],
-        bio: answers['Bio/About You'],
-        phone: answers['Phone Number'],
-        hourly_rate: answers['Hourly Rate (£)'],
-        photo_url: photoUrl, // Use uploaded profile photo
-        verified: true, // Auto-approve when created from application
-        // Enhanced fields from application
-        location_label: answers['Location/Area'],
-        experience_years: answers['Experience Years'],
-        availability: answers['Availability'],
-        languages_spoken: answers['Languages Spoken'],
-        travel_distance: answers['Travel Distance'],
-        frequency_preference: answers['Frequency Preference'],
-        minimum_booking: answers['Minimum Booking'],
-        special_events: answers['Special Events'],
-        house_help_services: answers['House Help Services'],
-        dietary_specialties: answers['Dietary Specialties'],
+
+    // Location is free text; only geocode it when it contains a postcode
+    const applicantLocation = lookupPostcode(String(answers[QUESTION_KEYS.LOCATION] || ''))
+
+    // Availability grid answers map straight onto weekly slots; free text is
+    // converted (and flagged if unclear) by the database
+    const availabilityAnswer = answers[QUESTION_KEYS.AVAILABILITY]
+    const availabilitySlots = Array.isArray(availabilityAnswer)
+      ? availabilityCellsToSlots(availabilityAnswer)
+      : null
+
+    // Cuisines chosen from the list become the chef's cuisine specialties
+    const cuisineAnswer = answers[QUESTION_KEYS.CUISINES]
+
+    // Creates the chef with availability, cuisines, food photos and videos,
+    // and marks the application approved - all or nothing
+    const { data: approval, error: approvalError } = await supabase
+      .rpc('approve_chef_application', {
+        target_application_id: applicationId,
+        new_chef_id: newChefId,
+        chef_fields: {
+          // Answers mapped onto chefs columns by question key
+          ...chefFieldsFromAnswers(answers),
+          location: applicantLocation ? toPostgisPoint(applicantLocation.latitude, applicantLocation.longitude) : null,
+          location_outcode: applicantLocation?.outcode || null,
+        },
+        media,
+        availability_slots: availabilitySlots,
+        cuisines: Array.isArray(cuisineAnswer) ? cuisineAnswer : [],
       })
-      .select('id')
       .single()
 
-    if (chefError) {
-      console.error('Error creating chef:', chefError)
-      return { success: false, error: 'Failed to create chef profile' }
+    const { chef_id: chefId, outcome } = (approval || {}) as { chef_id?: string | null; outcome?: string }
+
+    // Copies are only kept for the chef they were made for
+    if (outcome !== 'approved') {
+      await removeChefMedia(supabase, [
+        ...(media.profile_photo_url ? [media.profile_photo_url] : []),
+        ...imageVariantUrls(media.profile_photo_variants),
+        ...media.food_photo_urls,
+        ...media.food_photo_variants.flatMap(imageVariantUrls),
+        ...media.video_urls,
+      ])
     }
 
-    // Note: Cuisine specialties are now handled through the separate "Cuisine Specialties" field
-    // Best Dishes field has been removed as it was redundant and confusing
-
-    // Add food photos from application
-    if (fileUploads.food_photos && fileUploads.food_photos.length > 0) {
-      const foodPhotoInserts = fileUploads.food_photos.map((photo: any, index: number) => ({
-        chef_id: newChef.id,
-        photo_url: photo.fileUrl,
-        display_order: index
-      }))
-
-      const { error: photoError } = await supabase
-        .from('food_photos')
-        .insert(foodPhotoInserts)
-
-      if (photoError) {
-        console.error('Error adding food photos:', photoError)
-        // Continue anyway - chef is created
-      }
+    if (approvalError || !approval) {
+      console.error('Error approving application:', approvalError)
+      return { success: false, error: 'Failed to approve application' }
     }
 
-    // Add introduction videos from application
-    if (fileUploads.introduction_videos && fileUploads.introduction_videos.length > 0) {
-      const videoInserts = fileUploads.introduction_videos.map((video: any, index: number) => ({
-        chef_id: newChef.id,
-        video_url: video.fileUrl,
-        video_type: 'introduction',
-        display_order: index
-      }))
-
-      const { error: videoError } = await supabase
-        .from('chef_videos')
-        .insert(videoInserts)
-
-      if (videoError) {
-        console.error('Error adding introduction videos:', videoError)
-        // Continue anyway - chef is created
-      }
+    if (outcome === 'not_found') {
+      return { success: false, error: 'Application not found' }
     }
 
-    // Update application status and link to chef
-    const { error: updateError } = await supabase
-      .from('chef_applications')
-      .update({
-        status: 'approved',
-        approved_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        chef_id: newChef.id // Link application to created chef
-      })
-      .eq('id', applicationId)
-
-    if (updateError) {
-      console.error('Error updating application status:', updateError)
-      // Continue anyway - chef is created
+    if (outcome === 'not_open') {
+      return { success: false, error: 'Application has already been processed' }
     }
 
-    // Send approval email to chef
-    const chefEmail = answers['Email Address'] as string
-    const chefName = answers['Full Name'] as string
-    if (chefEmail && chefName) {
-      const approvalResult = await sendApplicationApprovalEmail(
-        chefEmail,
-        chefName,
-        newChef.id
-      )
-      
-      if (!approvalResult.success) {
-        console.error('Failed to send approval email:', approvalResult.error)
-        // Continue anyway - chef is created and approved
+    // A retried approval returns the chef created the first time; the email
+    // went out then
+    if (outcome === 'approved') {
+      const chefEmail = answers[QUESTION_KEYS.EMAIL] as string
+      const chefName = answers[QUESTION_KEYS.FULL_NAME] as string
+      if (chefEmail && chefName) {
+        const approvalResult = await sendApplicationApprovalEmail(
+          chefEmail,
+          chefName,
+          chefId as string
+        )
+        
+        if (!approvalResult.success) {
+          console.error('Failed to send approval email:', approvalResult.error)
+          // Continue anyway - chef is created and approved
+        }
       }
     }
 
     // Revalidate pages
     revalidatePath('/admin')
+    revalidatePath(`/admin/applications/${applicationId}`)
     revalidatePath('/')
 
-    return { success: true, chefId: newChef.id }
+    return { success: true, chefId }
   } catch (error) {
     console.error('Error in approveApplication:', error)
     return { success: false, error: 'Failed to approve application' }
@@ -439,7 +827,8 @@ export async function rejectApplication(applicationId: string, reason?: string)
         status: 'rejected',
         rejected_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
-        admin_notes: reason || null
+        // Shown to the applicant on their status page
+        rejection_reason: reason || null
       })
       .eq('id', applicationId)
 
@@ -450,8 +839,8 @@ export async function rejectApplication(applicationId: string, reason?: string)
 
     // Send rejection email to chef
     const answers = application.answers as Record<string, any>
-    const chefEmail = answers['Email Address'] as string
-    const chefName = answers['Full Name'] as string
+    const chefEmail = answers[QUESTION_KEYS.EMAIL] as string
+    const chefName = answers[QUESTION_KEYS.FULL_NAME] as string
     
     if (chefEmail && chefName) {
       const rejectionResult = await sendApplicationRejectionEmail(
@@ -479,17 +868,17 @@ export async function rejectApplication(applicationId: string, reason?: string)
  * Updates admin notes for a chef application
  * 
  * @param applicationId - UUID of the application to update
- * @param notes - Admin notes text
+ * @param formData - Notes form with the admin notes text in `notes`
  * @returns Promise with success status
  */
-export async function updateApplicationNotes(applicationId: string, notes: string) {
+export async function updateApplicationNotes(applicationId: string, formData: FormData) {
   try {
     const supabase = createSupabaseAdminClient()
 
     const { error } = await supabase
       .from('chef_applications')
       .update({
-        admin_notes: notes,
+        admin_notes: String(formData.get('notes') || ''),
         updated_at: new Date().toISOString()
       })
       .eq('id', applicationId)
@@ -500,10 +889,88 @@ export async function updateApplicationNotes(applicationId: string, notes: strin
     }
 
     revalidatePath('/admin')
+    revalidatePath(`/admin/applications/${applicationId}`)
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updateApplicationNotes:', error)
+    return { success: false, error: 'Failed to update notes' }
+  }
+}
+
+/**
+ * Asks an applicant for more information and puts the application on hold
+ * 
+ * The applicant responds, optionally with extra files, on their status page,
+ * which returns the application to pending.
+ * 
+ * @param applicationId - UUID of the application
+ * @param body - Message to the applicant
+ * @returns Promise with success status
+ */
+export async function requestApplicationInformation(applicationId: string, body: string) {
+  try {
+    const message = body.trim()
+    const validationError = validateApplicationMessage(message)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Older applications have no status page to respond on
+    const { data: application, error: updateError } = await supabase
+      .from('chef_applications')
+      .update({
+        status: 'information_requested',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', applicationId)
+      .eq('status', 'pending')
+      .not('status_token', 'is', null)
+      .select('status_token, answers')
+      .maybeSingle()
+
+    if (updateError || !application) {
+      console.error('Error requesting application information:', updateError)
+      return { success: false, error: 'Information can only be requested on pending applications with a status page' }
+    }
+
+    const { error: messageError } = await supabase
+      .from('chef_application_messages')
+      .insert({ application_id: applicationId, sender: 'admin', body: message })
+
+    if (messageError) {
+      console.error('Error saving information request:', messageError)
+      await supabase
+        .from('chef_applications')
+        .update({ status: 'pending' })
+        .eq('id', applicationId)
+      return { success: false, error: 'Failed to send request' }
+    }
+
+    const answers = application.answers as ApplicationAnswers
+    const chefEmail = answers[QUESTION_KEYS.EMAIL] as string
+    if (chefEmail) {
+      const emailResult = await sendApplicationQuestionEmail(
+        chefEmail,
+        String(answers[QUESTION_KEYS.FULL_NAME] || 'there'),
+        message,
+        `${process.env.NEXT_PUBLIC_SITE_URL}${applicationStatusPath(application.status_token)}`
+      )
+
+      if (!emailResult.success) {
+        console.error('Failed to send information request email:', emailResult.error)
+        // Continue anyway - the request shows on the status page
+      }
+    }
+
+    revalidatePath('/admin')
+    revalidatePath(`/admin/applications/${applicationId}`)
+    revalidatePath(applicationStatusPath(application.status_token))
     return { success: true }
   } catch (error) {
-    console.error('Error in updateApplicationNotes:', error)
-    return { success: false, error: 'Failed to update notes' }
+    console.error('Error in requestApplicationInformation:', error)
+    return { success: false, error: 'Failed to send request' }
   }
 }
 
@@ -520,6 +987,7 @@ export async function updateChefProfile(chefId: string, data: {
   phone: string
   hourly_rate: number
   location_label?: string
+  postcode?: string
   experience_years?: number
   availability?: string
   languages_spoken?: string
@@ -533,10 +1001,28 @@ export async function updateChefProfile(chefId: string, data: {
   try {
     const supabase = createSupabaseAdminClient()
 
+    // Resolve postcode to a search point (blank postcode clears the location)
+    let locationUpdate: Record<string, string | null> = {}
+    if (data.postcode !== undefined) {
+      if (data.postcode.trim()) {
+        const resolved = lookupPostcode(data.postcode)
+        if (!resolved) {
+          return { success: false, error: 'Postcode not recognised. Try the outward code only (e.g. TW3).' }
+        }
+        locationUpdate = {
+          location: toPostgisPoint(resolved.latitude, resolved.longitude),
+          location_outcode: resolved.outcode
+        }
+      } else {
+        locationUpdate = { location: null, location_outcode: null }
+      }
+    }
+
     // Update chef profile
     const { error } = await supabase
       .from('chefs')
       .update({
+        ...locationUpdate,
         name: data.name,
         bio: data.bio,
         phone: data.phone,
@@ -566,7 +1052,7 @@ export async function updateChefProfile(chefId: string, data: {
       .insert({
         chef_id: chefId,
         action: 'updated',
-        metadata: { fields: ['name', 'bio', 'phone', 'hourly_rate', 'location_label'] }
+        metadata: { fields: ['name', 'bio', 'phone', 'hourly_rate', 'location_label', ...Object.keys(locationUpdate)] }
       })
 
     // Revalidate relevant pages
@@ -645,6 +1131,125 @@ export async function updateChefCuisines(chefId: string, cuisines: string[]) {
   }
 }
 
+/**
+ * Update chef weekly availability slots and blackout dates
+ */
+export async function updateChefAvailability(chefId: string, data: AvailabilityInput) {
+  try {
+    const error = await replaceChefAvailability(chefId, data)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Log the change
+    await supabase
+      .from('chef_audit_log')
+      .insert({
+        chef_id: chefId,
+        action: 'updated',
+        metadata: { field: 'availability', slot_count: data.slots.length, blackout_dates: data.blackoutDates }
+      })
+
+    // Revalidate relevant pages
+    revalidatePath('/admin')
+    revalidatePath(`/admin/chefs/${chefId}`)
+    revalidatePath(`/chef/${chefId}`)
+    revalidatePath('/')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updateChefAvailability:', error)
+    return { success: false, error: 'Failed to update availability' }
+  }
+}
+
+/**
+ * Add a dish to a chef's menu, or update it when dishId is given
+ */
+export async function saveChefDish(chefId: string, data: DishInput, dishId?: string) {
+  try {
+    const error = await upsertChefDish(chefId, data, dishId)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Log the change
+    await supabase
+      .from('chef_audit_log')
+      .insert({
+        chef_id: chefId,
+        action: 'updated',
+        metadata: { field: 'menu', dish: data.name.trim(), dish_id: dishId || null }
+      })
+
+    revalidateChefMenu(chefId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in saveChefDish:', error)
+    return { success: false, error: 'Failed to save dish' }
+  }
+}
+
+/**
+ * Remove a dish from a chef's menu
+ */
+export async function deleteChefDish(chefId: string, dishId: string) {
+  try {
+    const error = await removeChefDish(chefId, dishId)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Log the change
+    await supabase
+      .from('chef_audit_log')
+      .insert({
+        chef_id: chefId,
+        action: 'updated',
+        metadata: { field: 'menu', deleted_dish_id: dishId }
+      })
+
+    revalidateChefMenu(chefId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deleteChefDish:', error)
+    return { success: false, error: 'Failed to delete dish' }
+  }
+}
+
+/**
+ * Save the order of a chef's menu
+ */
+export async function updateChefDishOrder(chefId: string, dishIds: string[]) {
+  try {
+    const error = await reorderChefDishes(chefId, dishIds)
+    if (error) {
+      return { success: false, error }
+    }
+
+    revalidateChefMenu(chefId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updateChefDishOrder:', error)
+    return { success: false, error: 'Failed to reorder dishes' }
+  }
+}
+
+function revalidateChefMenu(chefId: string) {
+  revalidatePath(`/admin/chefs/${chefId}`)
+  revalidatePath(`/chef/${chefId}`)
+  revalidatePath('/')
+}
+
 /**
  * Update chef publication status (published/unpublished)
  */
@@ -720,9 +1325,8 @@ export async function deleteChefPhoto(photoId: string, chefId: string) {
       return { success: false, error: deleteError.message }
     }
 
-    // TODO: Delete actual file from storage
-    // This would involve extracting the file path from photo_url and using storage.remove()
-    // For now, we'll just log it for future implementation
+    // The file and its variants are deleted by /api/cron/storage-gc once
+    // nothing references them
 
     // Update chef timestamp
     await supabase
@@ -835,11 +1439,8 @@ export async function deleteChefPermanently(chefId: string) {
       return { success: false, error: deleteError.message }
     }
 
-    // TODO: Delete associated files from storage
-    // This would involve:
-    // 1. Deleting profile photo from storage
-    // 2. Deleting all food photos from storage
-    // For now, we'll just log it for future implementation
+    // The chef's photos and videos are deleted by /api/cron/storage-gc once
+    // nothing references them
 
     // Revalidate relevant pages
     revalidatePath('/admin')
@@ -874,36 +1475,21 @@ export async function replaceChefProfilePhoto(chefId: string, formData: FormData
       return { success: false, error: 'File too large. Please upload images smaller than 25MB.' }
     }
 
-    // Generate unique filename with more entropy
-    const fileExt = file.name.split('.').pop()
-    const timestamp = Date.now()
-    const random = Math.random().toString(36).substring(2, 15)
-    const fileName = `chefs/${chefId}/profile/${timestamp}_${random}.${fileExt}`
-
-    // Upload to storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('chef-applications')
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: true
-      })
+    // Upload to the chef's folder in the chefs bucket
+    const { url: photoUrl, variants: photoVariants, error: uploadError } = await uploadChefMedia(supabase, chefId, 'profile', file)
 
-    if (uploadError) {
+    if (uploadError || !photoUrl) {
       console.error('Storage upload error:', uploadError)
       console.error('File details:', { name: file.name, size: file.size, type: file.type })
-      return { success: false, error: `Failed to upload photo. ${uploadError.message || 'Please try again.'}` }
+      return { success: false, error: `Failed to upload photo. ${uploadError?.message || 'Please try again.'}` }
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('chef-applications')
-      .getPublicUrl(fileName)
-
     // Update chef record
     const { error: updateError } = await supabase
       .from('chefs')
       .update({
-        photo_url: urlData.publicUrl,
+        photo_url: photoUrl,
+        photo_variants: photoVariants,
         updated_at: new Date().toISOString()
       })
       .eq('id', chefId)
@@ -919,7 +1505,7 @@ export async function replaceChefProfilePhoto(chefId: string, formData: FormData
       .insert({
         chef_id: chefId,
         action: 'updated',
-        metadata: { field: 'profile_photo', new_value: urlData.publicUrl }
+        metadata: { field: 'profile_photo', new_value: photoUrl }
       })
 
     // Revalidate relevant pages
@@ -928,7 +1514,7 @@ export async function replaceChefProfilePhoto(chefId: string, formData: FormData
     revalidatePath(`/chef/${chefId}`)
     revalidatePath('/')
 
-    return { success: true, photo_url: urlData.publicUrl }
+    return { success: true, photo_url: photoUrl }
   } catch (error) {
     console.error('Error in replaceChefProfilePhoto:', error)
     return { success: false, error: 'Failed to replace profile photo' }
@@ -965,23 +1551,14 @@ export async function addChefFoodPhotos(chefId: string, formData: FormData) {
     // Upload each file
     for (let i = 0; i < files.length; i++) {
       const file = files[i]
-      const fileExt = file.name.split('.').pop()
-      const timestamp = Date.now()
-      const random = Math.random().toString(36).substring(2, 15)
-      const fileName = `chefs/${chefId}/food/${timestamp}_${random}_${i}.${fileExt}`
-
-      // Upload to storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('chef-applications')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false
-        })
-
-      if (uploadError) {
+
+      // Upload to the chef's folder in the chefs bucket
+      const { url: photoUrl, variants, error: uploadError } = await uploadChefMedia(supabase, chefId, 'food', file)
+
+      if (uploadError || !photoUrl) {
         console.error('Storage upload error:', uploadError)
         console.error('File details:', { name: file.name, size: file.size, type: file.type })
-        return { success: false, error: `Failed to upload ${file.name}. ${uploadError.message || 'Please try again.'}` }
+        return { success: false, error: `Failed to upload ${file.name}. ${uploadError?.message || 'Please try again.'}` }
       }
 
       // Small delay between uploads to prevent overwhelming the server
@@ -989,13 +1566,9 @@ export async function addChefFoodPhotos(chefId: string, formData: FormData) {
         await new Promise(resolve => setTimeout(resolve, 100))
       }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('chef-applications')
-        .getPublicUrl(fileName)
-
       uploadedPhotos.push({
-        photo_url: urlData.publicUrl,
+        photo_url: photoUrl,
+        variants,
         display_order: i
       })
     }
@@ -1014,6 +1587,7 @@ export async function addChefFoodPhotos(chefId: string, formData: FormData) {
     const photoRecords = uploadedPhotos.map((photo, index) => ({
       chef_id: chefId,
       photo_url: photo.photo_url,
+      variants: photo.variants,
       display_order: maxOrder + index + 1
     }))
 
@@ -1051,4 +1625,398 @@ export async function addChefFoodPhotos(chefId: string, formData: FormData) {
     console.error('Error in addChefFoodPhotos:', error)
     return { success: false, error: 'Failed to add food photos' }
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Approve or reject a sensitive profile change submitted from the chef portal
+ *
+ * @param requestId - UUID of the chef_profile_change_requests row
+ * @param decision - 'approve' applies the changes to the chef profile
+ * @param notes - Optional note shown to the chef in their portal
+ */
+export async function reviewChefChangeRequest(requestId: string, decision: 'approve' | 'reject', notes?: string) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: request, error: fetchError } = await supabase
+      .from('chef_profile_change_requests')
+      .select('*')
+      .eq('id', requestId)
+      .single()
+
+    if (fetchError || !request) {
+      return { success: false, error: 'Change request not found' }
+    }
+
+    if (request.status !== 'pending') {
+      return { success: false, error: 'Change request has already been processed' }
+    }
+
+    // Only ever apply the fields the portal is allowed to request
+    const changes = request.changes as Record<string, number | null>
+    const updates = Object.fromEntries(
+      Object.entries(changes).filter(([field]) => (SENSITIVE_FIELDS as readonly string[]).includes(field))
+    )
+
+    if (decision === 'approve' && Object.keys(updates).length > 0) {
+      const { error: updateError } = await supabase
+        .from('chefs')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', request.chef_id)
+
+      if (updateError) {
+        console.error('Error applying change request:', updateError)
+        return { success: false, error: updateError.message }
+      }
+    }
+
+    // Guarded on status so a concurrent portal save can't be overwritten
+    const { error: statusError } = await supabase
+      .from('chef_profile_change_requests')
+      .update({
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        review_notes: notes?.trim() || null,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+
+    if (statusError) {
+      console.error('Error updating change request status:', statusError)
+      return { success: false, error: statusError.message }
+    }
+
+    // Log the decision
+    await supabase
+      .from('chef_audit_log')
+      .insert({
+        chef_id: request.chef_id,
+        action: decision === 'approve' ? 'change_approved' : 'change_rejected',
+        metadata: { request_id: requestId, changes, previous_values: request.previous_values, notes: notes?.trim() || null }
+      })
+
+    // Revalidate relevant pages
+    revalidatePath('/admin')
+    revalidatePath(`/admin/chefs/${request.chef_id}`)
+    revalidatePath('/chef-portal')
+    if (decision === 'approve') {
+      revalidatePath(`/chef/${request.chef_id}`)
+      revalidatePath('/')
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in reviewChefChangeRequest:', error)
+    return { success: false, error: 'Failed to process change request' }
+  }
+}
+
+/**
+ * Approve or reject a verification document uploaded from the chef portal
+ *
+ * Approved documents show as a check on the chef's card and page from their
+ * issue date until they expire.
+ *
+ * @param documentId - UUID of the chef_documents row
+ * @param decision - 'approve' or 'reject'
+ * @param notes - Optional note shown to the chef in their portal
+ */
+export async function reviewChefDocument(documentId: string, decision: 'approve' | 'reject', notes?: string) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    // Guarded on status so a document withdrawn by the chef isn't revived
+    const { data: document, error: updateError } = await supabase
+      .from('chef_documents')
+      .update({
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        review_notes: notes?.trim() || null,
+        reviewed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', documentId)
+      .eq('status', 'pending')
+      .select('chef_id, document_type, expires_on')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Error updating chef document:', updateError)
+      return { success: false, error: updateError.message }
+    }
+
+    if (!document) {
+      return { success: false, error: 'Document not found or already reviewed' }
+    }
+
+    // Log the decision
+    await supabase
+      .from('chef_audit_log')
+      .insert({
+        chef_id: document.chef_id,
+        action: decision === 'approve' ? 'document_approved' : 'document_rejected',
+        metadata: {
+          document_id: documentId,
+          document_type: document.document_type,
+          expires_on: document.expires_on,
+          notes: notes?.trim() || null
+        }
+      })
+
+    // Revalidate relevant pages
+    revalidatePath(`/admin/chefs/${document.chef_id}`)
+    revalidatePath('/chef-portal')
+    if (decision === 'approve') {
+      revalidatePath(`/chef/${document.chef_id}`)
+      revalidatePath('/')
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in reviewChefDocument:', error)
+    return { success: false, error: 'Failed to review document' }
+  }
+}
+
+// =============================================================================
+// APPLICATION QUESTION ACTIONS
+// =============================================================================
+
+/**
+ * Create an application question, or update it when questionId is given
+ *
+ * New questions go to the end of the form. Each change records a new
+ * question set version.
+ */
+export async function saveChefQuestion(data: QuestionInput, questionId?: string) {
+  try {
+    const validationError = validateQuestion(data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const supabase = createSupabaseAdminClient()
+    const text = data.text.trim()
+
+    // Answers are stored under the key, so it has to be unique
+    if (!questionId) {
+      const { count: duplicates } = await supabase
+        .from('chef_questions')
+        .select('id', { count: 'exact', head: true })
+        .eq('key', data.key)
+
+      if (duplicates && duplicates > 0) {
+        return { success: false, error: 'Another question already uses this key' }
+      }
+    }
+
+    // Follow-ups can only depend on a yes/no or select question, and on one
+    // of its answers
+    if (data.showIfKey) {
+      const { data: parent } = await supabase
+        .from('chef_questions')
+        .select('field_type, options')
+        .eq('key', data.showIfKey)
+        .maybeSingle()
+
+      if (!parent || !CONDITION_FIELD_TYPES.includes(parent.field_type)) {
+        return { success: false, error: 'Follow-ups can only depend on a yes/no or choice question' }
+      }
+
+      const parentValues: string[] = parent.field_type === 'yes_no'
+        ? YES_NO_OPTIONS.map(option => option.value)
+        : parent.options || []
+      if (!data.showIfValue || !parentValues.includes(data.showIfValue)) {
+        return { success: false, error: 'Choose one of that question\'s answers' }
+      }
+    }
+
+    const fields = {
+      text,
+      hint_text: data.hintText.trim() || null,
+      field_type: data.fieldType,
+      is_required: data.isRequired,
+      is_visible: data.isVisible,
+      options: OPTION_FIELD_TYPES.includes(data.fieldType)
+        ? data.options.map(option => option.trim()).filter(Boolean)
+        : [],
+      show_if_key: data.showIfKey || null,
+      show_if_value: data.showIfKey ? data.showIfValue : null,
+      updated_at: new Date().toISOString()
+    }
+
+    if (questionId) {
+      const { data: existing } = await supabase
+        .from('chef_questions')
+        .select('key, field_type, is_required, is_visible')
+        .eq('id', questionId)
+        .maybeSingle()
+
+      if (!existing) {
+        return { success: false, error: 'Question not found' }
+      }
+
+      if (isLockedQuestionKey(existing.key) && (
+        data.fieldType !== existing.field_type ||
+        data.isRequired !== existing.is_required ||
+        (existing.is_visible && !data.isVisible)
+      )) {
+        return { success: false, error: 'The app reads this question\'s answer, so its field type, required setting and visibility can\'t be changed' }
+      }
+
+      // Keys are fixed once created - existing answers depend on them
+      const { error: updateError } = await supabase
+        .from('chef_questions')
+        .update(fields)
+        .eq('id', questionId)
+
+      if (updateError) {
+        console.error('Error updating question:', updateError)
+        return { success: false, error: updateError.message }
+      }
+    } else {
+      const { data: lastQuestion } = await supabase
+        .from('chef_questions')
+        .select('display_order')
+        .order('display_order', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const { error: insertError } = await supabase
+        .from('chef_questions')
+        .insert({ ...fields, key: data.key, display_order: (lastQuestion?.display_order || 0) + 1 })
+
+      if (insertError) {
+        console.error('Error creating question:', insertError)
+        return { success: false, error: insertError.message }
+      }
+    }
+
+    const version = await snapshotQuestionSet(supabase)
+    revalidateQuestions()
+
+    return { success: true, version }
+  } catch (error) {
+    console.error('Error in saveChefQuestion:', error)
+    return { success: false, error: 'Failed to save question' }
+  }
+}
+
+/**
+ * Show or hide an application question without deleting it
+ */
+export async function setChefQuestionVisibility(questionId: string, isVisible: boolean) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    if (!isVisible) {
+      const { data: question } = await supabase
+        .from('chef_questions')
+        .select('key')
+        .eq('id', questionId)
+        .maybeSingle()
+
+      if (question && isLockedQuestionKey(question.key)) {
+        return { success: false, error: 'The app reads this question\'s answer, so it can\'t be hidden' }
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('chef_questions')
+      .update({ is_visible: isVisible, updated_at: new Date().toISOString() })
+      .eq('id', questionId)
+
+    if (updateError) {
+      console.error('Error updating question visibility:', updateError)
+      return { success: false, error: updateError.message }
+    }
+
+    const version = await snapshotQuestionSet(supabase)
+    revalidateQuestions()
+
+    return { success: true, version }
+  } catch (error) {
+    console.error('Error in setChefQuestionVisibility:', error)
+    return { success: false, error: 'Failed to update question' }
+  }
+}
+
+/**
+ * Save the order of the application questions
+ *
+ * @param questionIds - Every question ID, in the new order
+ */
+export async function reorderChefQuestions(questionIds: string[]) {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: questions, error: fetchError } = await supabase
+      .from('chef_questions')
+      .select('id')
+
+    if (fetchError) {
+      console.error('Error fetching questions:', fetchError)
+      return { success: false, error: fetchError.message }
+    }
+
+    const existingIds = new Set((questions || []).map(q => q.id))
+    if (questionIds.length !== existingIds.size || !questionIds.every(id => existingIds.has(id))) {
+      return { success: false, error: 'The question list has changed. Please refresh and try again.' }
+    }
+
+    const now = new Date().toISOString()
+    for (let i = 0; i < questionIds.length; i++) {
+      const { error: updateError } = await supabase
+        .from('chef_questions')
+        .update({ display_order: i + 1, updated_at: now })
+        .eq('id', questionIds[i])
+
+      if (updateError) {
+        console.error('Error reordering questions:', updateError)
+        return { success: false, error: updateError.message }
+      }
+    }
+
+    const version = await snapshotQuestionSet(supabase)
+    revalidateQuestions()
+
+    return { success: true, version }
+  } catch (error) {
+    console.error('Error in reorderChefQuestions:', error)
+    return { success: false, error: 'Failed to reorder questions' }
+  }
+}
+
+async function snapshotQuestionSet(supabase: ReturnType<typeof createSupabaseAdminClient>): Promise<number | null> {
+  const { data: version, error } = await supabase.rpc('snapshot_chef_questions')
+
+  if (error) {
+    console.error('Error snapshotting question set:', error)
+    // Continue anyway - the question change itself is saved
+    return null
+  }
+
+  return version
+}
+
+function revalidateQuestions() {
+  revalidatePath('/admin/questions')
+  revalidatePath('/apply')
+}
+
+/**
+ * Run storage garbage collection now, from the storage report
+ *
+ * @param dryRun - Only report unreferenced files, don't delete them
+ */
+export async function runStorageCleanup(dryRun: boolean) {
+  try {
+    const result = await runStorageGc({ dryRun })
+
+    revalidatePath('/admin/storage')
+
+    return { success: true, result }
+  } catch (error) {
+    console.error('Error in runStorageCleanup:', error)
+    return { success: false, error: 'Storage clean-up failed. See the report for details.' }
+  }
+}
@@ -4,7 +4,22 @@ import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { approveApplication, rejectApplication, updateApplicationNotes } from '@/app/admin/actions'
+import {
+  approveApplication,
+  rejectApplication,
+  updateApplicationNotes,
+} from '@/app/admin/actions'
+import { QUESTION_KEYS, formatAnswer } from '@/lib/application-questions'
+import {
+  APPLICATION_STATUS_LABELS,
+  isOpenApplicationStatus,
+  type ApplicationMessage,
+  type ApplicationStatus,
+} from '@/lib/application-status'
+import { STORAGE_CONFIG, type FileUploadResult } from '@/lib/storage'
+import { signApplicationFiles, signApplicationUploads } from '@/lib/application-files-server'
+import { DUPLICATE_REASON_LABELS, duplicateMatchPath, type DuplicateMatch } from '@/lib/application-duplicates'
+import InformationRequestForm from '@/components/admin/information-request-form'
 
 /**
  * Individual Chef Application Review Page
@@ -17,11 +32,22 @@ import { approveApplication, rejectApplication, updateApplicationNotes } from '@
  * - Complete application data display
  * - Approve/reject workflow with server actions
  * - Admin notes functionality with auto-save
- * - Application timeline and audit trail
+ * - Requests for more information, answered on the applicant's status page
+ * - Application timeline covering every request and response
+ * - Likely duplicates of earlier applications and existing chefs
  * - Photo upload placeholders for future implementation
  * - Responsive design with proper error handling
  */
 
+interface TimelineEntry {
+  key: string
+  title: string
+  at: string
+  dotClass: string
+  body?: string
+  files?: FileUploadResult[]
+}
+
 interface ApplicationPageProps {
   params: { id: string }
 }
@@ -43,6 +69,56 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
 
   const answers = application.answers as Record<string, any>
 
+  // Answers to questions without a dedicated section above, labelled with
+  // the current question text where the question still exists
+  const shownKeys = new Set<string>([
+    QUESTION_KEYS.FULL_NAME, QUESTION_KEYS.EMAIL, QUESTION_KEYS.PHONE, QUESTION_KEYS.HOURLY_RATE,
+    QUESTION_KEYS.BIO, QUESTION_KEYS.EXPERIENCE_YEARS, QUESTION_KEYS.AVAILABILITY, QUESTION_KEYS.LANGUAGES_SPOKEN,
+    QUESTION_KEYS.LOCATION, QUESTION_KEYS.TRAVEL_DISTANCE, QUESTION_KEYS.FREQUENCY_PREFERENCE,
+    QUESTION_KEYS.MINIMUM_BOOKING, QUESTION_KEYS.SPECIAL_EVENTS, QUESTION_KEYS.HOUSE_HELP_SERVICES,
+    QUESTION_KEYS.DIETARY_SPECIALTIES,
+  ])
+  const { data: questionLabels } = await supabase
+    .from('chef_questions')
+    .select('key, text')
+  const labelByKey = new Map((questionLabels || []).map(q => [q.key, q.text]))
+  const otherAnswers = Object.entries(answers).filter(([key]) => !shownKeys.has(key))
+
+  const { data: messageRows } = await supabase
+    .from('chef_application_messages')
+    .select('id, sender, body, file_uploads, created_at')
+    .eq('application_id', application.id)
+    .order('created_at', { ascending: true })
+  // Application files are private - sign them for display
+  const fileUploads = await signApplicationUploads(supabase, application.file_uploads)
+  const messages = await Promise.all(
+    ((messageRows || []) as ApplicationMessage[]).map(async message => ({
+      ...message,
+      file_uploads: await signApplicationFiles(supabase, message.file_uploads),
+    }))
+  )
+  const status = application.status as ApplicationStatus
+  const duplicateMatches = (application.duplicate_matches || []) as DuplicateMatch[]
+  const canRequestInformation = status === 'pending' && !!application.status_token
+
+  const timeline: TimelineEntry[] = [
+    { key: 'submitted', title: 'Application Submitted', at: application.created_at, dotClass: 'bg-blue-500' },
+    ...messages.map(message => ({
+      key: message.id,
+      title: message.sender === 'admin' ? 'Information Requested' : 'Applicant Responded',
+      at: message.created_at,
+      dotClass: message.sender === 'admin' ? 'bg-orange-500' : 'bg-purple-500',
+      body: message.body,
+      files: message.file_uploads,
+    })),
+    ...(application.approved_at
+      ? [{ key: 'approved', title: 'Application Approved', at: application.approved_at, dotClass: 'bg-green-500' }]
+      : []),
+    ...(application.rejected_at
+      ? [{ key: 'rejected', title: 'Application Rejected', at: application.rejected_at, dotClass: 'bg-red-500' }]
+      : []),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-4xl mx-auto px-4 py-8">
@@ -62,19 +138,24 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
               <p className="text-gray-600 mt-1">
                 Submitted {new Date(application.created_at).toLocaleDateString()} at{' '}
                 {new Date(application.created_at).toLocaleTimeString()}
+                {application.question_set_version && (
+                  <span> · question set version {application.question_set_version}</span>
+                )}
               </p>
             </div>
             <Badge 
               variant="outline" 
               className={
-                application.status === 'pending' 
+                status === 'pending' 
                   ? 'bg-yellow-50 text-yellow-800 border-yellow-200'
-                  : application.status === 'approved'
+                  : status === 'information_requested'
+                  ? 'bg-orange-50 text-orange-800 border-orange-200'
+                  : status === 'approved'
                   ? 'bg-green-50 text-green-800 border-green-200'
                   : 'bg-red-50 text-red-800 border-red-200'
               }
             >
-              {application.status.charAt(0).toUpperCase() + application.status.slice(1)}
+              {APPLICATION_STATUS_LABELS[status]}
             </Badge>
           </div>
         </div>
@@ -89,25 +170,25 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Full Name'] || 'Not provided'}
+                    {answers[QUESTION_KEYS.FULL_NAME] || 'Not provided'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Email Address</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Email Address'] || 'Not provided'}
+                    {answers[QUESTION_KEYS.EMAIL] || 'Not provided'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Phone Number</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Phone Number'] || 'Not provided'}
+                    {answers[QUESTION_KEYS.PHONE] || 'Not provided'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Hourly Rate</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    £{answers['Hourly Rate (£)'] || 'Not specified'}/hour
+                    £{answers[QUESTION_KEYS.HOURLY_RATE] || 'Not specified'}/hour
                   </p>
                 </div>
               </div>
@@ -118,7 +199,7 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
               <h2 className="text-xl font-semibold text-gray-900 mb-4">Bio/About</h2>
               <div className="bg-gray-50 p-4 rounded-md">
                 <p className="text-gray-900 whitespace-pre-wrap">
-                  {answers['Bio/About You'] || 'No bio provided'}
+                  {answers[QUESTION_KEYS.BIO] || 'No bio provided'}
                 </p>
               </div>
             </div>
@@ -131,43 +212,43 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Experience Years</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Experience Years'] ? `${answers['Experience Years']} years` : 'Not specified'}
+                    {answers[QUESTION_KEYS.EXPERIENCE_YEARS] ? `${answers[QUESTION_KEYS.EXPERIENCE_YEARS]} years` : 'Not specified'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Availability</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Availability'] || 'Not specified'}
+                    {formatAnswer(QUESTION_KEYS.AVAILABILITY, answers[QUESTION_KEYS.AVAILABILITY]) || 'Not specified'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Languages Spoken</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Languages Spoken'] || 'Not specified'}
+                    {formatAnswer(QUESTION_KEYS.LANGUAGES_SPOKEN, answers[QUESTION_KEYS.LANGUAGES_SPOKEN]) || 'Not specified'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Location/Area</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Location/Area'] || 'Not specified'}
+                    {answers[QUESTION_KEYS.LOCATION] || 'Not specified'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Travel Distance</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Travel Distance'] ? `${answers['Travel Distance']} miles` : 'Not specified'}
+                    {answers[QUESTION_KEYS.TRAVEL_DISTANCE] ? `${answers[QUESTION_KEYS.TRAVEL_DISTANCE]} miles` : 'Not specified'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Frequency Preference</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Frequency Preference'] || 'Not specified'}
+                    {answers[QUESTION_KEYS.FREQUENCY_PREFERENCE] || 'Not specified'}
                   </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Booking</label>
                   <p className="text-gray-900 bg-gray-50 p-3 rounded-md">
-                    {answers['Minimum Booking'] ? `${answers['Minimum Booking']} hours` : 'Not specified'}
+                    {answers[QUESTION_KEYS.MINIMUM_BOOKING] ? `${answers[QUESTION_KEYS.MINIMUM_BOOKING]} hours` : 'Not specified'}
                   </p>
                 </div>
               </div>
@@ -181,7 +262,7 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                   <label className="block text-sm font-medium text-gray-700 mb-1">Special Events</label>
                   <div className="bg-gray-50 p-3 rounded-md">
                     <p className="text-gray-900">
-                      {answers['Special Events'] || 'Not specified'}
+                      {answers[QUESTION_KEYS.SPECIAL_EVENTS] || 'Not specified'}
                     </p>
                   </div>
                 </div>
@@ -189,7 +270,7 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                   <label className="block text-sm font-medium text-gray-700 mb-1">House Help Services</label>
                   <div className="bg-gray-50 p-3 rounded-md">
                     <p className="text-gray-900">
-                      {answers['House Help Services'] || 'Not specified'}
+                      {formatAnswer(QUESTION_KEYS.HOUSE_HELP_SERVICES, answers[QUESTION_KEYS.HOUSE_HELP_SERVICES]) || 'Not specified'}
                     </p>
                   </div>
                 </div>
@@ -197,23 +278,44 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                   <label className="block text-sm font-medium text-gray-700 mb-1">Dietary Specialties</label>
                   <div className="bg-gray-50 p-3 rounded-md">
                     <p className="text-gray-900">
-                      {answers['Dietary Specialties'] || 'Not specified'}
+                      {formatAnswer(QUESTION_KEYS.DIETARY_SPECIALTIES, answers[QUESTION_KEYS.DIETARY_SPECIALTIES]) || 'Not specified'}
                     </p>
                   </div>
                 </div>
               </div>
             </div>
 
+            {otherAnswers.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Other Answers</h2>
+                <div className="space-y-4">
+                  {otherAnswers.map(([key, value]) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{labelByKey.get(key) || key}</label>
+                      <p className="text-gray-900 bg-gray-50 p-3 rounded-md whitespace-pre-wrap">{formatAnswer(key, value)}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Photo Uploads */}
             <div className="bg-white rounded-lg shadow-sm p-6">
               <h2 className="text-xl font-semibold text-gray-900 mb-4">Photos</h2>
+              {application.files_purged_at && (
+                <p className="text-sm text-gray-500 mb-4">
+                  Application files were deleted on {new Date(application.files_purged_at).toLocaleDateString()},{' '}
+                  {STORAGE_CONFIG.RETENTION_DAYS} days after a decision.
+                  {application.chef_id && ' The chef profile keeps its own copies.'}
+                </p>
+              )}
               <div className="space-y-6">
                 {/* Profile Photos */}
                 <div>
                   <h3 className="text-lg font-medium text-gray-800 mb-3">Profile Photo</h3>
-                  {application.file_uploads?.profile_photos && application.file_uploads.profile_photos.length > 0 ? (
+                  {fileUploads.profile_photos.length > 0 ? (
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-                      {application.file_uploads.profile_photos.map((photo: any, index: number) => (
+                      {fileUploads.profile_photos.map((photo: any, index: number) => (
                         <div key={index} className="relative group">
                           <div className="aspect-square rounded-lg overflow-hidden bg-gray-100">
                             <img
@@ -240,9 +342,9 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                 {/* Food Photos */}
                 <div>
                   <h3 className="text-lg font-medium text-gray-800 mb-3">Food Photos</h3>
-                  {application.file_uploads?.food_photos && application.file_uploads.food_photos.length > 0 ? (
+                  {fileUploads.food_photos.length > 0 ? (
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                      {application.file_uploads.food_photos.map((photo: any, index: number) => (
+                      {fileUploads.food_photos.map((photo: any, index: number) => (
                         <div key={index} className="relative group">
                           <div className="aspect-square rounded-lg overflow-hidden bg-gray-100">
                             <img
@@ -269,9 +371,9 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                 {/* Introduction Videos */}
                 <div>
                   <h3 className="text-lg font-medium text-gray-800 mb-3">Introduction Video</h3>
-                  {application.file_uploads?.introduction_videos && application.file_uploads.introduction_videos.length > 0 ? (
+                  {fileUploads.introduction_videos.length > 0 ? (
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                      {application.file_uploads.introduction_videos.map((video: any, index: number) => (
+                      {fileUploads.introduction_videos.map((video: any, index: number) => (
                         <div key={index} className="relative group">
                           <div className="aspect-video rounded-lg overflow-hidden bg-gray-100">
                             <video
@@ -303,12 +405,49 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
 
           {/* Action Panel - Right Column */}
           <div className="space-y-6">
+            {/* Possible Duplicates */}
+            {duplicateMatches.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-1">Possible Duplicates</h2>
+                <p className="text-sm text-gray-600 mb-4">Found when this application was submitted</p>
+                <div className="space-y-3">
+                  {duplicateMatches.map(match => (
+                    <div key={`${match.match_type}-${match.match_id}`} className="text-sm">
+                      <Link
+                        href={duplicateMatchPath(match)}
+                        className="font-medium text-blue-600 hover:text-blue-700 underline"
+                      >
+                        {match.name || 'No Name'}
+                      </Link>
+                      <span className="text-gray-500">
+                        {' '}· {match.match_type === 'chef' ? 'Chef' : 'Application'} ({match.status.replace('_', ' ')}), {new Date(match.created_at).toLocaleDateString()}
+                      </span>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {match.reasons.map(reason => (
+                          <Badge key={reason} variant="outline" className="bg-white text-amber-800 border-amber-300">
+                            {DUPLICATE_REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Status & Actions */}
             <div className="bg-white rounded-lg shadow-sm p-6">
               <h2 className="text-xl font-semibold text-gray-900 mb-4">Actions</h2>
               
-              {application.status === 'pending' ? (
+              {isOpenApplicationStatus(status) ? (
                 <div className="space-y-3">
+                  {status === 'information_requested' && (
+                    <p className="text-sm text-orange-700 bg-orange-50 rounded-md p-3">
+                      Waiting for the applicant to respond to your request for information.
+                    </p>
+                  )}
+
+
                   <form action={approveApplication.bind(null, application.id)}>
                     <Button 
                       type="submit"
@@ -327,6 +466,10 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
                       ✗ Reject Application
                     </Button>
                   </form>
+
+                  {canRequestInformation && (
+                    <InformationRequestForm applicationId={application.id} />
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-4">
@@ -367,43 +510,38 @@ export default async function ApplicationReviewPage({ params }: ApplicationPageP
             {/* Application Timeline */}
             <div className="bg-white rounded-lg shadow-sm p-6">
               <h2 className="text-xl font-semibold text-gray-900 mb-4">Timeline</h2>
-              <div className="space-y-3">
-                <div className="flex items-center text-sm">
-                  <div className="w-2 h-2 bg-blue-500 rounded-full mr-3"></div>
-                  <div>
-                    <p className="font-medium text-gray-900">Application Submitted</p>
-                    <p className="text-gray-600">
-                      {new Date(application.created_at).toLocaleDateString()} at{' '}
-                      {new Date(application.created_at).toLocaleTimeString()}
-                    </p>
-                  </div>
-                </div>
-                
-                {application.approved_at && (
-                  <div className="flex items-center text-sm">
-                    <div className="w-2 h-2 bg-green-500 rounded-full mr-3"></div>
-                    <div>
-                      <p className="font-medium text-gray-900">Application Approved</p>
-                      <p className="text-gray-600">
-                        {new Date(application.approved_at).toLocaleDateString()} at{' '}
-                        {new Date(application.approved_at).toLocaleTimeString()}
-                      </p>
-                    </div>
-                  </div>
-                )}
-                
-                {application.rejected_at && (
-                  <div className="flex items-center text-sm">
-                    <div className="w-2 h-2 bg-red-500 rounded-full mr-3"></div>
-                    <div>
-                      <p className="font-medium text-gray-900">Application Rejected</p>
+              <div className="space-y-4">
+                {timeline.map(entry => (
+                  <div key={entry.key} className="flex items-start text-sm">
+                    <div className={`w-2 h-2 ${entry.dotClass} rounded-full mr-3 mt-1.5 flex-shrink-0`}></div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{entry.title}</p>
                       <p className="text-gray-600">
-                        {new Date(application.rejected_at).toLocaleDateString()} at{' '}
-                        {new Date(application.rejected_at).toLocaleTimeString()}
+                        {new Date(entry.at).toLocaleDateString()} at{' '}
+                        {new Date(entry.at).toLocaleTimeString()}
                       </p>
+                      {entry.body && (
+                        <p className="text-gray-700 whitespace-pre-wrap mt-1">{entry.body}</p>
+                      )}
+                      {entry.files && entry.files.length > 0 && (
+                        <ul className="mt-1 space-y-1">
+                          {entry.files.map(file => (
+                            <li key={file.fileName}>
+                              <a
+                                href={file.fileUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 hover:text-blue-700 underline break-all"
+                              >
+                                {file.fileName?.split('/').pop() || 'Uploaded file'}
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
-                )}
+                ))}
               </div>
             </div>
           </div>
@@ -12,6 +12,18 @@ import ChefCuisinesForm from '@/components/admin/chef-cuisines-form'
 import ChefStatusForm from '@/components/admin/chef-status-form'
 import ChefDeleteForm from '@/components/admin/chef-delete-form'
 import ChefPhotoUpload from '@/components/admin/chef-photo-upload'
+import ChefChangeRequests from '@/components/admin/chef-change-requests'
+import ChefDocumentsReview from '@/components/admin/chef-documents-review'
+import AvailabilityEditor from '@/components/availability-editor'
+import { updateChefAvailability } from '@/app/admin/actions'
+import { toAvailabilitySlot, toDateString } from '@/lib/availability'
+import DishMenuEditor from '@/components/dish-menu-editor'
+import { deleteChefDish, saveChefDish, updateChefDishOrder } from '@/app/admin/actions'
+import { sortDishes, toDish } from '@/lib/dishes'
+import type { ChefChangeRequest } from '@/lib/chef-portal'
+import { CHEF_VIDEO_STATUS_LABELS, type ChefVideo } from '@/lib/chef-videos'
+import { CHEF_DOCUMENT_CONFIG, type ChefDocument } from '@/lib/chef-documents'
+import { signChefDocuments } from '@/lib/chef-documents-server'
 
 /**
  * Chef Editor Page
@@ -19,8 +31,13 @@ import ChefPhotoUpload from '@/components/admin/chef-photo-upload'
  * Allows admins to edit chef profiles after approval, including:
  * - Contact information (name, phone, hourly rate, bio)
  * - Cuisine specialties management
+ * - Weekly availability slots and blackout dates
+ * - Dish menu with dietary tags and allergens
  * - Photo management (profile and food photos)
+ * - Introduction video processing status
+ * - Review of verification documents uploaded from the chef portal
  * - Publication status control
+ * - Approval of rate changes submitted from the chef portal
  * - Safe deletion with confirmation
  * 
  * Features:
@@ -53,8 +70,10 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
       status,
       photo_url,
       location_label,
+      location_outcode,
       experience_years,
       availability,
+      availability_needs_review,
       languages_spoken,
       travel_distance,
       frequency_preference,
@@ -66,7 +85,11 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
       updated_at,
       updated_by,
       chef_cuisines(id, cuisine),
-      food_photos(id, photo_url, display_order)
+      food_photos(id, photo_url, display_order),
+      chef_videos(id, video_url, poster_url, status, duration_seconds, processing_error, display_order),
+      chef_availability_slots(day_of_week, start_time, end_time),
+      chef_blackout_dates(blackout_date),
+      chef_dishes(id, name, description, food_photo_id, dietary_tags, allergens, display_order, food_photos(photo_url))
     `)
     .eq('id', id)
     .single()
@@ -85,9 +108,33 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
     .order('created_at', { ascending: false })
     .limit(10)
 
+  // Rate changes chefs have requested from the chef portal
+  const { data: changeRequests } = await supabase
+    .from('chef_profile_change_requests')
+    .select('*')
+    .eq('chef_id', id)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+
+  // Verification documents, newest first - files are private, so sign them
+  const { data: documentsData } = await supabase
+    .from('chef_documents')
+    .select('*')
+    .eq('chef_id', id)
+    .order('created_at', { ascending: false })
+    .limit(CHEF_DOCUMENT_CONFIG.HISTORY_LIMIT)
+
+  const documents = await signChefDocuments(supabase, documentsData as ChefDocument[] | null)
+  const pendingDocuments = documents.filter(document => document.status === 'pending').length
+
   // Transform data for easier handling
   const cuisines = chef.chef_cuisines?.map(c => c.cuisine) || []
+  const availabilitySlots = chef.chef_availability_slots?.map(toAvailabilitySlot) || []
+  const today = toDateString(new Date())
+  const blackoutDates = chef.chef_blackout_dates?.map(b => b.blackout_date).filter(date => date >= today) || []
+  const dishes = sortDishes(chef.chef_dishes?.map(toDish) || [])
   const foodPhotos = chef.food_photos?.sort((a, b) => (a.display_order || 0) - (b.display_order || 0)) || []
+  const videos = ((chef.chef_videos || []) as ChefVideo[]).sort((a, b) => (a.display_order || 0) - (b.display_order || 0))
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -161,6 +208,7 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
                     phone: chef.phone || '',
                     hourly_rate: chef.hourly_rate || 0,
                     location_label: chef.location_label || '',
+                    postcode: chef.location_outcode || '',
                     bio: chef.bio || '',
                     experience_years: chef.experience_years,
                     availability: chef.availability,
@@ -189,6 +237,45 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
               </CardContent>
             </Card>
 
+            {/* Availability Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Availability</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {chef.availability_needs_review && (
+                  <div className="p-4 rounded-lg bg-amber-50 text-amber-800 border border-amber-200 text-sm">
+                    <p className="font-medium">Needs review</p>
+                    <p>
+                      The free-text availability couldn&apos;t be fully converted. Check the slots below against
+                      what the chef wrote{chef.availability ? <>: <em>&ldquo;{chef.availability}&rdquo;</em></> : '.'} Saving clears this flag.
+                    </p>
+                  </div>
+                )}
+                <AvailabilityEditor
+                  initialSlots={availabilitySlots}
+                  initialBlackoutDates={blackoutDates}
+                  saveAction={updateChefAvailability.bind(null, chef.id)}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Menu Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Menu ({dishes.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DishMenuEditor
+                  dishes={dishes}
+                  foodPhotos={foodPhotos}
+                  saveAction={saveChefDish.bind(null, chef.id)}
+                  deleteAction={deleteChefDish.bind(null, chef.id)}
+                  reorderAction={updateChefDishOrder.bind(null, chef.id)}
+                />
+              </CardContent>
+            </Card>
+
             {/* Photos Section */}
             <Card>
               <CardHeader>
@@ -207,6 +294,30 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
           {/* Right Sidebar */}
           <div className="space-y-6">
             
+            {/* Chef Portal Change Requests */}
+            {changeRequests && changeRequests.length > 0 && (
+              <Card className="border-amber-200">
+                <CardHeader>
+                  <CardTitle className="text-amber-700">Pending Changes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChefChangeRequests requests={changeRequests as ChefChangeRequest[]} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Verification Documents */}
+            <Card className={pendingDocuments > 0 ? 'border-amber-200' : undefined}>
+              <CardHeader>
+                <CardTitle className={pendingDocuments > 0 ? 'text-amber-700' : undefined}>
+                  Verification Documents{pendingDocuments > 0 && ` (${pendingDocuments} to review)`}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChefDocumentsReview documents={documents} />
+              </CardContent>
+            </Card>
+
             {/* Status Control */}
             <Card>
               <CardHeader>
@@ -220,6 +331,48 @@ export default async function ChefEditorPage({ params }: ChefEditorPageProps) {
               </CardContent>
             </Card>
 
+            {/* Introduction Videos */}
+            {videos.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Introduction Videos</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {videos.map((video, index) => (
+                    <div key={video.id} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-700">Video {index + 1}</span>
+                        <Badge
+                          variant="outline"
+                          className={
+                            video.status === 'ready'
+                              ? 'bg-green-50 text-green-700 border-green-200'
+                              : video.status === 'rejected' || video.status === 'failed'
+                              ? 'bg-red-50 text-red-700 border-red-200'
+                              : 'bg-yellow-50 text-yellow-700 border-yellow-200'
+                          }
+                        >
+                          {CHEF_VIDEO_STATUS_LABELS[video.status]}
+                        </Badge>
+                      </div>
+                      {video.duration_seconds !== null && (
+                        <p className="text-gray-600">{Math.round(video.duration_seconds)} seconds</p>
+                      )}
+                      {video.processing_error && video.status !== 'ready' && (
+                        <p className="text-red-600">{video.processing_error}</p>
+                      )}
+                      {video.status === 'ready' && (
+                        <a href={video.video_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700 underline">
+                          Watch ↗
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">Only ready videos are shown on the public profile.</p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Chef Metadata */}
             <Card>
               <CardHeader>
@@ -37,7 +37,8 @@ export default function AdminLoginPage() {
 
       // Check if user has admin role
       const user = authData.user
-      const userRole = user?.user_metadata?.role
+      // app_metadata, not user_metadata - users can edit the latter themselves
+      const userRole = user?.app_metadata?.role
 
       if (userRole !== 'admin') {
         // Sign out the user since they're not an admin
@@ -1,7 +1,7 @@
 'use client'
 
 import { ApprovalButton } from "@/components/approval-button"
-import { ReviewActions } from "@/components/admin/review-actions"
+import { ReviewActions, ReviewPhotoActions, ReviewReplyActions } from "@/components/admin/review-actions"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { fetchAdminData } from "@/app/admin/actions"
@@ -10,6 +10,13 @@ import { useEffect, useState } from "react"
 import { Edit, ExternalLink, LogOut, User } from "lucide-react"
 import { createSupabaseClient } from '@/lib/supabase-client'
 import { useRouter } from 'next/navigation'
+import { PORTAL_FIELD_LABELS, type SensitiveField } from '@/lib/chef-portal'
+import { CHEF_DOCUMENT_LABELS, type ChefDocumentType } from '@/lib/chef-documents'
+import { toReviewReply } from '@/lib/review-replies'
+import { QUESTION_KEYS, formatAnswer } from '@/lib/application-questions'
+import type { ApplicationStatus } from '@/lib/application-status'
+import { hasStrongDuplicate, type DuplicateMatch } from '@/lib/application-duplicates'
+import type { ReviewPhoto, ReviewReply } from '@/lib/data'
 
 interface Chef {
   id: string
@@ -20,6 +27,7 @@ interface Chef {
   verified: boolean
   photo_url: string
   created_at: string
+  availability_needs_review: boolean
   chef_cuisines: { cuisine: string }[]
 }
 
@@ -27,16 +35,19 @@ interface Review {
   id: string
   rating: number
   comment: string | null
-  status: 'awaiting_email' | 'published' | 'spam'
+  status: 'awaiting_email' | 'awaiting_moderation' | 'published' | 'spam' | 'expired'
   created_at: string
   published_at: string | null
   chefs: { id: string; name: string } | null
+  reply: ReviewReply | null
+  photos: ReviewPhoto[]
 }
 
 interface Application {
   id: string
   answers: Record<string, any>
-  status: 'pending' | 'approved' | 'rejected'
+  status: ApplicationStatus
+  duplicate_matches: DuplicateMatch[]
   admin_notes: string | null
   created_at: string
   updated_at: string
@@ -44,10 +55,30 @@ interface Application {
   rejected_at: string | null
 }
 
+interface ChangeRequest {
+  id: string
+  chef_id: string
+  changes: Record<string, number | null>
+  previous_values: Record<string, number | null>
+  created_at: string
+  chefs: { id: string; name: string } | null
+}
+
+interface PendingDocument {
+  id: string
+  chef_id: string
+  document_type: ChefDocumentType
+  expires_on: string
+  created_at: string
+  chefs: { id: string; name: string } | null
+}
+
 export default function AdminPage() {
   const [allChefs, setAllChefs] = useState<Chef[]>([])
   const [allReviews, setAllReviews] = useState<Review[]>([])
   const [allApplications, setAllApplications] = useState<Application[]>([])
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([])
+  const [pendingDocuments, setPendingDocuments] = useState<PendingDocument[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [userEmail, setUserEmail] = useState<string | null>(null)
@@ -75,9 +106,19 @@ export default function AdminPage() {
       setAllChefs(result.data.chefs || [])
       setAllReviews((result.data.reviews || []).map((review: any) => ({
         ...review,
-        chefs: Array.isArray(review.chefs) ? review.chefs[0] : review.chefs
+        chefs: Array.isArray(review.chefs) ? review.chefs[0] : review.chefs,
+        reply: toReviewReply(review.review_replies),
+        photos: review.photos || []
       })))
       setAllApplications(result.data.applications || [])
+      setChangeRequests((result.data.changeRequests || []).map((request: Omit<ChangeRequest, 'chefs'> & { chefs: unknown }) => ({
+        ...request,
+        chefs: (Array.isArray(request.chefs) ? request.chefs[0] : request.chefs) as ChangeRequest['chefs']
+      })))
+      setPendingDocuments((result.data.pendingDocuments || []).map((document: Omit<PendingDocument, 'chefs'> & { chefs: unknown }) => ({
+        ...document,
+        chefs: (Array.isArray(document.chefs) ? document.chefs[0] : document.chefs) as PendingDocument['chefs']
+      })))
 
     } catch (err) {
       console.error('Error in fetchData:', err)
@@ -139,6 +180,7 @@ export default function AdminPage() {
 
   // Process applications data
   const pendingApplications = allApplications.filter(app => app.status === 'pending')
+  const awaitingApplicantApplications = allApplications.filter(app => app.status === 'information_requested')
   const approvedApplications = allApplications.filter(app => app.status === 'approved')
   const rejectedApplications = allApplications.filter(app => app.status === 'rejected')
 
@@ -146,7 +188,9 @@ export default function AdminPage() {
   const reviews = allReviews
   const awaitingVerificationReviews = reviews.filter(review => review.status === 'awaiting_email')
   const publishedReviews = reviews.filter(review => review.status === 'published')
+  const moderationReviews = reviews.filter(review => review.status === 'awaiting_moderation')
   const spamReviews = reviews.filter(review => review.status === 'spam')
+  const repliesAwaitingModeration = reviews.filter(review => review.reply?.status === 'awaiting_moderation')
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -174,6 +218,13 @@ export default function AdminPage() {
               >
                 View Website
               </Link>
+
+              <Link
+                href="/admin/storage"
+                className="text-blue-600 hover:text-blue-700 underline text-sm"
+              >
+                Storage Clean-up
+              </Link>
               
               <Button 
                 variant="outline" 
@@ -214,9 +265,16 @@ export default function AdminPage() {
 
         {/* Chef Applications Section */}
         <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">
-            Chef Applications ({allApplications.length} total)
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-2xl font-bold text-gray-900">
+              Chef Applications ({allApplications.length} total)
+            </h2>
+            <Link href="/admin/questions">
+              <Button variant="outline" size="sm">
+                Edit Questions
+              </Button>
+            </Link>
+          </div>
           
           {pendingApplications.length > 0 ? (
             <div className="bg-white rounded-lg shadow-sm">
@@ -231,26 +289,31 @@ export default function AdminPage() {
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-2">
                           <h4 className="font-medium text-gray-900">
-                            {application.answers['Full Name'] || 'No Name Provided'}
+                            {application.answers[QUESTION_KEYS.FULL_NAME] || 'No Name Provided'}
                           </h4>
                           <Badge variant="outline" className="bg-yellow-50 text-yellow-800 border-yellow-200">
                             Pending Review
                           </Badge>
+                          {hasStrongDuplicate(application.duplicate_matches) && (
+                            <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-300">
+                              Possible duplicate
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-sm text-gray-600 space-y-1">
-                          <p><strong>Email:</strong> {application.answers['Email Address'] || 'Not provided'}</p>
-                          <p><strong>Phone:</strong> {application.answers['Phone Number'] || 'Not provided'}</p>
-                          <p><strong>Hourly Rate:</strong> £{application.answers['Hourly Rate (£)'] || 'Not specified'}/hour</p>
-                          <p><strong>Experience:</strong> {application.answers['Experience Years'] ? `${application.answers['Experience Years']} years` : 'Not specified'}</p>
-                          <p><strong>Cuisines:</strong> {application.answers['Cuisine Specialties'] || 'Not specified'}</p>
-                          <p><strong>Languages:</strong> {application.answers['Languages Spoken'] || 'Not specified'}</p>
+                          <p><strong>Email:</strong> {application.answers[QUESTION_KEYS.EMAIL] || 'Not provided'}</p>
+                          <p><strong>Phone:</strong> {application.answers[QUESTION_KEYS.PHONE] || 'Not provided'}</p>
+                          <p><strong>Hourly Rate:</strong> £{application.answers[QUESTION_KEYS.HOURLY_RATE] || 'Not specified'}/hour</p>
+                          <p><strong>Experience:</strong> {application.answers[QUESTION_KEYS.EXPERIENCE_YEARS] ? `${application.answers[QUESTION_KEYS.EXPERIENCE_YEARS]} years` : 'Not specified'}</p>
+                          <p><strong>Cuisines:</strong> {formatAnswer(QUESTION_KEYS.CUISINES, application.answers[QUESTION_KEYS.CUISINES]) || 'Not specified'}</p>
+                          <p><strong>Languages:</strong> {formatAnswer(QUESTION_KEYS.LANGUAGES_SPOKEN, application.answers[QUESTION_KEYS.LANGUAGES_SPOKEN]) || 'Not specified'}</p>
                           <p><strong>Applied:</strong> {new Date(application.created_at).toLocaleDateString()}</p>
                         </div>
-                        {application.answers['Bio/About You'] && (
+                        {application.answers[QUESTION_KEYS.BIO] && (
                           <div className="mt-3">
                             <p className="text-sm text-gray-600 font-medium mb-1">Bio:</p>
                             <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded-md line-clamp-3">
-                              {application.answers['Bio/About You']}
+                              {application.answers[QUESTION_KEYS.BIO]}
                             </p>
                           </div>
                         )}
@@ -275,6 +338,43 @@ export default function AdminPage() {
             </div>
           )}
 
+          {/* Applications waiting on the applicant */}
+          {awaitingApplicantApplications.length > 0 && (
+            <div className="mt-6 bg-white rounded-lg shadow-sm">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Awaiting Applicant ({awaitingApplicantApplications.length})</h3>
+                <p className="text-sm text-gray-600">More information has been requested - these return to pending when the applicant responds</p>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {awaitingApplicantApplications.map(application => (
+                  <div key={application.id} className="px-6 py-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-gray-900">
+                          {application.answers[QUESTION_KEYS.FULL_NAME] || 'No Name'}
+                        </span>
+                        <span className="text-gray-500 ml-2">
+                          ({application.answers[QUESTION_KEYS.EMAIL]})
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-gray-400">
+                          Requested {new Date(application.updated_at).toLocaleDateString()}
+                        </span>
+                        <Link
+                          href={`/admin/applications/${application.id}`}
+                          className="text-blue-600 hover:text-blue-700 underline"
+                        >
+                          View
+                        </Link>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Recently Processed Applications */}
           {(approvedApplications.length > 0 || rejectedApplications.length > 0) && (
             <div className="mt-6 bg-white rounded-lg shadow-sm">
@@ -291,10 +391,10 @@ export default function AdminPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <span className="font-medium text-gray-900">
-                            {application.answers['Full Name'] || 'No Name'}
+                            {application.answers[QUESTION_KEYS.FULL_NAME] || 'No Name'}
                           </span>
                           <span className="text-gray-500 ml-2">
-                            ({application.answers['Email Address']})
+                            ({application.answers[QUESTION_KEYS.EMAIL]})
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
@@ -322,16 +422,27 @@ export default function AdminPage() {
 
         {/* Reviews Section */}
         <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">
-            Reviews Management ({reviews.length} total)
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-2xl font-bold text-gray-900">
+              Reviews Management ({reviews.length} total)
+            </h2>
+            <Link href="/admin/reviews">
+              <Button variant="outline" size="sm">
+                Moderation Queue{moderationReviews.length > 0 ? ` (${moderationReviews.length})` : ''}
+              </Button>
+            </Link>
+          </div>
           
           {/* Reviews Statistics */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
             <div className="bg-white rounded-lg p-4 shadow-sm border-l-4 border-purple-500">
               <h4 className="font-semibold text-gray-900">Awaiting Verification</h4>
               <p className="text-2xl font-bold text-purple-600">{awaitingVerificationReviews.length}</p>
             </div>
+            <Link href="/admin/reviews" className="bg-white rounded-lg p-4 shadow-sm border-l-4 border-amber-500 hover:shadow-md transition-shadow">
+              <h4 className="font-semibold text-gray-900">Awaiting Moderation</h4>
+              <p className="text-2xl font-bold text-amber-600">{moderationReviews.length}</p>
+            </Link>
             <div className="bg-white rounded-lg p-4 shadow-sm border-l-4 border-green-500">
               <h4 className="font-semibold text-gray-900">Published</h4>
               <p className="text-2xl font-bold text-green-600">{publishedReviews.length}</p>
@@ -340,6 +451,10 @@ export default function AdminPage() {
               <h4 className="font-semibold text-gray-900">Spam/Deleted</h4>
               <p className="text-2xl font-bold text-red-600">{spamReviews.length}</p>
             </div>
+            <div className="bg-white rounded-lg p-4 shadow-sm border-l-4 border-orange-500">
+              <h4 className="font-semibold text-gray-900">Replies to Moderate</h4>
+              <p className="text-2xl font-bold text-orange-600">{repliesAwaitingModeration.length}</p>
+            </div>
           </div>
 
           {/* Reviews List */}
@@ -360,15 +475,19 @@ export default function AdminPage() {
                           </h4>
                           <Badge 
                             variant={review.status === 'published' ? 'secondary' : 
-                                   review.status === 'awaiting_email' ? 'outline' : 'destructive'}
+                                   review.status === 'awaiting_email' || review.status === 'awaiting_moderation' || review.status === 'expired' ? 'outline' : 'destructive'}
                             className={
                               review.status === 'published' ? 'bg-green-100 text-green-800' :
                               review.status === 'awaiting_email' ? 'border-purple-200 text-purple-700' :
+                              review.status === 'awaiting_moderation' ? 'border-amber-300 text-amber-800' :
+                              review.status === 'expired' ? 'border-gray-300 text-gray-600' :
                               'bg-red-100 text-red-800'
                             }
                           >
                             {review.status === 'awaiting_email' ? 'Awaiting Verification' :
+                             review.status === 'awaiting_moderation' ? 'Awaiting Moderation' :
                              review.status === 'published' ? 'Published' :
+                             review.status === 'expired' ? 'Expired' :
                              review.status === 'spam' ? 'Spam/Deleted' : review.status}
                           </Badge>
                         </div>
@@ -392,6 +511,8 @@ export default function AdminPage() {
                           </p>
                         )}
                         
+                        <ReviewPhotoActions photos={review.photos} onAction={fetchData} />
+
                         {/* Metadata */}
                         <div className="text-xs text-gray-500">
                           Submitted: {new Date(review.created_at).toLocaleDateString()}
@@ -401,6 +522,15 @@ export default function AdminPage() {
                             </span>
                           )}
                         </div>
+
+                        {/* Chef Reply */}
+                        {review.reply && (
+                          <ReviewReplyActions
+                            reply={review.reply}
+                            chefName={review.chefs?.name || 'Chef'}
+                            onAction={fetchData}
+                          />
+                        )}
                       </div>
                       
                       {/* Action Buttons */}
@@ -473,6 +603,64 @@ export default function AdminPage() {
           )}
         </div>
 
+        {/* Chef Portal Change Requests */}
+        {changeRequests.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">
+              Chef Profile Changes ({changeRequests.length})
+            </h2>
+            <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200">
+              {changeRequests.map(request => (
+                <div key={request.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">{request.chefs?.name || 'Unknown chef'}</p>
+                    <p className="text-gray-600">
+                      {Object.entries(request.changes)
+                        .map(([field, value]) => `${PORTAL_FIELD_LABELS[field as SensitiveField] || field}: ${request.previous_values[field] ?? 'none'} → ${value ?? 'none'}`)
+                        .join(' · ')}
+                    </p>
+                    <p className="text-xs text-gray-400">Requested {new Date(request.created_at).toLocaleDateString()}</p>
+                  </div>
+                  <Link
+                    href={`/admin/chefs/${request.chef_id}`}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors text-center shrink-0"
+                  >
+                    Review Change
+                  </Link>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Chef Verification Documents */}
+        {pendingDocuments.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">
+              Documents to Review ({pendingDocuments.length})
+            </h2>
+            <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200">
+              {pendingDocuments.map(document => (
+                <div key={document.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">{document.chefs?.name || 'Unknown chef'}</p>
+                    <p className="text-gray-600">
+                      {CHEF_DOCUMENT_LABELS[document.document_type]} · expires {new Date(document.expires_on).toLocaleDateString()}
+                    </p>
+                    <p className="text-xs text-gray-400">Uploaded {new Date(document.created_at).toLocaleDateString()}</p>
+                  </div>
+                  <Link
+                    href={`/admin/chefs/${document.chef_id}`}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors text-center shrink-0"
+                  >
+                    Review Document
+                  </Link>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Verified Chefs */}
         <div>
           <h2 className="text-2xl font-bold text-gray-900 mb-4">
@@ -493,6 +681,11 @@ export default function AdminPage() {
                     </p>
                   </div>
                   <div className="flex items-center gap-3">
+                    {chef.availability_needs_review && (
+                      <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                        Check availability
+                      </Badge>
+                    )}
                     <Badge variant="secondary" className="bg-green-100 text-green-800">
                       Live
                     </Badge>
@@ -0,0 +1,99 @@
+import Link from 'next/link'
+import type { Metadata } from 'next'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import QuestionBuilder from '@/components/admin/question-builder'
+import type { ApplicationQuestion, QuestionSetVersion } from '@/lib/application-questions'
+
+export const metadata: Metadata = {
+  title: 'Application Questions - Admin',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Application Question Builder
+ *
+ * Manages the questions on the public chef application form.
+ *
+ * Features:
+ * - Create, edit, hide and drag-to-reorder questions
+ * - Live preview of the application form
+ * - Version history - each change snapshots the visible question set
+ */
+export default async function ApplicationQuestionsPage() {
+  const supabase = createSupabaseAdminClient()
+
+  const [{ data: questionsData, error }, { data: versionsData }] = await Promise.all([
+    supabase
+      .from('chef_questions')
+      .select('id, key, text, hint_text, field_type, is_required, is_visible, display_order, options, show_if_key, show_if_value')
+      .order('display_order', { ascending: true }),
+    supabase
+      .from('chef_question_set_versions')
+      .select('version, questions, created_at')
+      .order('version', { ascending: false })
+      .limit(10)
+  ])
+
+  if (error) {
+    console.error('Error fetching questions:', error)
+  }
+
+  const questions = (questionsData || []) as ApplicationQuestion[]
+  const versions = (versionsData || []) as QuestionSetVersion[]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-700 underline mb-2 inline-block"
+          >
+            ← Back to Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Application Questions</h1>
+          <p className="text-gray-600 mt-1">
+            {versions[0] ? `The form is on version ${versions[0].version}` : 'No saved versions yet'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 mb-6 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">
+            Error loading questions: {error.message}
+          </div>
+        )}
+
+        <QuestionBuilder questions={questions} />
+
+        {versions.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Version History</h2>
+            <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200">
+              {versions.map(version => (
+                <details key={version.version} className="px-6 py-4 text-sm">
+                  <summary className="cursor-pointer flex flex-wrap items-center gap-3">
+                    <span className="font-medium text-gray-900">Version {version.version}</span>
+                    <span className="text-gray-500">
+                      {new Date(version.created_at).toLocaleString()} · {version.questions.length} question{version.questions.length !== 1 ? 's' : ''}
+                    </span>
+                  </summary>
+                  <ol className="mt-3 ml-6 list-decimal space-y-1 text-gray-700">
+                    {version.questions.map(question => (
+                      <li key={question.id}>
+                        {question.text}
+                        {question.is_required && <span className="text-red-600 ml-1">*</span>}
+                        <span className="text-gray-400 ml-2">({question.field_type})</span>
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import Link from 'next/link'
+import type { Metadata } from 'next'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import { Badge } from '@/components/ui/badge'
+import ReviewModerationForm from '@/components/admin/review-moderation-form'
+import { ReviewPhotoActions } from '@/components/admin/review-actions'
+import { signReviewPhotos } from '@/lib/review-photos-server'
+import { RISK_SIGNAL_LABELS, isRiskSignal } from '@/lib/review-moderation'
+
+export const metadata: Metadata = {
+  title: 'Review Moderation - Admin',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+interface ModerationReview {
+  id: string
+  rating: number
+  comment: string | null
+  reviewer_name: string | null
+  status: string
+  risk_signals: string[] | null
+  verified_at: string | null
+  moderated_at: string | null
+  moderation_reason: string | null
+  chefs: { id: string; name: string } | { id: string; name: string }[] | null
+  review_photos: { id: string; storage_path: string; display_order: number | null }[] | null
+}
+
+function chefOf(review: ModerationReview) {
+  return Array.isArray(review.chefs) ? review.chefs[0] : review.chefs
+}
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="text-sm">
+      {[...Array(5)].map((_, i) => (
+        <span key={i} className={i < rating ? 'text-yellow-400' : 'text-gray-300'}>★</span>
+      ))}
+    </span>
+  )
+}
+
+/**
+ * Review Moderation Queue
+ *
+ * Verified reviews that tripped a risk signal wait here instead of
+ * publishing automatically.
+ *
+ * Features:
+ * - Oldest first, with the signals that held each review
+ * - Approve/reject with a required reason (logged to review_events)
+ * - Recently moderated reviews and the reasons given
+ */
+export default async function ReviewModerationPage() {
+  const supabase = createSupabaseAdminClient()
+
+  const reviewFields = `
+    id,
+    rating,
+    comment,
+    reviewer_name,
+    status,
+    risk_signals,
+    verified_at,
+    moderated_at,
+    moderation_reason,
+    chefs(id, name),
+    review_photos(id, storage_path, display_order)
+  `
+
+  const [{ data: queueData, error: queueError }, { data: recentData }] = await Promise.all([
+    supabase
+      .from('reviews')
+      .select(reviewFields)
+      .eq('status', 'awaiting_moderation')
+      .order('verified_at', { ascending: true }),
+    supabase
+      .from('reviews')
+      .select(reviewFields)
+      .not('moderated_at', 'is', null)
+      .order('moderated_at', { ascending: false })
+      .limit(20)
+  ])
+
+  if (queueError) {
+    console.error('Error fetching moderation queue:', queueError)
+  }
+
+  const queue = (queueData || []) as ModerationReview[]
+  const queuePhotos = await Promise.all(queue.map(review => signReviewPhotos(supabase, review.review_photos)))
+  const recent = (recentData || []) as ModerationReview[]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-700 underline mb-2 inline-block"
+          >
+            ← Back to Admin Panel
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Review Moderation</h1>
+          <p className="text-gray-600 mt-1">
+            {queue.length} review{queue.length !== 1 ? 's' : ''} held for a closer look
+          </p>
+        </div>
+
+        {queueError && (
+          <div className="p-4 mb-6 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">
+            Error loading the moderation queue: {queueError.message}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200 mb-10">
+          {queue.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-500">Nothing to moderate</p>
+          ) : (
+            queue.map((review, index) => {
+              const chef = chefOf(review)
+              return (
+                <div key={review.id} className="px-6 py-5 space-y-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    {chef ? (
+                      <Link href={`/chef/${chef.id}`} target="_blank" className="font-medium text-gray-900 hover:underline">
+                        {chef.name}
+                      </Link>
+                    ) : (
+                      <span className="font-medium text-gray-900">Unknown Chef</span>
+                    )}
+                    <Stars rating={review.rating} />
+                    <span className="text-sm text-gray-500">
+                      by {review.reviewer_name || 'Anonymous'}
+                      {review.verified_at && ` · verified ${new Date(review.verified_at).toLocaleDateString()}`}
+                    </span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {(review.risk_signals || []).map(signal => (
+                      <Badge key={signal} variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                        {isRiskSignal(signal) ? RISK_SIGNAL_LABELS[signal] : signal}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  {review.comment ? (
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{review.comment}</p>
+                  ) : (
+                    <p className="text-sm text-gray-400 italic">No comment</p>
+                  )}
+
+                  <ReviewPhotoActions photos={queuePhotos[index]} />
+
+                  <ReviewModerationForm reviewId={review.id} />
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        {recent.length > 0 && (
+          <>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Recently Moderated</h2>
+            <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200">
+              {recent.map(review => (
+                <div key={review.id} className="px-6 py-4 text-sm">
+                  <div className="flex flex-wrap items-center gap-3 mb-1">
+                    <span className="font-medium text-gray-900">{chefOf(review)?.name || 'Unknown Chef'}</span>
+                    <Stars rating={review.rating} />
+                    <Badge
+                      variant="secondary"
+                      className={review.status === 'published' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
+                    >
+                      {review.status === 'published' ? 'Approved' : 'Rejected'}
+                    </Badge>
+                    {review.moderated_at && (
+                      <span className="text-gray-500">{new Date(review.moderated_at).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                  <p className="text-gray-600">Reason: {review.moderation_reason}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
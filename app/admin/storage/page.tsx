@@ -0,0 +1,161 @@
+import Link from 'next/link'
+import type { Metadata } from 'next'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import { Badge } from '@/components/ui/badge'
+import StorageGcActions from '@/components/admin/storage-gc-actions'
+import {
+  STORAGE_GC_CONFIG,
+  formatBytes,
+  type StorageGcOrphan,
+  type StorageGcRun,
+} from '@/lib/storage-gc'
+
+export const metadata: Metadata = {
+  title: 'Storage Clean-up - Admin',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+interface StorageReportPageProps {
+  searchParams: Promise<{ run?: string }>
+}
+
+function RunStatusBadge({ run }: { run: StorageGcRun }) {
+  if (run.status === 'failed') {
+    return <Badge variant="secondary" className="bg-red-100 text-red-800">Failed</Badge>
+  }
+  if (run.status === 'running') {
+    return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Running</Badge>
+  }
+  return run.dry_run
+    ? <Badge variant="secondary" className="bg-blue-100 text-blue-800">Dry run</Badge>
+    : <Badge variant="secondary" className="bg-green-100 text-green-800">Deleted</Badge>
+}
+
+/**
+ * Storage Clean-up Report
+ *
+ * Lists recent garbage collection runs (daily cron, or started here) and the
+ * unreferenced files each one found.
+ *
+ * Features:
+ * - Dry run to preview what would be deleted
+ * - Per-file outcome for the selected run (latest by default)
+ */
+export default async function StorageReportPage({ searchParams }: StorageReportPageProps) {
+  const { run: selectedRunId } = await searchParams
+  const supabase = createSupabaseAdminClient()
+
+  const { data: runsData, error: runsError } = await supabase
+    .from('storage_gc_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(STORAGE_GC_CONFIG.REPORT_RUNS)
+
+  if (runsError) {
+    console.error('Error fetching storage gc runs:', runsError)
+  }
+
+  const runs = (runsData || []) as StorageGcRun[]
+  const selectedRun = runs.find(run => run.id === selectedRunId) || runs[0]
+
+  const { data: orphansData } = selectedRun
+    ? await supabase
+        .from('storage_gc_orphans')
+        .select('id, bucket, path, size_bytes, object_created_at, deleted, error')
+        .eq('run_id', selectedRun.id)
+        .order('bucket')
+        .order('path')
+        .limit(STORAGE_GC_CONFIG.REPORT_ORPHANS)
+    : { data: [] }
+
+  const orphans = (orphansData || []) as StorageGcOrphan[]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-700 underline mb-2 inline-block"
+          >
+            ← Back to Admin Panel
+          </Link>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Storage Clean-up</h1>
+              <p className="text-gray-600 mt-1">
+                Files in chef-applications, chefs and chef-documents that nothing references are deleted once they&apos;re
+                more than {STORAGE_GC_CONFIG.GRACE_DAYS} days old.
+              </p>
+            </div>
+            <StorageGcActions />
+          </div>
+        </div>
+
+        {runsError && (
+          <div className="p-4 mb-6 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">
+            Error loading storage clean-up runs: {runsError.message}
+          </div>
+        )}
+
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Runs</h2>
+        <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200 mb-10">
+          {runs.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-500">No runs yet</p>
+          ) : (
+            runs.map(run => (
+              <Link
+                key={run.id}
+                href={`/admin/storage?run=${run.id}`}
+                className={`block px-6 py-4 text-sm hover:bg-gray-50 ${run.id === selectedRun?.id ? 'bg-blue-50/50' : ''}`}
+              >
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="font-medium text-gray-900">{new Date(run.started_at).toLocaleString()}</span>
+                  <RunStatusBadge run={run} />
+                  <span className="text-gray-600">
+                    {run.objects_scanned} scanned · {run.orphans_found} unreferenced
+                    {!run.dry_run && ` · ${run.orphans_deleted} deleted (${formatBytes(run.bytes_reclaimed)})`}
+                  </span>
+                </div>
+                {run.error && <p className="text-red-600 mt-1">{run.error}</p>}
+              </Link>
+            ))
+          )}
+        </div>
+
+        {selectedRun && (
+          <>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Unreferenced Files ({selectedRun.orphans_found})
+            </h2>
+            <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200">
+              {orphans.length === 0 ? (
+                <p className="px-6 py-8 text-center text-gray-500">Nothing to clean up</p>
+              ) : (
+                orphans.map(orphan => (
+                  <div key={orphan.id} className="px-6 py-3 text-sm flex flex-wrap items-center gap-3">
+                    <Badge variant="outline">{orphan.bucket}</Badge>
+                    <span className="font-mono text-gray-800 break-all">{orphan.path}</span>
+                    <span className="text-gray-500">
+                      {orphan.size_bytes !== null && formatBytes(orphan.size_bytes)}
+                      {orphan.object_created_at && ` · uploaded ${new Date(orphan.object_created_at).toLocaleDateString()}`}
+                    </span>
+                    {orphan.deleted && <span className="text-green-700">Deleted</span>}
+                    {orphan.error && <span className="text-red-600">{orphan.error}</span>}
+                  </div>
+                ))
+              )}
+            </div>
+            {selectedRun.orphans_found > orphans.length && (
+              <p className="text-sm text-gray-500 mt-3">
+                Showing the first {orphans.length} of {selectedRun.orphans_found} files.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
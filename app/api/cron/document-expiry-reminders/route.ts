@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDocumentExpiryReminders } from '@/lib/chef-documents-server'
+
+/**
+ * Scheduled chef document expiry reminders
+ * Runs daily (see vercel.json) and emails each chef, plus a summary to the
+ * admin, when an approved verification document is
+ * CHEF_DOCUMENT_CONFIG.REMINDER_DAYS from expiry. Each reminder is sent once
+ * per document.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await sendDocumentExpiryReminders()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error in document-expiry-reminders cron:', error)
+    return NextResponse.json({ error: 'Failed to send document reminders' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+
+/**
+ * Scheduled sweep for unverified reviews
+ * Runs hourly (see vercel.json) and marks reviews whose verification link
+ * has lapsed as 'expired'. Each one is logged to review_events by
+ * expire_stale_reviews(). Reviewers can still revive an expired review by
+ * requesting a new link from the review form.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient()
+    const { data: expired, error } = await supabase.rpc('expire_stale_reviews')
+
+    if (error) {
+      console.error('Error expiring stale reviews:', error)
+      return NextResponse.json({ error: 'Sweep failed' }, { status: 500 })
+    }
+
+    return NextResponse.json({ expired: expired ?? 0 })
+  } catch (error) {
+    console.error('Error in expire-reviews cron:', error)
+    return NextResponse.json({ error: 'Sweep failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { processPendingChefVideos } from '@/lib/video-processing-server'
+
+// Transcoding a batch can take a few minutes
+export const maxDuration = 300
+
+/**
+ * Scheduled processing of chef introduction videos
+ * Runs every 10 minutes (see vercel.json) and checks and transcodes the next
+ * few pending videos with ffmpeg. Must run where ffmpeg and ffprobe are
+ * installed - without them it does nothing and the videos stay pending.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { chefIds, ...summary } = await processPendingChefVideos()
+
+    if (!summary.available) {
+      return NextResponse.json({ error: 'ffmpeg is not available' }, { status: 503 })
+    }
+
+    for (const chefId of new Set(chefIds)) {
+      revalidatePath(`/chef/${chefId}`)
+    }
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('Error in process-chef-videos cron:', error)
+    return NextResponse.json({ error: 'Processing failed' }, { status: 500 })
+  }
+}
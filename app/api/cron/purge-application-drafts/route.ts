@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeStaleApplicationDrafts } from '@/lib/application-drafts-server'
+
+/**
+ * Scheduled purge for unfinished chef application drafts
+ * Runs daily (see vercel.json) and deletes drafts that haven't changed for
+ * DRAFT_CONFIG.RETENTION_DAYS, along with the files uploaded to them. Works
+ * in batches - anything left over is picked up by the next run.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { drafts, files } = await purgeStaleApplicationDrafts()
+    return NextResponse.json({ drafts, files })
+  } catch (error) {
+    console.error('Error in purge-application-drafts cron:', error)
+    return NextResponse.json({ error: 'Purge failed' }, { status: 500 })
+  }
+}
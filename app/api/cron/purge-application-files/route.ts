@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeExpiredApplicationFiles } from '@/lib/application-files-server'
+
+/**
+ * Scheduled deletion of chef application files
+ * Runs daily (see vercel.json) and deletes the uploads of applications
+ * approved or rejected more than STORAGE_CONFIG.RETENTION_DAYS ago. Works in
+ * batches - anything left over is picked up by the next run.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { applications, files } = await purgeExpiredApplicationFiles()
+    return NextResponse.json({ applications, files })
+  } catch (error) {
+    console.error('Error in purge-application-files cron:', error)
+    return NextResponse.json({ error: 'Purge failed' }, { status: 500 })
+  }
+}
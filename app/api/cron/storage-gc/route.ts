@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runStorageGc } from '@/lib/storage-gc-server'
+
+/**
+ * Scheduled storage garbage collection
+ * Runs daily (see vercel.json) and deletes objects in the chef-applications,
+ * chefs and chef-documents buckets that nothing in the database references,
+ * once they're older than STORAGE_GC_CONFIG.GRACE_DAYS. Add ?dry_run=1 to only report
+ * what would be deleted. Runs are listed at /admin/storage.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const dryRun = ['1', 'true'].includes(request.nextUrl.searchParams.get('dry_run') || '')
+
+  try {
+    const result = await runStorageGc({ dryRun })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error in storage-gc cron:', error)
+    return NextResponse.json({ error: 'Storage clean-up failed' }, { status: 500 })
+  }
+}
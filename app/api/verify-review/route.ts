@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdminClient } from '@/lib/supabase-admin'
 import { revalidatePath } from 'next/cache'
+import { RISK_SIGNAL_LABELS, assessReviewRisk } from '@/lib/review-moderation'
 
 /**
  * Handle email verification links
  * When users click the link in their email, this endpoint:
  * 1. Validates the verification token
- * 2. Updates review status to published
- * 3. Logs the verification event
- * 4. Redirects user to chef profile with success message
+ * 2. Checks the review for risk signals
+ * 3. Publishes it, or holds it for moderation if any signal is found
+ * 4. Logs the verification event
+ * 5. Redirects user to chef profile with a success or pending message
  */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
@@ -25,7 +27,7 @@ export async function GET(request: NextRequest) {
     // Find review by verification token
     const { data: review, error: fetchError } = await supabase
       .from('reviews')
-      .select('id, chef_id, status, verification_expires_at')
+      .select('id, chef_id, rating, comment, ip_hash, status, verification_expires_at')
       .eq('verification_token', token)
       .single()
     
@@ -37,8 +39,11 @@ export async function GET(request: NextRequest) {
     // Check if review is in the correct state for verification
     if (review.status !== 'awaiting_email') {
       // Review already verified or in different state
-      if (review.status === 'published') {
+      if (review.status === 'published' || review.status === 'awaiting_moderation') {
         return NextResponse.redirect(new URL(`/chef/${review.chef_id}?info=already-verified`, request.url))
+      } else if (review.status === 'expired') {
+        // Swept by the expiry job - the reviewer can request a new link
+        return NextResponse.redirect(new URL(`/chef/${review.chef_id}?error=link-expired`, request.url))
       } else {
         return NextResponse.redirect(new URL(`/chef/${review.chef_id}?error=verification-failed`, request.url))
       }
@@ -60,15 +65,22 @@ export async function GET(request: NextRequest) {
       return NextResponse.redirect(new URL(`/chef/${review.chef_id}?error=link-expired`, request.url))
     }
     
-    // === VERIFY AND PUBLISH REVIEW ===
+    // === CHECK RISK SIGNALS ===
+    const riskSignals = await assessReviewRisk(supabase, review)
+    const needsModeration = riskSignals.length > 0
+    const now = new Date().toISOString()
+
+    // === VERIFY AND PUBLISH (OR HOLD) REVIEW ===
     const { error: updateError } = await supabase
       .from('reviews')
       .update({ 
-        status: 'published',
-        verified_at: new Date().toISOString(),
-        published_at: new Date().toISOString()
+        status: needsModeration ? 'awaiting_moderation' : 'published',
+        verified_at: now,
+        published_at: needsModeration ? null : now,
+        risk_signals: riskSignals
       })
       .eq('id', review.id)
+      .eq('status', 'awaiting_email')
     
     if (updateError) {
       console.error('Error updating review status:', updateError)
@@ -81,10 +93,17 @@ export async function GET(request: NextRequest) {
       .insert({
         review_id: review.id,
         from_status: 'awaiting_email',
-        to_status: 'published',
+        to_status: needsModeration ? 'awaiting_moderation' : 'published',
         actor: 'user',
-        notes: 'Email verification completed successfully'
+        notes: needsModeration
+          ? `Email verified - held for moderation: ${riskSignals.map(s => RISK_SIGNAL_LABELS[s]).join(', ')}`
+          : 'Email verification completed successfully'
       })
+
+    if (needsModeration) {
+      revalidatePath('/admin')
+      return NextResponse.redirect(new URL(`/chef/${review.chef_id}?info=review-awaiting-moderation`, request.url))
+    }
     
     // === REFRESH MATERIALIZED VIEW ===
     // This ensures rating statistics are updated immediately
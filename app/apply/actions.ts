@@ -2,23 +2,61 @@
 
 import { createSupabaseAdminClient } from '@/lib/supabase-admin'
 import { revalidatePath } from 'next/cache'
-import { sendApplicationConfirmationEmail, sendAdminApplicationAlert } from '@/lib/email'
+import {
+  sendApplicationConfirmationEmail,
+  sendAdminApplicationAlert,
+  sendAdminApplicantReplyAlert,
+  sendApplicationDraftEmail,
+} from '@/lib/email'
+import { generateVerificationToken, hashEmail, hashToken } from '@/lib/crypto'
+import {
+  DRAFT_CONFIG,
+  UPLOAD_PREFIX_PATTERN,
+  draftResumePath,
+  sanitiseDraftUploads,
+} from '@/lib/application-drafts'
+import { draftCutoff } from '@/lib/application-drafts-server'
+import { hashProfilePhoto, recordApplicationDuplicates } from '@/lib/application-duplicates-server'
+import {
+  applicationStatusPath,
+  sanitiseResponseUploads,
+  validateApplicationMessage,
+} from '@/lib/application-status'
+import type { FileUploadResult } from '@/lib/storage'
+import {
+  QUESTION_KEYS,
+  answersFromFormData,
+  validateApplicationAnswers,
+  type ApplicationQuestion,
+} from '@/lib/application-questions'
 
 /**
- * Interface for chef application form data
- * Supports both string and numeric values for flexible form handling
+ * Result interface for application submission
  */
-interface ApplicationData {
-  [key: string]: string | number
+interface SubmissionResult {
+  success: boolean
+  error?: string
+  applicationId?: string
 }
 
 /**
- * Result interface for application submission
+ * Result interface for saving a draft
  */
-interface SubmissionResult {
+interface DraftSaveResult {
   success: boolean
   error?: string
-  applicationId?: string
+  token?: string
+  linkSent?: boolean
+}
+
+/**
+ * Loads the application questions in form order
+ */
+async function fetchQuestions(supabase: ReturnType<typeof createSupabaseAdminClient>) {
+  return supabase
+    .from('chef_questions')
+    .select('key, text, field_type, is_required, is_visible, options, show_if_key, show_if_value')
+    .order('display_order', { ascending: true })
 }
 
 /**
@@ -29,8 +67,14 @@ interface SubmissionResult {
  * 
  * Features:
  * - Validates required fields (name, email)
- * - Validates email format using regex
- * - Converts hourly rate to number automatically
+ * - Keeps only uploads under the form's own upload folder
+ * - Validates each answer against its question (same checks as the form)
+ * - Stores answers under each question's stable key
+ * - Drops follow-up answers whose condition isn't met
+ * - Records which question set version was answered
+ * - Deletes the applicant's saved draft, if any
+ * - Flags likely duplicates of earlier applications and existing chefs
+ * - Emails the applicant a private status page link
  * - Uses admin client to bypass RLS restrictions
  * - Revalidates admin page cache after submission
  */
@@ -38,52 +82,69 @@ export async function submitApplication(formData: FormData): Promise<SubmissionR
   try {
     const supabase = createSupabaseAdminClient()
 
-    // Extract form data into a clean object
-    const applicationData: ApplicationData = {}
-    let fileUploads = { profile_photos: [], food_photos: [] }
-    
+    const { data: questions, error: questionsError } = await fetchQuestions(supabase)
 
-    // Get all form fields
-    for (const [key, value] of formData.entries()) {
-      // Handle file uploads separately
-      if (key === 'file_uploads' && typeof value === 'string') {
-        try {
-          fileUploads = JSON.parse(value)
-        } catch (e) {
-          console.warn('Failed to parse file uploads:', e)
-        }
-        continue
-      }
-      if (typeof value === 'string' && value.trim()) {
-        // Convert numeric fields to numbers
-        const numericFields = ['Hourly Rate (£)', 'Experience Years', 'Travel Distance', 'Minimum Booking']
-        if (numericFields.includes(key) && !isNaN(Number(value))) {
-          applicationData[key] = Number(value)
-        } else {
-          applicationData[key] = value.trim()
-        }
-      }
+    if (questionsError) {
+      console.error('Error fetching questions:', questionsError)
+      return { success: false, error: 'Failed to submit application. Please try again.' }
+    }
+
+    // Hidden questions are still read so a form loaded before an admin change
+    // submits cleanly, but only visible ones are validated
+    const allQuestions = (questions || []) as ApplicationQuestion[]
+    const applicationData = answersFromFormData(allQuestions, formData)
+
+    const uploadPrefix = formData.get('upload_prefix')
+    if (typeof uploadPrefix !== 'string' || !UPLOAD_PREFIX_PATTERN.test(uploadPrefix)) {
+      return { success: false, error: 'Failed to submit application. Please refresh and try again.' }
     }
 
+    let fileUploadsValue: unknown = {}
+    try {
+      fileUploadsValue = JSON.parse(String(formData.get('file_uploads') || '{}'))
+    } catch (e) {
+      console.warn('Failed to parse file uploads:', e)
+    }
+
+    // Only the applicant's own uploads - approval copies these, and duplicate
+    // checks and storage-gc read them
+    const fileUploads = sanitiseDraftUploads(fileUploadsValue, uploadPrefix)
+
+    const questionSetVersionValue = formData.get('question_set_version')
+    const questionSetVersion = typeof questionSetVersionValue === 'string'
+      ? Number(questionSetVersionValue) || null
+      : null
+
     // Basic validation
-    if (!applicationData['Full Name'] || !applicationData['Email Address']) {
+    if (!applicationData[QUESTION_KEYS.FULL_NAME] || !applicationData[QUESTION_KEYS.EMAIL]) {
       return { success: false, error: 'Full name and email are required' }
     }
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(applicationData['Email Address'] as string)) {
-      return { success: false, error: 'Please enter a valid email address' }
+    const validationError = validateApplicationAnswers(
+      allQuestions.filter(question => question.is_visible),
+      applicationData
+    )
+    if (validationError) {
+      return { success: false, error: validationError }
     }
 
-
+    const profilePhoto = fileUploads.profile_photos[0]
+    const profilePhotoHash = profilePhoto?.fileName
+      ? await hashProfilePhoto(supabase, profilePhoto.fileName)
+      : null
 
     // Insert application into database
+    const statusToken = generateVerificationToken()
     const { data: application, error: insertError } = await supabase
       .from('chef_applications')
       .insert({
         answers: applicationData,
+        status_token: statusToken,
+        email_hash: hashEmail(String(applicationData[QUESTION_KEYS.EMAIL])),
+        profile_photo_hash: profilePhotoHash,
         file_uploads: fileUploads,
+        question_set_version: questionSetVersion,
+        upload_prefix: uploadPrefix,
         status: 'pending'
       })
       .select('id')
@@ -94,15 +155,37 @@ export async function submitApplication(formData: FormData): Promise<SubmissionR
       return { success: false, error: 'Failed to submit application. Please try again.' }
     }
 
+    // The application now owns the draft's files
+    const draftToken = formData.get('draft_token')
+    if (typeof draftToken === 'string' && draftToken) {
+      const { error: draftError } = await supabase
+        .from('chef_application_drafts')
+        .delete()
+        .eq('token_hash', hashToken(draftToken))
+
+      if (draftError) {
+        console.error('Error deleting application draft:', draftError)
+        // Continue anyway - the purge skips files an application uses
+      }
+    }
+
+    try {
+      await recordApplicationDuplicates(supabase, application.id)
+    } catch (duplicateError) {
+      console.error('Error checking for duplicate applications:', duplicateError)
+      // Continue anyway - duplicates are only a hint for admins
+    }
+
     // Send confirmation email to chef
-    const chefName = applicationData['Full Name'] as string
-    const chefEmail = applicationData['Email Address'] as string
+    const chefName = applicationData[QUESTION_KEYS.FULL_NAME] as string
+    const chefEmail = applicationData[QUESTION_KEYS.EMAIL] as string
     
     if (chefEmail && chefName) {
       const confirmationResult = await sendApplicationConfirmationEmail(
         chefEmail,
         chefName,
-        application.id
+        application.id,
+        `${process.env.NEXT_PUBLIC_SITE_URL}${applicationStatusPath(statusToken)}`
       )
       
       if (!confirmationResult.success) {
@@ -135,4 +218,249 @@ export async function submitApplication(formData: FormData): Promise<SubmissionR
     console.error('Application submission error:', error)
     return { success: false, error: 'An unexpected error occurred. Please try again.' }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Saves the application form as a draft the applicant can resume later
+ *
+ * @param formData - The application form, plus draft_token (when updating),
+ *   upload_prefix, file_uploads and send_link
+ * @returns Promise with success status and the draft's resume token
+ *
+ * Features:
+ * - Answers are saved as they are - nothing is required until submit
+ * - New drafts need an email address; the resume link is emailed to it
+ * - send_link=true re-sends the link, at most every few minutes
+ * - New drafts are rate limited per email address
+ * - Keeps uploaded files against the draft so they survive a refresh
+ */
+export async function saveApplicationDraft(formData: FormData): Promise<DraftSaveResult> {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: questions, error: questionsError } = await fetchQuestions(supabase)
+
+    if (questionsError) {
+      console.error('Error fetching questions:', questionsError)
+      return { success: false, error: 'Failed to save your application. Please try again.' }
+    }
+
+    const answers = answersFromFormData((questions || []) as ApplicationQuestion[], formData)
+    const email = String(answers[QUESTION_KEYS.EMAIL] || '').toLowerCase()
+    const chefName = answers[QUESTION_KEYS.FULL_NAME] ? String(answers[QUESTION_KEYS.FULL_NAME]) : null
+    const sendLink = formData.get('send_link') === 'true'
+
+    const questionSetVersionValue = formData.get('question_set_version')
+    const questionSetVersion = typeof questionSetVersionValue === 'string'
+      ? Number(questionSetVersionValue) || null
+      : null
+
+    let fileUploadsValue: unknown = {}
+    try {
+      fileUploadsValue = JSON.parse(String(formData.get('file_uploads') || '{}'))
+    } catch (e) {
+      console.warn('Failed to parse file uploads:', e)
+    }
+
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { success: false, error: 'Please enter a valid email address so we can send your link' }
+    }
+
+    const draftToken = formData.get('draft_token')
+
+    if (typeof draftToken === 'string' && draftToken) {
+      // === UPDATE EXISTING DRAFT ===
+      const { data: draft } = await supabase
+        .from('chef_application_drafts')
+        .select('id, email, upload_prefix, link_sent_at')
+        .eq('token_hash', hashToken(draftToken))
+        .gte('updated_at', draftCutoff())
+        .maybeSingle()
+
+      if (!draft) {
+        return { success: false, error: 'This saved application has expired or was already sent. Please start a new one.' }
+      }
+
+      const { error: updateError } = await supabase
+        .from('chef_application_drafts')
+        .update({
+          email: email || draft.email,
+          answers,
+          file_uploads: sanitiseDraftUploads(fileUploadsValue, draft.upload_prefix),
+          question_set_version: questionSetVersion,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', draft.id)
+
+      if (updateError) {
+        console.error('Error updating application draft:', updateError)
+        return { success: false, error: 'Failed to save your application. Please try again.' }
+      }
+
+      const resendAfter = Date.now() - DRAFT_CONFIG.LINK_RESEND_MINUTES * 60 * 1000
+      const recentlySent = draft.link_sent_at && new Date(draft.link_sent_at).getTime() > resendAfter
+      if (!sendLink || recentlySent) {
+        return { success: true, token: draftToken, linkSent: false }
+      }
+
+      const sent = await sendDraftLink(supabase, draft.id, email || draft.email, chefName, draftToken)
+      return { success: true, token: draftToken, linkSent: sent }
+    }
+
+    // === CREATE NEW DRAFT ===
+    if (!email) {
+      return { success: false, error: 'Please enter your email address so we can send you a link to finish later' }
+    }
+
+    const uploadPrefix = formData.get('upload_prefix')
+    if (typeof uploadPrefix !== 'string' || !UPLOAD_PREFIX_PATTERN.test(uploadPrefix)) {
+      return { success: false, error: 'Failed to save your application. Please refresh and try again.' }
+    }
+
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const { count: recentDrafts } = await supabase
+      .from('chef_application_drafts')
+      .select('id', { count: 'exact', head: true })
+      .eq('email', email)
+      .gte('created_at', oneHourAgo)
+
+    if ((recentDrafts || 0) >= DRAFT_CONFIG.MAX_NEW_DRAFTS_PER_EMAIL_PER_HOUR) {
+      return { success: false, error: 'Too many saved applications for this email. Please try again later.' }
+    }
+
+    const token = generateVerificationToken()
+
+    const { data: draft, error: insertError } = await supabase
+      .from('chef_application_drafts')
+      .insert({
+        token_hash: hashToken(token),
+        email,
+        upload_prefix: uploadPrefix,
+        answers,
+        file_uploads: sanitiseDraftUploads(fileUploadsValue, uploadPrefix),
+        question_set_version: questionSetVersion
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      console.error('Error creating application draft:', insertError)
+      return { success: false, error: 'Failed to save your application. Please try again.' }
+    }
+
+    const sent = await sendDraftLink(supabase, draft.id, email, chefName, token)
+    return { success: true, token, linkSent: sent }
+
+  } catch (error) {
+    console.error('Error in saveApplicationDraft:', error)
+    return { success: false, error: 'An unexpected error occurred. Please try again.' }
+  }
+}
+
+/**
+ * Emails the resume link and records when it was sent
+ */
+async function sendDraftLink(
+  supabase: ReturnType<typeof createSupabaseAdminClient>,
+  draftId: string,
+  email: string,
+  chefName: string | null,
+  token: string
+): Promise<boolean> {
+  const resumeUrl = `${process.env.NEXT_PUBLIC_SITE_URL}${draftResumePath(token)}`
+  const emailResult = await sendApplicationDraftEmail(email, chefName, resumeUrl, DRAFT_CONFIG.RETENTION_DAYS)
+
+  if (!emailResult.success) {
+    console.error('Failed to send draft email:', emailResult.error)
+    // Continue anyway - the draft is saved and the form keeps the link
+    return false
+  }
+
+  await supabase
+    .from('chef_application_drafts')
+    .update({ link_sent_at: new Date().toISOString() })
+    .eq('id', draftId)
+
+  return true
+}
+
+/**
+ * Records an applicant's response to an information request
+ *
+ * @param statusToken - Token from the applicant's status page link
+ * @param body - Response text
+ * @param fileUploads - Extra files already uploaded to the application's
+ *   storage folder
+ *
+ * Features:
+ * - Only while an admin's request is open; one response per request
+ * - Returns the application to the pending queue
+ * - Emails the admin team
+ */
+export async function respondToInformationRequest(
+  statusToken: string,
+  body: string,
+  fileUploads: FileUploadResult[] = []
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const validationError = validateApplicationMessage(body)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Moving the status first means a double submit can't record two responses
+    const { data: application } = await supabase
+      .from('chef_applications')
+      .update({ status: 'pending', updated_at: new Date().toISOString() })
+      .eq('status_token', statusToken)
+      .eq('status', 'information_requested')
+      .select('id, answers, upload_prefix')
+      .maybeSingle()
+
+    if (!application) {
+      return { success: false, error: "There's no open request for information on this application" }
+    }
+
+    const { error: insertError } = await supabase
+      .from('chef_application_messages')
+      .insert({
+        application_id: application.id,
+        sender: 'applicant',
+        body: body.trim(),
+        file_uploads: application.upload_prefix
+          ? sanitiseResponseUploads(fileUploads, application.upload_prefix)
+          : []
+      })
+
+    if (insertError) {
+      console.error('Error saving information response:', insertError)
+      await supabase
+        .from('chef_applications')
+        .update({ status: 'information_requested' })
+        .eq('id', application.id)
+      return { success: false, error: 'Failed to send your response. Please try again.' }
+    }
+
+    const answers = application.answers as Record<string, unknown>
+    const alertResult = await sendAdminApplicantReplyAlert(
+      String(answers[QUESTION_KEYS.FULL_NAME] || 'An applicant'),
+      application.id
+    )
+
+    if (!alertResult.success) {
+      console.error('Failed to send applicant reply alert:', alertResult.error)
+      // Continue anyway - response is saved
+    }
+
+    revalidatePath(applicationStatusPath(statusToken))
+    revalidatePath('/admin')
+    revalidatePath(`/admin/applications/${application.id}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in respondToInformationRequest:', error)
+    return { success: false, error: 'An unexpected error occurred. Please try again.' }
+  }
+}
@@ -1,8 +1,20 @@
 import { createSupabaseServerClient } from '@/lib/supabase-server'
 import ApplicationForm from '@/components/application-form'
+import { getApplicationDraft } from '@/lib/application-drafts-server'
+import { DRAFT_CONFIG } from '@/lib/application-drafts'
 import { ChefHat, Users, Clock, Award } from 'lucide-react'
 
-export default async function ApplyPage() {
+interface ApplyPageProps {
+  searchParams: Promise<{ draft?: string | string[] }>
+}
+
+export default async function ApplyPage({ searchParams }: ApplyPageProps) {
+  const { draft: draftToken } = await searchParams
+
+  // Resume link from the "finish later" email
+  const draft = typeof draftToken === 'string' ? await getApplicationDraft(draftToken) : null
+  const draftMissing = typeof draftToken === 'string' && !draft
+
   // Fetch the questions from the database
   const supabase = await createSupabaseServerClient()
   
@@ -12,6 +24,14 @@ export default async function ApplyPage() {
     .eq('is_visible', true)
     .order('display_order', { ascending: true })
 
+  // Latest question set version - recorded on the application
+  const { data: latestVersion } = await supabase
+    .from('chef_question_set_versions')
+    .select('version')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
   if (error) {
     console.error('Error fetching questions:', error)
     return (
@@ -150,7 +170,16 @@ export default async function ApplyPage() {
             <h2 className="text-xl sm:text-2xl font-bold text-foreground mb-2">Chef Sign Up Form</h2>
             <p className="text-sm sm:text-base text-muted-foreground">Please fill out all the boxes with a * to join our team.</p>
           </div>
-          <ApplicationForm questions={questions || []} />
+          {draftMissing && (
+            <div className="mb-8 p-4 rounded-xl bg-amber-50 text-amber-900 border border-amber-200 text-sm">
+              This link has expired or your form was already sent. Saved forms are kept for {DRAFT_CONFIG.RETENTION_DAYS} days - please start a new one below.
+            </div>
+          )}
+          <ApplicationForm
+            questions={questions || []}
+            questionSetVersion={latestVersion?.version ?? null}
+            draft={draft}
+          />
         </div>
 
         {/* Enhanced Footer */}
@@ -0,0 +1,163 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import type { Metadata } from 'next'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import Header from '@/components/header'
+import Footer from '@/components/footer'
+import { Badge } from '@/components/ui/badge'
+import ApplicationInformationResponse from '@/components/application-information-response'
+import { QUESTION_KEYS, type ApplicationAnswers } from '@/lib/application-questions'
+import {
+  APPLICATION_STATUS_LABELS,
+  type ApplicationMessage,
+  type ApplicationStatus,
+} from '@/lib/application-status'
+
+interface ApplicationStatusPageProps {
+  params: Promise<{ token: string }>
+}
+
+// Token links are private - keep them out of search engines
+export const metadata: Metadata = {
+  title: 'Your Application - Tastes Like Home',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+const STATUS_BADGE_CLASSES: Record<ApplicationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  information_requested: 'bg-orange-100 text-orange-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+}
+
+/**
+ * Chef Application Status Page
+ *
+ * Reached from the link in application emails (/apply/status/[status_token]).
+ *
+ * Features:
+ * - Current status of the application
+ * - Reason given when an application isn't accepted
+ * - Link to the chef profile once approved
+ * - Requests for more information from our team, answered here with
+ *   optional extra photos or a video
+ */
+export default async function ApplicationStatusPage({ params }: ApplicationStatusPageProps) {
+  const { token } = await params
+  const supabase = createSupabaseAdminClient()
+
+  const { data: application, error } = await supabase
+    .from('chef_applications')
+    .select('id, status, answers, rejection_reason, chef_id, upload_prefix, created_at')
+    .eq('status_token', token)
+    .single()
+
+  if (error || !application) {
+    notFound()
+  }
+
+  const { data: messageRows } = await supabase
+    .from('chef_application_messages')
+    .select('id, sender, body, file_uploads, created_at')
+    .eq('application_id', application.id)
+    .order('created_at', { ascending: true })
+  const messages = (messageRows || []) as ApplicationMessage[]
+
+  const status = application.status as ApplicationStatus
+  const answers = application.answers as ApplicationAnswers
+  const chefName = answers[QUESTION_KEYS.FULL_NAME]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 sm:py-12 max-w-2xl">
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Your chef application{chefName ? `, ${chefName}` : ''}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Submitted {new Date(application.created_at).toLocaleDateString()}. Bookmark this page - it&apos;s the easiest way to check on your application.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-medium text-gray-700">Status</span>
+            <Badge className={STATUS_BADGE_CLASSES[status]}>{APPLICATION_STATUS_LABELS[status]}</Badge>
+          </div>
+
+          {status === 'information_requested' && (
+            <p className="text-gray-700">
+              We need a little more information before we can finish reviewing your application. Please see our request below.
+            </p>
+          )}
+
+          {status === 'pending' && (
+            <p className="text-gray-700">
+              Our team is reviewing your application. We&apos;ll email you when there&apos;s an update, or if we have any questions.
+            </p>
+          )}
+
+          {status === 'approved' && (
+            <p className="text-gray-700">
+              Welcome aboard! Your chef profile is live.{' '}
+              {application.chef_id && (
+                <Link href={`/chef/${application.chef_id}`} className="text-primary hover:underline">
+                  View your profile
+                </Link>
+              )}
+            </p>
+          )}
+
+          {status === 'rejected' && (
+            <div className="space-y-2">
+              <p className="text-gray-700">
+                Thank you for applying. Unfortunately we weren&apos;t able to accept your application this time.
+              </p>
+              {application.rejection_reason && (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm font-medium text-gray-900">Reason</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{application.rejection_reason}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {messages.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">Messages</h2>
+              {messages.map(message => (
+                <div
+                  key={message.id}
+                  className={`rounded-lg p-4 text-sm ${message.sender === 'admin' ? 'bg-orange-50' : 'bg-gray-50 sm:ml-8'}`}
+                >
+                  <p className="font-medium text-gray-900">
+                    {message.sender === 'admin' ? 'Tastes Like Home team' : 'You'}
+                  </p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{message.body}</p>
+                  {message.file_uploads.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {message.file_uploads.length} file{message.file_uploads.length === 1 ? '' : 's'} attached
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(message.created_at).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {status === 'information_requested' && (
+            <ApplicationInformationResponse statusToken={token} uploadPrefix={application.upload_prefix} />
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
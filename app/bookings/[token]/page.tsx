@@ -0,0 +1,80 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import type { Metadata } from 'next'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import Header from '@/components/header'
+import Footer from '@/components/footer'
+import BookingSummary from '@/components/booking-summary'
+import BookingCustomerActions from '@/components/booking-customer-actions'
+import type { Booking, BookingEvent } from '@/lib/bookings'
+
+interface BookingPageProps {
+  params: Promise<{ token: string }>
+}
+
+// Token links are private - keep them out of search engines
+export const metadata: Metadata = {
+  title: 'Your Booking - Tastes Like Home',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Customer Booking Page
+ *
+ * Reached from the link in booking emails (/bookings/[customer_token]).
+ *
+ * Features:
+ * - Current status, details and timeline
+ * - Accept or decline a chef's counter-proposal
+ * - Cancel a pending or confirmed booking
+ */
+export default async function BookingPage({ params }: BookingPageProps) {
+  const { token } = await params
+  const supabase = createSupabaseAdminClient()
+
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*, chefs(id, name)')
+    .eq('customer_token', token)
+    .single()
+
+  if (error || !booking) {
+    notFound()
+  }
+
+  const { data: events } = await supabase
+    .from('booking_events')
+    .select('*')
+    .eq('booking_id', booking.id)
+    .order('created_at', { ascending: true })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 sm:py-12 max-w-2xl">
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Your booking with{' '}
+              <Link href={`/chef/${booking.chefs?.id}`} className="text-primary hover:underline">
+                {booking.chefs?.name}
+              </Link>
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Bookmark this page - it&apos;s the easiest way to check on your booking.
+            </p>
+          </div>
+
+          <BookingSummary booking={booking as Booking} events={(events || []) as BookingEvent[]} />
+
+          <BookingCustomerActions customerToken={token} status={booking.status} />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,511 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import { hashEmail, hashIP, generateVerificationToken } from '@/lib/crypto'
+import { sendBookingRequestEmail, sendBookingUpdateEmail, type BookingEmailDetails } from '@/lib/email'
+import {
+  BOOKING_CONFIG,
+  validateBookingSlot,
+  formatBookingSlot,
+  type Booking,
+  type BookingActor,
+  type BookingSlot,
+  type BookingStatus,
+} from '@/lib/bookings'
+import { QUESTION_KEYS } from '@/lib/application-questions'
+
+interface BookingActionResult {
+  success: boolean
+  error?: string
+  bookingUrl?: string
+}
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+/**
+ * Server action for a customer to request a booking
+ *
+ * Features:
+ * - Validates date, time, hours (against the chef's minimum_booking) and guests
+ * - Rate limiting by IP (max 3 requests per hour)
+ * - Reuses customer_contacts for PII, keeping bookings free of email/phone
+ * - Emails the chef a respond link and the customer a status link
+ */
+export async function requestBooking(
+  chefId: string,
+  formData: {
+    name: string
+    email: string
+    phone?: string
+    date: string
+    startTime: string
+    hours: number
+    guestCount: number
+    addressArea: string
+    notes?: string
+  }
+): Promise<BookingActionResult> {
+  try {
+    // === INPUT VALIDATION ===
+    if (!formData.name?.trim()) {
+      return { success: false, error: 'Please enter your name' }
+    }
+
+    if (!formData.email || !formData.email.includes('@')) {
+      return { success: false, error: 'Please enter a valid email address' }
+    }
+
+    if (!Number.isInteger(formData.guestCount) || formData.guestCount < 1 || formData.guestCount > BOOKING_CONFIG.MAX_GUESTS) {
+      return { success: false, error: `Guests must be between 1 and ${BOOKING_CONFIG.MAX_GUESTS}` }
+    }
+
+    const addressArea = formData.addressArea?.trim() || ''
+    if (!addressArea || addressArea.length > BOOKING_CONFIG.MAX_AREA_LENGTH) {
+      return { success: false, error: 'Please enter your area or postcode district (e.g. Hounslow, TW3)' }
+    }
+
+    if (formData.notes && formData.notes.length > BOOKING_CONFIG.MAX_NOTES_LENGTH) {
+      return { success: false, error: `Notes must be ${BOOKING_CONFIG.MAX_NOTES_LENGTH} characters or less` }
+    }
+
+    // === GET CLIENT IP FOR SECURITY ===
+    const headersList = await headers()
+    const clientIp = headersList.get('x-forwarded-for')?.split(',')[0] ||
+                     headersList.get('x-real-ip') ||
+                     '127.0.0.1'
+
+    const supabase = createSupabaseAdminClient()
+    const ipHash = hashIP(clientIp)
+
+    // === VERIFY CHEF EXISTS AND IS VERIFIED ===
+    const { data: chef, error: chefError } = await supabase
+      .from('chefs')
+      .select('id, name, minimum_booking, verified')
+      .eq('id', chefId)
+      .eq('verified', true)
+      .single()
+
+    if (chefError || !chef) {
+      return { success: false, error: 'Chef not found or not available for bookings' }
+    }
+
+    // === VALIDATE SLOT AGAINST CHEF'S MINIMUM BOOKING ===
+    const slotError = validateBookingSlot(
+      { date: formData.date, startTime: formData.startTime, hours: formData.hours },
+      chef.minimum_booking
+    )
+    if (slotError) {
+      return { success: false, error: slotError }
+    }
+
+    // === RATE LIMITING: Max 3 booking requests per IP per hour ===
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const { count: ipSubmissions } = await supabase
+      .from('bookings')
+      .select('id', { count: 'exact' })
+      .eq('ip_hash', ipHash)
+      .gte('created_at', oneHourAgo)
+
+    if (ipSubmissions && ipSubmissions >= 3) {
+      return { success: false, error: 'Too many booking requests from your location. Please try again later.' }
+    }
+
+    // === FIND OR CREATE CUSTOMER CONTACT ===
+    const customerContactId = await findOrCreateCustomerContact(supabase, formData)
+    if (!customerContactId) {
+      return { success: false, error: 'Failed to save contact information. Please try again.' }
+    }
+
+    // === CREATE BOOKING ===
+    const chefToken = generateVerificationToken()
+    const customerToken = generateVerificationToken()
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .insert({
+        chef_id: chefId,
+        customer_ref: customerContactId,
+        status: 'requested',
+        booking_date: formData.date,
+        start_time: formData.startTime,
+        hours: formData.hours,
+        guest_count: formData.guestCount,
+        address_area: addressArea,
+        notes: formData.notes?.trim() || null,
+        chef_token: chefToken,
+        customer_token: customerToken,
+        ip_hash: ipHash
+      })
+      .select('*')
+      .single()
+
+    if (bookingError || !booking) {
+      console.error('Error creating booking:', bookingError)
+      return { success: false, error: 'Failed to submit booking request. Please try again.' }
+    }
+
+    await logBookingEvent(supabase, booking.id, null, 'requested', 'customer', 'Booking requested')
+
+    // === NOTIFY BOTH PARTIES ===
+    const customerUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/bookings/${customerToken}`
+    const chefUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/bookings/respond/${chefToken}`
+    const details = toEmailDetails(booking)
+
+    const chefEmail = await getChefEmail(supabase, chefId)
+    if (chefEmail) {
+      const emailResult = await sendBookingRequestEmail(chefEmail, chef.name, formData.name.trim(), details, chefUrl)
+      if (!emailResult.success) {
+        console.error('Failed to send booking request email:', emailResult.error)
+        // Continue anyway - admin can follow up from the bookings table
+      }
+    } else {
+      console.error('No email found for chef, booking request not sent:', chefId)
+    }
+
+    const customerEmailResult = await sendBookingUpdateEmail(
+      formData.email,
+      formData.name.trim(),
+      {
+        subject: `Booking request sent to ${chef.name}`,
+        heading: 'Your booking request has been sent',
+        message: `we've passed your request to ${chef.name}. We'll email you as soon as they reply.`
+      },
+      details,
+      customerUrl
+    )
+    if (!customerEmailResult.success) {
+      console.error('Failed to send booking confirmation email:', customerEmailResult.error)
+      // Continue anyway - booking is created
+    }
+
+    revalidatePath('/admin')
+
+    return { success: true, bookingUrl: `/bookings/${customerToken}` }
+
+  } catch (error) {
+    console.error('Booking request error:', error)
+    return { success: false, error: 'An unexpected error occurred. Please try again.' }
+  }
+}
+
+/**
+ * Server action for a chef to accept, decline or counter-propose a booking
+ * Authorised by the chef_token from the booking request email
+ */
+export async function respondToBooking(
+  chefToken: string,
+  response: 'accept' | 'decline' | 'counter',
+  details?: { counter?: BookingSlot; message?: string }
+): Promise<BookingActionResult> {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: booking, error: fetchError } = await supabase
+      .from('bookings')
+      .select('*, chefs(name, minimum_booking), customer_contacts(email, name)')
+      .eq('chef_token', chefToken)
+      .single()
+
+    if (fetchError || !booking) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    if (booking.status !== 'requested') {
+      return { success: false, error: 'This booking has already been answered' }
+    }
+
+    const message = details?.message?.trim() || null
+    if (message && message.length > BOOKING_CONFIG.MAX_NOTES_LENGTH) {
+      return { success: false, error: `Message must be ${BOOKING_CONFIG.MAX_NOTES_LENGTH} characters or less` }
+    }
+
+    const updates: Record<string, unknown> = {
+      chef_message: message,
+      responded_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+    let newStatus: BookingStatus
+
+    if (response === 'accept') {
+      newStatus = 'accepted'
+    } else if (response === 'decline') {
+      newStatus = 'declined'
+    } else {
+      const counter = details?.counter
+      if (!counter) {
+        return { success: false, error: 'Please suggest a date, time and hours' }
+      }
+
+      const slotError = validateBookingSlot(counter, booking.chefs?.minimum_booking)
+      if (slotError) {
+        return { success: false, error: slotError }
+      }
+
+      newStatus = 'countered'
+      updates.counter_date = counter.date
+      updates.counter_start_time = counter.startTime
+      updates.counter_hours = counter.hours
+    }
+
+    // Only update if still requested (guards against double submits)
+    const { data: updated, error: updateError } = await supabase
+      .from('bookings')
+      .update({ ...updates, status: newStatus })
+      .eq('id', booking.id)
+      .eq('status', 'requested')
+      .select('*')
+      .single()
+
+    if (updateError || !updated) {
+      console.error('Error updating booking:', updateError)
+      return { success: false, error: 'Failed to update booking. Please try again.' }
+    }
+
+    await logBookingEvent(supabase, booking.id, 'requested', newStatus, 'chef', message)
+
+    // === NOTIFY CUSTOMER ===
+    const chefName = booking.chefs?.name || 'Your chef'
+    const customerUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/bookings/${booking.customer_token}`
+    const customerUpdates = {
+      accepted: {
+        subject: `${chefName} accepted your booking`,
+        heading: 'Your booking is confirmed!',
+        message: `${chefName} has accepted your booking. They may contact you to plan the menu.`
+      },
+      declined: {
+        subject: `${chefName} can't take your booking`,
+        heading: 'Your booking was declined',
+        message: `${chefName} isn't available for this booking. Other chefs near you may be - have a look on the site.`
+      },
+      countered: {
+        subject: `${chefName} suggested a different time`,
+        heading: 'Your chef suggested a change',
+        message: `${chefName} can't do the original time but suggested an alternative. Open your booking to accept or decline it.`
+      }
+    }
+
+    if (booking.customer_contacts?.email) {
+      const emailResult = await sendBookingUpdateEmail(
+        booking.customer_contacts.email,
+        booking.customer_contacts.name || 'there',
+        { ...customerUpdates[newStatus as keyof typeof customerUpdates], chefMessage: message },
+        toEmailDetails(updated),
+        customerUrl
+      )
+      if (!emailResult.success) {
+        console.error('Failed to send booking update email:', emailResult.error)
+        // Continue anyway - booking is updated
+      }
+    }
+
+    revalidatePath(`/bookings/respond/${chefToken}`)
+    revalidatePath(`/bookings/${booking.customer_token}`)
+    revalidatePath('/admin')
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('Error in respondToBooking:', error)
+    return { success: false, error: 'An unexpected error occurred. Please try again.' }
+  }
+}
+
+/**
+ * Server action for a customer to accept or decline a chef's counter-proposal,
+ * or cancel their booking. Authorised by the customer_token.
+ */
+export async function updateBookingAsCustomer(
+  customerToken: string,
+  action: 'accept_counter' | 'decline_counter' | 'cancel'
+): Promise<BookingActionResult> {
+  try {
+    const supabase = createSupabaseAdminClient()
+
+    const { data: booking, error: fetchError } = await supabase
+      .from('bookings')
+      .select('*, chefs(id, name)')
+      .eq('customer_token', customerToken)
+      .single()
+
+    if (fetchError || !booking) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    let newStatus: BookingStatus
+    let notes: string
+
+    if (action === 'accept_counter' || action === 'decline_counter') {
+      if (booking.status !== 'countered') {
+        return { success: false, error: 'There is no suggested change to respond to' }
+      }
+
+      if (action === 'accept_counter') {
+        // Counter-proposal becomes the booking
+        newStatus = 'accepted'
+        notes = 'Customer accepted counter-proposal'
+        updates.booking_date = booking.counter_date
+        updates.start_time = booking.counter_start_time
+        updates.hours = booking.counter_hours
+      } else {
+        newStatus = 'cancelled'
+        notes = 'Customer declined counter-proposal'
+      }
+    } else {
+      if (!['requested', 'countered', 'accepted'].includes(booking.status)) {
+        return { success: false, error: 'This booking can no longer be cancelled' }
+      }
+      newStatus = 'cancelled'
+      notes = 'Cancelled by customer'
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('bookings')
+      .update({ ...updates, status: newStatus })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .select('*')
+      .single()
+
+    if (updateError || !updated) {
+      console.error('Error updating booking:', updateError)
+      return { success: false, error: 'Failed to update booking. Please try again.' }
+    }
+
+    await logBookingEvent(supabase, booking.id, booking.status, newStatus, 'customer', notes)
+
+    // === NOTIFY CHEF ===
+    const chefEmail = await getChefEmail(supabase, booking.chef_id)
+    if (chefEmail) {
+      const chefUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/bookings/respond/${booking.chef_token}`
+      const confirmed = newStatus === 'accepted'
+      const emailResult = await sendBookingUpdateEmail(
+        chefEmail,
+        booking.chefs?.name || 'there',
+        {
+          subject: confirmed ? 'Booking confirmed' : 'Booking cancelled',
+          heading: confirmed ? 'Your suggested time was accepted' : 'A booking was cancelled',
+          message: confirmed
+            ? 'the customer accepted your suggested time. The booking is now confirmed.'
+            : 'the customer has cancelled this booking. No further action is needed.'
+        },
+        toEmailDetails(updated),
+        chefUrl
+      )
+      if (!emailResult.success) {
+        console.error('Failed to send booking update email:', emailResult.error)
+        // Continue anyway - booking is updated
+      }
+    }
+
+    revalidatePath(`/bookings/${customerToken}`)
+    revalidatePath(`/bookings/respond/${booking.chef_token}`)
+    revalidatePath('/admin')
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('Error in updateBookingAsCustomer:', error)
+    return { success: false, error: 'An unexpected error occurred. Please try again.' }
+  }
+}
+
+/**
+ * Find a customer contact by email hash, creating one if needed
+ * Booking requests are not marketing consent, so opt-in stays off for new contacts
+ */
+async function findOrCreateCustomerContact(
+  supabase: AdminClient,
+  contact: { name: string; email: string; phone?: string }
+): Promise<string | null> {
+  const emailHash = hashEmail(contact.email)
+
+  const { data: existingContact } = await supabase
+    .from('customer_contacts')
+    .select('id')
+    .eq('email_hash', emailHash)
+    .single()
+
+  if (existingContact) {
+    return existingContact.id
+  }
+
+  const { data: newContact, error: contactError } = await supabase
+    .from('customer_contacts')
+    .insert({
+      email: contact.email.toLowerCase().trim(),
+      phone: contact.phone?.trim() || null,
+      name: contact.name.trim(),
+      email_hash: emailHash,
+      marketing_opt_in: false,
+      consent_source: 'contact_form'
+    })
+    .select('id')
+    .single()
+
+  if (contactError || !newContact) {
+    console.error('Error creating customer contact:', contactError)
+    return null
+  }
+
+  return newContact.id
+}
+
+/**
+ * Chefs have no email column; use the email from their approved application
+ */
+async function getChefEmail(supabase: AdminClient, chefId: string): Promise<string | null> {
+  const { data: application } = await supabase
+    .from('chef_applications')
+    .select('answers')
+    .eq('chef_id', chefId)
+    .eq('status', 'approved')
+    .order('approved_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const email = application?.answers?.[QUESTION_KEYS.EMAIL]
+  return typeof email === 'string' && email.includes('@') ? email : null
+}
+
+/**
+ * Record a booking status change (following review_events pattern)
+ */
+async function logBookingEvent(
+  supabase: AdminClient,
+  bookingId: string,
+  fromStatus: BookingStatus | null,
+  toStatus: BookingStatus,
+  actor: BookingActor,
+  notes: string | null
+) {
+  const { error } = await supabase
+    .from('booking_events')
+    .insert({
+      booking_id: bookingId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      actor,
+      notes
+    })
+
+  if (error) {
+    console.error('Error logging booking event:', error)
+    // Continue anyway - event logging is non-critical
+  }
+}
+
+function toEmailDetails(booking: Booking): BookingEmailDetails {
+  const countered = booking.status === 'countered' && booking.counter_date && booking.counter_start_time
+  return {
+    when: countered
+      ? `${formatBookingSlot(booking.counter_date!, booking.counter_start_time!)} (suggested)`
+      : formatBookingSlot(booking.booking_date, booking.start_time),
+    hours: countered && booking.counter_hours ? booking.counter_hours : booking.hours,
+    guestCount: booking.guest_count,
+    addressArea: booking.address_area,
+    notes: booking.notes
+  }
+}
@@ -0,0 +1,92 @@
+import { notFound } from 'next/navigation'
+import type { Metadata } from 'next'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import Header from '@/components/header'
+import Footer from '@/components/footer'
+import BookingSummary from '@/components/booking-summary'
+import BookingResponseForm from '@/components/booking-response-form'
+import type { Booking, BookingEvent } from '@/lib/bookings'
+
+interface BookingRespondPageProps {
+  params: Promise<{ token: string }>
+}
+
+// Token links are private - keep them out of search engines
+export const metadata: Metadata = {
+  title: 'Booking Request - Tastes Like Home',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Chef Booking Response Page
+ *
+ * Reached from the booking request email (/bookings/respond/[chef_token]).
+ *
+ * Features:
+ * - Shows the request without exposing the customer's email or phone
+ * - Accept, decline or counter-propose while the request is open
+ * - Timeline of what happened after responding
+ */
+export default async function BookingRespondPage({ params }: BookingRespondPageProps) {
+  const { token } = await params
+  const supabase = createSupabaseAdminClient()
+
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*, chefs(name, minimum_booking), customer_contacts(name)')
+    .eq('chef_token', token)
+    .single()
+
+  if (error || !booking) {
+    notFound()
+  }
+
+  const { data: events } = await supabase
+    .from('booking_events')
+    .select('*')
+    .eq('booking_id', booking.id)
+    .order('created_at', { ascending: true })
+
+  const customerName = booking.customer_contacts?.name || 'A customer'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 sm:py-12 max-w-2xl">
+        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Booking request from {customerName}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Hi {booking.chefs?.name?.split(' ')[0]}, please reply as soon as you can.
+            </p>
+          </div>
+
+          <BookingSummary booking={booking as Booking} events={(events || []) as BookingEvent[]} />
+
+          {booking.status === 'requested' ? (
+            <BookingResponseForm
+              chefToken={token}
+              minimumBooking={booking.chefs?.minimum_booking || null}
+              initialSlot={{
+                date: booking.booking_date,
+                startTime: booking.start_time,
+                hours: booking.hours
+              }}
+            />
+          ) : (
+            <p className="text-sm text-gray-600 bg-gray-50 border rounded-lg p-4">
+              You&apos;ve already replied to this request. We&apos;ll email you if the customer changes anything.
+            </p>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
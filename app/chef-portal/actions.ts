@@ -0,0 +1,876 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { sendAdminDocumentUploadAlert, sendChefPortalLoginEmail } from '@/lib/email'
+import { validateFile } from '@/lib/storage'
+import { uploadChefMedia } from '@/lib/chef-media-server'
+import { uploadChefDocumentFile } from '@/lib/chef-documents-server'
+import {
+  CHEF_DOCUMENT_CONFIG,
+  CHEF_DOCUMENT_LABELS,
+  validateChefDocument,
+  validateDocumentFile,
+  type ChefDocumentType,
+} from '@/lib/chef-documents'
+import { replaceChefAvailability, type AvailabilityInput } from '@/lib/availability-server'
+import { removeChefDish, reorderChefDishes, upsertChefDish } from '@/lib/dishes-server'
+import type { DishInput } from '@/lib/dishes'
+import { validateReplyBody } from '@/lib/review-replies'
+import { findApprovedChefByEmail, getPortalChef, type PortalChef } from '@/lib/chef-portal-session'
+import {
+  PORTAL_CONFIG,
+  PORTAL_EDITABLE_FIELDS,
+  SENSITIVE_FIELDS,
+  normalisePortalEmail,
+  validatePortalProfile,
+  type PortalProfileInput,
+  type SensitiveField,
+} from '@/lib/chef-portal'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+const SIGN_IN_REQUIRED = 'Your session has expired. Please sign in again.'
+
+/**
+ * Server action to email a chef portal sign-in link
+ *
+ * Features:
+ * - Only approved chefs get a link; everyone sees the same response, even
+ *   when a chef's link is rate limited or fails to send, so the form can't
+ *   be used to discover which emails belong to chefs
+ * - Creates the Supabase auth user on first sign-in
+ * - Rate limited per chef via chef_audit_log
+ */
+export async function requestChefPortalLink(email: string): Promise<{ success: boolean; error?: string; message?: string }> {
+  const genericMessage = 'If that email belongs to an approved chef, a sign-in link is on its way.'
+
+  try {
+    const normalisedEmail = normalisePortalEmail(email)
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalisedEmail)) {
+      return { success: false, error: 'Please enter a valid email address' }
+    }
+
+    const chef = await findApprovedChefByEmail(normalisedEmail)
+    if (!chef) {
+      return { success: true, message: genericMessage }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // === RATE LIMITING ===
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const { count: recentRequests } = await supabase
+      .from('chef_audit_log')
+      .select('id', { count: 'exact', head: true })
+      .eq('chef_id', chef.chefId)
+      .eq('action', 'portal_link_requested')
+      .gte('created_at', oneHourAgo)
+
+    if ((recentRequests || 0) >= PORTAL_CONFIG.MAX_LINK_REQUESTS_PER_HOUR) {
+      console.error(`Chef portal link rate limited for chef ${chef.chefId}`)
+      return { success: true, message: genericMessage }
+    }
+
+    // === ENSURE AUTH USER ===
+    // Fails harmlessly when the chef has signed in before
+    await supabase.auth.admin.createUser({
+      email: normalisedEmail,
+      email_confirm: true,
+      app_metadata: { role: 'chef' }
+    })
+
+    // === GENERATE MAGIC LINK ===
+    const { data: linkData, error: linkError } = await supabase.auth.admin.generateLink({
+      type: 'magiclink',
+      email: normalisedEmail
+    })
+
+    if (linkError || !linkData?.properties?.hashed_token) {
+      console.error('Error generating chef portal link:', linkError)
+      return { success: true, message: genericMessage }
+    }
+
+    const loginUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/chef-portal/auth/confirm?token_hash=${linkData.properties.hashed_token}&type=magiclink`
+
+    const emailResult = await sendChefPortalLoginEmail(normalisedEmail, chef.chefName, loginUrl)
+    if (!emailResult.success) {
+      console.error('Failed to send chef portal login email:', emailResult.error)
+      return { success: true, message: genericMessage }
+    }
+
+    await supabase
+      .from('chef_audit_log')
+      .insert({
+        chef_id: chef.chefId,
+        action: 'portal_link_requested',
+        metadata: { source: 'chef_portal' }
+      })
+
+    return { success: true, message: genericMessage }
+  } catch (error) {
+    console.error('Error in requestChefPortalLink:', error)
+    return { success: false, error: 'Something went wrong. Please try again.' }
+  }
+}
+
+/**
+ * Server action for a chef to update their own profile
+ *
+ * Features:
+ * - Everyday fields (bio, availability, languages...) apply immediately
+ * - Rate and minimum booking changes are queued for admin approval,
+ *   replacing any earlier pending request
+ * - Every change is written to chef_audit_log
+ */
+export async function updatePortalProfile(data: PortalProfileInput): Promise<{ success: boolean; error?: string; pendingApproval?: boolean }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const validationError = validatePortalProfile(data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // The column list is built at runtime, so the row is typed by hand
+    const { data: current, error: fetchError } = await supabase
+      .from('chefs')
+      .select(`id, ${[...PORTAL_EDITABLE_FIELDS, ...SENSITIVE_FIELDS].join(', ')}`)
+      .eq('id', portalChef.chefId)
+      .single()
+      .overrideTypes<Record<string, unknown>, { merge: false }>()
+
+    if (fetchError || !current) {
+      console.error('Error fetching chef for portal update:', fetchError)
+      return { success: false, error: 'Chef profile not found' }
+    }
+
+    // === IMMEDIATE CHANGES ===
+    const updates: Record<string, unknown> = {}
+    for (const field of PORTAL_EDITABLE_FIELDS) {
+      const value = typeof data[field] === 'string' ? (data[field] as string).trim() || null : data[field]
+      if (value !== current[field]) {
+        updates[field] = value
+      }
+    }
+
+    const changedFields = Object.keys(updates)
+    if (changedFields.length > 0) {
+      const { error: updateError } = await supabase
+        .from('chefs')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', portalChef.chefId)
+
+      if (updateError) {
+        console.error('Error updating chef from portal:', updateError)
+        return { success: false, error: 'Failed to save your profile. Please try again.' }
+      }
+
+      await logPortalChange(supabase, portalChef, 'updated', { fields: changedFields })
+    }
+
+    // === SENSITIVE CHANGES (ADMIN APPROVAL) ===
+    const pendingApproval = await queueSensitiveChanges(supabase, portalChef, data, current)
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+    if (changedFields.length > 0) {
+      revalidatePath(`/chef/${portalChef.chefId}`)
+      revalidatePath('/')
+    }
+
+    return { success: true, pendingApproval }
+  } catch (error) {
+    console.error('Error in updatePortalProfile:', error)
+    return { success: false, error: 'Failed to save your profile' }
+  }
+}
+
+/**
+ * Server action for a chef to update their cuisine specialties
+ */
+export async function updatePortalCuisines(cuisines: string[]): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const cleaned = [...new Set(cuisines.map(c => c.trim()).filter(Boolean))]
+    if (cleaned.length === 0) {
+      return { success: false, error: 'Please add at least one cuisine' }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    const { error: deleteError } = await supabase
+      .from('chef_cuisines')
+      .delete()
+      .eq('chef_id', portalChef.chefId)
+
+    if (deleteError) {
+      console.error('Error deleting old cuisines:', deleteError)
+      return { success: false, error: 'Failed to update cuisines' }
+    }
+
+    const { error: insertError } = await supabase
+      .from('chef_cuisines')
+      .insert(cleaned.map(cuisine => ({ chef_id: portalChef.chefId, cuisine })))
+
+    if (insertError) {
+      console.error('Error inserting new cuisines:', insertError)
+      return { success: false, error: 'Failed to update cuisines' }
+    }
+
+    await supabase
+      .from('chefs')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', portalChef.chefId)
+
+    await logPortalChange(supabase, portalChef, 'updated', { field: 'cuisines', new_value: cleaned })
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+    revalidatePath(`/chef/${portalChef.chefId}`)
+    revalidatePath('/')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updatePortalCuisines:', error)
+    return { success: false, error: 'Failed to update cuisines' }
+  }
+}
+
+/**
+ * Server action for a chef to update their weekly slots and blackout dates
+ */
+export async function updatePortalAvailability(data: AvailabilityInput): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const error = await replaceChefAvailability(portalChef.chefId, data)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const supabase = createSupabaseAdminClient()
+    await logPortalChange(supabase, portalChef, 'updated', {
+      field: 'availability',
+      slot_count: data.slots.length,
+      blackout_dates: data.blackoutDates
+    })
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+    revalidatePath(`/chef/${portalChef.chefId}`)
+    revalidatePath('/')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updatePortalAvailability:', error)
+    return { success: false, error: 'Failed to update availability' }
+  }
+}
+
+/**
+ * Server action for a chef to add a dish to their menu, or update one
+ */
+export async function savePortalDish(data: DishInput, dishId?: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const error = await upsertChefDish(portalChef.chefId, data, dishId)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const supabase = createSupabaseAdminClient()
+    await logPortalChange(supabase, portalChef, 'updated', {
+      field: 'menu',
+      dish: data.name.trim(),
+      dish_id: dishId || null
+    })
+
+    revalidatePortalMenu(portalChef.chefId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in savePortalDish:', error)
+    return { success: false, error: 'Failed to save dish' }
+  }
+}
+
+/**
+ * Server action for a chef to remove a dish from their menu
+ */
+export async function deletePortalDish(dishId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const error = await removeChefDish(portalChef.chefId, dishId)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const supabase = createSupabaseAdminClient()
+    await logPortalChange(supabase, portalChef, 'updated', { field: 'menu', deleted_dish_id: dishId })
+
+    revalidatePortalMenu(portalChef.chefId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deletePortalDish:', error)
+    return { success: false, error: 'Failed to delete dish' }
+  }
+}
+
+/**
+ * Server action for a chef to reorder their menu
+ */
+export async function updatePortalDishOrder(dishIds: string[]): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const error = await reorderChefDishes(portalChef.chefId, dishIds)
+    if (error) {
+      return { success: false, error }
+    }
+
+    revalidatePortalMenu(portalChef.chefId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updatePortalDishOrder:', error)
+    return { success: false, error: 'Failed to reorder dishes' }
+  }
+}
+
+/**
+ * Server action for a chef to reply to one of their published reviews
+ *
+ * Features:
+ * - One reply per review; saving again edits the existing reply
+ * - New and edited replies go back to moderation before showing publicly
+ * - Replies removed by an admin can't be resubmitted
+ * - Every change is logged to review_events with the reply id
+ */
+export async function submitReviewReply(reviewId: string, body: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const validationError = validateReplyBody(body)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // === CHECK REVIEW ===
+    const { data: review } = await supabase
+      .from('reviews')
+      .select('id, chef_id, status')
+      .eq('id', reviewId)
+      .eq('chef_id', portalChef.chefId)
+      .maybeSingle()
+
+    if (!review || review.status !== 'published') {
+      return { success: false, error: 'You can only reply to published reviews of your own profile' }
+    }
+
+    const { data: existing } = await supabase
+      .from('review_replies')
+      .select('id, status')
+      .eq('review_id', reviewId)
+      .maybeSingle()
+
+    if (existing?.status === 'spam') {
+      return { success: false, error: 'Your reply to this review was removed by our team' }
+    }
+
+    // === SAVE REPLY ===
+    let replyId: string
+    if (existing) {
+      const { error: updateError } = await supabase
+        .from('review_replies')
+        .update({
+          body: body.trim(),
+          status: 'awaiting_moderation',
+          published_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id)
+
+      if (updateError) {
+        console.error('Error updating review reply:', updateError)
+        return { success: false, error: 'Failed to save your reply' }
+      }
+      replyId = existing.id
+    } else {
+      const { data: inserted, error: insertError } = await supabase
+        .from('review_replies')
+        .insert({
+          review_id: reviewId,
+          chef_id: portalChef.chefId,
+          body: body.trim()
+        })
+        .select('id')
+        .single()
+
+      if (insertError || !inserted) {
+        console.error('Error creating review reply:', insertError)
+        return { success: false, error: 'Failed to save your reply' }
+      }
+      replyId = inserted.id
+    }
+
+    // === LOG REPLY EVENT ===
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: reviewId,
+        reply_id: replyId,
+        from_status: existing?.status || null,
+        to_status: 'awaiting_moderation',
+        actor: 'chef',
+        notes: existing ? 'Reply edited by chef - awaiting moderation' : 'Reply submitted by chef - awaiting moderation'
+      })
+
+    revalidatePath('/chef-portal')
+    revalidatePath('/admin')
+    // A published reply being edited disappears until re-approved
+    revalidatePath(`/chef/${portalChef.chefId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in submitReviewReply:', error)
+    return { success: false, error: 'Failed to save your reply' }
+  }
+}
+
+/**
+ * Server action for a chef to add food photos
+ */
+export async function addPortalFoodPhotos(formData: FormData): Promise<{ success: boolean; error?: string; uploadedCount?: number }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const files = (formData.getAll('photos') as File[]).filter(file => file && file.size > 0)
+    if (files.length === 0) {
+      return { success: false, error: 'No files provided' }
+    }
+
+    for (const file of files) {
+      const validation = validateFile(file, 'food')
+      if (!validation.isValid) {
+        return { success: false, error: `${file.name}: ${validation.error}` }
+      }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    const { data: existingPhotos } = await supabase
+      .from('food_photos')
+      .select('display_order')
+      .eq('chef_id', portalChef.chefId)
+      .order('display_order', { ascending: false })
+
+    const existingCount = existingPhotos?.length || 0
+    if (existingCount + files.length > PORTAL_CONFIG.MAX_FOOD_PHOTOS) {
+      return { success: false, error: `You can have up to ${PORTAL_CONFIG.MAX_FOOD_PHOTOS} food photos. Remove some before adding more.` }
+    }
+
+    const maxOrder = existingPhotos?.[0]?.display_order || 0
+    const photoRecords = []
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i]
+      const { url: photoUrl, variants, error: uploadError } = await uploadChefMedia(supabase, portalChef.chefId, 'food', file)
+
+      if (uploadError || !photoUrl) {
+        console.error('Storage upload error:', uploadError)
+        return { success: false, error: `Failed to upload ${file.name}. Please try again.` }
+      }
+
+      photoRecords.push({
+        chef_id: portalChef.chefId,
+        photo_url: photoUrl,
+        variants,
+        display_order: maxOrder + i + 1
+      })
+    }
+
+    const { error: insertError } = await supabase
+      .from('food_photos')
+      .insert(photoRecords)
+
+    if (insertError) {
+      console.error('Error inserting photo records:', insertError)
+      return { success: false, error: 'Failed to save your photos. Please try again.' }
+    }
+
+    await supabase
+      .from('chefs')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', portalChef.chefId)
+
+    await logPortalChange(supabase, portalChef, 'updated', { field: 'food_photos_added', count: files.length })
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+    revalidatePath(`/chef/${portalChef.chefId}`)
+
+    return { success: true, uploadedCount: files.length }
+  } catch (error) {
+    console.error('Error in addPortalFoodPhotos:', error)
+    return { success: false, error: 'Failed to add food photos' }
+  }
+}
+
+/**
+ * Server action for a chef to remove one of their food photos
+ */
+export async function deletePortalFoodPhoto(photoId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Scoped to the signed-in chef so one chef can't remove another's photos
+    const { data: photo, error: deleteError } = await supabase
+      .from('food_photos')
+      .delete()
+      .eq('id', photoId)
+      .eq('chef_id', portalChef.chefId)
+      .select('photo_url')
+      .maybeSingle()
+
+    if (deleteError) {
+      console.error('Error deleting photo record:', deleteError)
+      return { success: false, error: 'Failed to remove photo' }
+    }
+
+    if (!photo) {
+      return { success: false, error: 'Photo not found' }
+    }
+
+    await supabase
+      .from('chefs')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', portalChef.chefId)
+
+    await logPortalChange(supabase, portalChef, 'updated', { field: 'food_photo_deleted', photo_url: photo.photo_url })
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+    revalidatePath(`/chef/${portalChef.chefId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deletePortalFoodPhoto:', error)
+    return { success: false, error: 'Failed to remove photo' }
+  }
+}
+
+/**
+ * Server action for a chef to upload a verification document
+ *
+ * Features:
+ * - Food hygiene certificate, right to work or DBS check, with issue and
+ *   expiry dates
+ * - Held for admin review; only approved documents show as checks
+ * - Admin is emailed about the new upload
+ */
+export async function uploadPortalDocument(formData: FormData): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const input = {
+      documentType: String(formData.get('documentType') || ''),
+      issuedOn: String(formData.get('issuedOn') || ''),
+      expiresOn: String(formData.get('expiresOn') || ''),
+    }
+
+    const validationError = validateChefDocument(input)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const file = formData.get('file') as File | null
+    if (!file || file.size === 0) {
+      return { success: false, error: 'Please choose a file to upload' }
+    }
+
+    const fileError = validateDocumentFile(file)
+    if (fileError) {
+      return { success: false, error: fileError }
+    }
+
+    const documentType = input.documentType as ChefDocumentType
+    const supabase = createSupabaseAdminClient()
+
+    const { path, error: uploadError } = await uploadChefDocumentFile(supabase, portalChef.chefId, documentType, file)
+    if (uploadError || !path) {
+      console.error('Document upload error:', uploadError)
+      return { success: false, error: 'Failed to upload your document. Please try again.' }
+    }
+
+    const { data: document, error: insertError } = await supabase
+      .from('chef_documents')
+      .insert({
+        chef_id: portalChef.chefId,
+        document_type: documentType,
+        storage_path: path,
+        file_name: file.name,
+        issued_on: input.issuedOn,
+        expires_on: input.expiresOn,
+        uploaded_by: portalChef.userId
+      })
+      .select('id')
+      .single()
+
+    if (insertError || !document) {
+      console.error('Error saving chef document:', insertError)
+      await supabase.storage.from(CHEF_DOCUMENT_CONFIG.BUCKET_NAME).remove([path])
+      return { success: false, error: 'Failed to save your document. Please try again.' }
+    }
+
+    await logPortalChange(supabase, portalChef, 'document_uploaded', {
+      document_id: document.id,
+      document_type: documentType,
+      expires_on: input.expiresOn
+    })
+
+    const alertResult = await sendAdminDocumentUploadAlert({
+      chefId: portalChef.chefId,
+      chefName: portalChef.chefName,
+      documentLabel: CHEF_DOCUMENT_LABELS[documentType],
+      expiresOn: new Date(input.expiresOn).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+    })
+    if (!alertResult.success) {
+      console.error('Failed to send document upload alert:', alertResult.error)
+      // Continue anyway - the document is listed on the admin chef page
+    }
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in uploadPortalDocument:', error)
+    return { success: false, error: 'Failed to upload your document' }
+  }
+}
+
+/**
+ * Server action for a chef to withdraw a document still awaiting review
+ */
+export async function deletePortalDocument(documentId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const portalChef = await getPortalChef()
+    if (!portalChef) {
+      return { success: false, error: SIGN_IN_REQUIRED }
+    }
+
+    const supabase = createSupabaseAdminClient()
+
+    // Scoped to the signed-in chef, and reviewed documents are kept as a record
+    const { data: document, error: deleteError } = await supabase
+      .from('chef_documents')
+      .delete()
+      .eq('id', documentId)
+      .eq('chef_id', portalChef.chefId)
+      .eq('status', 'pending')
+      .select('storage_path, document_type')
+      .maybeSingle()
+
+    if (deleteError) {
+      console.error('Error deleting chef document:', deleteError)
+      return { success: false, error: 'Failed to withdraw document' }
+    }
+
+    if (!document) {
+      return { success: false, error: 'Only documents awaiting review can be withdrawn' }
+    }
+
+    const { error: storageError } = await supabase.storage
+      .from(CHEF_DOCUMENT_CONFIG.BUCKET_NAME)
+      .remove([document.storage_path])
+
+    if (storageError) {
+      console.error('Error removing chef document file:', storageError)
+      // Continue anyway - storage-gc removes the unreferenced file
+    }
+
+    await logPortalChange(supabase, portalChef, 'document_withdrawn', {
+      document_id: documentId,
+      document_type: document.document_type
+    })
+
+    revalidatePath('/chef-portal')
+    revalidatePath(`/admin/chefs/${portalChef.chefId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deletePortalDocument:', error)
+    return { success: false, error: 'Failed to withdraw document' }
+  }
+}
+
+/**
+ * Server action to end the chef portal session
+ */
+export async function signOutChefPortal(): Promise<{ success: boolean }> {
+  try {
+    const supabase = await createSupabaseServerClient()
+    await supabase.auth.signOut()
+    return { success: true }
+  } catch (error) {
+    console.error('Error in signOutChefPortal:', error)
+    return { success: false }
+  }
+}
+
+/**
+ * Queue rate/minimum booking changes for admin approval
+ *
+ * Values are compared against the pending request (if any) rather than the
+ * live profile, so re-saving the form doesn't create duplicate requests.
+ * Setting a value back to the live one withdraws the pending request.
+ *
+ * @returns true if a request is now awaiting approval
+ */
+async function queueSensitiveChanges(
+  supabase: AdminClient,
+  portalChef: PortalChef,
+  data: PortalProfileInput,
+  current: Record<string, unknown>
+): Promise<boolean> {
+  const changes: Partial<Record<SensitiveField, number | null>> = {}
+  const previousValues: Partial<Record<SensitiveField, number | null>> = {}
+
+  for (const field of SENSITIVE_FIELDS) {
+    const currentValue = current[field] === null ? null : Number(current[field])
+    if (data[field] !== currentValue) {
+      changes[field] = data[field]
+      previousValues[field] = currentValue
+    }
+  }
+
+  const { data: pending } = await supabase
+    .from('chef_profile_change_requests')
+    .select('id, changes')
+    .eq('chef_id', portalChef.chefId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const pendingChanges = (pending?.changes || {}) as Record<string, unknown>
+  const samePending = pending &&
+    Object.keys(pendingChanges).length === Object.keys(changes).length &&
+    SENSITIVE_FIELDS.every(field => pendingChanges[field] === changes[field])
+
+  if (samePending) {
+    return true
+  }
+
+  // Anything still pending is replaced by this save
+  if (pending) {
+    await supabase
+      .from('chef_profile_change_requests')
+      .update({ status: 'superseded', reviewed_at: new Date().toISOString() })
+      .eq('chef_id', portalChef.chefId)
+      .eq('status', 'pending')
+  }
+
+  if (Object.keys(changes).length === 0) {
+    if (pending) {
+      await logPortalChange(supabase, portalChef, 'change_withdrawn', { request_id: pending.id })
+    }
+    return false
+  }
+
+  const { data: request, error } = await supabase
+    .from('chef_profile_change_requests')
+    .insert({
+      chef_id: portalChef.chefId,
+      changes,
+      previous_values: previousValues,
+      requested_by: portalChef.userId
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error creating change request:', error)
+    throw error
+  }
+
+  await logPortalChange(supabase, portalChef, 'change_requested', {
+    request_id: request.id,
+    changes,
+    previous_values: previousValues
+  })
+
+  return true
+}
+
+/**
+ * Write a chef portal change to chef_audit_log
+ */
+async function logPortalChange(
+  supabase: AdminClient,
+  portalChef: PortalChef,
+  action: string,
+  metadata: Record<string, unknown>
+) {
+  const { error } = await supabase
+    .from('chef_audit_log')
+    .insert({
+      chef_id: portalChef.chefId,
+      action,
+      metadata: { ...metadata, source: 'chef_portal', portal_user_id: portalChef.userId }
+    })
+
+  if (error) {
+    console.error('Error logging chef portal change:', error)
+    // Continue anyway - the change itself has been saved
+  }
+}
+
+function revalidatePortalMenu(chefId: string) {
+  revalidatePath('/chef-portal')
+  revalidatePath(`/admin/chefs/${chefId}`)
+  revalidatePath(`/chef/${chefId}`)
+  revalidatePath('/')
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { findApprovedChefByEmail } from '@/lib/chef-portal-session'
+
+/**
+ * Handle chef portal magic links
+ * When a chef clicks the sign-in link in their email, this endpoint:
+ * 1. Exchanges the one-time token for a session cookie
+ * 2. Checks the email still belongs to an approved chef
+ * 3. Redirects to the portal (or back to login with an error)
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const tokenHash = searchParams.get('token_hash')
+  const type = searchParams.get('type')
+
+  if (!tokenHash || type !== 'magiclink') {
+    return NextResponse.redirect(new URL('/chef-portal/login?error=invalid-link', request.url))
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient()
+
+    const { data, error } = await supabase.auth.verifyOtp({
+      token_hash: tokenHash,
+      type: 'magiclink'
+    })
+
+    if (error || !data.user?.email) {
+      console.error('Chef portal link verification failed:', error)
+      return NextResponse.redirect(new URL('/chef-portal/login?error=expired-link', request.url))
+    }
+
+    // The chef may have been removed since the link was sent
+    const chef = await findApprovedChefByEmail(data.user.email)
+    if (!chef) {
+      await supabase.auth.signOut()
+      return NextResponse.redirect(new URL('/chef-portal/login?error=not-a-chef', request.url))
+    }
+
+    return NextResponse.redirect(new URL('/chef-portal', request.url))
+  } catch (error) {
+    console.error('Error in chef portal confirm:', error)
+    return NextResponse.redirect(new URL('/chef-portal/login?error=expired-link', request.url))
+  }
+}
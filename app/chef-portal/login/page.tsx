@@ -0,0 +1,57 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import Header from '@/components/header'
+import Footer from '@/components/footer'
+import PortalLoginForm from '@/components/chef-portal/portal-login-form'
+
+interface ChefPortalLoginPageProps {
+  searchParams: Promise<{ error?: string }>
+}
+
+export const metadata: Metadata = {
+  title: 'Chef Portal Sign In - Tastes Like Home',
+  robots: { index: false, follow: false }
+}
+
+const LOGIN_ERRORS: Record<string, string> = {
+  'invalid-link': 'That sign-in link is not valid. Please request a new one.',
+  'expired-link': 'That sign-in link has expired or was already used. Please request a new one.',
+  'not-a-chef': 'We couldn\'t find an approved chef profile for that email.',
+}
+
+/**
+ * Chef Portal Login Page
+ *
+ * Approved chefs sign in with a magic link sent to the email on their
+ * approved application - there are no chef passwords.
+ */
+export default async function ChefPortalLoginPage({ searchParams }: ChefPortalLoginPageProps) {
+  const { error } = await searchParams
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12 sm:py-16 flex justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-bold">Chef Portal</CardTitle>
+            <CardDescription>
+              Update your profile, rates, availability and food photos
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PortalLoginForm initialError={error ? LOGIN_ERRORS[error] || null : null} />
+
+            <p className="mt-6 text-xs text-gray-500 text-center">
+              Not a chef with us yet? <Link href="/apply" className="text-primary hover:underline">Apply here</Link>
+            </p>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+import { redirect } from 'next/navigation'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { createSupabaseAdminClient } from '@/lib/supabase-admin'
+import { getPortalChef } from '@/lib/chef-portal-session'
+import { PORTAL_FIELD_LABELS, type ChefChangeRequest, type SensitiveField } from '@/lib/chef-portal'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import Header from '@/components/header'
+import Footer from '@/components/footer'
+import PortalProfileForm from '@/components/chef-portal/portal-profile-form'
+import PortalCuisinesForm from '@/components/chef-portal/portal-cuisines-form'
+import PortalFoodPhotos from '@/components/chef-portal/portal-food-photos'
+import PortalSignOutButton from '@/components/chef-portal/portal-sign-out-button'
+import AvailabilityEditor from '@/components/availability-editor'
+import DishMenuEditor from '@/components/dish-menu-editor'
+import { deletePortalDish, savePortalDish, updatePortalAvailability, updatePortalDishOrder } from '@/app/chef-portal/actions'
+import { toAvailabilitySlot, toDateString } from '@/lib/availability'
+import { sortDishes, toDish } from '@/lib/dishes'
+import { toReviewReply } from '@/lib/review-replies'
+import PortalReviewReplies from '@/components/chef-portal/portal-review-replies'
+import PortalDocuments from '@/components/chef-portal/portal-documents'
+import { CHEF_DOCUMENT_CONFIG } from '@/lib/chef-documents'
+
+export const metadata: Metadata = {
+  title: 'Chef Portal - Tastes Like Home',
+  robots: { index: false, follow: false }
+}
+
+export const dynamic = 'force-dynamic'
+
+const REQUEST_STATUS_LABELS: Record<string, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Not approved',
+  superseded: 'Replaced',
+}
+
+function describeChanges(request: ChefChangeRequest): string {
+  return Object.entries(request.changes)
+    .map(([field, value]) => `${PORTAL_FIELD_LABELS[field as SensitiveField]}: ${value ?? 'none'}`)
+    .join(', ')
+}
+
+/**
+ * Chef Portal Dashboard
+ *
+ * Self-service profile editing for approved chefs, signed in by magic link.
+ *
+ * Features:
+ * - Bio, availability and other details (saved immediately)
+ * - Hourly rate and minimum booking (held for admin approval)
+ * - Weekly availability slots and blackout dates
+ * - Cuisine specialties and food photos
+ * - Dish menu with dietary tags and allergens
+ * - Replies to published reviews (moderated)
+ * - Verification documents (reviewed by admin, shown as checks once approved)
+ * - Outcome of recent rate change requests
+ */
+export default async function ChefPortalPage() {
+  const portalChef = await getPortalChef()
+  if (!portalChef) {
+    redirect('/chef-portal/login?error=not-a-chef')
+  }
+
+  const supabase = createSupabaseAdminClient()
+
+  const { data: chef } = await supabase
+    .from('chefs')
+    .select(`
+      id,
+      name,
+      bio,
+      hourly_rate,
+      minimum_booking,
+      experience_years,
+      availability,
+      languages_spoken,
+      travel_distance,
+      frequency_preference,
+      special_events,
+      house_help_services,
+      dietary_specialties,
+      status,
+      chef_cuisines(cuisine),
+      food_photos(id, photo_url, display_order),
+      chef_availability_slots(day_of_week, start_time, end_time),
+      chef_blackout_dates(blackout_date),
+      chef_dishes(id, name, description, food_photo_id, dietary_tags, allergens, display_order, food_photos(photo_url))
+    `)
+    .eq('id', portalChef.chefId)
+    .single()
+
+  if (!chef) {
+    redirect('/chef-portal/login?error=not-a-chef')
+  }
+
+  const { data: changeRequests } = await supabase
+    .from('chef_profile_change_requests')
+    .select('*')
+    .eq('chef_id', chef.id)
+    .neq('status', 'superseded')
+    .order('created_at', { ascending: false })
+    .limit(5)
+
+  const { data: reviewsData } = await supabase
+    .from('reviews')
+    .select('id, chef_id, rating, comment, reviewer_name, status, published_at, verified_at, created_at, review_replies(id, review_id, body, status, created_at, updated_at, published_at)')
+    .eq('chef_id', chef.id)
+    .eq('status', 'published')
+    .order('published_at', { ascending: false })
+
+  const { data: documents } = await supabase
+    .from('chef_documents')
+    .select('id, document_type, file_name, issued_on, expires_on, status, review_notes, created_at')
+    .eq('chef_id', chef.id)
+    .order('created_at', { ascending: false })
+    .limit(CHEF_DOCUMENT_CONFIG.HISTORY_LIMIT)
+
+  const reviews = (reviewsData || []).map(({ review_replies, ...review }) => ({
+    ...review,
+    reply: toReviewReply(review_replies)
+  }))
+
+  const requests = (changeRequests || []) as ChefChangeRequest[]
+  const pendingRequest = requests.find(r => r.status === 'pending')
+
+  const cuisines = chef.chef_cuisines?.map((c: { cuisine: string }) => c.cuisine) || []
+  const foodPhotos = (chef.food_photos || []).sort(
+    (a: { display_order: number | null }, b: { display_order: number | null }) => (a.display_order || 0) - (b.display_order || 0)
+  )
+
+  const today = toDateString(new Date())
+  const availabilitySlots = chef.chef_availability_slots?.map(toAvailabilitySlot) || []
+  const blackoutDates = (chef.chef_blackout_dates || [])
+    .map((b: { blackout_date: string }) => b.blackout_date)
+    .filter((date: string) => date >= today)
+
+  const dishes = sortDishes(chef.chef_dishes?.map(toDish) || [])
+
+  // Show pending rate values in the form so re-saving doesn't withdraw them
+  const pendingChanges = pendingRequest?.changes || {}
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 sm:py-12 max-w-3xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Hi {chef.name.split(' ')[0]}</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Signed in as {portalChef.email} ·{' '}
+              <Link href={`/chef/${chef.id}`} className="text-primary hover:underline">View your public profile</Link>
+            </p>
+          </div>
+          <PortalSignOutButton />
+        </div>
+
+        {chef.status !== 'published' && (
+          <div className="p-4 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200 text-sm">
+            Your profile is currently hidden from families. Contact us if you&apos;d like it published again.
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Profile</CardTitle>
+            <CardDescription>What families see on your chef page</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PortalProfileForm
+              initialData={{
+                bio: chef.bio || '',
+                experience_years: chef.experience_years,
+                availability: chef.availability,
+                languages_spoken: chef.languages_spoken,
+                travel_distance: chef.travel_distance,
+                frequency_preference: chef.frequency_preference,
+                special_events: chef.special_events,
+                house_help_services: chef.house_help_services,
+                dietary_specialties: chef.dietary_specialties,
+                hourly_rate: 'hourly_rate' in pendingChanges ? Number(pendingChanges.hourly_rate) : Number(chef.hourly_rate),
+                minimum_booking: 'minimum_booking' in pendingChanges ? pendingChanges.minimum_booking ?? null : chef.minimum_booking,
+              }}
+              liveRates={pendingRequest ? { hourly_rate: chef.hourly_rate, minimum_booking: chef.minimum_booking } : null}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Weekly Availability</CardTitle>
+            <CardDescription>Families can search for chefs free at a given day and time</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AvailabilityEditor
+              initialSlots={availabilitySlots}
+              initialBlackoutDates={blackoutDates}
+              saveAction={updatePortalAvailability}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cuisine Specialties</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PortalCuisinesForm initialCuisines={cuisines} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Food Photos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PortalFoodPhotos foodPhotos={foodPhotos} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Menu</CardTitle>
+            <CardDescription>Dishes, dietary tags and allergens shown on your chef page</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DishMenuEditor
+              dishes={dishes}
+              foodPhotos={foodPhotos}
+              saveAction={savePortalDish}
+              deleteAction={deletePortalDish}
+              reorderAction={updatePortalDishOrder}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Verification Documents</CardTitle>
+            <CardDescription>Food hygiene, right to work and DBS check - each shows as a check on your profile once approved, until it expires</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PortalDocuments documents={documents || []} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reviews</CardTitle>
+            <CardDescription>Reply publicly to what customers have said - replies are checked before going live</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PortalReviewReplies reviews={reviews} />
+          </CardContent>
+        </Card>
+
+        {requests.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Rate Change Requests</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-3 text-sm">
+                {requests.map(request => (
+                  <li key={request.id} className="flex flex-col sm:flex-row sm:justify-between gap-1 border-b last:border-0 pb-3 last:pb-0">
+                    <div>
+                      <p className="text-gray-900">{describeChanges(request)}</p>
+                      {request.review_notes && (
+                        <p className="text-gray-500 mt-0.5">{request.review_notes}</p>
+                      )}
+                    </div>
+                    <div className="text-gray-500 sm:text-right shrink-0">
+                      <p className="font-medium">{REQUEST_STATUS_LABELS[request.status]}</p>
+                      <p className="text-xs">{new Date(request.created_at).toLocaleDateString('en-GB')}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
@@ -1,10 +1,10 @@
 import { createSupabaseServerClient } from "@/lib/supabase-server"
+import { createSupabaseAdminClient } from "@/lib/supabase-admin"
 import { notFound } from "next/navigation"
-import Image from "next/image"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { ArrowLeft, MessageCircle, Shield, MapPin, Clock, Users, Globe, Car, Calendar, Utensils, Home, Star, CheckCircle } from "lucide-react"
+import { ArrowLeft, MessageCircle, CalendarCheck, ShieldCheck, MapPin, Clock, Users, Globe, Car, Calendar, Utensils, Home, Star, CheckCircle } from "lucide-react"
 import {
   Carousel,
   CarouselContent,
@@ -15,6 +15,18 @@ import {
 import ReviewForm from "@/components/review-form"
 import ReviewList, { ReviewSummary } from "@/components/review-list"
 import ContactChefModal from "@/components/contact-chef-modal"
+import BookingRequestModal from "@/components/booking-request-modal"
+import AvailabilityCalendar from "@/components/availability-calendar"
+import DishMenu from "@/components/dish-menu"
+import ResponsiveImage from "@/components/responsive-image"
+import { toAvailabilitySlot, toDateString } from "@/lib/availability"
+import { sortDishes, toDish } from "@/lib/dishes"
+import { parseImageVariants } from "@/lib/image-variants"
+import { readyChefVideos } from "@/lib/chef-videos"
+import { CHEF_CHECK_BADGE_LABELS, sortChefChecks } from "@/lib/chef-documents"
+import { toReviewReply } from "@/lib/review-replies"
+import { toSubRatingAverages } from "@/lib/review-ratings"
+import { signReviewPhotos } from "@/lib/review-photos-server"
 
 interface ChefPageProps {
   params: Promise<{ id: string }>
@@ -46,6 +58,7 @@ export default async function ChefPage({ params }: ChefPageProps) {
       hourly_rate,
       verified,
       photo_url,
+      photo_variants,
       location_label,
       location,
       experience_years,
@@ -58,8 +71,11 @@ export default async function ChefPage({ params }: ChefPageProps) {
       house_help_services,
       dietary_specialties,
       chef_cuisines(cuisine),
-      food_photos(photo_url, display_order),
-      chef_videos(video_url, video_type, display_order)
+      food_photos(photo_url, variants, display_order),
+      chef_videos(video_url, poster_url, status, video_type, display_order),
+      chef_availability_slots(day_of_week, start_time, end_time),
+      chef_blackout_dates(blackout_date),
+      chef_dishes(id, name, description, food_photo_id, dietary_tags, allergens, display_order, food_photos(photo_url))
     `)
     .eq('id', id)
     .eq('verified', true) // Only show verified chefs
@@ -75,36 +91,54 @@ export default async function ChefPage({ params }: ChefPageProps) {
   // Fetch reviews for this chef
   const { data: reviewsData } = await supabase
     .from('reviews')
-    .select('id, chef_id, rating, comment, reviewer_name, status, published_at, verified_at, created_at')
+    .select('id, chef_id, rating, comment, reviewer_name, status, published_at, verified_at, created_at, review_replies(id, review_id, body, status, created_at, updated_at, published_at), review_photos(id, storage_path, display_order)')
     .eq('chef_id', id)
     .eq('status', 'published')
     .order('published_at', { ascending: false })
 
-  const reviews = reviewsData || []
+  // Signed-in admins can read every reply through RLS - only show published ones
+  // Photos live in a private bucket - sign them for this render
+  const adminClient = createSupabaseAdminClient()
+  const reviews = await Promise.all((reviewsData || []).map(async ({ review_replies, review_photos, ...review }) => {
+    const reply = toReviewReply(review_replies)
+    return {
+      ...review,
+      reply: reply?.status === 'published' ? reply : null,
+      photos: await signReviewPhotos(adminClient, review_photos)
+    }
+  }))
 
   // Fetch rating statistics from materialized view
   const { data: ratingStats } = await supabase
     .from('chef_rating_stats')
-    .select('review_count, avg_rating')
+    .select('review_count, avg_rating, avg_taste, taste_count, avg_punctuality, punctuality_count, avg_cleanliness, cleanliness_count, avg_communication, communication_count')
     .eq('chef_id', id)
     .single()
 
+  // Checks backed by an approved, unexpired verification document
+  const { data: checksData } = await supabase
+    .from('chef_current_checks')
+    .select('document_type')
+    .eq('chef_id', id)
+
   // Transform database data to match expected format
   const chef = {
     id: chefData.id,
     name: chefData.name,
     photo: chefData.photo_url || '/placeholder.svg',
+    photoVariants: chefData.photo_url ? parseImageVariants(chefData.photo_variants) : null,
     foodPhotos: chefData.food_photos
       ?.sort((a, b) => (a.display_order || 0) - (b.display_order || 0))
-      ?.map(p => p.photo_url) || [],
-    introductionVideos: chefData.chef_videos
-      ?.filter(v => v.video_type === 'introduction')
-      ?.sort((a, b) => (a.display_order || 0) - (b.display_order || 0))
-      ?.map(v => v.video_url) || [],
+      ?.map(p => ({ src: p.photo_url, variants: parseImageVariants(p.variants) })) || [],
+    // Videos still processing (or rejected) aren't shown
+    introductionVideos: readyChefVideos(chefData.chef_videos)
+      .filter(v => v.video_type === 'introduction')
+      .map(v => ({ url: v.video_url, poster: v.poster_url })),
     cuisines: chefData.chef_cuisines?.map(c => c.cuisine) || [],
     hourlyRate: chefData.hourly_rate || 0,
     phone: chefData.phone || '',
     verified: chefData.verified,
+    checks: sortChefChecks(checksData?.map(c => c.document_type)),
     bio: chefData.bio || '',
     location: chefData.location_label || undefined,
     latitude: undefined,
@@ -121,13 +155,18 @@ export default async function ChefPage({ params }: ChefPageProps) {
     specialEvents: chefData.special_events || null,
     houseHelpServices: chefData.house_help_services || null,
     dietarySpecialties: chefData.dietary_specialties || null,
-    minimumBooking: chefData.minimum_booking || null
+    minimumBooking: chefData.minimum_booking || null,
+    availabilitySlots: chefData.chef_availability_slots?.map(toAvailabilitySlot) || [],
+    blackoutDates: chefData.chef_blackout_dates
+      ?.map(b => b.blackout_date)
+      .filter(date => date >= toDateString(new Date())) || [],
+    dishes: sortDishes(chefData.chef_dishes?.map(toDish) || [])
   }
 
   // Data successfully flowing through! 🎉
 
   // Build ordered list of images: profile photo first, then food photos
-  const images = [chef.photo, ...chef.foodPhotos]
+  const images = [{ src: chef.photo, variants: chef.photoVariants }, ...chef.foodPhotos]
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
@@ -145,15 +184,16 @@ export default async function ChefPage({ params }: ChefPageProps) {
             <div className="lg:w-2/5 relative">
               <Carousel className="w-full">
                 <CarouselContent>
-                  {images.map((src) => (
+                  {images.map(({ src, variants }, index) => (
                     <CarouselItem key={src}>
                       <div className="relative w-full h-64 md:h-80 lg:h-[500px] overflow-hidden bg-gradient-to-br from-muted to-muted/70">
-                      <Image
-                        src={src}
-                        alt={chef.name}
-                          fill
-                          className="object-cover object-center"
+                        <ResponsiveImage
+                          src={src}
+                          variants={variants}
+                          alt={chef.name}
+                          className="absolute inset-0 w-full h-full object-cover object-center"
                           sizes="(max-width: 1024px) 100vw, 40vw"
+                          priority={index === 0}
                         />
                       </div>
                     </CarouselItem>
@@ -170,12 +210,15 @@ export default async function ChefPage({ params }: ChefPageProps) {
               <div className="flex items-start justify-between mb-6">
                 <div>
                   <h1 className="text-4xl lg:text-5xl font-bold text-foreground leading-tight mb-2">{chef.name}</h1>
-                  {chef.verified && (
+                  {(chef.checks.length > 0 || chef.avgRating) && (
                     <div className="flex items-center gap-2 flex-wrap">
-                      <Badge className="bg-accent/10 text-accent border-accent/20 px-3 py-1.5 text-sm font-semibold">
-                        <Shield className="w-4 h-4 mr-1.5" />
-                        Verified Chef
-                      </Badge>
+                      {/* Verification Checks - only those backed by a current document */}
+                      {chef.checks.map(check => (
+                        <Badge key={check} className="bg-accent/10 text-accent border-accent/20 px-3 py-1.5 text-sm font-semibold">
+                          <ShieldCheck className="w-4 h-4 mr-1.5" />
+                          {CHEF_CHECK_BADGE_LABELS[check]}
+                        </Badge>
+                      ))}
                       {/* Rating Badge - Mobile Inline, Desktop Separate */}
                       {chef.avgRating && (
                         <div className="flex items-center gap-1 bg-primary/10 border border-primary/20 rounded-full px-3 py-1.5 lg:hidden">
@@ -184,10 +227,6 @@ export default async function ChefPage({ params }: ChefPageProps) {
                           <span className="text-xs text-primary/70">({chef.reviewCount})</span>
                         </div>
                       )}
-                      {/* Only show "Background checked" if no reviews - saves space when there's a rating */}
-                      {!chef.avgRating && (
-                        <span className="text-sm text-muted-foreground">Background checked</span>
-                      )}
                     </div>
                   )}
                 </div>
@@ -257,6 +296,20 @@ export default async function ChefPage({ params }: ChefPageProps) {
                   </div>
                 </Button>
               </ContactChefModal>
+
+              {/* Booking Request */}
+              <BookingRequestModal
+                chef={{
+                  id: chef.id,
+                  name: chef.name,
+                  minimumBooking: chef.minimumBooking
+                }}
+              >
+                <Button size="lg" variant="outline" className="w-full mt-3 py-4 text-base font-semibold">
+                  <CalendarCheck className="w-5 h-5 mr-2" />
+                  Request a Booking
+                </Button>
+              </BookingRequestModal>
             </div>
           </div>
         </div>
@@ -324,6 +377,30 @@ export default async function ChefPage({ params }: ChefPageProps) {
           </div>
         )}
 
+        {/* Weekly Availability */}
+        {chef.availabilitySlots.length > 0 && (
+          <div className="bg-card rounded-3xl shadow-xl p-8 lg:p-12 mb-8 border border-border">
+            <h2 className="text-3xl font-bold text-foreground mb-8 text-center">
+              When {chef.name.split(' ')[0]} Is Available
+            </h2>
+            <div className="max-w-3xl mx-auto">
+              <AvailabilityCalendar slots={chef.availabilitySlots} blackoutDates={chef.blackoutDates} />
+            </div>
+          </div>
+        )}
+
+        {/* Menu */}
+        {chef.dishes.length > 0 && (
+          <div className="bg-card rounded-3xl shadow-xl p-8 lg:p-12 mb-8 border border-border">
+            <h2 className="text-3xl font-bold text-foreground mb-8 text-center">
+              {chef.name.split(' ')[0]}&apos;s Menu
+            </h2>
+            <div className="max-w-5xl mx-auto">
+              <DishMenu dishes={chef.dishes} />
+            </div>
+          </div>
+        )}
+
         {/* Services & Specialties - Full Width */}
         {(chef.specialEvents || chef.houseHelpServices || chef.dietarySpecialties) && (
           <div className="bg-card rounded-3xl shadow-xl p-8 lg:p-12 mb-8 border border-border">
@@ -381,14 +458,14 @@ export default async function ChefPage({ params }: ChefPageProps) {
               Meet {chef.name.split(' ')[0]}
             </h2>
             <div className="max-w-4xl mx-auto">
-              {chef.introductionVideos.map((videoUrl, index) => (
+              {chef.introductionVideos.map((video, index) => (
                 <div key={index} className="aspect-video rounded-2xl overflow-hidden bg-gray-100 shadow-lg">
                   <video
-                    src={videoUrl}
+                    src={video.url}
                     controls
                     className="w-full h-full object-cover"
                     preload="metadata"
-                    poster={chef.photo} // Use chef photo as poster
+                    poster={video.poster || chef.photo} // Fall back to the chef photo
                   >
                     Your browser does not support the video tag.
                   </video>
@@ -413,7 +490,11 @@ export default async function ChefPage({ params }: ChefPageProps) {
           {/* Show rating summary if reviews exist */}
           {chef.avgRating && chef.reviewCount && (
             <div className="mb-10">
-            <ReviewSummary avgRating={chef.avgRating} reviewCount={chef.reviewCount} />
+            <ReviewSummary
+              avgRating={chef.avgRating}
+              reviewCount={chef.reviewCount}
+              subRatings={toSubRatingAverages(ratingStats)}
+            />
             </div>
           )}
           
@@ -425,7 +506,7 @@ export default async function ChefPage({ params }: ChefPageProps) {
           
           {/* Reviews List */}
           <div className="space-y-6">
-          <ReviewList reviews={reviews} />
+          <ReviewList reviews={reviews} chefName={chef.name} />
           </div>
         </div>
       </div>
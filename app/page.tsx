@@ -1,23 +1,31 @@
-import { createSupabaseServerClient } from "@/lib/supabase-server"
+import { createSupabasePublicClient } from "@/lib/supabase-public"
 import ChefCard from "@/components/chef-card"
 import Header from "@/components/header"
 import Footer from "@/components/footer"
 import ScrollToChefs from "@/components/scroll-to-chefs"
+import ChefSearch from "@/components/chef-search"
+import PostcodeSearch from "@/components/postcode-search"
+import ChefFilters from "@/components/chef-filters"
+import { lookupPostcode, normalisePostcode, DEFAULT_TRAVEL_MILES } from "@/lib/postcodes"
+import { getDirectoryChefs } from "@/lib/chef-directory"
+import {
+  parseChefFilters,
+  applyChefFilters,
+  getFilterOptions,
+  getSearchParamEntries,
+  buildDirectoryHref,
+  type SearchParams,
+} from "@/lib/chef-filters"
 
-// Define the Chef type to match our existing components
-interface Chef {
-  id: string
-  name: string
-  photo: string
-  foodPhotos: string[]
-  cuisines: string[]
-  hourlyRate: number
-  phone: string
-  verified: boolean
-  bio: string
+interface HomePageProps {
+  searchParams: Promise<SearchParams>
 }
 
-export default async function HomePage() {
+export default async function HomePage({ searchParams }: HomePageProps) {
+  const params = await searchParams
+  const query = typeof params.q === 'string' ? params.q.trim() || undefined : undefined
+  const postcode = typeof params.postcode === 'string' ? params.postcode.trim() || undefined : undefined
+
   // Check if environment variables are available (prevents build failures)
   if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
     return (
@@ -32,65 +40,84 @@ export default async function HomePage() {
     )
   }
   
-  // Fetch chef data from Supabase database
-  const supabase = await createSupabaseServerClient()
-  
-  const { data: chefsData, error } = await supabase
-    .from('chefs')
-    .select(`
-      id,
-      name,
-      bio,
-      hourly_rate,
-      verified,
-      photo_url,
-      location_label,
-      location,
-      chef_cuisines(cuisine),
-      food_photos(photo_url)
-    `)
-    .eq('verified', true)
-    .order('created_at', { ascending: false })
-
-  // Fetch rating statistics for all chefs
-  const { data: ratingStatsData } = await supabase
-    .from('chef_rating_stats')
-    .select('chef_id, review_count, avg_rating')
-
-  // Create a map of chef ratings for quick lookup
-  const ratingsMap = new Map(
-    ratingStatsData?.map(stats => [stats.chef_id, stats]) || []
-  )
+  // Fetch verified chefs (cached for the ISR window, see lib/chef-directory.ts)
+  const allChefs = await getDirectoryChefs()
+  const filterOptions = getFilterOptions(allChefs)
+
+  // Text search: ranked full-text matches with trigram typo tolerance
+  let searchError: string | undefined
+  let searchMatches: Map<string, { rank: number; snippet: string | null }> | null = null
+
+  if (query) {
+    const supabase = createSupabasePublicClient()
+    const { data: matchData, error: matchError } = await supabase.rpc('search_chefs', {
+      search_query: query.slice(0, 200)
+    })
+
+    if (matchError) {
+      console.error('Error searching chefs:', matchError)
+      searchError = 'Search is unavailable right now. Showing all chefs instead.'
+    } else {
+      searchMatches = new Map(
+        (matchData || []).map((row: { chef_id: string; rank: number; snippet: string | null }) => [
+          row.chef_id,
+          { rank: row.rank, snippet: row.snippet }
+        ])
+      )
+    }
+  }
+
+  // Postcode search: resolve offline, then let PostGIS apply each chef's travel distance
+  let postcodeError: string | undefined
+  let distanceMap: Map<string, number> | null = null
 
-  if (error) {
-    console.error('Error fetching chefs:', error)
-    // Fallback to empty array if database fails
-    var chefs: Chef[] = []
-  } else {
-    // Transform database data to match our existing Chef interface
-    var chefs: Chef[] = chefsData?.map(chef => {
-      const ratings = ratingsMap.get(chef.id)
-      return {
-        id: chef.id,
-        name: chef.name,
-        photo: chef.photo_url || '/placeholder.svg',
-        foodPhotos: chef.food_photos?.map(p => p.photo_url) || [],
-        cuisines: chef.chef_cuisines?.map(c => c.cuisine) || [],
-        hourlyRate: chef.hourly_rate || 0,
-        phone: '', // Don't expose phone on homepage for privacy
-        verified: chef.verified,
-        bio: chef.bio || '',
-        location: chef.location_label || undefined,
-        // Note: coordinates will be extracted later if needed for proximity features
-        latitude: undefined,
-        longitude: undefined,
-        // Add rating data from materialized view
-        avgRating: ratings?.avg_rating || undefined,
-        reviewCount: ratings?.review_count || undefined
+  if (postcode) {
+    const searchLocation = lookupPostcode(postcode)
+
+    if (!searchLocation) {
+      postcodeError = normalisePostcode(postcode)
+        ? "Postcode search only covers London for now. Try a London postcode, e.g. TW3."
+        : "That doesn't look like a UK postcode. Try the first part only, e.g. TW3."
+    } else {
+      const supabase = createSupabasePublicClient()
+      const { data: nearbyData, error: nearbyError } = await supabase.rpc('search_chefs_near', {
+        search_lat: searchLocation.latitude,
+        search_lng: searchLocation.longitude,
+        default_travel_miles: DEFAULT_TRAVEL_MILES
+      })
+
+      if (nearbyError) {
+        console.error('Error searching chefs by postcode:', nearbyError)
+        postcodeError = 'Postcode search is unavailable right now. Showing all chefs instead.'
+      } else {
+        distanceMap = new Map(
+          (nearbyData || []).map((row: { chef_id: string; distance_miles: number }) => [row.chef_id, row.distance_miles])
+        )
       }
-    }) || []
+    }
   }
 
+  // Only keep chefs matching the text search and travelling to the searched postcode
+  const nearby = distanceMap
+  const matches = searchMatches
+  const candidateChefs = allChefs
+    .filter(chef => (!nearby || nearby.has(chef.id)) && (!matches || matches.has(chef.id)))
+    .map(chef => ({
+      ...chef,
+      distanceMiles: nearby?.get(chef.id),
+      searchRank: matches?.get(chef.id)?.rank,
+      searchSnippet: matches?.get(chef.id)?.snippet || undefined
+    }))
+
+  const filters = parseChefFilters(params, { hasQuery: !!matches, hasLocation: !!nearby })
+  const chefs = applyChefFilters(candidateChefs, filters)
+
+  // Text and postcode searches survive filter changes
+  const searchEntries: [string, string][] = [
+    ...(query ? [['q', query] as [string, string]] : []),
+    ...(postcode ? [['postcode', postcode] as [string, string]] : [])
+  ]
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-red-50">
       <Header />
@@ -131,7 +158,7 @@ export default async function HomePage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"></path>
                       </svg>
                     </div>
-                    <span className="font-semibold text-sm sm:text-base">Background Verified</span>
+                    <span className="font-semibold text-sm sm:text-base">Document Checks Shown on Profiles</span>
                   </div>
                 </div>
               </div>
@@ -139,7 +166,7 @@ export default async function HomePage() {
               {/* Stats - Desktop: 2x2 Grid, Mobile: 3 Column Row */}
               <div className="grid grid-cols-3 gap-2 sm:gap-3 lg:grid-cols-2 lg:gap-6 max-w-md mx-auto lg:max-w-none mt-3 sm:mt-4 lg:mt-0">
                 <div className="text-center p-3 sm:p-3 lg:p-6 bg-white/60 backdrop-blur-sm rounded-lg sm:rounded-xl lg:rounded-2xl border border-white/40">
-                  <div className="text-lg sm:text-xl lg:text-4xl font-black text-primary mb-1 sm:mb-1 lg:mb-2">{chefs.length}+</div>
+                  <div className="text-lg sm:text-xl lg:text-4xl font-black text-primary mb-1 sm:mb-1 lg:mb-2">{allChefs.length}+</div>
                   <div className="text-xs lg:text-sm font-semibold text-gray-600 uppercase tracking-wide leading-tight">Verified<br className="lg:hidden" /> Chefs</div>
                 </div>
                 <div className="text-center p-3 sm:p-3 lg:p-6 bg-white/60 backdrop-blur-sm rounded-lg sm:rounded-xl lg:rounded-2xl border border-white/40">
@@ -160,15 +187,52 @@ export default async function HomePage() {
           </div>
         </section>
 
+        {/* Text Search */}
+        <ChefSearch
+          query={query}
+          error={searchError}
+          resultCount={matches?.size}
+          preservedParams={getSearchParamEntries(params, ['q', 'sort'])}
+          clearHref={buildDirectoryHref(getSearchParamEntries(params, ['q', 'sort']))}
+        />
+
+        {/* Postcode Search */}
+        <PostcodeSearch
+          postcode={postcode}
+          error={postcodeError}
+          resultCount={nearby?.size}
+          preservedParams={getSearchParamEntries(params, ['postcode', 'sort'])}
+          clearHref={buildDirectoryHref(getSearchParamEntries(params, ['postcode', 'sort']))}
+        />
+
+        {/* Filters and Sorting */}
+        <ChefFilters
+          filters={filters}
+          options={filterOptions}
+          hasQuery={!!matches}
+          hasLocation={!!nearby}
+          preservedParams={searchEntries}
+          clearHref={buildDirectoryHref(searchEntries)}
+          resultCount={chefs.length}
+        />
+
         {/* Chef Grid - Balanced Layout */}
-        <div id="chef-grid" className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-5 mb-12 mt-8 sm:mt-12">
+        <div id="chef-grid" className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-5 mb-12 mt-8">
           {chefs.length > 0 ? (
             chefs.map((chef) => (
               <ChefCard key={chef.id} chef={chef} />
             ))
           ) : (
             <div className="col-span-full text-center py-12">
-              <p className="text-gray-600 text-lg">No verified chefs available at the moment.</p>
+              <p className="text-gray-600 text-lg">
+                {matches && matches.size === 0
+                  ? "No chefs match your search. Try a different dish or cuisine."
+                  : nearby && candidateChefs.length === 0
+                    ? "No chefs travel to this postcode yet. Try a nearby area."
+                    : allChefs.length > 0
+                      ? "No chefs match these filters. Try removing some."
+                      : "No verified chefs available at the moment."}
+              </p>
             </div>
           )}
         </div>
@@ -5,8 +5,16 @@ import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 import { hashEmail, hashIP } from '@/lib/crypto'
 import { sendReviewVerificationEmail } from '@/lib/email'
+import { type SubRatings, validateSubRatings, toSubRatingColumns } from '@/lib/review-ratings'
+import { validateReviewPhotos } from '@/lib/review-photos'
+import { uploadReviewPhotos } from '@/lib/review-photos-server'
 import crypto from 'crypto'
 
+const RESEND_LIMITS = {
+  PER_EMAIL_PER_HOUR: 3,
+  PER_IP_PER_HOUR: 10,
+} as const
+
 // Type definitions for better type safety
 interface SubmitReviewResult {
   success: boolean
@@ -23,7 +31,9 @@ export async function submitReview(
   rating: number,
   comment: string,
   email: string,
-  securityToken: string // Simplified parameter - no longer used for Turnstile
+  securityToken: string, // Simplified parameter - no longer used for Turnstile
+  subRatings: SubRatings = {},
+  photoData?: FormData // Optional 'photos' files, shown once the review is published
 ): Promise<SubmitReviewResult> {
   try {
     // === INPUT VALIDATION ===
@@ -39,6 +49,17 @@ export async function submitReview(
       return { success: false, error: 'Comment must be 280 characters or less' }
     }
 
+    const subRatingError = validateSubRatings(subRatings)
+    if (subRatingError) {
+      return { success: false, error: subRatingError }
+    }
+
+    const photos = ((photoData?.getAll('photos') || []) as File[]).filter(file => file && file.size > 0)
+    const photoError = validateReviewPhotos(photos)
+    if (photoError) {
+      return { success: false, error: photoError }
+    }
+
     // === GET CLIENT IP FOR SECURITY ===
     const headersList = await headers()
     const clientIp = headersList.get('x-forwarded-for')?.split(',')[0] || 
@@ -53,12 +74,18 @@ export async function submitReview(
     // === CHECK FOR DUPLICATE REVIEWS ===
     const { data: existingReview } = await supabase
       .from('reviews')
-      .select('id')
+      .select('id, status')
       .eq('chef_id', chefId)
       .eq('email_hash', emailHash)
       .single()
     
     if (existingReview) {
+      if (existingReview.status === 'awaiting_email' || existingReview.status === 'expired') {
+        return {
+          success: false,
+          error: "You've already started a review for this chef. Use \"Resend verification email\" to get a new link."
+        }
+      }
       return { success: false, error: 'You have already reviewed this chef' }
     }
 
@@ -90,6 +117,7 @@ export async function submitReview(
     const reviewData = {
       chef_id: chefId,
       rating,
+      ...toSubRatingColumns(subRatings),
       comment: comment || null,
       email_hash: emailHash,
       ip_hash: ipHash,
@@ -117,6 +145,15 @@ export async function submitReview(
       .update({ verification_token: verificationToken })
       .eq('id', review.id)
 
+    // === STORE PHOTOS ===
+    if (photos.length > 0) {
+      const savedCount = await uploadReviewPhotos(supabase, review.id, photos)
+      if (savedCount < photos.length) {
+        console.error(`Only ${savedCount} of ${photos.length} review photos saved for review ${review.id}`)
+        // Continue anyway - the review itself is still worth keeping
+      }
+    }
+
     // === LOG REVIEW CREATION ===
     await supabase
       .from('review_events')
@@ -135,7 +172,7 @@ export async function submitReview(
     
     if (!emailResult.success) {
       console.error('Failed to send verification email:', emailResult.error)
-      // Don't fail the review submission - user can request email resend later
+      // Don't fail the review submission - user can request a resend from the review form
     }
 
     // === SUCCESS RESPONSE ===
@@ -148,4 +185,116 @@ export async function submitReview(
     console.error('Review submission error:', error)
     return { success: false, error: 'Something went wrong. Please try again.' }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Server action to resend a review verification email
+ *
+ * Features:
+ * - Keyed on email + chef; issues a fresh token and 24-hour expiry
+ * - Revives reviews the expiry sweep has marked as expired
+ * - Rate limited per email_hash and ip_hash, using review_verification_resends
+ * - Same response whether or not a matching review exists, even if the
+ *   email can't be sent
+ */
+export async function resendReviewVerification(chefId: string, email: string): Promise<SubmitReviewResult> {
+  const genericMessage = "If there's an unverified review for this email, we've sent a new verification link."
+
+  try {
+    if (!email || !email.includes('@')) {
+      return { success: false, error: 'Please enter a valid email address' }
+    }
+
+    const headersList = await headers()
+    const clientIp = headersList.get('x-forwarded-for')?.split(',')[0] ||
+                     headersList.get('x-real-ip') ||
+                     '127.0.0.1'
+
+    const supabase = createSupabaseAdminClient()
+    const emailHash = hashEmail(email)
+    const ipHash = hashIP(clientIp)
+
+    // === RATE LIMITING ===
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const [{ count: emailResends }, { count: ipResends }] = await Promise.all([
+      supabase
+        .from('review_verification_resends')
+        .select('id', { count: 'exact', head: true })
+        .eq('email_hash', emailHash)
+        .gte('created_at', oneHourAgo),
+      supabase
+        .from('review_verification_resends')
+        .select('id', { count: 'exact', head: true })
+        .eq('ip_hash', ipHash)
+        .gte('created_at', oneHourAgo)
+    ])
+
+    if ((emailResends || 0) >= RESEND_LIMITS.PER_EMAIL_PER_HOUR || (ipResends || 0) >= RESEND_LIMITS.PER_IP_PER_HOUR) {
+      return { success: false, error: 'Too many requests. Please try again later.' }
+    }
+
+    // === FIND UNVERIFIED REVIEW ===
+    const { data: review } = await supabase
+      .from('reviews')
+      .select('id, status, chefs(name)')
+      .eq('chef_id', chefId)
+      .eq('email_hash', emailHash)
+      .in('status', ['awaiting_email', 'expired'])
+      .maybeSingle()
+
+    // Record the attempt either way so probing counts against the limits
+    await supabase
+      .from('review_verification_resends')
+      .insert({ review_id: review?.id || null, email_hash: emailHash, ip_hash: ipHash })
+
+    if (!review) {
+      return { success: true, message: genericMessage }
+    }
+
+    // === ISSUE FRESH TOKEN ===
+    const verificationToken = crypto.randomUUID()
+    const { error: updateError } = await supabase
+      .from('reviews')
+      .update({
+        status: 'awaiting_email',
+        verification_token: verificationToken,
+        verification_expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+      })
+      .eq('id', review.id)
+
+    if (updateError) {
+      console.error('Error refreshing verification token:', updateError)
+      // Same response as no match, so failures don't reveal that a review exists
+      return { success: true, message: genericMessage }
+    }
+
+    await supabase
+      .from('review_events')
+      .insert({
+        review_id: review.id,
+        from_status: review.status,
+        to_status: 'awaiting_email',
+        actor: 'user',
+        notes: review.status === 'expired'
+          ? 'Verification email resent - expired review reopened'
+          : 'Verification email resent'
+      })
+
+    // === SEND VERIFICATION EMAIL ===
+    const chef = Array.isArray(review.chefs) ? review.chefs[0] : review.chefs
+    const verificationUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/api/verify-review?token=${verificationToken}`
+
+    const emailResult = await sendReviewVerificationEmail(email, chef?.name || 'your chef', verificationUrl)
+
+    if (!emailResult.success) {
+      console.error('Failed to resend verification email:', emailResult.error)
+      // Same response as no match, so failures don't reveal that a review exists
+      return { success: true, message: genericMessage }
+    }
+
+    return { success: true, message: genericMessage }
+  } catch (error) {
+    console.error('Review verification resend error:', error)
+    return { success: false, error: 'Something went wrong. Please try again.' }
+  }
+}
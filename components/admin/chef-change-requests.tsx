@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Check, X, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { reviewChefChangeRequest } from '@/app/admin/actions'
+import { PORTAL_FIELD_LABELS, type ChefChangeRequest, type SensitiveField } from '@/lib/chef-portal'
+
+interface ChefChangeRequestsProps {
+  requests: ChefChangeRequest[]
+}
+
+/**
+ * Pending chef portal changes (rates, minimum booking) for admin approval
+ */
+export default function ChefChangeRequests({ requests }: ChefChangeRequestsProps) {
+  const router = useRouter()
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const handleDecision = async (requestId: string, decision: 'approve' | 'reject') => {
+    setPendingAction(`${requestId}:${decision}`)
+    try {
+      const result = await reviewChefChangeRequest(requestId, decision, notes[requestId])
+      if (result.success) {
+        toast.success(decision === 'approve' ? 'Change approved and applied' : 'Change rejected')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to process change request')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error reviewing change request:', error)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {requests.map(request => (
+        <div key={request.id} className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900">Requested by chef</span>
+            <span className="text-gray-400">{new Date(request.created_at).toLocaleDateString()}</span>
+          </div>
+
+          <table className="w-full text-sm">
+            <tbody>
+              {Object.entries(request.changes).map(([field, value]) => (
+                <tr key={field}>
+                  <td className="py-1 text-gray-600">{PORTAL_FIELD_LABELS[field as SensitiveField] || field}</td>
+                  <td className="py-1 text-gray-400 line-through">{request.previous_values[field as SensitiveField] ?? 'none'}</td>
+                  <td className="py-1 font-medium text-gray-900">{value ?? 'none'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Textarea
+            value={notes[request.id] || ''}
+            onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+            placeholder="Note for the chef (optional)"
+            rows={2}
+            className="resize-none text-sm"
+          />
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => handleDecision(request.id, 'approve')}
+              disabled={pendingAction !== null}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {pendingAction === `${request.id}:approve` ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleDecision(request.id, 'reject')}
+              disabled={pendingAction !== null}
+              className="text-red-600 hover:text-red-700"
+            >
+              {pendingAction === `${request.id}:reject` ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <X className="w-4 h-4 mr-1" />}
+              Reject
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
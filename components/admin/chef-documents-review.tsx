@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Check, X, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { reviewChefDocument } from '@/app/admin/actions'
+import {
+  CHEF_DOCUMENT_LABELS,
+  CHEF_DOCUMENT_STATUS_LABELS,
+  CHEF_DOCUMENT_TYPES,
+  isCurrentDocument,
+  type SignedChefDocument,
+} from '@/lib/chef-documents'
+
+interface ChefDocumentsReviewProps {
+  documents: SignedChefDocument[]
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-GB')
+}
+
+/**
+ * Chef verification documents - current checks, and review of new uploads
+ */
+export default function ChefDocumentsReview({ documents }: ChefDocumentsReviewProps) {
+  const router = useRouter()
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const handleDecision = async (documentId: string, decision: 'approve' | 'reject') => {
+    setPendingAction(`${documentId}:${decision}`)
+    try {
+      const result = await reviewChefDocument(documentId, decision, notes[documentId])
+      if (result.success) {
+        toast.success(decision === 'approve' ? 'Document approved' : 'Document rejected')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to review document')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error reviewing document:', error)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {/* Current checks */}
+      <div className="space-y-1">
+        {CHEF_DOCUMENT_TYPES.map(type => {
+          const current = documents
+            .filter(document => document.document_type === type && isCurrentDocument(document))
+            .sort((a, b) => b.expires_on.localeCompare(a.expires_on))[0]
+
+          return (
+            <div key={type} className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">{CHEF_DOCUMENT_LABELS[type]}</span>
+              {current ? (
+                <span className="text-green-700">Until {formatDate(current.expires_on)}</span>
+              ) : (
+                <span className="text-gray-400">Not checked</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-gray-500">No documents uploaded yet.</p>
+      ) : (
+        documents.map(document => (
+          <div key={document.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-900">{CHEF_DOCUMENT_LABELS[document.document_type]}</span>
+              <Badge
+                variant="outline"
+                className={
+                  document.status === 'approved'
+                    ? 'bg-green-50 text-green-700 border-green-200'
+                    : document.status === 'rejected'
+                    ? 'bg-red-50 text-red-700 border-red-200'
+                    : 'bg-yellow-50 text-yellow-700 border-yellow-200'
+                }
+              >
+                {CHEF_DOCUMENT_STATUS_LABELS[document.status]}
+              </Badge>
+            </div>
+            <p className="text-gray-600">
+              Issued {formatDate(document.issued_on)} · Expires {formatDate(document.expires_on)}
+            </p>
+            {document.url ? (
+              <a href={document.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700 underline break-all">
+                {document.file_name} ↗
+              </a>
+            ) : (
+              <p className="text-gray-400 break-all">{document.file_name} (file unavailable)</p>
+            )}
+            {document.review_notes && <p className="text-gray-500">{document.review_notes}</p>}
+
+            {document.status === 'pending' && (
+              <>
+                <Textarea
+                  value={notes[document.id] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [document.id]: e.target.value }))}
+                  placeholder="Note for the chef (optional)"
+                  rows={2}
+                  className="resize-none text-sm"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleDecision(document.id, 'approve')}
+                    disabled={pendingAction !== null}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    {pendingAction === `${document.id}:approve` ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDecision(document.id, 'reject')}
+                    disabled={pendingAction !== null}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    {pendingAction === `${document.id}:reject` ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <X className="w-4 h-4 mr-1" />}
+                    Reject
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -16,6 +16,7 @@ interface ChefProfileFormProps {
     phone: string
     hourly_rate: number
     location_label?: string
+    postcode?: string
     bio: string
     experience_years?: number
     availability?: string
@@ -44,6 +45,8 @@ export default function ChefProfileForm({ chefId, initialData }: ChefProfileForm
         phone: formData.phone,
         hourly_rate: formData.hourly_rate,
         location_label: formData.location_label,
+        // Only send the postcode when edited so existing coordinates are left alone
+        postcode: formData.postcode !== initialData.postcode ? formData.postcode : undefined,
         experience_years: formData.experience_years,
         availability: formData.availability,
         languages_spoken: formData.languages_spoken,
@@ -117,6 +120,21 @@ export default function ChefProfileForm({ chefId, initialData }: ChefProfileForm
         </div>
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="postcode">Postcode</Label>
+          <Input 
+            id="postcode" 
+            value={formData.postcode || ''}
+            onChange={(e) => setFormData({ ...formData, postcode: e.target.value })}
+            placeholder="e.g., TW3 or TW3 1AA"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Used for postcode search. Only the first part is stored.
+          </p>
+        </div>
+      </div>
+
       {/* Enhanced Fields Section */}
       <div className="border-t pt-6">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Professional Details</h3>
@@ -168,7 +186,7 @@ export default function ChefProfileForm({ chefId, initialData }: ChefProfileForm
 
         <div className="space-y-4 mt-4">
           <div>
-            <Label htmlFor="availability">Availability</Label>
+            <Label htmlFor="availability">Availability Notes</Label>
             <Input 
               id="availability" 
               value={formData.availability || ''}
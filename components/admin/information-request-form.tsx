@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { requestApplicationInformation } from '@/app/admin/actions'
+import { APPLICATION_MESSAGE_CONFIG, validateApplicationMessage } from '@/lib/application-status'
+
+interface InformationRequestFormProps {
+  applicationId: string
+}
+
+/**
+ * Asks the applicant for more information - the message shows on their
+ * application status page and is emailed to them
+ */
+export default function InformationRequestForm({ applicationId }: InformationRequestFormProps) {
+  const router = useRouter()
+  const [message, setMessage] = useState('')
+  const [isSending, setIsSending] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateApplicationMessage(message)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsSending(true)
+    try {
+      const result = await requestApplicationInformation(applicationId, message)
+
+      if (result.success) {
+        toast.success('Request sent to the applicant')
+        setMessage('')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to send request')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error requesting information:', error)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="pt-3 border-t border-gray-200">
+      <label htmlFor="information_request" className="block text-sm font-medium text-gray-700 mb-1">
+        Request more information
+      </label>
+      <Textarea
+        id="information_request"
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="e.g. Could you send a clearer photo of yourself?"
+        maxLength={APPLICATION_MESSAGE_CONFIG.MAX_LENGTH}
+        required
+        rows={3}
+        className="mb-3"
+        disabled={isSending}
+      />
+      <Button type="submit" variant="outline" className="w-full" disabled={isSending}>
+        {isSending ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          'Send Request'
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,428 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Edit, Eye, EyeOff, GripVertical, Loader2, Plus, Save, X } from 'lucide-react'
+import { toast } from 'sonner'
+import ApplicationForm from '@/components/application-form'
+import { reorderChefQuestions, saveChefQuestion, setChefQuestionVisibility } from '@/app/admin/actions'
+import {
+  CONDITION_FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  OPTION_FIELD_TYPES,
+  QUESTION_CONFIG,
+  QUESTION_FIELD_TYPES,
+  isLockedQuestionKey,
+  toQuestionKey,
+  YES_NO_OPTIONS,
+  validateQuestion,
+  type ApplicationQuestion,
+  type QuestionFieldType,
+  type QuestionInput,
+} from '@/lib/application-questions'
+
+type ActionResult = { success: boolean; error?: string; version?: number | null }
+
+interface QuestionBuilderProps {
+  questions: ApplicationQuestion[]
+}
+
+const EMPTY_QUESTION: QuestionInput = {
+  key: '',
+  text: '',
+  hintText: '',
+  fieldType: 'text',
+  isRequired: false,
+  isVisible: true,
+  options: [],
+  showIfKey: null,
+  showIfValue: null,
+}
+
+/**
+ * Application Question Builder
+ *
+ * Create, edit, hide and drag-to-reorder the questions on the chef
+ * application form, with a live preview of the form as applicants will see
+ * it. Unsaved edits show in the preview straight away.
+ *
+ * Choice questions take one option per line. Any question can be made a
+ * follow-up that only shows for a particular answer to a yes/no or choice
+ * question. Questions the app reads by key keep their field type and
+ * required setting and can't be hidden.
+ */
+export default function QuestionBuilder({ questions }: QuestionBuilderProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [ordered, setOrdered] = useState(questions)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  // null = form closed, 'new' = adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [formData, setFormData] = useState<QuestionInput>(EMPTY_QUESTION)
+  // New questions suggest a key from the text until the admin edits it
+  const [keyEdited, setKeyEdited] = useState(false)
+
+  // Pick up the saved order after router.refresh()
+  useEffect(() => {
+    setOrdered(questions)
+  }, [questions])
+
+  const startEditing = (question?: ApplicationQuestion) => {
+    setEditing(question ? question.id : 'new')
+    setKeyEdited(false)
+    setFormData(question
+      ? {
+          key: question.key,
+          text: question.text,
+          hintText: question.hint_text || '',
+          fieldType: question.field_type,
+          isRequired: question.is_required,
+          isVisible: question.is_visible,
+          options: question.options || [],
+          showIfKey: question.show_if_key,
+          showIfValue: question.show_if_value,
+        }
+      : EMPTY_QUESTION)
+  }
+
+  // Questions a follow-up can depend on, and the answers each one allows
+  const conditionQuestions = ordered.filter(question =>
+    CONDITION_FIELD_TYPES.includes(question.field_type) && question.id !== editing
+  )
+  const conditionParent = conditionQuestions.find(question => question.key === formData.showIfKey)
+  const conditionValues: string[] = conditionParent?.field_type === 'yes_no'
+    ? YES_NO_OPTIONS.map(option => option.value)
+    : conditionParent?.options || []
+
+  const editingQuestion = ordered.find(question => question.id === editing)
+  const isLocked = editingQuestion ? isLockedQuestionKey(editingQuestion.key) : false
+
+  const runAction = async (action: () => Promise<ActionResult>, successMessage: string) => {
+    setIsLoading(true)
+    try {
+      const result = await action()
+
+      if (result.success) {
+        toast.success(result.version ? `${successMessage} - form is now version ${result.version}` : successMessage)
+        router.refresh()
+        return true
+      }
+      toast.error(result.error || 'Failed to update questions')
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error updating questions:', error)
+    } finally {
+      setIsLoading(false)
+    }
+    return false
+  }
+
+  const handleSave = async () => {
+    const validationError = validateQuestion(formData)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    const questionId = editing === 'new' ? undefined : editing || undefined
+    const saved = await runAction(() => saveChefQuestion(formData, questionId), questionId ? 'Question updated' : 'Question added')
+    if (saved) {
+      setEditing(null)
+    }
+  }
+
+  const handleToggleVisibility = async (question: ApplicationQuestion) => {
+    await runAction(
+      () => setChefQuestionVisibility(question.id, !question.is_visible),
+      question.is_visible ? 'Question hidden' : 'Question shown'
+    )
+  }
+
+  // Reorder locally while dragging, save once on drop
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault()
+    if (dragIndex === null || dragIndex === index) return
+
+    const next = [...ordered]
+    const [moved] = next.splice(dragIndex, 1)
+    next.splice(index, 0, moved)
+    setOrdered(next)
+    setDragIndex(index)
+  }
+
+  const handleDragEnd = async () => {
+    setDragIndex(null)
+
+    const changed = ordered.some((question, index) => question.id !== questions[index]?.id)
+    if (!changed) return
+
+    const saved = await runAction(() => reorderChefQuestions(ordered.map(q => q.id)), 'Question order saved')
+    if (!saved) {
+      setOrdered(questions)
+    }
+  }
+
+  // Preview the visible questions, with any unsaved edit applied
+  const previewQuestions = [
+    ...ordered.map(question => question.id === editing
+      ? {
+          ...question,
+          text: formData.text || 'Untitled question',
+          hint_text: formData.hintText || null,
+          field_type: formData.fieldType,
+          is_required: formData.isRequired,
+          is_visible: formData.isVisible,
+          options: formData.options.filter(option => option.trim()),
+          show_if_key: formData.showIfKey,
+          show_if_value: formData.showIfValue,
+        }
+      : question),
+    ...(editing === 'new'
+      ? [{
+          id: 'new',
+          key: formData.key || 'new_question',
+          text: formData.text || 'Untitled question',
+          hint_text: formData.hintText || null,
+          field_type: formData.fieldType,
+          is_required: formData.isRequired,
+          is_visible: formData.isVisible,
+          display_order: ordered.length + 1,
+          options: formData.options.filter(option => option.trim()),
+          show_if_key: formData.showIfKey,
+          show_if_value: formData.showIfValue,
+        }]
+      : []),
+  ].filter(question => question.is_visible)
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Drag questions to reorder them. Hidden questions stay in the list but are not shown to applicants.
+        </p>
+
+        <ul className="divide-y border rounded-lg bg-white">
+          {ordered.map((question, index) => (
+            <li
+              key={question.id}
+              draggable={!isLoading}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={handleDragEnd}
+              className={`flex items-start gap-3 p-3 ${dragIndex === index ? 'bg-orange-50' : ''} ${question.is_visible ? '' : 'opacity-60'}`}
+            >
+              <GripVertical className="w-4 h-4 mt-1 text-gray-400 cursor-grab shrink-0" aria-hidden="true" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900">
+                  {question.text}
+                  {question.is_required && <span className="text-red-600 ml-1">*</span>}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <Badge variant="secondary">{FIELD_TYPE_LABELS[question.field_type] || question.field_type}</Badge>
+                  <Badge variant="outline" className="font-mono text-xs">{question.key}</Badge>
+                  {question.show_if_key && (
+                    <Badge variant="outline">If {question.show_if_key} = {question.show_if_value}</Badge>
+                  )}
+                  {!question.is_visible && <Badge variant="outline">Hidden</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button type="button" variant="ghost" size="sm"
+                  disabled={isLoading || (question.is_visible && isLockedQuestionKey(question.key))}
+                  onClick={() => handleToggleVisibility(question)}
+                  aria-label={question.is_visible ? `Hide ${question.text}` : `Show ${question.text}`}>
+                  {question.is_visible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={isLoading}
+                  onClick={() => startEditing(question)} aria-label={`Edit ${question.text}`}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {editing === null ? (
+          <Button type="button" variant="outline" onClick={() => startEditing()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Question
+          </Button>
+        ) : (
+          <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
+            <div>
+              <Label htmlFor="question_text">Question</Label>
+              <Input
+                id="question_text"
+                value={formData.text}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  text: e.target.value,
+                  key: editing === 'new' && !keyEdited ? toQuestionKey(e.target.value) : formData.key
+                })}
+                maxLength={QUESTION_CONFIG.MAX_TEXT_LENGTH}
+                placeholder="e.g., Languages Spoken"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="question_key">Answer key</Label>
+              <Input
+                id="question_key"
+                value={formData.key}
+                onChange={(e) => {
+                  setKeyEdited(true)
+                  setFormData({ ...formData, key: e.target.value })
+                }}
+                maxLength={QUESTION_CONFIG.MAX_KEY_LENGTH}
+                disabled={editing !== 'new'}
+                className="font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {editing === 'new'
+                  ? 'Answers are stored under this key. It cannot be changed after the question is created.'
+                  : 'Answers are stored under this key, so the question can be reworded safely.'}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="question_hint">Hint</Label>
+              <Textarea
+                id="question_hint"
+                value={formData.hintText}
+                onChange={(e) => setFormData({ ...formData, hintText: e.target.value })}
+                rows={2}
+                maxLength={QUESTION_CONFIG.MAX_HINT_LENGTH}
+                placeholder="Help text shown under the question"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="question_field_type">Field type</Label>
+              <select
+                id="question_field_type"
+                value={formData.fieldType}
+                onChange={(e) => setFormData({ ...formData, fieldType: e.target.value as QuestionFieldType })}
+                disabled={isLocked}
+                className="mt-1 block w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {QUESTION_FIELD_TYPES.map(type => (
+                  <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {OPTION_FIELD_TYPES.includes(formData.fieldType) && (
+              <div>
+                <Label htmlFor="question_options">Options</Label>
+                <Textarea
+                  id="question_options"
+                  value={formData.options.join('\n')}
+                  onChange={(e) => setFormData({ ...formData, options: e.target.value.split('\n') })}
+                  rows={5}
+                  placeholder={'One option per line, e.g.\nPunjabi\nGujarati'}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Up to {QUESTION_CONFIG.MAX_OPTIONS} options. Answers store the option text, so rewording an option
+                  doesn&apos;t change earlier answers.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="question_show_if_key">Only show when</Label>
+              <div className="mt-1 flex gap-2">
+                <select
+                  id="question_show_if_key"
+                  value={formData.showIfKey || ''}
+                  onChange={(e) => setFormData({ ...formData, showIfKey: e.target.value || null, showIfValue: null })}
+                  className="block w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">Always show</option>
+                  {conditionQuestions.map(question => (
+                    <option key={question.id} value={question.key}>{question.text}</option>
+                  ))}
+                </select>
+                {formData.showIfKey && (
+                  <select
+                    aria-label="Answer that shows this question"
+                    value={formData.showIfValue || ''}
+                    onChange={(e) => setFormData({ ...formData, showIfValue: e.target.value || null })}
+                    className="block w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">Choose an answer...</option>
+                    {conditionValues.map(value => (
+                      <option key={value} value={value}>is &quot;{value}&quot;</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-1.5 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.isRequired}
+                  onChange={(e) => setFormData({ ...formData, isRequired: e.target.checked })}
+                  disabled={isLocked}
+                  className="accent-primary"
+                />
+                Required
+              </label>
+              <label className="flex items-center gap-1.5 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.isVisible}
+                  onChange={(e) => setFormData({ ...formData, isVisible: e.target.checked })}
+                  disabled={isLocked && editingQuestion?.is_visible}
+                  className="accent-primary"
+                />
+                Visible to applicants
+              </label>
+            </div>
+            {isLocked && (
+              <p className="text-xs text-gray-500">
+                The app reads this answer, so its field type, required setting and visibility are fixed.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" onClick={handleSave} disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    {editing === 'new' ? 'Add Question' : 'Save Question'}
+                  </>
+                )}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isLoading}>
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Live preview - inert so nothing can be uploaded or submitted */}
+      <div>
+        <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">Preview</h2>
+        <div className="rounded-2xl border bg-white p-6 max-h-[80vh] overflow-y-auto">
+          <div className="pointer-events-none select-none" aria-hidden="true">
+            <ApplicationForm questions={previewQuestions} preview />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
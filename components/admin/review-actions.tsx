@@ -1,13 +1,20 @@
 'use client'
 
 import { useState } from 'react'
-import { publishReview, deleteReview } from '@/app/admin/actions'
+import Link from 'next/link'
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { X } from 'lucide-react'
+import { publishReview, deleteReview, publishReviewReply, updateReviewReply, deleteReviewReply, removeReviewPhoto } from '@/app/admin/actions'
 import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/hooks/use-toast'
+import { REPLY_CONFIG } from '@/lib/review-replies'
+import type { ReviewPhoto, ReviewReply } from '@/lib/data'
 
 interface ReviewActionsProps {
   reviewId: string
-  status: 'awaiting_email' | 'published' | 'spam'
+  status: 'awaiting_email' | 'awaiting_moderation' | 'published' | 'spam' | 'expired'
   onAction: () => void
 }
 
@@ -85,6 +92,13 @@ export function ReviewActions({ reviewId, status, onAction }: ReviewActionsProps
 
   return (
     <div className="flex gap-2">
+      {status === 'awaiting_moderation' && (
+        <Link href="/admin/reviews">
+          <Button size="sm" variant="outline" className="border-amber-300 text-amber-800">
+            Moderate
+          </Button>
+        </Link>
+      )}
       {status === 'awaiting_email' && (
         <Button
           size="sm"
@@ -107,4 +121,209 @@ export function ReviewActions({ reviewId, status, onAction }: ReviewActionsProps
       )}
     </div>
   )
-} 
\ No newline at end of file
+} 
+
+interface ReviewReplyActionsProps {
+  reply: ReviewReply
+  chefName: string
+  onAction: () => void
+}
+
+/**
+ * Moderation controls for a chef's reply to a review
+ *
+ * Admins can publish a reply awaiting moderation, edit its text in place or
+ * remove it.
+ */
+export function ReviewReplyActions({ reply, chefName, onAction }: ReviewReplyActionsProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [body, setBody] = useState(reply.body)
+  const { toast } = useToast()
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    title: string,
+    description: string
+  ) => {
+    setIsLoading(true)
+    try {
+      const result = await action()
+
+      if (result.success) {
+        toast({ title, description })
+        setIsEditing(false)
+        onAction() // Refresh the page data
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to update reply",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error('Error updating review reply:', error)
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePublish = () => {
+    if (!confirm('Publish this reply on the chef profile?')) return
+    runAction(() => publishReviewReply(reply.id), "Reply published", "The chef's reply is now live.")
+  }
+
+  const handleSave = () => {
+    runAction(() => updateReviewReply(reply.id, body), "Reply updated", "The reply text has been saved.")
+  }
+
+  const handleDelete = () => {
+    if (!confirm('Remove this reply? The chef will not be able to reply to this review again.')) return
+    runAction(() => deleteReviewReply(reply.id), "Reply removed", "The reply has been removed.")
+  }
+
+  const statusLabel =
+    reply.status === 'awaiting_moderation' ? 'Awaiting moderation' :
+    reply.status === 'published' ? 'Published' : 'Removed'
+
+  return (
+    <div className="mt-3 ml-4 pl-3 border-l-2 border-orange-200">
+      <p className="text-xs font-medium text-gray-700 mb-1">
+        Reply from {chefName} · <span className={reply.status === 'awaiting_moderation' ? 'text-purple-700' : 'text-gray-500'}>{statusLabel}</span>
+      </p>
+
+      {isEditing ? (
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+          maxLength={REPLY_CONFIG.MAX_LENGTH}
+          className="text-sm mb-2"
+        />
+      ) : (
+        <p className="text-sm text-gray-600 mb-2 whitespace-pre-line">{reply.body}</p>
+      )}
+
+      <div className="flex gap-2">
+        {isEditing ? (
+          <>
+            <Button size="sm" onClick={handleSave} disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => { setBody(reply.body); setIsEditing(false) }} disabled={isLoading}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <>
+            {reply.status === 'awaiting_moderation' && (
+              <Button
+                size="sm"
+                onClick={handlePublish}
+                disabled={isLoading}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                Publish Reply
+              </Button>
+            )}
+            {reply.status !== 'spam' && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => setIsEditing(true)} disabled={isLoading}>
+                  Edit
+                </Button>
+                <Button size="sm" variant="destructive" onClick={handleDelete} disabled={isLoading}>
+                  Remove
+                </Button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ReviewPhotoActionsProps {
+  photos: ReviewPhoto[]
+  // Defaults to refreshing the server-rendered page
+  onAction?: () => void
+}
+
+/**
+ * Review photo thumbnails with a remove button on each
+ *
+ * Lets admins strip individual photos during moderation without touching the
+ * rest of the review.
+ */
+export function ReviewPhotoActions({ photos, onAction }: ReviewPhotoActionsProps) {
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  if (photos.length === 0) return null
+
+  const handleRemove = async (photoId: string) => {
+    if (!confirm('Remove this photo from the review?')) return
+
+    setRemovingId(photoId)
+    try {
+      const result = await removeReviewPhoto(photoId)
+
+      if (result.success) {
+        toast({ title: "Photo removed", description: "The photo has been removed from the review." })
+        if (onAction) {
+          onAction()
+        } else {
+          router.refresh()
+        }
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to remove photo",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error('Error removing review photo:', error)
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <div className="flex gap-2 mb-2">
+      {photos.map((photo, index) => (
+        <div key={photo.id} className="relative">
+          <a href={photo.url} target="_blank" rel="noopener noreferrer">
+            <Image
+              src={photo.url}
+              alt={`Review photo ${index + 1}`}
+              width={64}
+              height={64}
+              className={`w-16 h-16 rounded object-cover ${removingId === photo.id ? 'opacity-50' : ''}`}
+            />
+          </a>
+          <button
+            type="button"
+            onClick={() => handleRemove(photo.id)}
+            disabled={removingId !== null}
+            className="absolute -top-1.5 -right-1.5 rounded-full bg-red-600 p-0.5 text-white hover:bg-red-700 disabled:opacity-50"
+            aria-label={`Remove photo ${index + 1}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Check, X, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { moderateReview } from '@/app/admin/actions'
+import { MODERATION_CONFIG } from '@/lib/review-moderation'
+
+interface ReviewModerationFormProps {
+  reviewId: string
+}
+
+/**
+ * Approve/reject controls for a review in the moderation queue
+ *
+ * A reason is required either way so the audit trail explains every decision.
+ */
+export default function ReviewModerationForm({ reviewId }: ReviewModerationFormProps) {
+  const router = useRouter()
+  const [reason, setReason] = useState('')
+  const [pending, setPending] = useState<'approve' | 'reject' | null>(null)
+
+  const reasonValid = reason.trim().length >= MODERATION_CONFIG.MIN_REASON_LENGTH
+
+  const handleDecision = async (decision: 'approve' | 'reject') => {
+    if (!reasonValid) {
+      toast.error('Please give a reason for this decision')
+      return
+    }
+
+    setPending(decision)
+    try {
+      const result = await moderateReview(reviewId, decision, reason)
+
+      if (result.success) {
+        toast.success(decision === 'approve' ? 'Review published' : 'Review rejected')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to moderate review')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error moderating review:', error)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={2}
+        placeholder="Reason (required) - e.g. Genuine feedback, phone number is the chef's own"
+        aria-label="Moderation reason"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => handleDecision('approve')}
+          disabled={pending !== null || !reasonValid}
+          className="bg-green-600 hover:bg-green-700 text-white"
+        >
+          {pending === 'approve' ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+          Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => handleDecision('reject')}
+          disabled={pending !== null || !reasonValid}
+        >
+          {pending === 'reject' ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <X className="w-4 h-4 mr-1" />}
+          Reject
+        </Button>
+      </div>
+    </div>
+  )
+}
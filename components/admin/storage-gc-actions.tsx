@@ -0,0 +1,63 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Loader2, Search, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { runStorageCleanup } from '@/app/admin/actions'
+import { formatBytes } from '@/lib/storage-gc'
+
+/**
+ * Runs storage garbage collection from the storage report
+ *
+ * A dry run only lists what would be deleted, so admins can check it first.
+ */
+export default function StorageGcActions() {
+  const router = useRouter()
+  const [pending, setPending] = useState<'dry-run' | 'delete' | null>(null)
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Delete every unreferenced file older than the grace period? This cannot be undone.')) {
+      return
+    }
+
+    setPending(dryRun ? 'dry-run' : 'delete')
+    try {
+      const result = await runStorageCleanup(dryRun)
+
+      if (result.success && result.result) {
+        const { orphansFound, orphansDeleted, bytesReclaimed } = result.result
+        toast.success(dryRun
+          ? `Dry run found ${orphansFound} unreferenced file${orphansFound !== 1 ? 's' : ''}`
+          : `Deleted ${orphansDeleted} file${orphansDeleted !== 1 ? 's' : ''} (${formatBytes(bytesReclaimed)})`)
+      } else {
+        toast.error(result.error || 'Storage clean-up failed')
+      }
+      router.refresh()
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error running storage clean-up:', error)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button size="sm" variant="outline" onClick={() => handleRun(true)} disabled={pending !== null}>
+        {pending === 'dry-run' ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Search className="w-4 h-4 mr-1" />}
+        Dry Run
+      </Button>
+      <Button
+        size="sm"
+        onClick={() => handleRun(false)}
+        disabled={pending !== null}
+        className="bg-red-600 hover:bg-red-700 text-white"
+      >
+        {pending === 'delete' ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Trash2 className="w-4 h-4 mr-1" />}
+        Delete Orphans Now
+      </Button>
+    </div>
+  )
+}
@@ -1,14 +1,33 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
+import Image from 'next/image'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { submitApplication } from '@/app/apply/actions'
+import { saveApplicationDraft, submitApplication } from '@/app/apply/actions'
 import FileUpload from '@/components/file-upload'
-import type { FileUploadResult } from '@/lib/storage'
+import { X } from 'lucide-react'
+import {
+  DRAFT_CONFIG,
+  EMPTY_FILE_UPLOADS,
+  draftResumePath,
+  generateUploadPrefix,
+  type ApplicationDraft,
+  type ApplicationFileUploads,
+} from '@/lib/application-drafts'
+import {
+  QUESTION_KEYS,
+  YES_NO_OPTIONS,
+  answersFromFormData,
+  isQuestionShown,
+  validateApplicationAnswers,
+  type ApplicationAnswers,
+  type ApplicationQuestion,
+} from '@/lib/application-questions'
+import { TIME_PERIODS, WEEK_ORDER, DAY_NAMES, toAvailabilityCell, type TimePeriod } from '@/lib/availability'
 
 /**
  * Chef Application Form Component
@@ -18,41 +37,135 @@ import type { FileUploadResult } from '@/lib/storage'
  * 
  * Features:
  * - Dynamic field rendering based on database questions
- * - Client-side validation for required fields
+ * - Select, yes/no, postcode and weekly availability grid fields
+ * - Follow-up questions that appear for a particular answer
+ * - Client-side validation shared with submitApplication
+ * - Save and finish later: drafts are saved server-side with an emailed
+ *   resume link, then autosaved while the applicant carries on
  * - Anti-spam honeypot protection
  * - Success/error messaging with automatic form reset
  * - Responsive design with accessibility support
+ * - Preview mode for the admin question builder (never submits)
  */
 
-interface Question {
-  id: string
-  text: string
-  hint_text: string | null
-  field_type: 'text' | 'textarea' | 'email' | 'phone' | 'number' | 'photo' | 'video'
-  is_required: boolean
-  display_order: number
-}
+type Question = Omit<ApplicationQuestion, 'is_visible'>
 
 interface ApplicationFormProps {
   questions: Question[]
+  // Question set version the applicant is answering, recorded on submit
+  questionSetVersion?: number | null
+  preview?: boolean
+  // Saved draft being resumed from an emailed link
+  draft?: ApplicationDraft | null
 }
 
-export default function ApplicationForm({ questions }: ApplicationFormProps) {
+type FileCategory = keyof ApplicationFileUploads
+
+export default function ApplicationForm({ questions, questionSetVersion, preview = false, draft = null }: ApplicationFormProps) {
   const router = useRouter()
+  const formRef = useRef<HTMLFormElement>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitStatus, setSubmitStatus] = useState<{ type: 'error'; message: string } | null>(null)
-  const [uploadedFiles, setUploadedFiles] = useState<{
-    profile_photos: FileUploadResult[]
-    food_photos: FileUploadResult[]
-    introduction_videos: FileUploadResult[]
-  }>({
-    profile_photos: [],
-    food_photos: [],
-    introduction_videos: []
-  })
-  const [applicationId] = useState(() => `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`)
+  const [uploadedFiles, setUploadedFiles] = useState<ApplicationFileUploads>(draft?.fileUploads || EMPTY_FILE_UPLOADS)
+  // Files saved with a resumed draft - FileUpload only shows this visit's uploads
+  const [draftFiles, setDraftFiles] = useState<ApplicationFileUploads>(draft?.fileUploads || EMPTY_FILE_UPLOADS)
+  // Upload folder - a resumed draft keeps its folder so all its files stay together
+  const [applicationId] = useState(() => draft?.uploadPrefix || generateUploadPrefix())
+  // Answers so far - decides which follow-up questions are shown
+  const [answers, setAnswers] = useState<ApplicationAnswers>(draft?.answers || {})
+  const [draftToken, setDraftToken] = useState<string | null>(draft?.token || null)
+  const [draftStatus, setDraftStatus] = useState<{ type: 'saved' | 'error'; message: string } | null>(
+    draft ? { type: 'saved', message: 'Welcome back - your saved answers are filled in below' } : null
+  )
+  const [isSavingDraft, setIsSavingDraft] = useState(false)
+  // Autosave reads the latest uploads after the timer fires
+  const uploadedFilesRef = useRef(uploadedFiles)
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    uploadedFilesRef.current = uploadedFiles
+  }, [uploadedFiles])
+
+  useEffect(() => () => {
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current)
+  }, [])
+
+  // The builder preview shows follow-ups too, so admins can see them
+  const visibleQuestions = preview ? questions : questions.filter(question => isQuestionShown(question, answers))
+
+  async function saveDraft(sendLink: boolean) {
+    if (preview || !formRef.current) return
+
+    const formData = new FormData(formRef.current)
+    formData.append('file_uploads', JSON.stringify(uploadedFilesRef.current))
+    formData.append('upload_prefix', applicationId)
+    formData.append('send_link', String(sendLink))
+
+    setIsSavingDraft(true)
+    try {
+      const result = await saveApplicationDraft(formData)
+
+      if (result.success && result.token) {
+        if (!draftToken) {
+          setDraftToken(result.token)
+          // Refreshing the page now resumes the draft
+          window.history.replaceState(null, '', draftResumePath(result.token))
+        }
+        setDraftStatus({
+          type: 'saved',
+          message: result.linkSent
+            ? "Saved - we've emailed you a link to finish later"
+            : `Saved at ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+        })
+      } else {
+        setDraftStatus({ type: 'error', message: result.error || 'Failed to save your answers' })
+      }
+    } catch {
+      setDraftStatus({ type: 'error', message: 'Failed to save your answers. Please try again.' })
+    } finally {
+      setIsSavingDraft(false)
+    }
+  }
+
+  // Once a draft exists, keep it up to date shortly after each change
+  function scheduleAutosave() {
+    if (!draftToken || preview) return
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current)
+    autosaveTimer.current = setTimeout(() => saveDraft(false), DRAFT_CONFIG.AUTOSAVE_DELAY_MS)
+  }
+
+  function addUploadedFiles(category: FileCategory, files: ApplicationFileUploads[FileCategory]) {
+    setUploadedFiles(prev => ({ ...prev, [category]: [...prev[category], ...files] }))
+    scheduleAutosave()
+  }
+
+  function removeDraftFile(category: FileCategory, fileName?: string) {
+    setDraftFiles(prev => ({ ...prev, [category]: prev[category].filter(file => file.fileName !== fileName) }))
+    setUploadedFiles(prev => ({ ...prev, [category]: prev[category].filter(file => file.fileName !== fileName) }))
+    scheduleAutosave()
+  }
+
+  // Saved answer for a question, used to refill a resumed draft
+  const savedValue = (key: string) => {
+    const value = draft?.answers[key]
+    return Array.isArray(value) ? undefined : value
+  }
+  const savedValues = (key: string): string[] => {
+    const value = draft?.answers[key]
+    return Array.isArray(value) ? value : []
+  }
 
   async function handleSubmit(formData: FormData) {
+    if (preview) return
+
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current)
+
+    const validationError = validateApplicationAnswers(questions, answersFromFormData(questions, formData))
+    if (validationError) {
+      setSubmitStatus({ type: 'error', message: validationError })
+      return
+    }
+
     setIsSubmitting(true)
     setSubmitStatus(null)
 
@@ -81,12 +194,47 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
     }
   }
 
+  // Files saved with the draft, with a button to remove each one
+  const renderDraftFiles = (category: FileCategory) => {
+    if (draftFiles[category].length === 0) return null
+
+    return (
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Saved with your form</p>
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+          {draftFiles[category].map(file => (
+            <div key={file.fileName} className="relative aspect-square rounded-lg overflow-hidden border border-border/50 bg-muted">
+              {category === 'introduction_videos' ? (
+                <video src={file.fileUrl} className="w-full h-full object-cover" muted playsInline />
+              ) : (
+                <Image src={file.fileUrl || ''} alt="Saved upload" fill sizes="120px" className="object-cover" />
+              )}
+              <Button
+                type="button"
+                variant="destructive"
+                size="sm"
+                className="absolute top-1 right-1 h-6 w-6 p-0"
+                disabled={isSubmitting}
+                onClick={() => removeDraftFile(category, file.fileName)}
+                aria-label="Remove saved file"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
   const renderField = (question: Question) => {
-    const fieldName = question.text
+    // Answers are submitted under the question's stable key
     const commonProps = {
-      name: fieldName,
+      id: question.key,
+      name: question.key,
       required: question.is_required,
-      disabled: isSubmitting
+      disabled: isSubmitting,
+      defaultValue: savedValue(question.key)
     }
 
     switch (question.field_type) {
@@ -124,14 +272,14 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
             {...commonProps}
             type="number"
             min="1"
-            step={question.text.includes('Rate') ? "0.01" : "1"}
+            step={question.key === QUESTION_KEYS.HOURLY_RATE ? "0.01" : "1"}
             className="h-12 sm:h-14 rounded-xl border-border/50 bg-background/50 backdrop-blur-sm focus:bg-background focus:border-primary/50 focus:ring-primary/20 transition-all duration-200 text-sm sm:text-base px-4"
           />
         )
       
       case 'textarea':
         // Special handling for enhanced fields with helpful examples
-        if (question.text === 'Special Events') {
+        if (question.key === QUESTION_KEYS.SPECIAL_EVENTS) {
           return (
             <div className="space-y-3">
               <Textarea
@@ -148,7 +296,7 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
           )
         }
         
-        if (question.text === 'House Help Services') {
+        if (question.key === QUESTION_KEYS.HOUSE_HELP_SERVICES) {
           return (
             <div className="space-y-3">
               <Textarea
@@ -168,59 +316,163 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
         return (
           <Textarea
             {...commonProps}
-            rows={question.text === 'Bio/About You' ? 6 : 4}
+            rows={question.key === QUESTION_KEYS.BIO ? 6 : 4}
             className="rounded-xl border-border/50 bg-background/50 backdrop-blur-sm focus:bg-background focus:border-primary/50 focus:ring-primary/20 transition-all duration-200 resize-none text-sm sm:text-base p-4 leading-relaxed"
           />
         )
       
+      case 'single_select':
+        return (
+          <select
+            {...commonProps}
+            defaultValue={savedValue(question.key) ?? ''}
+            className="h-12 sm:h-14 w-full rounded-xl border border-border/50 bg-background/50 backdrop-blur-sm focus:bg-background focus:border-primary/50 focus:ring-primary/20 transition-all duration-200 text-sm sm:text-base px-4"
+          >
+            <option value="" disabled>Choose one...</option>
+            {question.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+
+      case 'multi_select':
+        // Checkbox groups can't use `required`; checked on submit instead
+        return (
+          <div id={question.key} role="group" className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {question.options.map(option => (
+              <label
+                key={option}
+                className="flex items-center gap-3 rounded-xl border border-border/50 bg-background/50 px-4 py-3 text-sm sm:text-base cursor-pointer hover:border-primary/50 transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  name={question.key}
+                  value={option}
+                  defaultChecked={savedValues(question.key).includes(option)}
+                  disabled={isSubmitting}
+                  className="h-4 w-4 accent-primary"
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        )
+
+      case 'yes_no':
+        return (
+          <div id={question.key} role="radiogroup" className="flex gap-3">
+            {YES_NO_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className="flex flex-1 items-center justify-center gap-3 rounded-xl border border-border/50 bg-background/50 px-4 py-3 text-sm sm:text-base cursor-pointer hover:border-primary/50 transition-colors"
+              >
+                <input
+                  type="radio"
+                  name={question.key}
+                  value={option.value}
+                  defaultChecked={savedValue(question.key) === option.value}
+                  required={question.is_required}
+                  disabled={isSubmitting}
+                  className="h-4 w-4 accent-primary"
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+        )
+
+      case 'postcode':
+        return (
+          <Input
+            {...commonProps}
+            type="text"
+            autoComplete="postal-code"
+            maxLength={8}
+            placeholder="e.g. TW3 1AA"
+            className="h-12 sm:h-14 rounded-xl border-border/50 bg-background/50 backdrop-blur-sm focus:bg-background focus:border-primary/50 focus:ring-primary/20 transition-all duration-200 text-sm sm:text-base px-4 uppercase"
+          />
+        )
+
+      case 'availability':
+        return (
+          <div id={question.key} role="group" className="overflow-x-auto rounded-xl border border-border/50 bg-background/50">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="p-2" />
+                  {(Object.keys(TIME_PERIODS) as TimePeriod[]).map(period => (
+                    <th key={period} className="p-2 font-medium text-muted-foreground">
+                      {TIME_PERIODS[period].label}
+                      <span className="block text-xs font-normal">
+                        {TIME_PERIODS[period].start}–{TIME_PERIODS[period].end}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {WEEK_ORDER.map(day => (
+                  <tr key={day} className="border-t border-border/50">
+                    <th scope="row" className="p-2 text-left font-medium">{DAY_NAMES[day]}</th>
+                    {(Object.keys(TIME_PERIODS) as TimePeriod[]).map(period => (
+                      <td key={period} className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          name={question.key}
+                          value={toAvailabilityCell(day, period)}
+                          defaultChecked={savedValues(question.key).includes(toAvailabilityCell(day, period))}
+                          disabled={isSubmitting}
+                          aria-label={`${DAY_NAMES[day]} ${TIME_PERIODS[period].label.toLowerCase()}`}
+                          className="h-5 w-5 accent-primary"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+
       case 'photo':
-        const isProfilePhoto = question.text.toLowerCase().includes('profile')
+        const isProfilePhoto = question.key === QUESTION_KEYS.PROFILE_PHOTO
         const fileType = isProfilePhoto ? 'profile' : 'food'
+        const photoCategory = isProfilePhoto ? 'profile_photos' : 'food_photos'
         const maxFiles = isProfilePhoto ? 1 : 5
         
         return (
-          <FileUpload
-            fileType={fileType}
-            maxFiles={maxFiles}
-            applicationId={applicationId}
-            label={question.text}
-            helpText={question.hint_text || `Upload ${isProfilePhoto ? 'your profile photo' : 'photos of your food'}`}
-            onFilesUploaded={(files) => {
-              setUploadedFiles(prev => ({
-                ...prev,
-                [fileType === 'profile' ? 'profile_photos' : 'food_photos']: [
-                  ...prev[fileType === 'profile' ? 'profile_photos' : 'food_photos'],
-                  ...files
-                ]
-              }))
-            }}
-            onUploadError={(error) => {
-              setSubmitStatus({ type: 'error', message: error })
-            }}
-          />
+          <div className="space-y-4">
+            {renderDraftFiles(photoCategory)}
+            <FileUpload
+              fileType={fileType}
+              maxFiles={maxFiles - draftFiles[photoCategory].length}
+              applicationId={applicationId}
+              label={question.text}
+              helpText={question.hint_text || `Upload ${isProfilePhoto ? 'your profile photo' : 'photos of your food'}`}
+              onFilesUploaded={(files) => addUploadedFiles(photoCategory, files)}
+              onUploadError={(error) => {
+                setSubmitStatus({ type: 'error', message: error })
+              }}
+            />
+          </div>
         )
 
       case 'video':
         return (
-          <FileUpload
-            fileType="video"
-            maxFiles={1}
-            applicationId={applicationId}
-            label={question.text}
-            helpText={question.hint_text || 'Upload a short video introducing yourself'}
-            onFilesUploaded={(files) => {
-              setUploadedFiles(prev => ({
-                ...prev,
-                introduction_videos: [
-                  ...prev.introduction_videos,
-                  ...files
-                ]
-              }))
-            }}
-            onUploadError={(error) => {
-              setSubmitStatus({ type: 'error', message: error })
-            }}
-          />
+          <div className="space-y-4">
+            {renderDraftFiles('introduction_videos')}
+            <FileUpload
+              fileType="video"
+              maxFiles={1 - draftFiles.introduction_videos.length}
+              applicationId={applicationId}
+              label={question.text}
+              helpText={question.hint_text || 'Upload a short video introducing yourself'}
+              onFilesUploaded={(files) => addUploadedFiles('introduction_videos', files)}
+              onUploadError={(error) => {
+                setSubmitStatus({ type: 'error', message: error })
+              }}
+            />
+          </div>
         )
       
       default:
@@ -235,7 +487,16 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
   }
 
   return (
-    <form id="application-form" action={handleSubmit} className="space-y-8">
+    <form
+      id="application-form"
+      ref={formRef}
+      action={handleSubmit}
+      onChange={(e) => {
+        setAnswers(answersFromFormData(questions, new FormData(e.currentTarget)))
+        scheduleAutosave()
+      }}
+      className="space-y-8"
+    >
       {/* Error Messages */}
       {submitStatus && (
         <div className="p-6 rounded-xl bg-destructive/10 text-destructive border border-destructive/20 backdrop-blur-sm">
@@ -252,12 +513,17 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
       )}
 
       {/* Dynamic Form Fields */}
-      {questions.map((question) => (
+      {visibleQuestions.map((question) => (
         <div key={question.id} className="space-y-3">
-          <Label htmlFor={question.text} className="text-sm sm:text-base font-semibold text-foreground flex items-center leading-relaxed">
+          <Label htmlFor={question.key} className="text-sm sm:text-base font-semibold text-foreground flex items-center leading-relaxed">
             <span className="break-words">{question.text}</span>
             {question.is_required && <span className="text-destructive ml-2 text-lg flex-shrink-0">*</span>}
           </Label>
+          {preview && question.show_if_key && (
+            <p className="text-xs text-muted-foreground">
+              Only shown when {question.show_if_key} is &quot;{question.show_if_value}&quot;
+            </p>
+          )}
           
           <div className="relative">
             {renderField(question)}
@@ -274,6 +540,14 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
         </div>
       ))}
 
+      {questionSetVersion && (
+        <input type="hidden" name="question_set_version" value={questionSetVersion} />
+      )}
+      <input type="hidden" name="upload_prefix" value={applicationId} />
+      {draftToken && (
+        <input type="hidden" name="draft_token" value={draftToken} />
+      )}
+
       {/* Anti-spam honeypot field (hidden) */}
       <input
         type="text"
@@ -287,7 +561,7 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
       <div className="pt-8">
         <Button 
           type="submit" 
-          disabled={isSubmitting}
+          disabled={isSubmitting || preview}
           className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-semibold py-4 px-6 sm:px-8 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none text-base sm:text-lg"
         >
           {isSubmitting ? (
@@ -302,6 +576,29 @@ export default function ApplicationForm({ questions }: ApplicationFormProps) {
             </div>
           )}
         </Button>
+
+        {!preview && (
+          <div className="mt-4 text-center space-y-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => saveDraft(true)}
+              disabled={isSubmitting || isSavingDraft}
+              className="rounded-xl"
+            >
+              {isSavingDraft ? 'Saving...' : draftToken ? 'Save and email me the link again' : 'Save and finish later'}
+            </Button>
+            {draftStatus ? (
+              <p className={`text-sm ${draftStatus.type === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {draftStatus.message}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                We&apos;ll email you a link so you can carry on later, on any device. Needs your email address above.
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Enhanced Footer Note */}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, Send } from 'lucide-react'
+import { toast } from 'sonner'
+import FileUpload from '@/components/file-upload'
+import { respondToInformationRequest } from '@/app/apply/actions'
+import { APPLICATION_MESSAGE_CONFIG, validateApplicationMessage } from '@/lib/application-status'
+import type { FileUploadResult } from '@/lib/storage'
+
+interface ApplicationInformationResponseProps {
+  statusToken: string
+  /** Storage folder for the application's files; uploads are hidden without one */
+  uploadPrefix: string | null
+}
+
+/**
+ * Response form for an information request on the application status page,
+ * with optional extra photos and a video
+ */
+export default function ApplicationInformationResponse({ statusToken, uploadPrefix }: ApplicationInformationResponseProps) {
+  const router = useRouter()
+  const [body, setBody] = useState('')
+  const [files, setFiles] = useState<FileUploadResult[]>([])
+  const [isSending, setIsSending] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateApplicationMessage(body)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsSending(true)
+    try {
+      const result = await respondToInformationRequest(statusToken, body, files)
+      if (result.success) {
+        toast.success('Response sent')
+        setBody('')
+        setFiles([])
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to send response')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error sending information response:', error)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Your response</h2>
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Write your response..."
+        maxLength={APPLICATION_MESSAGE_CONFIG.MAX_LENGTH}
+        rows={4}
+        disabled={isSending}
+      />
+
+      {uploadPrefix && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FileUpload
+            fileType="food"
+            maxFiles={APPLICATION_MESSAGE_CONFIG.MAX_RESPONSE_FILES - 1}
+            applicationId={uploadPrefix}
+            label="Extra photos"
+            helpText="Optional - add any photos we asked for"
+            onFilesUploaded={(uploaded) => setFiles(prev => [...prev, ...uploaded])}
+            onUploadError={(error) => toast.error(error)}
+          />
+          <FileUpload
+            fileType="video"
+            applicationId={uploadPrefix}
+            label="Video"
+            helpText="Optional - a short video if we asked for one"
+            onFilesUploaded={(uploaded) => setFiles(prev => [...prev, ...uploaded])}
+            onUploadError={(error) => toast.error(error)}
+          />
+        </div>
+      )}
+
+      <Button type="submit" disabled={isSending || !body.trim()}>
+        {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+        Send Response
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,95 @@
+import { Check, CalendarX } from "lucide-react"
+import {
+  DAY_NAMES,
+  TIME_PERIODS,
+  WEEK_ORDER,
+  formatSlotRange,
+  getDayPeriods,
+  type AvailabilitySlot,
+  type TimePeriod,
+} from "@/lib/availability"
+
+interface AvailabilityCalendarProps {
+  slots: AvailabilitySlot[]
+  // Upcoming dates only (YYYY-MM-DD)
+  blackoutDates: string[]
+  maxBlackoutsShown?: number
+}
+
+/**
+ * Availability Calendar
+ *
+ * Weekly availability grid for the chef profile.
+ *
+ * Features:
+ * - Morning / afternoon / evening grid, Monday first
+ * - Exact slot times under each day
+ * - Upcoming blackout dates
+ */
+export default function AvailabilityCalendar({ slots, blackoutDates, maxBlackoutsShown = 6 }: AvailabilityCalendarProps) {
+  const periods = Object.keys(TIME_PERIODS) as TimePeriod[]
+  const upcomingBlackouts = [...blackoutDates].sort().slice(0, maxBlackoutsShown)
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-muted-foreground py-2 pr-4">Day</th>
+              {periods.map(period => (
+                <th key={period} className="font-medium text-muted-foreground py-2 px-2 text-center">
+                  {TIME_PERIODS[period].label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {WEEK_ORDER.map(day => {
+              const daySlots = slots
+                .filter(slot => slot.dayOfWeek === day)
+                .sort((a, b) => a.startTime.localeCompare(b.startTime))
+              const dayPeriods = getDayPeriods(slots, day)
+
+              return (
+                <tr key={day} className="border-t border-border">
+                  <td className="py-3 pr-4">
+                    <p className="font-semibold text-foreground">{DAY_NAMES[day]}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {daySlots.length > 0 ? daySlots.map(formatSlotRange).join(', ') : 'Not available'}
+                    </p>
+                  </td>
+                  {periods.map(period => (
+                    <td key={period} className="py-3 px-2 text-center">
+                      {dayPeriods.includes(period) ? (
+                        <span className="inline-flex items-center justify-center w-7 h-7 rounded-full bg-green-100 text-green-700">
+                          <Check className="w-4 h-4" />
+                          <span className="sr-only">Available</span>
+                        </span>
+                      ) : (
+                        <span className="inline-block w-7 h-7 rounded-full bg-muted" aria-label="Unavailable" />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {upcomingBlackouts.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-muted-foreground">
+          <CalendarX className="w-4 h-4 mt-0.5 shrink-0" />
+          <p>
+            <span className="font-medium text-foreground">Unavailable on: </span>
+            {upcomingBlackouts
+              .map(date => new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' }))
+              .join(', ')}
+            {blackoutDates.length > upcomingBlackouts.length && ` and ${blackoutDates.length - upcomingBlackouts.length} more`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Plus, Save, X, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  AVAILABILITY_CONFIG,
+  DAY_NAMES,
+  TIME_PERIODS,
+  WEEK_ORDER,
+  toDateString,
+  validateAvailabilitySlots,
+  validateBlackoutDates,
+  type AvailabilitySlot,
+  type TimePeriod,
+} from '@/lib/availability'
+
+interface AvailabilityEditorProps {
+  initialSlots: AvailabilitySlot[]
+  initialBlackoutDates: string[]
+  // Admin passes updateChefAvailability bound to the chef; the portal passes updatePortalAvailability
+  saveAction: (data: { slots: AvailabilitySlot[]; blackoutDates: string[] }) => Promise<{ success: boolean; error?: string }>
+}
+
+/**
+ * Availability Editor
+ *
+ * Weekly time slots per day plus one-off blackout dates. Shared by the admin
+ * chef editor and the chef portal.
+ */
+export default function AvailabilityEditor({ initialSlots, initialBlackoutDates, saveAction }: AvailabilityEditorProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [slots, setSlots] = useState<AvailabilitySlot[]>(initialSlots)
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([...initialBlackoutDates].sort())
+  const [newBlackoutDate, setNewBlackoutDate] = useState('')
+
+  const today = toDateString(new Date())
+
+  const addSlot = (dayOfWeek: number, period: TimePeriod = 'evening') => {
+    const { start, end } = TIME_PERIODS[period]
+    setSlots([...slots, { dayOfWeek, startTime: start, endTime: end }])
+  }
+
+  const updateSlot = (index: number, field: 'startTime' | 'endTime', value: string) => {
+    setSlots(slots.map((slot, i) => (i === index ? { ...slot, [field]: value } : slot)))
+  }
+
+  const removeSlot = (index: number) => {
+    setSlots(slots.filter((_, i) => i !== index))
+  }
+
+  const addBlackoutDate = () => {
+    if (newBlackoutDate && !blackoutDates.includes(newBlackoutDate)) {
+      setBlackoutDates([...blackoutDates, newBlackoutDate].sort())
+    }
+    setNewBlackoutDate('')
+  }
+
+  const handleSubmit = async () => {
+    const validationError = validateAvailabilitySlots(slots) || validateBlackoutDates(blackoutDates)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await saveAction({ slots, blackoutDates })
+
+      if (result.success) {
+        toast.success('Availability updated')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update availability')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error updating availability:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="divide-y border rounded-lg">
+        {WEEK_ORDER.map(day => {
+          const daySlots = slots
+            .map((slot, index) => ({ slot, index }))
+            .filter(({ slot }) => slot.dayOfWeek === day)
+
+          return (
+            <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 p-3">
+              <p className="w-28 shrink-0 text-sm font-medium text-gray-900 sm:pt-2">{DAY_NAMES[day]}</p>
+
+              <div className="flex-1 space-y-2">
+                {daySlots.length === 0 && (
+                  <p className="text-sm text-gray-400 sm:pt-2">Not available</p>
+                )}
+                {daySlots.map(({ slot, index }) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={slot.startTime}
+                      onChange={(e) => updateSlot(index, 'startTime', e.target.value)}
+                      className="w-28"
+                      aria-label={`${DAY_NAMES[day]} start time`}
+                    />
+                    <span className="text-gray-400">to</span>
+                    <Input
+                      type="time"
+                      value={slot.endTime}
+                      onChange={(e) => updateSlot(index, 'endTime', e.target.value)}
+                      className="w-28"
+                      aria-label={`${DAY_NAMES[day]} end time`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSlot(index)}
+                      aria-label={`Remove ${DAY_NAMES[day]} slot`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {(Object.keys(TIME_PERIODS) as TimePeriod[]).map(period => (
+                  <Button
+                    key={period}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addSlot(day, period)}
+                    disabled={daySlots.length >= AVAILABILITY_CONFIG.MAX_SLOTS_PER_DAY}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    {TIME_PERIODS[period].label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="font-medium text-gray-900">Blackout dates</h4>
+        <p className="text-sm text-gray-500">Days you can&apos;t work, even if they fall in your weekly hours.</p>
+
+        {blackoutDates.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {blackoutDates.map(date => (
+              <Badge key={date} variant="secondary" className="flex items-center gap-1">
+                {new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto p-0 ml-1 hover:bg-transparent"
+                  onClick={() => setBlackoutDates(blackoutDates.filter(d => d !== date))}
+                  aria-label={`Remove ${date}`}
+                >
+                  <X className="w-3 h-3 hover:text-red-600" />
+                </Button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            min={today}
+            value={newBlackoutDate}
+            onChange={(e) => setNewBlackoutDate(e.target.value)}
+            className="w-44"
+            aria-label="Blackout date"
+          />
+          <Button type="button" variant="outline" onClick={addBlackoutDate} disabled={!newBlackoutDate}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Date
+          </Button>
+        </div>
+      </div>
+
+      <Button onClick={handleSubmit} disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="w-4 h-4 mr-2" />
+            Save Availability
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Check, X, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { updateBookingAsCustomer } from '@/app/bookings/actions'
+import type { BookingStatus } from '@/lib/bookings'
+
+interface BookingCustomerActionsProps {
+  customerToken: string
+  status: BookingStatus
+}
+
+/**
+ * Customer actions for a booking: respond to a counter-proposal or cancel
+ */
+export default function BookingCustomerActions({ customerToken, status }: BookingCustomerActionsProps) {
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const handleAction = async (action: 'accept_counter' | 'decline_counter' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Are you sure you want to cancel this booking?')) {
+      return
+    }
+
+    setPendingAction(action)
+    try {
+      const result = await updateBookingAsCustomer(customerToken, action)
+      if (result.success) {
+        toast.success(action === 'accept_counter' ? 'Booking confirmed' : 'Booking updated')
+      } else {
+        toast.error(result.error || 'Failed to update booking')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error updating booking:', error)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const isBusy = pendingAction !== null
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      {status === 'countered' && (
+        <>
+          <Button onClick={() => handleAction('accept_counter')} disabled={isBusy} className="bg-green-600 hover:bg-green-700">
+            {pendingAction === 'accept_counter' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+            Accept New Time
+          </Button>
+          <Button onClick={() => handleAction('decline_counter')} disabled={isBusy} variant="outline">
+            {pendingAction === 'decline_counter' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <X className="w-4 h-4 mr-2" />}
+            Decline
+          </Button>
+        </>
+      )}
+
+      {(status === 'requested' || status === 'accepted') && (
+        <Button onClick={() => handleAction('cancel')} disabled={isBusy} variant="outline" className="text-red-600 hover:text-red-700">
+          {pendingAction === 'cancel' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <X className="w-4 h-4 mr-2" />}
+          Cancel Booking
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { CalendarCheck, Loader2 } from 'lucide-react'
+import { requestBooking } from '@/app/bookings/actions'
+import { validateBookingSlot, BOOKING_CONFIG } from '@/lib/bookings'
+
+interface BookingRequestModalProps {
+  chef: {
+    id: string
+    name: string
+    minimumBooking: number | null
+  }
+  children: React.ReactNode
+}
+
+interface FormData {
+  name: string
+  email: string
+  phone: string
+  date: string
+  startTime: string
+  hours: string
+  guestCount: string
+  addressArea: string
+  notes: string
+}
+
+export default function BookingRequestModal({ chef, children }: BookingRequestModalProps) {
+  const router = useRouter()
+  const firstName = chef.name.split(' ')[0]
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<FormData>({
+    name: '',
+    email: '',
+    phone: '',
+    date: '',
+    startTime: '18:00',
+    hours: String(chef.minimumBooking || 3),
+    guestCount: '4',
+    addressArea: '',
+    notes: ''
+  })
+
+  // Handle form field changes
+  const handleInputChange = (field: keyof FormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (error) setError(null) // Clear error when user starts typing
+  }
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const hours = parseFloat(formData.hours)
+
+      // Same slot rules as the server, checked early for quick feedback
+      const slotError = validateBookingSlot(
+        { date: formData.date, startTime: formData.startTime, hours },
+        chef.minimumBooking
+      )
+      if (slotError) {
+        setError(slotError)
+        return
+      }
+
+      const result = await requestBooking(chef.id, {
+        name: formData.name.trim(),
+        email: formData.email.trim(),
+        phone: formData.phone.trim() || undefined,
+        date: formData.date,
+        startTime: formData.startTime,
+        hours,
+        guestCount: parseInt(formData.guestCount),
+        addressArea: formData.addressArea.trim(),
+        notes: formData.notes.trim() || undefined
+      })
+
+      if (result.success && result.bookingUrl) {
+        setIsOpen(false)
+        router.push(result.bookingUrl)
+      } else {
+        setError(result.error || 'Failed to submit booking request. Please try again.')
+      }
+    } catch (err) {
+      console.error('Error requesting booking:', err)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto w-[calc(100%-2rem)] sm:w-full mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarCheck className="w-5 h-5 text-primary" />
+            Book {firstName}
+          </DialogTitle>
+          <DialogDescription>
+            Send {firstName} a booking request. You&apos;ll get an email as soon as they accept, decline or suggest another time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-4 rounded-lg bg-red-50 text-red-800 border border-red-200">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="booking-date" className="text-sm font-medium">
+                Date <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="booking-date"
+                type="date"
+                min={today}
+                value={formData.date}
+                onChange={(e) => handleInputChange('date', e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-time" className="text-sm font-medium">
+                Start Time <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="booking-time"
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => handleInputChange('startTime', e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="booking-hours" className="text-sm font-medium">
+                Hours <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="booking-hours"
+                type="number"
+                min={chef.minimumBooking || BOOKING_CONFIG.MIN_HOURS}
+                max={BOOKING_CONFIG.MAX_HOURS}
+                step="0.5"
+                value={formData.hours}
+                onChange={(e) => handleInputChange('hours', e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+              {chef.minimumBooking && (
+                <p className="text-xs text-gray-500">Minimum {chef.minimumBooking} hours</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-guests" className="text-sm font-medium">
+                Guests <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="booking-guests"
+                type="number"
+                min={1}
+                max={BOOKING_CONFIG.MAX_GUESTS}
+                value={formData.guestCount}
+                onChange={(e) => handleInputChange('guestCount', e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="booking-area" className="text-sm font-medium">
+              Area <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="booking-area"
+              value={formData.addressArea}
+              onChange={(e) => handleInputChange('addressArea', e.target.value)}
+              placeholder="e.g. Hounslow, TW3"
+              maxLength={BOOKING_CONFIG.MAX_AREA_LENGTH}
+              required
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-gray-500">Just your area for now - share your full address once confirmed.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="booking-name" className="text-sm font-medium">
+              Your Name <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="booking-name"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+              placeholder="Your name"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="booking-email" className="text-sm font-medium">
+              Email Address <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="booking-email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => handleInputChange('email', e.target.value)}
+              placeholder="your.email@example.com"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="booking-phone" className="text-sm font-medium">
+              Phone Number <span className="text-gray-400">(optional)</span>
+            </Label>
+            <Input
+              id="booking-phone"
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => handleInputChange('phone', e.target.value)}
+              placeholder="+44 7XXX XXXXXX"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="booking-notes" className="text-sm font-medium">
+              Notes for {firstName} <span className="text-gray-400">(optional)</span>
+            </Label>
+            <Textarea
+              id="booking-notes"
+              value={formData.notes}
+              onChange={(e) => handleInputChange('notes', e.target.value)}
+              placeholder="Dishes you'd like, dietary needs, occasion..."
+              className="resize-none"
+              rows={3}
+              maxLength={BOOKING_CONFIG.MAX_NOTES_LENGTH}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="pt-2 sm:pt-4">
+            <Button type="submit" disabled={isSubmitting} className="w-full py-3">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending request...
+                </>
+              ) : (
+                <>
+                  <CalendarCheck className="w-4 h-4 mr-2" />
+                  Send Booking Request
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
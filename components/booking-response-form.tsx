@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Check, X, CalendarClock, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { respondToBooking } from '@/app/bookings/actions'
+import { validateBookingSlot, BOOKING_CONFIG } from '@/lib/bookings'
+
+interface BookingResponseFormProps {
+  chefToken: string
+  minimumBooking: number | null
+  initialSlot: {
+    date: string
+    startTime: string
+    hours: number
+  }
+}
+
+/**
+ * Booking Response Form
+ *
+ * Lets a chef answer a booking request from the link in their email.
+ *
+ * Features:
+ * - Accept or decline with an optional message
+ * - Counter-propose a different date, time or length
+ * - Same slot validation as the customer form (including minimum booking)
+ */
+export default function BookingResponseForm({ chefToken, minimumBooking, initialSlot }: BookingResponseFormProps) {
+  const [message, setMessage] = useState('')
+  const [showCounter, setShowCounter] = useState(false)
+  const [counter, setCounter] = useState({
+    date: initialSlot.date,
+    startTime: initialSlot.startTime.slice(0, 5),
+    hours: String(initialSlot.hours)
+  })
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const handleResponse = async (response: 'accept' | 'decline' | 'counter') => {
+    const counterSlot = {
+      date: counter.date,
+      startTime: counter.startTime,
+      hours: parseFloat(counter.hours)
+    }
+
+    if (response === 'counter') {
+      const slotError = validateBookingSlot(counterSlot, minimumBooking)
+      if (slotError) {
+        toast.error(slotError)
+        return
+      }
+    }
+
+    setPendingAction(response)
+    try {
+      const result = await respondToBooking(chefToken, response, {
+        counter: response === 'counter' ? counterSlot : undefined,
+        message: message.trim() || undefined
+      })
+
+      if (result.success) {
+        toast.success('Your reply has been sent to the customer')
+      } else {
+        toast.error(result.error || 'Failed to send your reply')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error responding to booking:', error)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const isBusy = pendingAction !== null
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="chef-message">Message to the customer <span className="text-gray-400">(optional)</span></Label>
+        <Textarea
+          id="chef-message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="e.g. Looking forward to it! Shall I bring my own spices?"
+          rows={3}
+          maxLength={BOOKING_CONFIG.MAX_NOTES_LENGTH}
+          className="resize-none"
+          disabled={isBusy}
+        />
+      </div>
+
+      {showCounter && (
+        <div className="border rounded-lg p-4 space-y-3 bg-blue-50/50">
+          <p className="text-sm font-medium text-gray-900">Suggest a different time</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="counter-date">Date</Label>
+              <Input
+                id="counter-date"
+                type="date"
+                value={counter.date}
+                onChange={(e) => setCounter({ ...counter, date: e.target.value })}
+                disabled={isBusy}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="counter-time">Start time</Label>
+              <Input
+                id="counter-time"
+                type="time"
+                value={counter.startTime}
+                onChange={(e) => setCounter({ ...counter, startTime: e.target.value })}
+                disabled={isBusy}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="counter-hours">Hours</Label>
+              <Input
+                id="counter-hours"
+                type="number"
+                min={minimumBooking || BOOKING_CONFIG.MIN_HOURS}
+                max={BOOKING_CONFIG.MAX_HOURS}
+                step="0.5"
+                value={counter.hours}
+                onChange={(e) => setCounter({ ...counter, hours: e.target.value })}
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+          <Button onClick={() => handleResponse('counter')} disabled={isBusy}>
+            {pendingAction === 'counter' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarClock className="w-4 h-4 mr-2" />}
+            Send Suggestion
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button onClick={() => handleResponse('accept')} disabled={isBusy} className="bg-green-600 hover:bg-green-700">
+          {pendingAction === 'accept' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+          Accept Booking
+        </Button>
+        {!showCounter && (
+          <Button onClick={() => setShowCounter(true)} disabled={isBusy} variant="outline">
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Suggest Another Time
+          </Button>
+        )}
+        <Button onClick={() => handleResponse('decline')} disabled={isBusy} variant="outline" className="text-red-600 hover:text-red-700">
+          {pendingAction === 'decline' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <X className="w-4 h-4 mr-2" />}
+          Decline
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { Badge } from "@/components/ui/badge"
+import { Calendar, Clock, Users, MapPin, MessageSquare } from "lucide-react"
+import {
+  BOOKING_STATUS_LABELS,
+  formatBookingSlot,
+  type Booking,
+  type BookingEvent,
+  type BookingStatus,
+} from "@/lib/bookings"
+
+interface BookingSummaryProps {
+  booking: Booking
+  events: BookingEvent[]
+}
+
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  requested: 'bg-amber-100 text-amber-800',
+  countered: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+}
+
+const EVENT_LABELS: Record<BookingStatus, string> = {
+  requested: 'Booking requested',
+  countered: 'New time suggested',
+  accepted: 'Booking confirmed',
+  declined: 'Booking declined',
+  cancelled: 'Booking cancelled',
+}
+
+const ACTOR_LABELS: Record<BookingEvent['actor'], string> = {
+  customer: 'Customer',
+  chef: 'Chef',
+  admin: 'Tastes Like Home',
+  system: 'Tastes Like Home',
+}
+
+/**
+ * Booking Summary
+ *
+ * Read-only view of a booking shared by the customer and chef booking pages.
+ *
+ * Features:
+ * - Status badge and requested details
+ * - Chef's counter-proposal and message when present
+ * - Timeline built from booking_events
+ */
+export default function BookingSummary({ booking, events }: BookingSummaryProps) {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Booking details</h2>
+        <Badge className={STATUS_STYLES[booking.status]}>
+          {BOOKING_STATUS_LABELS[booking.status]}
+        </Badge>
+      </div>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-primary" />
+          <dt className="sr-only">When</dt>
+          <dd>{formatBookingSlot(booking.booking_date, booking.start_time)}</dd>
+        </div>
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-primary" />
+          <dt className="sr-only">Hours</dt>
+          <dd>{booking.hours} hours</dd>
+        </div>
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <dt className="sr-only">Guests</dt>
+          <dd>{booking.guest_count} guest{booking.guest_count !== 1 ? 's' : ''}</dd>
+        </div>
+        <div className="flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-primary" />
+          <dt className="sr-only">Area</dt>
+          <dd>{booking.address_area}</dd>
+        </div>
+      </dl>
+
+      {booking.notes && (
+        <div className="text-sm bg-gray-50 border rounded-lg p-4">
+          <p className="font-medium text-gray-900 mb-1">Customer notes</p>
+          <p className="text-gray-600 whitespace-pre-line">{booking.notes}</p>
+        </div>
+      )}
+
+      {booking.status === 'countered' && booking.counter_date && booking.counter_start_time && (
+        <div className="text-sm bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="font-medium text-blue-900 mb-1">Chef&apos;s suggested alternative</p>
+          <p className="text-blue-800">
+            {formatBookingSlot(booking.counter_date, booking.counter_start_time)} for {booking.counter_hours} hours
+          </p>
+        </div>
+      )}
+
+      {booking.chef_message && (
+        <div className="text-sm bg-orange-50 border border-orange-200 rounded-lg p-4 flex gap-2">
+          <MessageSquare className="w-4 h-4 text-orange-700 mt-0.5 flex-shrink-0" />
+          <p className="text-orange-900 whitespace-pre-line">{booking.chef_message}</p>
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Timeline</h3>
+          <ol className="space-y-2 border-l-2 border-gray-200 pl-4">
+            {events.map(event => (
+              <li key={event.id} className="text-sm">
+                <p className="text-gray-900">
+                  {EVENT_LABELS[event.to_status]}
+                  <span className="text-gray-500"> · {ACTOR_LABELS[event.actor]}</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(event.created_at).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,38 +1,58 @@
-import Image from "next/image"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Shield, ArrowRight, MapPin, Star } from "lucide-react"
+import { ShieldCheck, ArrowRight, MapPin, Star } from "lucide-react"
+import ResponsiveImage from "@/components/responsive-image"
+import { CHEF_CHECK_BADGE_LABELS } from "@/lib/chef-documents"
 import type { Chef } from "@/lib/data"
 
 interface ChefCardProps {
   chef: Chef
 }
 
+// Search snippets mark matches as [[term]]; render those as <mark> without using HTML
+function renderSnippet(snippet: string) {
+  return snippet.split(/(\[\[.*?\]\])/g).map((part, index) =>
+    part.startsWith('[[') && part.endsWith(']]') ? (
+      <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+        {part.slice(2, -2)}
+      </mark>
+    ) : (
+      part
+    )
+  )
+}
+
 export default function ChefCard({ chef }: ChefCardProps) {
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg hover:-translate-y-1 transition-all duration-300">
       {/* Chef Photo */}
       <div className="relative">
-        <Image
+        <ResponsiveImage
           src={chef.photo || "/placeholder.svg"}
+          variants={chef.photoVariants}
           alt={chef.name}
-          width={400}
-          height={300}
+          sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, (max-width: 1280px) 33vw, 25vw"
           className="w-full aspect-[4/3] object-cover"
         />
-        {chef.verified && (
-          <Badge className="absolute top-2 right-2 bg-accent hover:bg-accent/90 text-accent-foreground text-xs">
-            <Shield className="w-3 h-3 mr-1" />
-            Verified
-          </Badge>
-        )}
       </div>
 
       {/* Card Content */}
       <div className="p-5">
         <h3 className="text-lg font-semibold text-foreground mb-2">{chef.name}</h3>
 
+        {/* Verification Checks - only those backed by a current document */}
+        {chef.checks && chef.checks.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2.5">
+            {chef.checks.map(check => (
+              <Badge key={check} variant="outline" className="bg-accent/10 text-accent border-accent/20 text-xs font-medium">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                {CHEF_CHECK_BADGE_LABELS[check]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Rating Display */}
         {chef.avgRating && chef.reviewCount && (
           <div className="flex items-center gap-2 mb-2.5">
@@ -53,9 +73,20 @@ export default function ChefCard({ chef }: ChefCardProps) {
           <div className="flex items-center gap-1 mb-2.5 text-muted-foreground">
             <MapPin className="w-4 h-4" />
             <span className="text-sm">{chef.location}</span>
+            {chef.distanceMiles !== undefined && (
+              <span className="text-sm">
+                · {chef.distanceMiles < 1 ? 'under 1' : chef.distanceMiles.toFixed(1)} miles away
+              </span>
+            )}
           </div>
         )}
 
+        {/* Search Snippet */}
+        {chef.searchSnippet && (
+          <p className="text-sm text-muted-foreground mb-3 line-clamp-3">
+            {renderSnippet(chef.searchSnippet)}
+          </p>
+        )}
 
         {/* Price */}
         <p className="text-base font-bold text-primary mb-4">From £{chef.hourlyRate} per hour</p>
@@ -0,0 +1,230 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { SlidersHorizontal, X } from "lucide-react"
+import {
+  MIN_RATING_OPTIONS,
+  getDayOptions,
+  getSortOptions,
+  countActiveFilters,
+  type ChefFilters as ChefFilterState,
+  type FilterOptions,
+} from "@/lib/chef-filters"
+import { DAY_NAMES, TIME_PERIODS } from "@/lib/availability"
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS } from "@/lib/dishes"
+
+interface ChefFiltersProps {
+  filters: ChefFilterState
+  options: FilterOptions
+  hasQuery: boolean
+  hasLocation: boolean
+  // Params owned by other controls (e.g. postcode) to carry through on submit
+  preservedParams: [string, string][]
+  clearHref: string
+  resultCount: number
+}
+
+interface CheckboxGroupProps {
+  name: string
+  label: string
+  values: string[]
+  selected: string[]
+  // Display text when it differs from the URL value
+  labels?: Record<string, string>
+}
+
+function CheckboxGroup({ name, label, values, selected, labels }: CheckboxGroupProps) {
+  if (values.length === 0) return null
+  const selectedLower = selected.map(s => s.toLowerCase())
+
+  return (
+    <fieldset>
+      <legend className="text-sm font-semibold text-gray-900 mb-2">{label}</legend>
+      <div className="flex flex-wrap gap-2">
+        {values.map(value => (
+          <label
+            key={value}
+            className="flex items-center gap-1.5 text-sm bg-white border rounded-full px-3 py-1 cursor-pointer hover:border-primary has-[:checked]:border-primary has-[:checked]:bg-primary/10"
+          >
+            <input
+              type="checkbox"
+              name={name}
+              value={value}
+              defaultChecked={selectedLower.includes(value.toLowerCase())}
+              className="accent-primary"
+            />
+            {labels?.[value] ?? value}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  )
+}
+
+/**
+ * Chef Filters
+ *
+ * Plain GET form so every filter combination is a shareable, server-rendered URL.
+ *
+ * Features:
+ * - Cuisine, dietary, language and house-help facets (multi-select)
+ * - Hourly rate range and minimum rating
+ * - Availability by day and time of day ("free on Saturday evening")
+ * - Menu dietary tags and allergen-free dishes
+ * - Sort by best match, newest, rating, price or distance (best match and
+ *   distance only appear for text and postcode searches)
+ * - Collapsible panel showing the active filter count
+ */
+export default function ChefFilters({
+  filters,
+  options,
+  hasQuery,
+  hasLocation,
+  preservedParams,
+  clearHref,
+  resultCount,
+}: ChefFiltersProps) {
+  const activeCount = countActiveFilters(filters)
+  const sortOptions = getSortOptions({ hasQuery, hasLocation })
+
+  return (
+    <div className="max-w-6xl mx-auto mt-6 px-2">
+      <form action="/" method="get">
+        {preservedParams.map(([name, value], index) => (
+          <input key={`${name}-${index}`} type="hidden" name={name} value={value} />
+        ))}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            Showing {resultCount} chef{resultCount !== 1 ? 's' : ''}
+          </p>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="sort" className="text-sm text-muted-foreground">Sort by</label>
+            <select
+              id="sort"
+              name="sort"
+              defaultValue={filters.sort}
+              className="h-9 rounded-md border border-input bg-white px-3 text-sm"
+            >
+              {sortOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <Button type="submit" size="sm" variant="outline">Apply</Button>
+          </div>
+        </div>
+
+        <details className="mt-3 bg-white/60 border border-white/40 rounded-xl" open={activeCount > 0}>
+          <summary className="flex items-center gap-2 cursor-pointer px-4 py-3 text-sm font-semibold text-gray-900">
+            <SlidersHorizontal className="w-4 h-4" />
+            Filters{activeCount > 0 ? ` (${activeCount})` : ''}
+          </summary>
+
+          <div className="px-4 pb-4 space-y-5">
+            <CheckboxGroup name="cuisine" label="Cuisine" values={options.cuisines} selected={filters.cuisines} />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <fieldset>
+                <legend className="text-sm font-semibold text-gray-900 mb-2">Hourly rate (£)</legend>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    name="min_rate"
+                    min="0"
+                    step="1"
+                    defaultValue={filters.minRate}
+                    placeholder={`${options.minRate}`}
+                    aria-label="Minimum hourly rate"
+                    className="h-9 w-24 rounded-md border border-input bg-white px-3 text-sm"
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <input
+                    type="number"
+                    name="max_rate"
+                    min="0"
+                    step="1"
+                    defaultValue={filters.maxRate}
+                    placeholder={`${options.maxRate}`}
+                    aria-label="Maximum hourly rate"
+                    className="h-9 w-24 rounded-md border border-input bg-white px-3 text-sm"
+                  />
+                </div>
+              </fieldset>
+
+              <fieldset>
+                <legend className="text-sm font-semibold text-gray-900 mb-2">Minimum rating</legend>
+                <select
+                  name="min_rating"
+                  defaultValue={filters.minRating?.toString() ?? ''}
+                  aria-label="Minimum rating"
+                  className="h-9 rounded-md border border-input bg-white px-3 text-sm"
+                >
+                  <option value="">Any rating</option>
+                  {MIN_RATING_OPTIONS.map(rating => (
+                    <option key={rating} value={rating}>{rating}★ & up</option>
+                  ))}
+                </select>
+              </fieldset>
+            </div>
+
+            <fieldset>
+              <legend className="text-sm font-semibold text-gray-900 mb-2">Free on</legend>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  name="day"
+                  defaultValue={filters.day !== undefined ? DAY_NAMES[filters.day].toLowerCase() : ''}
+                  aria-label="Day"
+                  className="h-9 rounded-md border border-input bg-white px-3 text-sm"
+                >
+                  <option value="">Any day</option>
+                  {getDayOptions().map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  name="time"
+                  defaultValue={filters.time ?? ''}
+                  aria-label="Time of day"
+                  className="h-9 rounded-md border border-input bg-white px-3 text-sm"
+                >
+                  <option value="">Any time</option>
+                  {Object.entries(TIME_PERIODS).map(([value, period]) => (
+                    <option key={value} value={value}>{period.label}</option>
+                  ))}
+                </select>
+              </div>
+            </fieldset>
+
+            <CheckboxGroup name="dietary" label="Dietary specialties" values={options.dietary} selected={filters.dietary} />
+            <CheckboxGroup
+              name="menu"
+              label="Has dishes that are"
+              values={options.menuTags}
+              selected={filters.menuTags}
+              labels={DIETARY_TAG_LABELS}
+            />
+            <CheckboxGroup
+              name="free_from"
+              label="Has dishes free from"
+              values={options.allergens}
+              selected={filters.freeFrom}
+              labels={ALLERGEN_LABELS}
+            />
+            <CheckboxGroup name="language" label="Languages spoken" values={options.languages} selected={filters.languages} />
+            <CheckboxGroup name="house_help" label="House help" values={options.houseHelp} selected={filters.houseHelp} />
+
+            <div className="flex items-center gap-3 pt-2">
+              <Button type="submit">Show chefs</Button>
+              {activeCount > 0 && (
+                <Link href={clearHref} className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                  <X className="w-3 h-3" />
+                  Clear filters
+                </Link>
+              )}
+            </div>
+          </div>
+        </details>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Save, X, Plus, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { updatePortalCuisines } from '@/app/chef-portal/actions'
+
+interface PortalCuisinesFormProps {
+  initialCuisines: string[]
+}
+
+/**
+ * Chef-managed cuisine specialties
+ */
+export default function PortalCuisinesForm({ initialCuisines }: PortalCuisinesFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [cuisines, setCuisines] = useState<string[]>(initialCuisines)
+  const [newCuisine, setNewCuisine] = useState('')
+
+  const addCuisine = () => {
+    const cuisine = newCuisine.trim()
+    if (cuisine && !cuisines.some(c => c.toLowerCase() === cuisine.toLowerCase())) {
+      setCuisines([...cuisines, cuisine])
+    }
+    setNewCuisine('')
+  }
+
+  const removeCuisine = (cuisineToRemove: string) => {
+    setCuisines(cuisines.filter(cuisine => cuisine !== cuisineToRemove))
+  }
+
+  const handleSubmit = async () => {
+    setIsLoading(true)
+
+    try {
+      const result = await updatePortalCuisines(cuisines)
+
+      if (result.success) {
+        toast.success('Cuisines updated')
+      } else {
+        toast.error(result.error || 'Failed to update cuisines')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error updating cuisines:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      addCuisine()
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {cuisines.map((cuisine) => (
+          <Badge
+            key={cuisine}
+            variant="secondary"
+            className="flex items-center gap-1 bg-orange-100 text-orange-700"
+          >
+            {cuisine}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-auto p-0 ml-1 hover:bg-transparent"
+              onClick={() => removeCuisine(cuisine)}
+              aria-label={`Remove ${cuisine}`}
+            >
+              <X className="w-3 h-3 hover:text-red-600" />
+            </Button>
+          </Badge>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newCuisine}
+          onChange={(e) => setNewCuisine(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Add a cuisine (e.g., Punjabi, Gujarati)"
+          className="flex-1"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addCuisine}
+          disabled={!newCuisine.trim()}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      <Button onClick={handleSubmit} disabled={isLoading || cuisines.length === 0}>
+        {isLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="w-4 h-4 mr-2" />
+            Save Cuisines
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
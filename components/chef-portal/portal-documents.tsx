@@ -0,0 +1,251 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FileText, Loader2, Upload, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { deletePortalDocument, uploadPortalDocument } from '@/app/chef-portal/actions'
+import {
+  CHEF_DOCUMENT_CONFIG,
+  CHEF_DOCUMENT_LABELS,
+  CHEF_DOCUMENT_STATUS_LABELS,
+  CHEF_DOCUMENT_TYPES,
+  daysUntil,
+  isCurrentDocument,
+  todayDateString,
+  validateChefDocument,
+  validateDocumentFile,
+  type ChefDocument,
+  type ChefDocumentType,
+} from '@/lib/chef-documents'
+
+interface PortalDocumentsProps {
+  documents: Pick<ChefDocument, 'id' | 'document_type' | 'file_name' | 'issued_on' | 'expires_on' | 'status' | 'review_notes' | 'created_at'>[]
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-GB')
+}
+
+/**
+ * Chef-managed verification documents - upload evidence for each check and
+ * see what's been approved and when it expires
+ */
+export default function PortalDocuments({ documents }: PortalDocumentsProps) {
+  const [documentType, setDocumentType] = useState<ChefDocumentType>(CHEF_DOCUMENT_TYPES[0])
+  const [issuedOn, setIssuedOn] = useState('')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+  const router = useRouter()
+
+  const today = todayDateString()
+  const maxSizeMB = CHEF_DOCUMENT_CONFIG.MAX_FILE_SIZE / 1024 / 1024
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Same checks as the server, for quick feedback
+    const validationError = validateChefDocument({ documentType, issuedOn, expiresOn })
+      || (file ? validateDocumentFile(file) : 'Please choose a file to upload')
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('documentType', documentType)
+      formData.append('issuedOn', issuedOn)
+      formData.append('expiresOn', expiresOn)
+      formData.append('file', file as File)
+
+      const result = await uploadPortalDocument(formData)
+      if (result.success) {
+        toast.success('Document uploaded - we\'ll review it shortly')
+        setIssuedOn('')
+        setExpiresOn('')
+        setFile(null)
+        if (fileRef.current) {
+          fileRef.current.value = ''
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to upload document')
+      }
+    } catch (error) {
+      console.error('Error uploading document:', error)
+      toast.error('Upload failed. Please try a smaller file or check your connection.')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleWithdraw = async (documentId: string) => {
+    if (!confirm('Withdraw this document?')) {
+      return
+    }
+
+    setWithdrawingId(documentId)
+    try {
+      const result = await deletePortalDocument(documentId)
+      if (result.success) {
+        toast.success('Document withdrawn')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to withdraw document')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error withdrawing document:', error)
+    } finally {
+      setWithdrawingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {documents.length > 0 ? (
+        <ul className="space-y-3 text-sm">
+          {documents.map(document => {
+            const current = isCurrentDocument(document)
+            const daysLeft = daysUntil(document.expires_on)
+
+            return (
+              <li key={document.id} className="flex flex-col sm:flex-row sm:justify-between gap-2 border-b last:border-0 pb-3 last:pb-0">
+                <div className="flex gap-2">
+                  <FileText className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+                  <div>
+                    <p className="text-gray-900 font-medium">{CHEF_DOCUMENT_LABELS[document.document_type]}</p>
+                    <p className="text-gray-500 break-all">{document.file_name}</p>
+                    <p className="text-gray-500">
+                      Issued {formatDate(document.issued_on)} · Expires {formatDate(document.expires_on)}
+                    </p>
+                    {document.review_notes && (
+                      <p className="text-gray-500 mt-0.5">{document.review_notes}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 sm:flex-col sm:items-end shrink-0">
+                  <Badge
+                    variant="outline"
+                    className={
+                      document.status === 'rejected' || (document.status === 'approved' && daysLeft < 0)
+                        ? 'bg-red-50 text-red-700 border-red-200'
+                        : current
+                        ? 'bg-green-50 text-green-700 border-green-200'
+                        : 'bg-yellow-50 text-yellow-700 border-yellow-200'
+                    }
+                  >
+                    {document.status === 'approved' && daysLeft < 0 ? 'Expired' : CHEF_DOCUMENT_STATUS_LABELS[document.status]}
+                  </Badge>
+                  {current && daysLeft <= Math.max(...CHEF_DOCUMENT_CONFIG.REMINDER_DAYS) && (
+                    <span className="text-xs text-amber-700">
+                      Expires in {daysLeft} day{daysLeft !== 1 ? 's' : ''} - upload the renewed document
+                    </span>
+                  )}
+                  {document.status === 'pending' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-gray-500"
+                      onClick={() => handleWithdraw(document.id)}
+                      disabled={withdrawingId === document.id}
+                    >
+                      {withdrawingId === document.id ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <X className="w-3 h-3 mr-1" />}
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <FileText className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No documents yet - approved checks are shown as badges on your profile</p>
+        </div>
+      )}
+
+      <form onSubmit={handleUpload} className="space-y-4 border-t pt-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="document-type">Document</Label>
+            <select
+              id="document-type"
+              value={documentType}
+              onChange={(e) => setDocumentType(e.target.value as ChefDocumentType)}
+              disabled={isUploading}
+              className="block w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {CHEF_DOCUMENT_TYPES.map(type => (
+                <option key={type} value={type}>{CHEF_DOCUMENT_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-issued-on">Issue date</Label>
+            <Input
+              id="document-issued-on"
+              type="date"
+              max={today}
+              value={issuedOn}
+              onChange={(e) => setIssuedOn(e.target.value)}
+              required
+              disabled={isUploading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-expires-on">Expiry date</Label>
+            <Input
+              id="document-expires-on"
+              type="date"
+              min={today}
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              required
+              disabled={isUploading}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="space-y-1">
+            <Input
+              ref={fileRef}
+              type="file"
+              accept={CHEF_DOCUMENT_CONFIG.ALLOWED_TYPES.join(',')}
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={isUploading}
+              aria-label="Document file"
+            />
+            <p className="text-sm text-gray-500">
+              PDF, JPEG, PNG or WebP, up to {maxSizeMB}MB. Only our team can see your documents.
+            </p>
+          </div>
+          <Button type="submit" variant="outline" size="sm" disabled={isUploading} className="shrink-0">
+            {isUploading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4 mr-1" />
+                Upload Document
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
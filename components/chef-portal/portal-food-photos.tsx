@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Upload, Loader2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { addPortalFoodPhotos, deletePortalFoodPhoto } from '@/app/chef-portal/actions'
+import { STORAGE_CONFIG, validateFile } from '@/lib/storage'
+import { PORTAL_CONFIG } from '@/lib/chef-portal'
+
+interface PortalFoodPhotosProps {
+  foodPhotos: Array<{
+    id: string
+    photo_url: string
+    display_order: number
+  }>
+}
+
+/**
+ * Chef-managed food photo gallery - add and remove photos
+ */
+export default function PortalFoodPhotos({ foodPhotos }: PortalFoodPhotosProps) {
+  const [isUploading, setIsUploading] = useState(false)
+  const [deletingPhotoId, setDeletingPhotoId] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+  const router = useRouter()
+
+  const maxSizeMB = STORAGE_CONFIG.MAX_FILE_SIZE / 1024 / 1024
+  const remaining = PORTAL_CONFIG.MAX_FOOD_PHOTOS - foodPhotos.length
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    if (files.length === 0) return
+
+    if (files.length > remaining) {
+      toast.error(`You can add ${remaining} more photo${remaining !== 1 ? 's' : ''}.`)
+      return
+    }
+
+    // Same checks as the server, for quick feedback
+    for (const file of files) {
+      const validation = validateFile(file, 'food')
+      if (!validation.isValid) {
+        toast.error(`${file.name}: ${validation.error}`)
+        return
+      }
+    }
+
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      files.forEach(file => formData.append('photos', file))
+
+      const result = await addPortalFoodPhotos(formData)
+      if (result.success) {
+        toast.success(`${result.uploadedCount} photo${result.uploadedCount !== 1 ? 's' : ''} added`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to upload photos')
+      }
+    } catch (error) {
+      console.error('Error uploading food photos:', error)
+      toast.error('Upload failed. Please try with smaller images or check your connection.')
+    } finally {
+      if (fileRef.current) {
+        fileRef.current.value = ''
+      }
+      setIsUploading(false)
+    }
+  }
+
+  const handleDelete = async (photoId: string) => {
+    if (!confirm('Remove this photo from your profile?')) {
+      return
+    }
+
+    setDeletingPhotoId(photoId)
+    try {
+      const result = await deletePortalFoodPhoto(photoId)
+      if (result.success) {
+        toast.success('Photo removed')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to remove photo')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error deleting photo:', error)
+    } finally {
+      setDeletingPhotoId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileRef}
+        type="file"
+        accept={STORAGE_CONFIG.ALLOWED_TYPES.join(',')}
+        multiple
+        onChange={handleUpload}
+        className="hidden"
+      />
+
+      {foodPhotos.length > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {foodPhotos.map((photo) => (
+            <div key={photo.id} className="relative group">
+              <Image
+                src={photo.photo_url}
+                alt="Food photo"
+                width={200}
+                height={200}
+                className="rounded-lg object-cover border aspect-square"
+              />
+              <Button
+                size="sm"
+                variant="destructive"
+                className="absolute top-2 right-2 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                onClick={() => handleDelete(photo.id)}
+                disabled={deletingPhotoId === photo.id}
+                aria-label="Remove photo"
+              >
+                {deletingPhotoId === photo.id ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <X className="w-3 h-3" />
+                )}
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No food photos yet - families love seeing what you cook</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-500">
+          JPEG, PNG or WebP, up to {maxSizeMB}MB each. {foodPhotos.length}/{PORTAL_CONFIG.MAX_FOOD_PHOTOS} photos.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileRef.current?.click()}
+          disabled={isUploading || remaining <= 0}
+        >
+          {isUploading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            <>
+              <Upload className="w-4 h-4 mr-1" />
+              Add Photos
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, Mail } from 'lucide-react'
+import { requestChefPortalLink } from '@/app/chef-portal/actions'
+
+interface PortalLoginFormProps {
+  initialError?: string | null
+}
+
+/**
+ * Email form that sends a chef portal magic link
+ */
+export default function PortalLoginForm({ initialError }: PortalLoginFormProps) {
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(initialError || null)
+  const [sentMessage, setSentMessage] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await requestChefPortalLink(email)
+      if (result.success) {
+        setSentMessage(result.message || 'Check your inbox for a sign-in link.')
+      } else {
+        setError(result.error || 'Could not send a sign-in link. Please try again.')
+      }
+    } catch (err) {
+      console.error('Error requesting chef portal link:', err)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (sentMessage) {
+    return (
+      <div className="p-4 rounded-lg bg-green-50 text-green-800 border border-green-200 text-sm">
+        <p className="font-medium mb-1">Check your email</p>
+        <p>{sentMessage}</p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="portal-email" className="text-sm font-medium text-gray-700">
+          Email Address
+        </label>
+        <Input
+          id="portal-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="The email you applied with"
+          required
+          disabled={isLoading}
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Sending link...
+          </>
+        ) : (
+          <>
+            <Mail className="w-4 h-4 mr-2" />
+            Email Me a Sign-in Link
+          </>
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Clock, Save, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { updatePortalProfile } from '@/app/chef-portal/actions'
+import { PORTAL_CONFIG, validatePortalProfile, type PortalProfileInput } from '@/lib/chef-portal'
+
+interface PortalProfileFormProps {
+  initialData: PortalProfileInput
+  // Live values for rate/minimum booking while a change awaits approval
+  liveRates?: { hourly_rate: number; minimum_booking: number | null } | null
+}
+
+function toNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Chef-facing profile form
+ *
+ * Everyday fields save straight away; rate and minimum booking changes are
+ * sent to the team for approval first.
+ */
+export default function PortalProfileForm({ initialData, liveRates }: PortalProfileFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [formData, setFormData] = useState(initialData)
+  const [awaitingApproval, setAwaitingApproval] = useState(Boolean(liveRates))
+
+  const setField = <K extends keyof PortalProfileInput>(field: K, value: PortalProfileInput[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validatePortalProfile(formData)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await updatePortalProfile(formData)
+
+      if (result.success) {
+        setAwaitingApproval(Boolean(result.pendingApproval))
+        toast.success(result.pendingApproval
+          ? 'Profile saved. Rate changes will go live once approved.'
+          : 'Profile saved')
+      } else {
+        toast.error(result.error || 'Failed to save your profile')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error updating portal profile:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <Label htmlFor="bio">About You</Label>
+        <Textarea
+          id="bio"
+          value={formData.bio}
+          onChange={(e) => setField('bio', e.target.value)}
+          rows={5}
+          maxLength={PORTAL_CONFIG.MAX_BIO_LENGTH}
+          placeholder="Tell families about your cooking..."
+          required
+        />
+      </div>
+
+      {/* Rates - need approval */}
+      <div className="border rounded-lg p-4 bg-orange-50/50">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-medium text-gray-900">Rates</h3>
+          {awaitingApproval && (
+            <span className="flex items-center gap-1 text-xs text-amber-700 bg-amber-100 rounded-full px-2 py-0.5">
+              <Clock className="w-3 h-3" />
+              Awaiting approval
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="hourly_rate">Hourly Rate (£)</Label>
+            <Input
+              id="hourly_rate"
+              type="number"
+              step="0.50"
+              min="1"
+              max={PORTAL_CONFIG.MAX_HOURLY_RATE}
+              value={Number.isFinite(formData.hourly_rate) ? formData.hourly_rate : ''}
+              onChange={(e) => setField('hourly_rate', parseFloat(e.target.value))}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="minimum_booking">Minimum Booking (hours)</Label>
+            <Input
+              id="minimum_booking"
+              type="number"
+              step="0.5"
+              min="1"
+              max={PORTAL_CONFIG.MAX_MINIMUM_BOOKING}
+              value={formData.minimum_booking ?? ''}
+              onChange={(e) => setField('minimum_booking', toNumber(e.target.value))}
+              placeholder="e.g., 3"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Customers book on these, so changes are checked by our team before going live.
+          {liveRates && ` Currently live: £${liveRates.hourly_rate}/hour${liveRates.minimum_booking ? `, ${liveRates.minimum_booking} hour minimum` : ''}.`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="experience_years">Experience Years</Label>
+          <Input
+            id="experience_years"
+            type="number"
+            min="0"
+            value={formData.experience_years ?? ''}
+            onChange={(e) => setField('experience_years', toNumber(e.target.value))}
+            placeholder="e.g., 6"
+          />
+        </div>
+        <div>
+          <Label htmlFor="travel_distance">Travel Distance (miles)</Label>
+          <Input
+            id="travel_distance"
+            type="number"
+            min="0"
+            value={formData.travel_distance ?? ''}
+            onChange={(e) => setField('travel_distance', toNumber(e.target.value))}
+            placeholder="e.g., 8"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="availability">Availability Notes</Label>
+          <Input
+            id="availability"
+            value={formData.availability || ''}
+            onChange={(e) => setField('availability', e.target.value)}
+            maxLength={PORTAL_CONFIG.MAX_TEXT_LENGTH}
+            placeholder="e.g., Monday-Friday evenings, Weekends all day"
+          />
+        </div>
+        <div>
+          <Label htmlFor="languages_spoken">Languages Spoken</Label>
+          <Input
+            id="languages_spoken"
+            value={formData.languages_spoken || ''}
+            onChange={(e) => setField('languages_spoken', e.target.value)}
+            maxLength={PORTAL_CONFIG.MAX_TEXT_LENGTH}
+            placeholder="e.g., Hindi, Punjabi, English"
+          />
+        </div>
+        <div>
+          <Label htmlFor="frequency_preference">Frequency Preference</Label>
+          <Input
+            id="frequency_preference"
+            value={formData.frequency_preference || ''}
+            onChange={(e) => setField('frequency_preference', e.target.value)}
+            maxLength={PORTAL_CONFIG.MAX_TEXT_LENGTH}
+            placeholder="e.g., Weekly, One-off events"
+          />
+        </div>
+        <div>
+          <Label htmlFor="dietary_specialties">Dietary Specialties</Label>
+          <Input
+            id="dietary_specialties"
+            value={formData.dietary_specialties || ''}
+            onChange={(e) => setField('dietary_specialties', e.target.value)}
+            maxLength={PORTAL_CONFIG.MAX_TEXT_LENGTH}
+            placeholder="e.g., Vegetarian, Jain, Halal"
+          />
+        </div>
+        <div>
+          <Label htmlFor="special_events">Special Events</Label>
+          <Textarea
+            id="special_events"
+            value={formData.special_events || ''}
+            onChange={(e) => setField('special_events', e.target.value)}
+            rows={2}
+            maxLength={PORTAL_CONFIG.MAX_TEXT_LENGTH}
+            placeholder="e.g., Birthday parties, Diwali dinners"
+          />
+        </div>
+        <div>
+          <Label htmlFor="house_help_services">House Help Services</Label>
+          <Textarea
+            id="house_help_services"
+            value={formData.house_help_services || ''}
+            onChange={(e) => setField('house_help_services', e.target.value)}
+            rows={2}
+            maxLength={PORTAL_CONFIG.MAX_TEXT_LENGTH}
+            placeholder="e.g., Washing up, Meal prep for the week"
+          />
+        </div>
+      </div>
+
+      <Button type="submit" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="w-4 h-4 mr-2" />
+            Save Profile
+          </>
+        )}
+      </Button>
+    </form>
+  )
+}
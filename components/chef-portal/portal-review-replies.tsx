@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Star, Loader2, MessageSquare } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { submitReviewReply } from '@/app/chef-portal/actions'
+import { REPLY_CONFIG, validateReplyBody } from '@/lib/review-replies'
+import type { Review } from '@/lib/data'
+
+interface PortalReviewRepliesProps {
+  reviews: Review[]
+}
+
+const REPLY_STATUS_LABELS = {
+  awaiting_moderation: 'Awaiting approval',
+  published: 'Live',
+  spam: 'Removed by our team',
+} as const
+
+/**
+ * Chef's published reviews with a reply box for each
+ *
+ * Replies are checked by the team before they appear on the profile.
+ */
+export default function PortalReviewReplies({ reviews }: PortalReviewRepliesProps) {
+  if (reviews.length === 0) {
+    return <p className="text-sm text-gray-500">No published reviews yet.</p>
+  }
+
+  return (
+    <ul className="space-y-4">
+      {reviews.map(review => (
+        <ReviewReplyItem key={review.id} review={review} />
+      ))}
+    </ul>
+  )
+}
+
+function ReviewReplyItem({ review }: { review: Review }) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [body, setBody] = useState(review.reply?.body || '')
+
+  const reply = review.reply
+  const canReply = reply?.status !== 'spam'
+
+  const handleSubmit = async () => {
+    const validationError = validateReplyBody(body)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await submitReviewReply(review.id, body)
+
+      if (result.success) {
+        toast.success('Reply sent for approval')
+        setIsEditing(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save your reply')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error submitting review reply:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <li className="border-b last:border-0 pb-4 last:pb-0">
+      <div className="flex items-center gap-2 mb-1">
+        <div className="flex items-center gap-0.5">
+          {[1, 2, 3, 4, 5].map(star => (
+            <Star
+              key={star}
+              className={`w-3.5 h-3.5 ${star <= review.rating ? 'fill-orange-400 text-orange-400' : 'text-gray-300'}`}
+            />
+          ))}
+        </div>
+        <span className="text-sm font-medium text-gray-700">{review.reviewer_name || 'Anonymous'}</span>
+        <span className="text-xs text-gray-500">{new Date(review.published_at).toLocaleDateString('en-GB')}</span>
+      </div>
+      {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+
+      {reply && !isEditing && (
+        <div className="mt-2 p-3 rounded-lg bg-orange-50 text-sm">
+          <p className="flex items-center gap-1.5 text-xs font-medium text-gray-600 mb-1">
+            <MessageSquare className="w-3.5 h-3.5" />
+            Your reply · {REPLY_STATUS_LABELS[reply.status]}
+          </p>
+          <p className="text-gray-700 whitespace-pre-line">{reply.body}</p>
+        </div>
+      )}
+
+      {canReply && (isEditing ? (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            maxLength={REPLY_CONFIG.MAX_LENGTH}
+            placeholder="Thank the customer or respond to their feedback..."
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSubmit} disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Send for approval'
+              )}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setIsEditing(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+          {reply?.status === 'published' && (
+            <p className="text-xs text-gray-500">Editing a live reply hides it until the new version is approved.</p>
+          )}
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" className="mt-2" onClick={() => setIsEditing(true)}>
+          {reply ? 'Edit reply' : 'Reply'}
+        </Button>
+      ))}
+    </li>
+  )
+}
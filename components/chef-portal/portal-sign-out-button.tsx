@@ -0,0 +1,29 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { LogOut, Loader2 } from 'lucide-react'
+import { signOutChefPortal } from '@/app/chef-portal/actions'
+
+/**
+ * Signs the chef out of the portal and returns to the login page
+ */
+export default function PortalSignOutButton() {
+  const router = useRouter()
+  const [isSigningOut, setIsSigningOut] = useState(false)
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true)
+    await signOutChefPortal()
+    router.push('/chef-portal/login')
+    router.refresh()
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleSignOut} disabled={isSigningOut}>
+      {isSigningOut ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <LogOut className="w-4 h-4 mr-1" />}
+      Sign Out
+    </Button>
+  )
+}
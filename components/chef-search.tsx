@@ -0,0 +1,71 @@
+import Link from "next/link"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Search, X } from "lucide-react"
+
+interface ChefSearchProps {
+  query?: string
+  resultCount?: number
+  error?: string
+  // Postcode and filters to carry through when searching
+  preservedParams?: [string, string][]
+  clearHref?: string
+}
+
+/**
+ * Chef Search
+ *
+ * GET form backed by the search_chefs() full-text function (?q=dosa).
+ *
+ * Features:
+ * - Searches names, bios, cuisines and dietary specialties
+ * - Tolerates typos ("gujrati thepla")
+ * - Keeps the active postcode and filters when searching again
+ */
+export default function ChefSearch({
+  query,
+  resultCount,
+  error,
+  preservedParams = [],
+  clearHref = "/",
+}: ChefSearchProps) {
+  return (
+    <div className="max-w-2xl mx-auto mt-8 sm:mt-12 px-2">
+      <form action="/" method="get" role="search" className="flex flex-col sm:flex-row gap-2">
+        {preservedParams.map(([name, value], index) => (
+          <input key={`${name}-${index}`} type="hidden" name={name} value={value} />
+        ))}
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            type="search"
+            name="q"
+            defaultValue={query}
+            placeholder='Search dishes, cuisines or chefs (e.g. "dosa")'
+            aria-label="Search chefs"
+            className="pl-9 h-11 bg-white"
+          />
+        </div>
+        <Button type="submit" className="h-11">
+          Search
+        </Button>
+      </form>
+
+      {error && (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      )}
+
+      {query && !error && (
+        <div className="flex items-center justify-between mt-2 text-sm text-muted-foreground">
+          <span>
+            {resultCount} chef{resultCount !== 1 ? 's' : ''} matching &ldquo;{query}&rdquo;
+          </span>
+          <Link href={clearHref} className="flex items-center gap-1 hover:text-foreground">
+            <X className="w-3 h-3" />
+            Clear
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { ArrowDown, ArrowUp, Edit, Loader2, Plus, Save, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  ALLERGEN_LABELS,
+  DIETARY_TAGS,
+  DIETARY_TAG_LABELS,
+  DISH_CONFIG,
+  UK_ALLERGENS,
+  validateDish,
+  type Dish,
+  type DishInput,
+} from '@/lib/dishes'
+
+type ActionResult = { success: boolean; error?: string }
+
+interface DishMenuEditorProps {
+  dishes: Dish[]
+  foodPhotos: { id: string; photo_url: string }[]
+  // Admin passes the chef actions bound to the chef; the portal passes its own
+  saveAction: (data: DishInput, dishId?: string) => Promise<ActionResult>
+  deleteAction: (dishId: string) => Promise<ActionResult>
+  reorderAction: (dishIds: string[]) => Promise<ActionResult>
+}
+
+const EMPTY_DISH: DishInput = {
+  name: '',
+  description: null,
+  foodPhotoId: null,
+  dietaryTags: [],
+  allergens: [],
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+/**
+ * Dish Menu Editor
+ *
+ * Add, edit, reorder and remove dishes on a chef's menu. Shared by the admin
+ * chef editor and the chef portal.
+ */
+export default function DishMenuEditor({ dishes, foodPhotos, saveAction, deleteAction, reorderAction }: DishMenuEditorProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  // null = form closed, 'new' = adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [formData, setFormData] = useState<DishInput>(EMPTY_DISH)
+
+  const startEditing = (dish?: Dish) => {
+    setEditing(dish ? dish.id : 'new')
+    setFormData(dish
+      ? {
+          name: dish.name,
+          description: dish.description,
+          foodPhotoId: dish.foodPhotoId,
+          dietaryTags: dish.dietaryTags,
+          allergens: dish.allergens,
+        }
+      : EMPTY_DISH)
+  }
+
+  const runAction = async (action: () => Promise<ActionResult>, successMessage: string) => {
+    setIsLoading(true)
+    try {
+      const result = await action()
+
+      if (result.success) {
+        toast.success(successMessage)
+        router.refresh()
+        return true
+      }
+      toast.error(result.error || 'Failed to update menu')
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      console.error('Error updating menu:', error)
+    } finally {
+      setIsLoading(false)
+    }
+    return false
+  }
+
+  const handleSave = async () => {
+    const validationError = validateDish(formData)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    const dishId = editing === 'new' ? undefined : editing || undefined
+    const saved = await runAction(() => saveAction(formData, dishId), dishId ? 'Dish updated' : 'Dish added')
+    if (saved) {
+      setEditing(null)
+    }
+  }
+
+  const handleDelete = async (dish: Dish) => {
+    if (!confirm(`Remove "${dish.name}" from the menu?`)) return
+    await runAction(() => deleteAction(dish.id), 'Dish removed')
+  }
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = dishes.map(d => d.id)
+    const target = index + offset
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    await runAction(() => reorderAction(ids), 'Menu order saved')
+  }
+
+  return (
+    <div className="space-y-4">
+      {dishes.length === 0 && editing === null && (
+        <p className="text-sm text-gray-500">No dishes yet. Add the dishes you cook most often.</p>
+      )}
+
+      {dishes.length > 0 && (
+        <ul className="divide-y border rounded-lg">
+          {dishes.map((dish, index) => (
+            <li key={dish.id} className="flex items-start gap-3 p-3">
+              {dish.photoUrl ? (
+                <Image
+                  src={dish.photoUrl}
+                  alt={dish.name}
+                  width={56}
+                  height={56}
+                  className="w-14 h-14 rounded object-cover shrink-0"
+                />
+              ) : (
+                <div className="w-14 h-14 rounded bg-gray-100 shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900">{dish.name}</p>
+                {dish.description && (
+                  <p className="text-sm text-gray-500 line-clamp-2">{dish.description}</p>
+                )}
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {dish.dietaryTags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="bg-green-100 text-green-800">
+                      {DIETARY_TAG_LABELS[tag]}
+                    </Badge>
+                  ))}
+                  {dish.allergens.length > 0 && (
+                    <span className="text-xs text-gray-500">
+                      Contains: {dish.allergens.map(a => ALLERGEN_LABELS[a]).join(', ')}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button type="button" variant="ghost" size="sm" disabled={isLoading || index === 0}
+                  onClick={() => handleMove(index, -1)} aria-label={`Move ${dish.name} up`}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={isLoading || index === dishes.length - 1}
+                  onClick={() => handleMove(index, 1)} aria-label={`Move ${dish.name} down`}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={isLoading}
+                  onClick={() => startEditing(dish)} aria-label={`Edit ${dish.name}`}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={isLoading}
+                  onClick={() => handleDelete(dish)} aria-label={`Remove ${dish.name}`}>
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing === null ? (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => startEditing()}
+          disabled={dishes.length >= DISH_CONFIG.MAX_DISHES}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Dish
+        </Button>
+      ) : (
+        <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
+          <div>
+            <Label htmlFor="dish_name">Dish Name</Label>
+            <Input
+              id="dish_name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              maxLength={DISH_CONFIG.MAX_NAME_LENGTH}
+              placeholder="e.g., Paneer Butter Masala"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="dish_description">Description</Label>
+            <Textarea
+              id="dish_description"
+              value={formData.description || ''}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value || null })}
+              rows={2}
+              maxLength={DISH_CONFIG.MAX_DESCRIPTION_LENGTH}
+              placeholder="e.g., Soft paneer in a rich tomato and cashew gravy"
+            />
+          </div>
+
+          {foodPhotos.length > 0 && (
+            <fieldset>
+              <legend className="text-sm font-medium mb-2">Photo</legend>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, foodPhotoId: null })}
+                  className={`w-16 h-16 rounded border-2 text-xs text-gray-500 ${formData.foodPhotoId === null ? 'border-primary' : 'border-transparent bg-white'}`}
+                >
+                  None
+                </button>
+                {foodPhotos.map(photo => (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, foodPhotoId: photo.id })}
+                    className={`w-16 h-16 rounded border-2 overflow-hidden ${formData.foodPhotoId === photo.id ? 'border-primary' : 'border-transparent'}`}
+                    aria-pressed={formData.foodPhotoId === photo.id}
+                  >
+                    <Image src={photo.photo_url} alt="Food photo" width={64} height={64} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          <fieldset>
+            <legend className="text-sm font-medium mb-2">Suitable for</legend>
+            <div className="flex flex-wrap gap-3">
+              {DIETARY_TAGS.map(tag => (
+                <label key={tag} className="flex items-center gap-1.5 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.dietaryTags.includes(tag)}
+                    onChange={() => setFormData({ ...formData, dietaryTags: toggle(formData.dietaryTags, tag) })}
+                    className="accent-primary"
+                  />
+                  {DIETARY_TAG_LABELS[tag]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-sm font-medium mb-2">Contains allergens</legend>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {UK_ALLERGENS.map(allergen => (
+                <label key={allergen} className="flex items-center gap-1.5 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.allergens.includes(allergen)}
+                    onChange={() => setFormData({ ...formData, allergens: toggle(formData.allergens, allergen) })}
+                    className="accent-primary"
+                  />
+                  {ALLERGEN_LABELS[allergen]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="flex gap-2">
+            <Button type="button" onClick={handleSave} disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  {editing === 'new' ? 'Add Dish' : 'Save Dish'}
+                </>
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isLoading}>
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import Image from "next/image"
+import { Badge } from "@/components/ui/badge"
+import { Leaf } from "lucide-react"
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS, type Dish } from "@/lib/dishes"
+
+interface DishMenuProps {
+  dishes: Dish[]
+}
+
+/**
+ * Dish Menu
+ *
+ * The chef's menu on their public profile.
+ *
+ * Features:
+ * - Dish photo, name and description
+ * - Vegetarian / vegan / halal / jain tags
+ * - Declared allergens for each dish
+ */
+export default function DishMenu({ dishes }: DishMenuProps) {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {dishes.map(dish => (
+          <div key={dish.id} className="flex gap-4 p-4 rounded-2xl border border-border bg-card">
+            {dish.photoUrl && (
+              <Image
+                src={dish.photoUrl}
+                alt={dish.name}
+                width={96}
+                height={96}
+                className="w-24 h-24 rounded-xl object-cover shrink-0"
+              />
+            )}
+            <div className="min-w-0">
+              <h3 className="font-bold text-foreground text-lg">{dish.name}</h3>
+              {dish.description && (
+                <p className="text-sm text-muted-foreground leading-relaxed mt-1">{dish.description}</p>
+              )}
+              {dish.dietaryTags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {dish.dietaryTags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="bg-green-100 text-green-800">
+                      <Leaf className="w-3 h-3 mr-1" />
+                      {DIETARY_TAG_LABELS[tag]}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground mt-2">
+                {dish.allergens.length > 0
+                  ? <>Contains: {dish.allergens.map(a => ALLERGEN_LABELS[a]).join(', ')}</>
+                  : 'No declared allergens'}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Allergen information is provided by the chef. Please confirm any allergies with them before booking.
+      </p>
+    </div>
+  )
+}
@@ -12,6 +12,12 @@ export default function Footer() {
           >
             Terms of Use
           </Link>
+          <Link 
+            href="/chef-portal" 
+            className="text-orange-600 hover:text-orange-700 hover:underline transition-colors"
+          >
+            Chef Login
+          </Link>
         </div>
       </div>
     </footer>
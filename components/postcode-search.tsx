@@ -0,0 +1,75 @@
+import Link from "next/link"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { MapPin, Search, X } from "lucide-react"
+
+interface PostcodeSearchProps {
+  postcode?: string
+  error?: string
+  resultCount?: number
+  // Active filters to carry through when searching a new postcode
+  preservedParams?: [string, string][]
+  clearHref?: string
+}
+
+/**
+ * Postcode Search
+ *
+ * Plain GET form so results are server-rendered and shareable (?postcode=TW3).
+ *
+ * Features:
+ * - Accepts a full postcode or just the outward code, in London (the
+ *   areas lib/uk-outcodes.json covers)
+ * - Shows a clear link and result count when a search is active
+ * - Displays a friendly message when the postcode is not recognised
+ */
+export default function PostcodeSearch({
+  postcode,
+  error,
+  resultCount,
+  preservedParams = [],
+  clearHref = "/",
+}: PostcodeSearchProps) {
+  return (
+    <div className="max-w-2xl mx-auto mt-3 px-2">
+      <form action="/" method="get" className="flex flex-col sm:flex-row gap-2">
+        {preservedParams.map(([name, value], index) => (
+          <input key={`${name}-${index}`} type="hidden" name={name} value={value} />
+        ))}
+        <div className="relative flex-1">
+          <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            name="postcode"
+            defaultValue={postcode}
+            placeholder="Enter your London postcode (e.g. TW3 1AA)"
+            aria-label="Postcode"
+            autoComplete="postal-code"
+            className="pl-9 h-11 bg-white"
+          />
+        </div>
+        <Button type="submit" className="h-11">
+          <Search className="w-4 h-4 mr-2" />
+          Find chefs near me
+        </Button>
+      </form>
+
+      {error ? (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      ) : !postcode && (
+        <p className="text-sm text-muted-foreground mt-2">Postcode search covers London only for now.</p>
+      )}
+
+      {postcode && !error && (
+        <div className="flex items-center justify-between mt-2 text-sm text-muted-foreground">
+          <span>
+            {resultCount} chef{resultCount !== 1 ? 's' : ''} travel to {postcode.toUpperCase()}
+          </span>
+          <Link href={clearHref} className="flex items-center gap-1 hover:text-foreground">
+            <X className="w-3 h-3" />
+            Clear
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { cn } from "@/lib/utils"
+import { variantSrcSet, type ImageVariants } from "@/lib/image-variants"
+
+interface ResponsiveImageProps {
+  src: string
+  // Photos uploaded before variants existed just show src
+  variants?: ImageVariants | null
+  alt: string
+  sizes: string
+  className?: string
+  // Above-the-fold images load straight away
+  priority?: boolean
+}
+
+// Images are served unoptimized (next.config), so next/image can't build a
+// srcset - the AVIF/WebP variants made on upload are offered directly instead
+export default function ResponsiveImage({ src, variants, alt, sizes, className, priority = false }: ResponsiveImageProps) {
+  return (
+    <picture>
+      {variants && variants.avif.length > 0 && (
+        <source type="image/avif" srcSet={variantSrcSet(variants.avif)} sizes={sizes} />
+      )}
+      {variants && variants.webp.length > 0 && (
+        <source type="image/webp" srcSet={variantSrcSet(variants.webp)} sizes={sizes} />
+      )}
+      <img
+        src={src}
+        alt={alt}
+        width={variants?.width}
+        height={variants?.height}
+        loading={priority ? "eager" : "lazy"}
+        fetchPriority={priority ? "high" : undefined}
+        decoding="async"
+        className={cn("bg-cover bg-center", className)}
+        style={variants ? { backgroundImage: `url("${variants.placeholder}")` } : undefined}
+      />
+    </picture>
+  )
+}
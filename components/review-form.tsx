@@ -4,9 +4,11 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Input } from '@/components/ui/input'
-import { Star, X, Shield, TestTube } from 'lucide-react'
-import { submitReview } from '@/app/reviews/actions'
+import { Star, X, Shield, TestTube, ImagePlus } from 'lucide-react'
+import { submitReview, resendReviewVerification } from '@/app/reviews/actions'
 import { toast } from 'sonner'
+import { SUB_RATING_DIMENSIONS, SUB_RATING_LABELS, type SubRatings } from '@/lib/review-ratings'
+import { REVIEW_PHOTO_CONFIG, validateReviewPhotos } from '@/lib/review-photos'
 
 interface ReviewFormProps {
   chefId: string
@@ -16,9 +18,13 @@ interface ReviewFormProps {
 export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [rating, setRating] = useState(0)
+  const [subRatings, setSubRatings] = useState<SubRatings>({})
   const [comment, setComment] = useState('')
   const [email, setEmail] = useState('')
+  const [photos, setPhotos] = useState<File[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Resend mode only asks for the email used on an unverified review
+  const [isResending, setIsResending] = useState(false)
 
   const handleOpenForm = () => {
     setIsOpen(true)
@@ -27,8 +33,11 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
   const handleCloseForm = () => {
     setIsOpen(false)
     setRating(0)
+    setSubRatings({})
     setComment('')
     setEmail('')
+    setPhotos([])
+    setIsResending(false)
   }
 
   const validateForm = () => {
@@ -43,6 +52,20 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
     return true
   }
 
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = [...photos, ...Array.from(e.target.files || [])]
+    e.target.value = ''
+
+    // Same checks as the server, for quick feedback
+    const photoError = validateReviewPhotos(selected)
+    if (photoError) {
+      toast.error(photoError)
+      return
+    }
+
+    setPhotos(selected)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -52,7 +75,10 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
     
     try {
       // Pass a simple token since Turnstile is disabled
-      const result = await submitReview(chefId, rating, comment, email, 'security-disabled')
+      const photoData = new FormData()
+      photos.forEach(photo => photoData.append('photos', photo))
+
+      const result = await submitReview(chefId, rating, comment, email, 'security-disabled', subRatings, photoData)
       
       if (result.success) {
         // Check if we're in test mode
@@ -75,6 +101,33 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
     }
   }
 
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!email || !email.includes('@')) {
+      toast.error('Please enter a valid email address')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const result = await resendReviewVerification(chefId, email)
+
+      if (result.success) {
+        toast.success(result.message || 'Check your email for a new verification link.')
+        handleCloseForm()
+      } else {
+        toast.error(result.error || 'Failed to resend verification email')
+      }
+    } catch (error) {
+      toast.error('Something went wrong. Please try again.')
+      console.error('Review resend error:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   if (!isOpen) {
     return (
       <Button onClick={handleOpenForm} className="w-full">
@@ -88,9 +141,11 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold">Write a review for {chefName}</h3>
+          <h3 className="text-lg font-semibold">
+            {isResending ? 'Resend verification email' : `Write a review for ${chefName}`}
+          </h3>
           <Button variant="ghost" size="sm" onClick={handleCloseForm}>
             <X className="h-4 w-4" />
           </Button>
@@ -109,6 +164,33 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
           </div>
         )}
         
+        {isResending ? (
+          <form onSubmit={handleResend} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Enter the email you used for your review of {chefName} and we&apos;ll send a new verification link.
+            </p>
+            <div>
+              <label className="block text-sm font-medium mb-2">Email *</label>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="your@email.com"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Sending...' : 'Resend Verification Email'}
+            </Button>
+            <button
+              type="button"
+              onClick={() => setIsResending(false)}
+              className="w-full text-sm text-gray-600 hover:text-gray-900 underline"
+            >
+              Back to review form
+            </button>
+          </form>
+        ) : (
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Rating */}
           <div>
@@ -131,6 +213,38 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
             </div>
           </div>
           
+          {/* Sub-ratings - tap the same star again to clear */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Rate specific areas (optional)</label>
+            <div className="space-y-1">
+              {SUB_RATING_DIMENSIONS.map((dimension) => (
+                <div key={dimension} className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{SUB_RATING_LABELS[dimension]}</span>
+                  <div className="flex">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <button
+                        key={star}
+                        type="button"
+                        onClick={() => setSubRatings(prev => ({
+                          ...prev,
+                          [dimension]: prev[dimension] === star ? undefined : star
+                        }))}
+                        className="p-0.5 transition-colors"
+                        aria-label={`${SUB_RATING_LABELS[dimension]}: ${star} star${star !== 1 ? 's' : ''}`}
+                      >
+                        <Star
+                          className={`h-4 w-4 ${
+                            star <= (subRatings[dimension] || 0) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Comment */}
           <div>
             <label className="block text-sm font-medium mb-2">Comment (optional)</label>
@@ -142,6 +256,46 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
             />
           </div>
           
+          {/* Photos */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Photos of the food (optional, up to {REVIEW_PHOTO_CONFIG.MAX_PHOTOS})
+            </label>
+            {photos.length > 0 && (
+              <ul className="mb-2 space-y-1">
+                {photos.map((photo, index) => (
+                  <li key={`${photo.name}-${index}`} className="flex items-center justify-between text-sm text-gray-700">
+                    <span className="truncate">{photo.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                      className="ml-2 text-gray-400 hover:text-gray-700"
+                      aria-label={`Remove ${photo.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {photos.length < REVIEW_PHOTO_CONFIG.MAX_PHOTOS && (
+              <label className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 cursor-pointer">
+                <ImagePlus className="h-4 w-4" />
+                Add photos
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={handlePhotoSelect}
+                  className="hidden"
+                />
+              </label>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Shown with your review once it&apos;s published.
+            </p>
+          </div>
+
           {/* Email */}
           <div>
             <label className="block text-sm font-medium mb-2">Email *</label>
@@ -171,7 +325,16 @@ export default function ReviewForm({ chefId, chefName }: ReviewFormProps) {
           >
             {isSubmitting ? 'Submitting...' : 'Send Review Link'}
           </Button>
+
+          <button
+            type="button"
+            onClick={() => setIsResending(true)}
+            className="w-full text-sm text-gray-600 hover:text-gray-900 underline"
+          >
+            Didn&apos;t get your verification email? Resend it
+          </button>
         </form>
+        )}
       </div>
     </div>
   )
@@ -1,12 +1,16 @@
-import { Star } from 'lucide-react'
+import Image from 'next/image'
+import { MessageSquare, Star } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import type { Review } from '@/lib/data'
+import type { SubRatingAverage } from '@/lib/review-ratings'
 
 interface ReviewListProps {
   reviews: Review[]
+  // Used to label the chef's replies
+  chefName?: string
 }
 
-export default function ReviewList({ reviews }: ReviewListProps) {
+export default function ReviewList({ reviews, chefName }: ReviewListProps) {
   if (reviews.length === 0) {
     return (
       <div className="text-center py-12 text-gray-500">
@@ -22,7 +26,7 @@ export default function ReviewList({ reviews }: ReviewListProps) {
   return (
     <div className="space-y-4">
       {reviews.map((review) => (
-        <ReviewCard key={review.id} review={review} />
+        <ReviewCard key={review.id} review={review} chefName={chefName} />
       ))}
     </div>
   )
@@ -30,9 +34,10 @@ export default function ReviewList({ reviews }: ReviewListProps) {
 
 interface ReviewCardProps {
   review: Review
+  chefName?: string
 }
 
-function ReviewCard({ review }: ReviewCardProps) {
+function ReviewCard({ review, chefName }: ReviewCardProps) {
   // Generate avatar initial from reviewer name or use default
   const avatarInitial = review.reviewer_name?.[0]?.toUpperCase() || '?'
   
@@ -94,6 +99,23 @@ function ReviewCard({ review }: ReviewCardProps) {
             </p>
           )}
           
+          {/* Food photos */}
+          {review.photos && review.photos.length > 0 && (
+            <div className="mt-3 flex gap-2">
+              {review.photos.map((photo, index) => (
+                <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                  <Image
+                    src={photo.url}
+                    alt={`Photo ${index + 1} from ${review.reviewer_name || 'a customer'}`}
+                    width={80}
+                    height={80}
+                    className="w-20 h-20 rounded-lg object-cover hover:opacity-90 transition-opacity"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+
           {/* Verified badge */}
           {review.verified_at && (
             <div className="mt-2">
@@ -102,6 +124,19 @@ function ReviewCard({ review }: ReviewCardProps) {
               </span>
             </div>
           )}
+
+          {/* Chef reply */}
+          {review.reply && (
+            <div className="mt-3 p-3 rounded-lg bg-orange-50 border-l-2 border-orange-300">
+              <p className="flex items-center gap-1.5 text-xs font-medium text-gray-700 mb-1">
+                <MessageSquare className="w-3.5 h-3.5 text-orange-500" />
+                Response from {chefName || 'the chef'}
+              </p>
+              <p className="text-gray-700 leading-relaxed text-sm whitespace-pre-line">
+                {review.reply.body}
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -109,47 +144,67 @@ function ReviewCard({ review }: ReviewCardProps) {
 }
 
 /**
- * Summary component that shows average rating and total count
+ * Summary component that shows average rating and total count,
+ * with a bar per sub-rating dimension when any have been rated
  * Used at the top of review sections
  */
 interface ReviewSummaryProps {
   avgRating: number
   reviewCount: number
+  subRatings?: SubRatingAverage[]
 }
 
-export function ReviewSummary({ avgRating, reviewCount }: ReviewSummaryProps) {
+export function ReviewSummary({ avgRating, reviewCount, subRatings = [] }: ReviewSummaryProps) {
   return (
-    <div className="flex items-center gap-4 mb-6 p-4 bg-orange-50 rounded-lg border border-orange-200">
-      <div className="flex items-center gap-2">
-        {/* Large star */}
-        <Star className="w-8 h-8 fill-orange-400 text-orange-400" />
+    <div className="mb-6 p-4 bg-orange-50 rounded-lg border border-orange-200">
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          {/* Large star */}
+          <Star className="w-8 h-8 fill-orange-400 text-orange-400" />
         
-        {/* Rating number */}
-        <span className="text-2xl font-bold text-gray-900">
-          {avgRating.toFixed(1)}
-        </span>
-      </div>
+          {/* Rating number */}
+          <span className="text-2xl font-bold text-gray-900">
+            {avgRating.toFixed(1)}
+          </span>
+        </div>
       
-      <div className="text-sm text-gray-600">
-        <p className="font-medium">
-          {reviewCount} review{reviewCount !== 1 ? 's' : ''}
-        </p>
-        <p>Based on verified experiences</p>
-      </div>
+        <div className="text-sm text-gray-600">
+          <p className="font-medium">
+            {reviewCount} review{reviewCount !== 1 ? 's' : ''}
+          </p>
+          <p>Based on verified experiences</p>
+        </div>
       
-      {/* Star rating breakdown */}
-      <div className="ml-auto hidden sm:flex items-center gap-1">
-        {[1, 2, 3, 4, 5].map((star) => (
-          <Star
-            key={star}
-            className={`w-5 h-5 ${
-              star <= Math.round(avgRating) 
-                ? 'fill-orange-400 text-orange-400' 
-                : 'text-gray-300'
-            }`}
-          />
-        ))}
+        {/* Star rating breakdown */}
+        <div className="ml-auto hidden sm:flex items-center gap-1">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <Star
+              key={star}
+              className={`w-5 h-5 ${
+                star <= Math.round(avgRating) 
+                  ? 'fill-orange-400 text-orange-400' 
+                  : 'text-gray-300'
+              }`}
+            />
+          ))}
+        </div>
       </div>
+
+      {subRatings.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-orange-200 grid gap-2 sm:grid-cols-2 sm:gap-x-8">
+          {subRatings.map(({ dimension, label, average, count }) => (
+            <div key={dimension} className="flex items-center gap-3 text-sm">
+              <span className="w-28 text-gray-700">{label}</span>
+              <div className="flex-1 h-2 rounded-full bg-orange-100 overflow-hidden">
+                <div className="h-full rounded-full bg-orange-400" style={{ width: `${(average / 5) * 100}%` }} />
+              </div>
+              <span className="w-8 text-right font-medium text-gray-900" title={`${count} rating${count !== 1 ? 's' : ''}`}>
+                {average.toFixed(1)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,110 @@
+/**
+ * Chef Application Draft Persistence
+ *
+ * Server-only reads and clean-up for application drafts, shared by the apply
+ * page, the apply actions and the purge cron job.
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import { hashToken } from './crypto'
+import { removeUploadFolder, signApplicationUploads } from './application-files-server'
+import { DRAFT_CONFIG, sanitiseDraftUploads, type ApplicationDraft } from './application-drafts'
+import type { ApplicationAnswers } from './application-questions'
+
+// Purge in batches so one run stays well inside the function time limit
+const PURGE_BATCH_SIZE = 50
+
+/**
+ * Oldest updated_at a draft can have and still be resumed
+ */
+export function draftCutoff(): string {
+  return new Date(Date.now() - DRAFT_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Loads a draft from its resume token
+ *
+ * @returns The draft, or null if the token is unknown, or the draft was
+ *   submitted or has lapsed
+ */
+export async function getApplicationDraft(token: string): Promise<ApplicationDraft | null> {
+  const supabase = createSupabaseAdminClient()
+
+  const { data: draft, error } = await supabase
+    .from('chef_application_drafts')
+    .select('upload_prefix, answers, file_uploads, updated_at')
+    .eq('token_hash', hashToken(token))
+    .gte('updated_at', draftCutoff())
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching application draft:', error)
+    return null
+  }
+  if (!draft) {
+    return null
+  }
+
+  return {
+    token,
+    uploadPrefix: draft.upload_prefix,
+    answers: (draft.answers || {}) as ApplicationAnswers,
+    // Signed so the form can show files already uploaded
+    fileUploads: await signApplicationUploads(
+      supabase,
+      sanitiseDraftUploads(draft.file_uploads, draft.upload_prefix)
+    ),
+    updatedAt: draft.updated_at,
+  }
+}
+
+/**
+ * Deletes drafts that haven't changed for DRAFT_CONFIG.RETENTION_DAYS, along
+ * with their uploaded files
+ *
+ * A draft whose files can't be removed is kept and retried on the next run,
+ * so no files are left without a record pointing at them.
+ */
+export async function purgeStaleApplicationDrafts(): Promise<{ drafts: number; files: number }> {
+  const supabase = createSupabaseAdminClient()
+  let drafts = 0
+  let files = 0
+
+  const { data: staleDrafts, error } = await supabase
+    .from('chef_application_drafts')
+    .select('id, upload_prefix')
+    .lt('updated_at', draftCutoff())
+    .order('updated_at', { ascending: true })
+    .limit(PURGE_BATCH_SIZE)
+
+  if (error) {
+    throw error
+  }
+
+  for (const draft of staleDrafts || []) {
+    // Files belong to the application if the draft was submitted but its
+    // clean-up on submit failed
+    const { count: applications } = await supabase
+      .from('chef_applications')
+      .select('id', { count: 'exact', head: true })
+      .eq('upload_prefix', draft.upload_prefix)
+
+    const removed = applications ? 0 : await removeUploadFolder(supabase, draft.upload_prefix)
+    if (removed === null) continue
+
+    const { error: deleteError } = await supabase
+      .from('chef_application_drafts')
+      .delete()
+      .eq('id', draft.id)
+
+    if (deleteError) {
+      console.error('Error deleting application draft:', deleteError)
+      continue
+    }
+
+    drafts++
+    files += removed
+  }
+
+  return { drafts, files }
+}
@@ -0,0 +1,75 @@
+/**
+ * Chef Application Draft Utilities
+ *
+ * Applicants can save the application form and finish it later from an
+ * emailed resume link (/apply?draft=<token>). A draft holds the answers so far
+ * and the files already uploaded. Drafts are deleted on submit; unfinished
+ * ones are purged with their files after DRAFT_CONFIG.RETENTION_DAYS.
+ *
+ * Shared by the apply form and the draft server actions.
+ */
+
+import type { FileUploadResult } from './storage'
+import type { ApplicationAnswers } from './application-questions'
+
+export const DRAFT_CONFIG = {
+  RETENTION_DAYS: 30,
+  MAX_NEW_DRAFTS_PER_EMAIL_PER_HOUR: 3,
+  LINK_RESEND_MINUTES: 10,
+  AUTOSAVE_DELAY_MS: 3000,
+} as const
+
+export interface ApplicationFileUploads {
+  profile_photos: FileUploadResult[]
+  food_photos: FileUploadResult[]
+  introduction_videos: FileUploadResult[]
+}
+
+export const EMPTY_FILE_UPLOADS: ApplicationFileUploads = {
+  profile_photos: [],
+  food_photos: [],
+  introduction_videos: [],
+}
+
+/**
+ * A draft as handed to the apply form
+ */
+export interface ApplicationDraft {
+  token: string
+  uploadPrefix: string
+  answers: ApplicationAnswers
+  fileUploads: ApplicationFileUploads
+  updatedAt: string
+}
+
+// Same shape as the upload folder ids the form generates
+export const UPLOAD_PREFIX_PATTERN = /^temp_\d+_[a-z0-9]+$/
+
+export function generateUploadPrefix(): string {
+  return `temp_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+export function draftResumePath(token: string): string {
+  return `/apply?draft=${encodeURIComponent(token)}`
+}
+
+/**
+ * Keeps only well-formed uploads stored under the draft's own folder, so a
+ * draft can't claim (and later purge) someone else's files
+ */
+export function sanitiseDraftUploads(value: unknown, uploadPrefix: string): ApplicationFileUploads {
+  const uploads = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const keep = (files: unknown): FileUploadResult[] => Array.isArray(files)
+    ? files.filter((file): file is FileUploadResult =>
+        !!file &&
+        typeof file.fileUrl === 'string' &&
+        typeof file.fileName === 'string' &&
+        file.fileName.startsWith(`${uploadPrefix}/`))
+    : []
+
+  return {
+    profile_photos: keep(uploads.profile_photos),
+    food_photos: keep(uploads.food_photos),
+    introduction_videos: keep(uploads.introduction_videos),
+  }
+}
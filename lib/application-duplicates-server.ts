@@ -0,0 +1,101 @@
+/**
+ * Chef Application Duplicate Detection (server)
+ *
+ * Match signals computed on submit and the lookup that records an
+ * application's likely duplicates.
+ */
+
+import sharp from 'sharp'
+import { createSupabaseAdminClient } from './supabase-admin'
+import { STORAGE_CONFIG } from './storage'
+import { DUPLICATE_CONFIG, type DuplicateMatch } from './application-duplicates'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+/**
+ * 64-bit difference hash of an image as 16 hex characters
+ *
+ * The image is shrunk to 9x8 greyscale and each bit records whether a pixel
+ * is brighter than its right-hand neighbour, so re-saved, resized or lightly
+ * edited copies of a photo hash to nearly the same value.
+ */
+async function differenceHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  // Built a nibble at a time: 64 bits don't fit in a JS number
+  let hash = ''
+  let nibble = 0
+  for (let bit = 0; bit < 64; bit++) {
+    const offset = Math.floor(bit / 8) * 9 + (bit % 8)
+    nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0)
+    if (bit % 4 === 3) {
+      hash += nibble.toString(16)
+      nibble = 0
+    }
+  }
+
+  return hash
+}
+
+/**
+ * Hashes an uploaded profile photo for duplicate matching
+ *
+ * @param fileName - Path of the photo in the applications bucket
+ * @returns Hex hash, or null if the photo couldn't be read
+ */
+export async function hashProfilePhoto(supabase: AdminClient, fileName: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(STORAGE_CONFIG.BUCKET_NAME)
+      .download(fileName)
+
+    if (error || !data) {
+      console.error('Error downloading profile photo for hashing:', error)
+      return null
+    }
+
+    return await differenceHash(Buffer.from(await data.arrayBuffer()))
+  } catch (error) {
+    console.error('Error hashing profile photo:', error)
+    return null
+  }
+}
+
+/**
+ * Finds an application's likely duplicates and stores them on the application
+ *
+ * Strongest matches (most reasons) come first.
+ */
+export async function recordApplicationDuplicates(
+  supabase: AdminClient,
+  applicationId: string
+): Promise<DuplicateMatch[]> {
+  const { data, error } = await supabase.rpc('find_application_duplicates', {
+    target_application_id: applicationId,
+    min_name_similarity: DUPLICATE_CONFIG.MIN_NAME_SIMILARITY,
+    max_photo_distance: DUPLICATE_CONFIG.MAX_PHOTO_DISTANCE,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const matches = ((data || []) as DuplicateMatch[])
+    .sort((a, b) => b.reasons.length - a.reasons.length || b.created_at.localeCompare(a.created_at))
+
+  const { error: updateError } = await supabase
+    .from('chef_applications')
+    .update({ duplicate_matches: matches })
+    .eq('id', applicationId)
+
+  if (updateError) {
+    throw updateError
+  }
+
+  return matches
+}
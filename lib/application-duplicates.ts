@@ -0,0 +1,49 @@
+/**
+ * Chef Application Duplicate Detection
+ *
+ * Each submitted application is compared with earlier applications and
+ * existing chefs (see find_application_duplicates in the database). Matches
+ * are stored on the application and shown to admins; nothing is blocked
+ * automatically.
+ */
+
+export const DUPLICATE_CONFIG = {
+  // pg_trgm similarity of lowercased full names (0-1)
+  MIN_NAME_SIMILARITY: 0.7,
+  // Differing bits out of 64 for two profile photos to count as the same
+  MAX_PHOTO_DISTANCE: 10,
+} as const
+
+export type DuplicateReason = 'email' | 'phone' | 'name' | 'photo'
+
+export interface DuplicateMatch {
+  match_type: 'application' | 'chef'
+  match_id: string
+  name: string | null
+  status: string
+  reasons: DuplicateReason[]
+  created_at: string
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name',
+  photo: 'Similar profile photo',
+}
+
+/**
+ * Admin page for a matched application or chef
+ */
+export function duplicateMatchPath(match: DuplicateMatch): string {
+  return match.match_type === 'chef'
+    ? `/admin/chefs/${match.match_id}`
+    : `/admin/applications/${match.match_id}`
+}
+
+/**
+ * Whether the matches go beyond a similar name, which on its own is common
+ */
+export function hasStrongDuplicate(matches: DuplicateMatch[]): boolean {
+  return matches.some(match => match.reasons.some(reason => reason !== 'name'))
+}
@@ -0,0 +1,218 @@
+/**
+ * Chef Application Files
+ *
+ * Server-only access to the private chef-applications bucket: signed URLs for
+ * showing uploads, and clean-up of an application's folder. Shared by the
+ * admin and status pages, draft purge and the application file retention
+ * cron job.
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import { STORAGE_CONFIG, storageObjectPath, type FileUploadResult } from './storage'
+import { UPLOAD_PREFIX_PATTERN, type ApplicationFileUploads } from './application-drafts'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+// Sub-folders generateFileName() puts uploads in
+const UPLOAD_FOLDERS = ['profile', 'food', 'video'] as const
+
+// Purge in batches so one run stays well inside the function time limit
+const PURGE_BATCH_SIZE = 50
+
+// Rows per page when reading live chef media URLs
+const MEDIA_PAGE_SIZE = 1000
+
+// Chef media columns that may still point into chef-applications - chefs
+// approved before media was copied to the chefs bucket, until
+// scripts/node/move-chef-media.js has been run
+const CHEF_MEDIA_COLUMNS = [
+  { table: 'chefs', column: 'photo_url' },
+  { table: 'food_photos', column: 'photo_url' },
+  { table: 'chef_videos', column: 'video_url' },
+] as const
+
+/**
+ * Swaps each upload's URL for a short-lived signed URL
+ *
+ * Files that can't be signed (e.g. already purged) are left out.
+ */
+export async function signApplicationFiles(
+  supabase: AdminClient,
+  files: FileUploadResult[] | null | undefined
+): Promise<FileUploadResult[]> {
+  const named = (files || []).filter(file => !!file.fileName)
+  if (named.length === 0) return []
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_CONFIG.BUCKET_NAME)
+    .createSignedUrls(named.map(file => file.fileName as string), STORAGE_CONFIG.SIGNED_URL_TTL)
+
+  if (error || !data) {
+    console.error('Error signing application files:', error)
+    return []
+  }
+
+  return named.flatMap((file, i) => (data[i]?.signedUrl ? [{ ...file, fileUrl: data[i].signedUrl }] : []))
+}
+
+/**
+ * Signs every upload of an application or draft for display
+ */
+export async function signApplicationUploads(
+  supabase: AdminClient,
+  uploads: Partial<ApplicationFileUploads> | null | undefined
+): Promise<ApplicationFileUploads> {
+  const [profilePhotos, foodPhotos, introductionVideos] = await Promise.all([
+    signApplicationFiles(supabase, uploads?.profile_photos),
+    signApplicationFiles(supabase, uploads?.food_photos),
+    signApplicationFiles(supabase, uploads?.introduction_videos),
+  ])
+
+  return {
+    profile_photos: profilePhotos,
+    food_photos: foodPhotos,
+    introduction_videos: introductionVideos,
+  }
+}
+
+/**
+ * Removes every file uploaded under an application or draft folder, including
+ * uploads that never made it into a saved record
+ *
+ * @returns Number of files removed, or null if storage couldn't be cleared
+ */
+export async function removeUploadFolder(
+  supabase: AdminClient,
+  uploadPrefix: string,
+  keep: Set<string> = new Set()
+): Promise<number | null> {
+  const paths: string[] = []
+
+  for (const folder of UPLOAD_FOLDERS) {
+    const { data: files, error } = await supabase.storage
+      .from(STORAGE_CONFIG.BUCKET_NAME)
+      .list(`${uploadPrefix}/${folder}`, { limit: 100 })
+
+    if (error) {
+      console.error('Error listing upload folder:', error)
+      return null
+    }
+    paths.push(...(files || [])
+      .map(file => `${uploadPrefix}/${folder}/${file.name}`)
+      .filter(path => !keep.has(path)))
+  }
+
+  if (paths.length > 0) {
+    const { error } = await supabase.storage
+      .from(STORAGE_CONFIG.BUCKET_NAME)
+      .remove(paths)
+
+    if (error) {
+      console.error('Error removing upload folder:', error)
+      return null
+    }
+  }
+
+  return paths.length
+}
+
+/**
+ * Paths in chef-applications that live chef media still points at
+ *
+ * @throws If chef media can't be read - nothing should be purged then
+ */
+async function liveChefMediaPaths(supabase: AdminClient): Promise<Set<string>> {
+  const paths = new Set<string>()
+  const pattern = `%/storage/v1/object/public/${STORAGE_CONFIG.BUCKET_NAME}/%`
+
+  for (const { table, column } of CHEF_MEDIA_COLUMNS) {
+    for (let from = 0; ; from += MEDIA_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(column)
+        .like(column, pattern)
+        .order('id')
+        .range(from, from + MEDIA_PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      for (const row of (data || []) as Record<string, unknown>[]) {
+        const path = typeof row[column] === 'string' ? storageObjectPath(row[column], STORAGE_CONFIG.BUCKET_NAME) : null
+        if (path) paths.add(path)
+      }
+
+      if (!data || data.length < MEDIA_PAGE_SIZE) break
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Deletes the files of applications decided more than
+ * STORAGE_CONFIG.RETENTION_DAYS ago
+ *
+ * Approved chefs have their own copies in the chefs bucket by then. Only the
+ * application's own upload folder is cleared - older applications without
+ * one are just marked purged, which hands the files they list to storage-gc
+ * (their file_uploads came straight from the browser, so they aren't trusted
+ * as paths to delete). Files a chef's photos or videos still point at (chefs
+ * approved before media was copied out) are left for storage-gc to remove
+ * once they've been moved. An application whose files can't be removed is
+ * retried on the next run, without holding up the rest of the batch.
+ */
+export async function purgeExpiredApplicationFiles(): Promise<{ applications: number; files: number }> {
+  const supabase = createSupabaseAdminClient()
+  const cutoff = new Date(Date.now() - STORAGE_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  let applications = 0
+  let files = 0
+
+  const { data: expired, error } = await supabase
+    .from('chef_applications')
+    .select('id, upload_prefix')
+    .in('status', ['approved', 'rejected'])
+    .is('files_purged_at', null)
+    .or(`approved_at.lt.${cutoff},rejected_at.lt.${cutoff}`)
+    .order('created_at', { ascending: true })
+    .limit(PURGE_BATCH_SIZE)
+
+  if (error) {
+    throw error
+  }
+
+  if (!expired || expired.length === 0) {
+    return { applications, files }
+  }
+
+  const liveMedia = await liveChefMediaPaths(supabase)
+
+  for (const application of expired) {
+    try {
+      const removed = typeof application.upload_prefix === 'string' && UPLOAD_PREFIX_PATTERN.test(application.upload_prefix)
+        ? await removeUploadFolder(supabase, application.upload_prefix, liveMedia)
+        : 0
+
+      if (removed === null) continue
+
+      const { error: updateError } = await supabase
+        .from('chef_applications')
+        .update({ files_purged_at: new Date().toISOString() })
+        .eq('id', application.id)
+
+      if (updateError) {
+        console.error('Error recording application file purge:', updateError)
+        continue
+      }
+
+      applications++
+      files += removed
+    } catch (purgeError) {
+      console.error(`Error purging files of application ${application.id}:`, purgeError)
+      // Continue anyway - it's retried on the next run
+    }
+  }
+
+  return { applications, files }
+}
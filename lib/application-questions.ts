@@ -0,0 +1,423 @@
+/**
+ * Chef Application Question Utilities
+ *
+ * Shared by the apply form, submitApplication and the admin question
+ * builder. Questions live in chef_questions; each admin change snapshots
+ * the visible set into chef_question_set_versions.
+ *
+ * Answers are stored under each question's `key`, which never changes once
+ * set, so question text can be reworded without breaking anything that reads
+ * the answers.
+ *
+ * Answer shapes by field type:
+ * - multi_select: string[] of chosen options
+ * - yes_no: 'yes' | 'no'
+ * - postcode: normalised postcode (e.g. "TW3 1AA")
+ * - availability: string[] of grid cells (e.g. "6:evening", see lib/availability)
+ * - everything else: string, or number for number questions
+ *
+ * A question with show_if_key is a follow-up: it is only shown, validated and
+ * stored when the answer to show_if_key matches show_if_value.
+ */
+
+import { getOutwardCode, normalisePostcode } from './postcodes'
+import { formatAvailabilityCells, parseAvailabilityCell } from './availability'
+
+export const QUESTION_FIELD_TYPES = [
+  'text', 'textarea', 'email', 'phone', 'number', 'photo', 'video',
+  'single_select', 'multi_select', 'yes_no', 'postcode', 'availability',
+] as const
+
+export type QuestionFieldType = typeof QUESTION_FIELD_TYPES[number]
+
+export const FIELD_TYPE_LABELS: Record<QuestionFieldType, string> = {
+  text: 'Short text',
+  textarea: 'Long text',
+  email: 'Email',
+  phone: 'Phone number',
+  number: 'Number',
+  photo: 'Photo upload',
+  video: 'Video upload',
+  single_select: 'Choose one',
+  multi_select: 'Choose several',
+  yes_no: 'Yes / no',
+  postcode: 'Postcode',
+  availability: 'Weekly availability grid',
+}
+
+// Field types whose questions need a list of options
+export const OPTION_FIELD_TYPES: readonly QuestionFieldType[] = ['single_select', 'multi_select']
+
+// Field types a follow-up question can depend on
+export const CONDITION_FIELD_TYPES: readonly QuestionFieldType[] = ['yes_no', 'single_select', 'multi_select']
+
+export const YES_NO_OPTIONS = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+] as const
+
+// Answered through file uploads rather than form fields
+const UPLOAD_FIELD_TYPES: readonly QuestionFieldType[] = ['photo', 'video']
+
+// Submitted as several values under one field name
+const MULTI_VALUE_FIELD_TYPES: readonly QuestionFieldType[] = ['multi_select', 'availability']
+
+export const QUESTION_CONFIG = {
+  MAX_TEXT_LENGTH: 120,
+  MAX_HINT_LENGTH: 500,
+  MAX_KEY_LENGTH: 50,
+  MAX_OPTIONS: 30,
+  MAX_OPTION_LENGTH: 60,
+} as const
+
+/**
+ * Answer keys the app reads directly
+ */
+export const QUESTION_KEYS = {
+  FULL_NAME: 'full_name',
+  EMAIL: 'email',
+  PHONE: 'phone',
+  BIO: 'bio',
+  HOURLY_RATE: 'hourly_rate',
+  PROFILE_PHOTO: 'profile_photo',
+  CUISINES: 'cuisines',
+  LOCATION: 'location',
+  EXPERIENCE_YEARS: 'experience_years',
+  AVAILABILITY: 'availability',
+  LANGUAGES_SPOKEN: 'languages_spoken',
+  TRAVEL_DISTANCE: 'travel_distance',
+  FREQUENCY_PREFERENCE: 'frequency_preference',
+  MINIMUM_BOOKING: 'minimum_booking',
+  SPECIAL_EVENTS: 'special_events',
+  HOUSE_HELP_SERVICES: 'house_help_services',
+  DIETARY_SPECIALTIES: 'dietary_specialties',
+} as const
+
+/**
+ * chefs columns filled from application answers on approval, by answer key
+ */
+export const CHEF_COLUMN_BY_KEY: Record<string, string> = {
+  full_name: 'name',
+  bio: 'bio',
+  phone: 'phone',
+  hourly_rate: 'hourly_rate',
+  location: 'location_label',
+  experience_years: 'experience_years',
+  availability: 'availability',
+  languages_spoken: 'languages_spoken',
+  travel_distance: 'travel_distance',
+  frequency_preference: 'frequency_preference',
+  minimum_booking: 'minimum_booking',
+  special_events: 'special_events',
+  house_help_services: 'house_help_services',
+  dietary_specialties: 'dietary_specialties',
+}
+
+const QUESTION_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+export interface ApplicationQuestion {
+  id: string
+  key: string
+  text: string
+  hint_text: string | null
+  field_type: QuestionFieldType
+  is_required: boolean
+  is_visible: boolean
+  display_order: number
+  options: string[]
+  show_if_key: string | null
+  show_if_value: string | null
+}
+
+export interface QuestionInput {
+  // Only used when creating a question - keys can't be changed afterwards
+  key: string
+  text: string
+  hintText: string
+  fieldType: QuestionFieldType
+  isRequired: boolean
+  isVisible: boolean
+  options: string[]
+  showIfKey: string | null
+  showIfValue: string | null
+}
+
+export type AnswerValue = string | number | string[]
+
+export type ApplicationAnswers = Record<string, AnswerValue>
+
+// The parts of a question needed to read and check its answer
+type AnswerQuestion = Pick<
+  ApplicationQuestion,
+  'key' | 'text' | 'field_type' | 'is_required' | 'options' | 'show_if_key' | 'show_if_value'
+>
+
+export interface QuestionSetVersion {
+  version: number
+  questions: Omit<ApplicationQuestion, 'is_visible'>[]
+  created_at: string
+}
+
+export function isQuestionFieldType(value: string): value is QuestionFieldType {
+  return (QUESTION_FIELD_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a question is one the app reads by key (QUESTION_KEYS)
+ *
+ * Its field type and required setting can't be changed and it can't be
+ * hidden, or approval and emails would read a missing or malformed answer.
+ */
+export function isLockedQuestionKey(key: string): boolean {
+  return (Object.values(QUESTION_KEYS) as string[]).includes(key)
+}
+
+/**
+ * Suggests an answer key from question text, e.g. "Hourly Rate (£)" -> "hourly_rate"
+ */
+export function toQuestionKey(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, QUESTION_CONFIG.MAX_KEY_LENGTH)
+
+  return /^[a-z]/.test(slug) ? slug : `q_${slug}`
+}
+
+/**
+ * Maps answers onto chefs columns for approval
+ *
+ * List answers become comma-separated text and the availability grid a short
+ * summary. Only the outward code of a postcode goes on the public profile.
+ */
+export function chefFieldsFromAnswers(answers: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  for (const [key, column] of Object.entries(CHEF_COLUMN_BY_KEY)) {
+    const answer = answers[key]
+    if (answer === undefined) continue
+
+    if (Array.isArray(answer)) {
+      fields[column] = formatAnswer(key, answer)
+    } else if (key === QUESTION_KEYS.LOCATION) {
+      fields[column] = getOutwardCode(String(answer)) || answer
+    } else {
+      fields[column] = answer
+    }
+  }
+  return fields
+}
+
+/**
+ * Formats an answer for display, e.g. ["Punjabi", "Gujarati"] -> "Punjabi, Gujarati"
+ */
+export function formatAnswer(key: string, answer: unknown): string {
+  if (!Array.isArray(answer)) {
+    return answer === undefined || answer === null ? '' : String(answer)
+  }
+  return key === QUESTION_KEYS.AVAILABILITY ? formatAvailabilityCells(answer) : answer.join(', ')
+}
+
+/**
+ * Whether a question is shown for the answers given so far
+ */
+export function isQuestionShown(
+  question: Pick<ApplicationQuestion, 'show_if_key' | 'show_if_value'>,
+  answers: ApplicationAnswers
+): boolean {
+  if (!question.show_if_key) return true
+
+  const answer = answers[question.show_if_key]
+  if (Array.isArray(answer)) {
+    return answer.includes(question.show_if_value || '')
+  }
+  return answer !== undefined && String(answer) === question.show_if_value
+}
+
+/**
+ * Reads answers from the application form
+ *
+ * Used by the form for client-side checks and by submitApplication. Fields
+ * named with the question text are accepted too, so a form loaded before
+ * answers were keyed still submits. Follow-ups whose condition isn't met are
+ * dropped, so a "no" can't leave stale follow-up answers behind.
+ *
+ * @param questions - Questions in display order
+ */
+export function answersFromFormData(questions: AnswerQuestion[], formData: FormData): ApplicationAnswers {
+  const answers: ApplicationAnswers = {}
+
+  const readValues = (name: string) => formData
+    .getAll(name)
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(Boolean)
+
+  for (const question of questions) {
+    if (UPLOAD_FIELD_TYPES.includes(question.field_type)) continue
+
+    let values = readValues(question.key)
+    if (values.length === 0) {
+      values = readValues(question.text)
+    }
+    if (values.length === 0) continue
+
+    if (MULTI_VALUE_FIELD_TYPES.includes(question.field_type)) {
+      answers[question.key] = [...new Set(values)]
+    } else if (question.field_type === 'number' && !isNaN(Number(values[0]))) {
+      answers[question.key] = Number(values[0])
+    } else if (question.field_type === 'postcode') {
+      answers[question.key] = normalisePostcode(values[0]) || values[0]
+    } else {
+      answers[question.key] = values[0]
+    }
+  }
+
+  // Display order means a follow-up's parent has already been settled
+  for (const question of questions) {
+    if (!isQuestionShown(question, answers)) {
+      delete answers[question.key]
+    }
+  }
+
+  return answers
+}
+
+/**
+ * Validates application answers against the questions they answer
+ *
+ * Follow-ups that aren't shown are skipped. Photo and video questions are
+ * answered through uploads and aren't checked here.
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateApplicationAnswers(questions: AnswerQuestion[], answers: ApplicationAnswers): string | null {
+  for (const question of questions) {
+    if (UPLOAD_FIELD_TYPES.includes(question.field_type) || !isQuestionShown(question, answers)) {
+      continue
+    }
+
+    const answer = answers[question.key]
+    const isEmpty = answer === undefined || answer === '' || (Array.isArray(answer) && answer.length === 0)
+
+    if (isEmpty) {
+      if (question.is_required) {
+        return `${question.text} is required`
+      }
+      continue
+    }
+
+    const values = Array.isArray(answer) ? answer : [String(answer)]
+
+    switch (question.field_type) {
+      case 'email':
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values[0])) {
+          return 'Please enter a valid email address'
+        }
+        break
+
+      case 'phone': {
+        const digits = values[0].replace(/\D/g, '').length
+        if (digits < 10 || digits > 15) {
+          return `Please enter a valid phone number for ${question.text}`
+        }
+        break
+      }
+
+      case 'number':
+        if (typeof answer !== 'number' || answer <= 0) {
+          return `Please enter a number above zero for ${question.text}`
+        }
+        break
+
+      case 'single_select':
+      case 'multi_select':
+        if (question.field_type === 'single_select' && values.length > 1) {
+          return `Please choose one option for ${question.text}`
+        }
+        if (!values.every(value => question.options.includes(value))) {
+          return `Please choose from the list for ${question.text}`
+        }
+        break
+
+      case 'yes_no':
+        if (!YES_NO_OPTIONS.some(option => option.value === values[0])) {
+          return `Please answer yes or no for ${question.text}`
+        }
+        break
+
+      // Any well-formed postcode - the bundled outcode table doesn't cover
+      // the whole UK, and approval just leaves the search point unset
+      case 'postcode':
+        if (!normalisePostcode(values[0])) {
+          return `Please enter a valid UK postcode for ${question.text}`
+        }
+        break
+
+      case 'availability':
+        if (!values.every(value => parseAvailabilityCell(value))) {
+          return `Please choose valid times for ${question.text}`
+        }
+        break
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validates a question from the builder
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateQuestion(input: QuestionInput): string | null {
+  const text = input.text.trim()
+
+  if (!text) {
+    return 'Question text is required'
+  }
+
+  if (text.length > QUESTION_CONFIG.MAX_TEXT_LENGTH) {
+    return `Question text must be ${QUESTION_CONFIG.MAX_TEXT_LENGTH} characters or fewer`
+  }
+
+  if (input.hintText.length > QUESTION_CONFIG.MAX_HINT_LENGTH) {
+    return `Hint text must be ${QUESTION_CONFIG.MAX_HINT_LENGTH} characters or fewer`
+  }
+
+  if (!QUESTION_KEY_PATTERN.test(input.key) || input.key.length > QUESTION_CONFIG.MAX_KEY_LENGTH) {
+    return 'Key must start with a letter and use only lowercase letters, numbers and underscores'
+  }
+
+  if (!isQuestionFieldType(input.fieldType)) {
+    return 'Please choose a valid field type'
+  }
+
+  if (OPTION_FIELD_TYPES.includes(input.fieldType)) {
+    const options = input.options.map(option => option.trim()).filter(Boolean)
+
+    if (options.length === 0) {
+      return 'Add at least one option to choose from'
+    }
+    if (options.length > QUESTION_CONFIG.MAX_OPTIONS) {
+      return `Up to ${QUESTION_CONFIG.MAX_OPTIONS} options`
+    }
+    if (options.some(option => option.length > QUESTION_CONFIG.MAX_OPTION_LENGTH)) {
+      return `Options must be ${QUESTION_CONFIG.MAX_OPTION_LENGTH} characters or fewer`
+    }
+    if (new Set(options).size !== options.length) {
+      return 'Options must be different from each other'
+    }
+  }
+
+  if (input.showIfKey) {
+    if (input.showIfKey === input.key) {
+      return 'A question cannot depend on itself'
+    }
+    if (!input.showIfValue) {
+      return 'Choose which answer shows this question'
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,78 @@
+/**
+ * Chef Application Status Utilities
+ *
+ * Shared by the applicant status page (/apply/status/[token]), the apply
+ * actions and the admin application pages. Admins request more information
+ * from an applicant, which puts the application on hold; the applicant's
+ * response on the status page returns it to pending.
+ */
+
+import type { FileUploadResult } from './storage'
+
+export type ApplicationStatus = 'pending' | 'information_requested' | 'approved' | 'rejected'
+
+export type ApplicationMessageSender = 'admin' | 'applicant'
+
+export interface ApplicationMessage {
+  id: string
+  sender: ApplicationMessageSender
+  body: string
+  file_uploads: FileUploadResult[]
+  created_at: string
+}
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  pending: 'Under review',
+  information_requested: 'Information requested',
+  approved: 'Approved',
+  rejected: 'Not accepted',
+}
+
+export const APPLICATION_MESSAGE_CONFIG = {
+  MAX_LENGTH: 2000,
+  MAX_RESPONSE_FILES: 5,
+} as const
+
+/**
+ * Whether an application is still awaiting a decision
+ */
+export function isOpenApplicationStatus(status: string): boolean {
+  return status === 'pending' || status === 'information_requested'
+}
+
+export function applicationStatusPath(statusToken: string): string {
+  return `/apply/status/${statusToken}`
+}
+
+/**
+ * Validates an information request or response
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateApplicationMessage(body: string): string | null {
+  const trimmed = body.trim()
+
+  if (!trimmed) {
+    return 'Please write a message'
+  }
+
+  if (trimmed.length > APPLICATION_MESSAGE_CONFIG.MAX_LENGTH) {
+    return `Messages must be ${APPLICATION_MESSAGE_CONFIG.MAX_LENGTH} characters or fewer`
+  }
+
+  return null
+}
+
+/**
+ * Keeps only well-formed uploads stored under the application's own folder,
+ * so a response can't claim someone else's files
+ */
+export function sanitiseResponseUploads(value: unknown, uploadPrefix: string): FileUploadResult[] {
+  return (Array.isArray(value) ? value : [])
+    .filter((file): file is FileUploadResult =>
+      !!file &&
+      typeof file.fileUrl === 'string' &&
+      typeof file.fileName === 'string' &&
+      file.fileName.startsWith(`${uploadPrefix}/`))
+    .slice(0, APPLICATION_MESSAGE_CONFIG.MAX_RESPONSE_FILES)
+}
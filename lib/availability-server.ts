@@ -0,0 +1,100 @@
+/**
+ * Chef Availability Persistence
+ *
+ * Server-only writes for weekly slots and blackout dates, shared by the admin
+ * chef editor and the chef portal so both validate and store availability the
+ * same way.
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import {
+  toDateString,
+  validateAvailabilitySlots,
+  validateBlackoutDates,
+  type AvailabilitySlot,
+} from './availability'
+
+export interface AvailabilityInput {
+  slots: AvailabilitySlot[]
+  blackoutDates: string[]
+}
+
+/**
+ * Replaces a chef's weekly slots and upcoming blackout dates
+ *
+ * Past blackout dates are kept as history. Saving structured availability
+ * clears the "needs review" flag left by the free-text import.
+ *
+ * @returns Error message, or null on success
+ */
+export async function replaceChefAvailability(chefId: string, data: AvailabilityInput): Promise<string | null> {
+  const slotError = validateAvailabilitySlots(data.slots)
+  if (slotError) return slotError
+
+  const blackoutDates = [...new Set(data.blackoutDates)]
+  const blackoutError = validateBlackoutDates(blackoutDates)
+  if (blackoutError) return blackoutError
+
+  const supabase = createSupabaseAdminClient()
+  const today = toDateString(new Date())
+
+  const { error: deleteSlotsError } = await supabase
+    .from('chef_availability_slots')
+    .delete()
+    .eq('chef_id', chefId)
+
+  if (deleteSlotsError) {
+    console.error('Error deleting availability slots:', deleteSlotsError)
+    return 'Failed to update availability'
+  }
+
+  if (data.slots.length > 0) {
+    const { error: insertSlotsError } = await supabase
+      .from('chef_availability_slots')
+      .insert(data.slots.map(slot => ({
+        chef_id: chefId,
+        day_of_week: slot.dayOfWeek,
+        start_time: slot.startTime,
+        end_time: slot.endTime
+      })))
+
+    if (insertSlotsError) {
+      console.error('Error inserting availability slots:', insertSlotsError)
+      return 'Failed to update availability'
+    }
+  }
+
+  const { error: deleteBlackoutsError } = await supabase
+    .from('chef_blackout_dates')
+    .delete()
+    .eq('chef_id', chefId)
+    .gte('blackout_date', today)
+
+  if (deleteBlackoutsError) {
+    console.error('Error deleting blackout dates:', deleteBlackoutsError)
+    return 'Failed to update blackout dates'
+  }
+
+  if (blackoutDates.length > 0) {
+    const { error: insertBlackoutsError } = await supabase
+      .from('chef_blackout_dates')
+      .insert(blackoutDates.map(date => ({ chef_id: chefId, blackout_date: date })))
+
+    if (insertBlackoutsError) {
+      console.error('Error inserting blackout dates:', insertBlackoutsError)
+      return 'Failed to update blackout dates'
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('chefs')
+    .update({ availability_needs_review: false, updated_at: new Date().toISOString() })
+    .eq('id', chefId)
+
+  if (updateError) {
+    console.error('Error clearing availability review flag:', updateError)
+    // Continue anyway - slots are saved
+  }
+
+  return null
+}
@@ -0,0 +1,253 @@
+/**
+ * Chef Availability Utilities
+ *
+ * Weekly availability slots and blackout dates, shared by the profile widget,
+ * the homepage "free on Saturday evening" filter and the admin/chef portal
+ * editors.
+ *
+ * Days use 0 = Sunday ... 6 = Saturday (JavaScript getDay and Postgres DOW).
+ */
+
+export interface AvailabilitySlot {
+  dayOfWeek: number
+  startTime: string // HH:MM
+  endTime: string // HH:MM
+}
+
+export type TimePeriod = 'morning' | 'afternoon' | 'evening'
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const
+
+// Display order - weeks start on Monday in the UK
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0] as const
+
+// Same windows the free-text import uses
+export const TIME_PERIODS: Record<TimePeriod, { label: string; start: string; end: string }> = {
+  morning: { label: 'Morning', start: '08:00', end: '12:00' },
+  afternoon: { label: 'Afternoon', start: '12:00', end: '17:00' },
+  evening: { label: 'Evening', start: '17:00', end: '22:00' },
+}
+
+export const AVAILABILITY_CONFIG = {
+  MAX_SLOTS_PER_DAY: 4,
+  MAX_BLACKOUT_DATES: 60,
+  MAX_DAYS_AHEAD: 365,
+} as const
+
+/**
+ * Converts a database row to a slot (trims seconds from TIME values)
+ */
+export function toAvailabilitySlot(row: { day_of_week: number; start_time: string; end_time: string }): AvailabilitySlot {
+  return {
+    dayOfWeek: row.day_of_week,
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+  }
+}
+
+/**
+ * Parses a day name or number from the query string ("saturday", "sat", "6")
+ */
+export function parseDayOfWeek(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  if (/^[0-6]$/.test(value)) return parseInt(value)
+  const index = DAY_NAMES.findIndex(day => day.toLowerCase().startsWith(value.toLowerCase().slice(0, 3)))
+  return index >= 0 && value.length >= 3 ? index : undefined
+}
+
+export function isTimePeriod(value: string | undefined): value is TimePeriod {
+  return value !== undefined && value in TIME_PERIODS
+}
+
+/**
+ * Validates slots from an editor
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateAvailabilitySlots(slots: AvailabilitySlot[]): string | null {
+  for (const slot of slots) {
+    if (!Number.isInteger(slot.dayOfWeek) || slot.dayOfWeek < 0 || slot.dayOfWeek > 6) {
+      return 'Please choose a valid day'
+    }
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(slot.startTime) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(slot.endTime)) {
+      return `Please enter valid times for ${DAY_NAMES[slot.dayOfWeek]}`
+    }
+    if (slot.endTime <= slot.startTime) {
+      return `${DAY_NAMES[slot.dayOfWeek]}: end time must be after start time`
+    }
+  }
+
+  for (let day = 0; day < 7; day++) {
+    const daySlots = slots
+      .filter(slot => slot.dayOfWeek === day)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+    if (daySlots.length > AVAILABILITY_CONFIG.MAX_SLOTS_PER_DAY) {
+      return `${DAY_NAMES[day]}: up to ${AVAILABILITY_CONFIG.MAX_SLOTS_PER_DAY} time slots`
+    }
+
+    for (let i = 1; i < daySlots.length; i++) {
+      if (daySlots[i].startTime < daySlots[i - 1].endTime) {
+        return `${DAY_NAMES[day]}: time slots overlap`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validates blackout dates (YYYY-MM-DD, not in the past, within a year)
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateBlackoutDates(dates: string[]): string | null {
+  if (dates.length > AVAILABILITY_CONFIG.MAX_BLACKOUT_DATES) {
+    return `You can block out up to ${AVAILABILITY_CONFIG.MAX_BLACKOUT_DATES} dates`
+  }
+
+  const today = toDateString(new Date())
+  const latest = toDateString(new Date(Date.now() + AVAILABILITY_CONFIG.MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000))
+
+  for (const date of dates) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      return 'Please choose valid dates'
+    }
+    if (date < today) {
+      return 'Blackout dates cannot be in the past'
+    }
+    if (date > latest) {
+      return 'Blackout dates can only be set up to a year ahead'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Formats a Date as YYYY-MM-DD in local time
+ */
+export function toDateString(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Next date (today included) falling on the given day of the week
+ */
+export function nextDateForDay(dayOfWeek: number, from: Date = new Date()): string {
+  const date = new Date(from)
+  date.setDate(date.getDate() + ((dayOfWeek - date.getDay() + 7) % 7))
+  return toDateString(date)
+}
+
+/**
+ * Whether any slot overlaps the given day and/or time of day
+ */
+function hasSlot(slots: AvailabilitySlot[], dayOfWeek?: number, period?: TimePeriod): boolean {
+  const window = period ? TIME_PERIODS[period] : null
+  return slots.some(slot =>
+    (dayOfWeek === undefined || slot.dayOfWeek === dayOfWeek) &&
+    (!window || (slot.startTime < window.end && slot.endTime > window.start))
+  )
+}
+
+/**
+ * Checks whether a chef is free on a day/time of day
+ *
+ * A day means its next occurrence ("free on Saturday" = this Saturday), so a
+ * blackout on that date rules the chef out. Chefs without structured slots
+ * never match.
+ *
+ * @param slots - Chef's weekly slots
+ * @param blackoutDates - Chef's upcoming blackout dates (YYYY-MM-DD)
+ * @param dayOfWeek - Day to check, or any day
+ * @param period - Time of day to check, or any time
+ */
+export function isChefAvailable(
+  slots: AvailabilitySlot[],
+  blackoutDates: string[],
+  dayOfWeek?: number,
+  period?: TimePeriod
+): boolean {
+  if (!hasSlot(slots, dayOfWeek, period)) {
+    return false
+  }
+
+  if (dayOfWeek !== undefined && blackoutDates.includes(nextDateForDay(dayOfWeek))) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Which time periods a day's slots touch - used for the profile grid
+ */
+export function getDayPeriods(slots: AvailabilitySlot[], dayOfWeek: number): TimePeriod[] {
+  return (Object.keys(TIME_PERIODS) as TimePeriod[]).filter(period => hasSlot(slots, dayOfWeek, period))
+}
+
+/**
+ * Formats a slot time range for display (e.g. "17:00–22:00")
+ */
+export function formatSlotRange(slot: AvailabilitySlot): string {
+  return `${slot.startTime}–${slot.endTime}`
+}
+
+/**
+ * Availability grid answer from the application form, e.g. "6:evening"
+ */
+export function toAvailabilityCell(dayOfWeek: number, period: TimePeriod): string {
+  return `${dayOfWeek}:${period}`
+}
+
+export function parseAvailabilityCell(cell: string): { dayOfWeek: number; period: TimePeriod } | null {
+  const match = /^([0-6]):([a-z]+)$/.exec(cell)
+  if (!match || !isTimePeriod(match[2])) return null
+  return { dayOfWeek: parseInt(match[1]), period: match[2] }
+}
+
+/**
+ * Converts availability grid cells to weekly slots, joining back-to-back
+ * periods on the same day (morning + afternoon = 08:00–17:00)
+ */
+export function availabilityCellsToSlots(cells: string[]): AvailabilitySlot[] {
+  const periods = Object.keys(TIME_PERIODS) as TimePeriod[]
+  const slots: AvailabilitySlot[] = []
+
+  for (const day of WEEK_ORDER) {
+    for (const period of periods) {
+      if (!cells.includes(toAvailabilityCell(day, period))) continue
+
+      const window = TIME_PERIODS[period]
+      const previous = slots[slots.length - 1]
+      if (previous && previous.dayOfWeek === day && previous.endTime === window.start) {
+        previous.endTime = window.end
+      } else {
+        slots.push({ dayOfWeek: day, startTime: window.start, endTime: window.end })
+      }
+    }
+  }
+
+  return slots
+}
+
+/**
+ * Summarises availability grid cells as text, e.g. "Monday evening; Saturday morning, afternoon"
+ */
+export function formatAvailabilityCells(cells: string[]): string {
+  const periods = Object.keys(TIME_PERIODS) as TimePeriod[]
+
+  return WEEK_ORDER
+    .map(day => {
+      const dayPeriods = periods.filter(period => cells.includes(toAvailabilityCell(day, period)))
+      return dayPeriods.length > 0
+        ? `${DAY_NAMES[day]} ${dayPeriods.map(period => TIME_PERIODS[period].label.toLowerCase()).join(', ')}`
+        : null
+    })
+    .filter(Boolean)
+    .join('; ')
+}
@@ -0,0 +1,126 @@
+/**
+ * Booking Utilities
+ *
+ * Shared types, labels and validation for booking requests. Used by the
+ * booking server actions and the customer/chef booking forms so both sides
+ * apply the same rules.
+ */
+
+export type BookingStatus = 'requested' | 'countered' | 'accepted' | 'declined' | 'cancelled'
+
+export type BookingActor = 'customer' | 'chef' | 'admin' | 'system'
+
+/**
+ * Booking record as stored in the bookings table
+ */
+export interface Booking {
+  id: string
+  chef_id: string
+  customer_ref: string
+  status: BookingStatus
+  booking_date: string
+  start_time: string
+  hours: number
+  guest_count: number
+  address_area: string
+  notes: string | null
+  counter_date: string | null
+  counter_start_time: string | null
+  counter_hours: number | null
+  chef_message: string | null
+  responded_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Booking event as stored in the booking_events table
+ */
+export interface BookingEvent {
+  id: string
+  booking_id: string
+  from_status: BookingStatus | null
+  to_status: BookingStatus
+  actor: BookingActor
+  notes: string | null
+  created_at: string
+}
+
+export const BOOKING_CONFIG = {
+  MIN_HOURS: 1,
+  MAX_HOURS: 12,
+  MAX_GUESTS: 50,
+  MAX_DAYS_AHEAD: 365,
+  MAX_NOTES_LENGTH: 500,
+  MAX_AREA_LENGTH: 100,
+} as const
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  requested: 'Awaiting chef response',
+  countered: 'Chef suggested a change',
+  accepted: 'Confirmed',
+  declined: 'Declined by chef',
+  cancelled: 'Cancelled',
+}
+
+/**
+ * Date/time/hours proposed by either party
+ */
+export interface BookingSlot {
+  date: string
+  startTime: string
+  hours: number
+}
+
+/**
+ * Validates a proposed booking slot
+ *
+ * @param slot - Proposed date (YYYY-MM-DD), start time (HH:MM) and hours
+ * @param minimumBooking - Chef's minimum booking in hours, if set
+ * @returns Error message, or null if valid
+ */
+export function validateBookingSlot(slot: BookingSlot, minimumBooking?: number | null): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(slot.date) || isNaN(Date.parse(slot.date))) {
+    return 'Please choose a valid date'
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+  const latest = new Date(Date.now() + BOOKING_CONFIG.MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10)
+
+  if (slot.date < today) {
+    return 'Booking date cannot be in the past'
+  }
+
+  if (slot.date > latest) {
+    return 'Bookings can only be made up to a year ahead'
+  }
+
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(slot.startTime)) {
+    return 'Please choose a valid start time'
+  }
+
+  if (!Number.isFinite(slot.hours) || slot.hours < BOOKING_CONFIG.MIN_HOURS || slot.hours > BOOKING_CONFIG.MAX_HOURS) {
+    return `Hours must be between ${BOOKING_CONFIG.MIN_HOURS} and ${BOOKING_CONFIG.MAX_HOURS}`
+  }
+
+  if (minimumBooking && slot.hours < minimumBooking) {
+    return `This chef has a minimum booking of ${minimumBooking} hour${minimumBooking !== 1 ? 's' : ''}`
+  }
+
+  return null
+}
+
+/**
+ * Formats a booking date and start time for display (e.g. "Sat 25 Oct 2025, 18:30")
+ */
+export function formatBookingSlot(date: string, startTime: string): string {
+  const formattedDate = new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+  return `${formattedDate}, ${startTime.slice(0, 5)}`
+}
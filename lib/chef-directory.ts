@@ -0,0 +1,141 @@
+/**
+ * Chef Directory Data
+ *
+ * Loads the public list of verified chefs used by the homepage grid. The result
+ * is cached for the same window as the page's ISR so filtering, sorting and
+ * postcode search (which all depend on the query string) don't hit the
+ * database on every request. Admin actions calling revalidatePath('/') clear it.
+ */
+
+import { unstable_cache } from 'next/cache'
+import { createSupabasePublicClient } from './supabase-public'
+import { parseLocationPoint } from './postcodes'
+import { toAvailabilitySlot, toDateString, type AvailabilitySlot } from './availability'
+import { isAllergen, isDietaryTag, type Allergen, type DietaryTag } from './dishes'
+import { parseImageVariants } from './image-variants'
+import { sortChefChecks } from './chef-documents'
+import type { Chef } from './data'
+
+/**
+ * Chef card data plus the fields the directory filters on
+ */
+export interface DirectoryChef extends Chef {
+  createdAt: string
+  languagesSpoken: string
+  dietarySpecialties: string
+  houseHelpServices: string
+  availabilitySlots: AvailabilitySlot[]
+  blackoutDates: string[]
+  dishes: { name: string; dietaryTags: DietaryTag[]; allergens: Allergen[] }[]
+  // Relevance from search_chefs(), only set on text searches
+  searchRank?: number
+}
+
+/**
+ * Cache window for directory data (matches homepage ISR)
+ */
+export const DIRECTORY_REVALIDATE_SECONDS = 1800
+
+async function fetchDirectoryChefs(): Promise<DirectoryChef[]> {
+  const supabase = createSupabasePublicClient()
+
+  const { data: chefsData, error } = await supabase
+    .from('chefs')
+    .select(`
+      id,
+      name,
+      bio,
+      hourly_rate,
+      verified,
+      photo_url,
+      photo_variants,
+      location_label,
+      location,
+      languages_spoken,
+      dietary_specialties,
+      house_help_services,
+      created_at,
+      chef_cuisines(cuisine),
+      food_photos(photo_url),
+      chef_availability_slots(day_of_week, start_time, end_time),
+      chef_blackout_dates(blackout_date),
+      chef_dishes(name, dietary_tags, allergens)
+    `)
+    .eq('verified', true)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching chefs:', error)
+    // Fallback to empty array if database fails
+    return []
+  }
+
+  // Fetch rating statistics for all chefs
+  const { data: ratingStatsData } = await supabase
+    .from('chef_rating_stats')
+    .select('chef_id, review_count, avg_rating')
+
+  // Create a map of chef ratings for quick lookup
+  const ratingsMap = new Map(
+    ratingStatsData?.map(stats => [stats.chef_id, stats]) || []
+  )
+
+  // Fetch current verification checks - expiry is re-evaluated each cache window
+  const { data: checksData } = await supabase
+    .from('chef_current_checks')
+    .select('chef_id, document_type')
+
+  const checksMap = new Map<string, string[]>()
+  for (const check of checksData || []) {
+    checksMap.set(check.chef_id, [...(checksMap.get(check.chef_id) || []), check.document_type])
+  }
+
+  const today = toDateString(new Date())
+
+  // Transform database data to match our existing Chef interface
+  return (chefsData || []).map(chef => {
+    const ratings = ratingsMap.get(chef.id)
+    const coordinates = parseLocationPoint(chef.location)
+    return {
+      id: chef.id,
+      name: chef.name,
+      photo: chef.photo_url || '/placeholder.svg',
+      photoVariants: chef.photo_url ? parseImageVariants(chef.photo_variants) : null,
+      foodPhotos: chef.food_photos?.map(p => p.photo_url) || [],
+      cuisines: chef.chef_cuisines?.map(c => c.cuisine) || [],
+      hourlyRate: chef.hourly_rate || 0,
+      phone: '', // Don't expose phone on homepage for privacy
+      verified: chef.verified,
+      checks: sortChefChecks(checksMap.get(chef.id)),
+      bio: chef.bio || '',
+      location: chef.location_label || undefined,
+      latitude: coordinates?.latitude,
+      longitude: coordinates?.longitude,
+      // Add rating data from materialized view
+      avgRating: ratings?.avg_rating || undefined,
+      reviewCount: ratings?.review_count || undefined,
+      createdAt: chef.created_at,
+      languagesSpoken: chef.languages_spoken || '',
+      dietarySpecialties: chef.dietary_specialties || '',
+      houseHelpServices: chef.house_help_services || '',
+      availabilitySlots: chef.chef_availability_slots?.map(toAvailabilitySlot) || [],
+      blackoutDates: chef.chef_blackout_dates
+        ?.map(b => b.blackout_date)
+        .filter(date => date >= today) || [],
+      dishes: chef.chef_dishes?.map(d => ({
+        name: d.name,
+        dietaryTags: (d.dietary_tags || []).filter(isDietaryTag),
+        allergens: (d.allergens || []).filter(isAllergen)
+      })) || []
+    }
+  })
+}
+
+/**
+ * Gets all verified chefs for the directory (cached)
+ */
+export const getDirectoryChefs = unstable_cache(
+  fetchDirectoryChefs,
+  ['directory-chefs'],
+  { revalidate: DIRECTORY_REVALIDATE_SECONDS, tags: ['chefs'] }
+)
@@ -0,0 +1,249 @@
+/**
+ * Chef Verification Documents (server)
+ *
+ * Server-only access to the private chef-documents bucket - uploads from the
+ * chef portal and signed URLs for admin review - and the expiry reminders
+ * sent by /api/cron/document-expiry-reminders.
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import { sendAdminDocumentExpiryAlert, sendChefDocumentExpiryEmail, type DocumentEmailDetails } from './email'
+import {
+  CHEF_DOCUMENT_CONFIG,
+  CHEF_DOCUMENT_LABELS,
+  daysUntil,
+  todayDateString,
+  type ChefDocument,
+  type ChefDocumentType,
+  type SignedChefDocument,
+} from './chef-documents'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+// An approved document near expiry, with its chef (many-to-one, so one row)
+interface ExpiringDocument {
+  id: string
+  chef_id: string
+  document_type: ChefDocumentType
+  expires_on: string
+  last_reminder_days: number | null
+  last_admin_alert_days: number | null
+  chefs: { name: string; status: string }
+}
+
+export interface DocumentReminderResult {
+  documentsReminded: number
+  chefsEmailed: number
+  chefEmailsFailed: number
+  adminAlerted: boolean
+}
+
+/**
+ * Uploads a document file under the chef's folder
+ *
+ * @returns Storage path, or an error
+ */
+export async function uploadChefDocumentFile(
+  supabase: AdminClient,
+  chefId: string,
+  documentType: ChefDocumentType,
+  file: File
+): Promise<{ path: string | null; error: unknown }> {
+  const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_').toLowerCase()
+  const path = `${chefId}/${documentType}/${Date.now()}_${sanitizedName}`
+
+  const { error } = await supabase.storage
+    .from(CHEF_DOCUMENT_CONFIG.BUCKET_NAME)
+    .upload(path, file, {
+      contentType: file.type,
+      upsert: false
+    })
+
+  return error ? { path: null, error } : { path, error: null }
+}
+
+/**
+ * Adds a short-lived signed URL to each document for admin review
+ *
+ * Documents whose file can't be signed are kept with a null url.
+ */
+export async function signChefDocuments(
+  supabase: AdminClient,
+  documents: ChefDocument[] | null | undefined
+): Promise<SignedChefDocument[]> {
+  if (!documents || documents.length === 0) return []
+
+  const { data, error } = await supabase.storage
+    .from(CHEF_DOCUMENT_CONFIG.BUCKET_NAME)
+    .createSignedUrls(documents.map(document => document.storage_path), CHEF_DOCUMENT_CONFIG.SIGNED_URL_TTL)
+
+  if (error) {
+    console.error('Error signing chef documents:', error)
+  }
+
+  return documents.map((document, i) => ({ ...document, url: data?.[i]?.signedUrl || null }))
+}
+
+/**
+ * Email address from the chef's approved application - chefs have no email column
+ */
+async function findChefEmail(supabase: AdminClient, chefId: string): Promise<string | null> {
+  const { data: application } = await supabase
+    .from('chef_applications')
+    .select('applicant_email')
+    .eq('chef_id', chefId)
+    .eq('status', 'approved')
+    .order('approved_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return application?.applicant_email || null
+}
+
+/**
+ * The reminder due for a document this many days from expiry, if any
+ *
+ * The nearest threshold it has reached, unless that (or a nearer one) has
+ * already been sent - so a missed run still sends one reminder, not several.
+ */
+function dueReminder(daysLeft: number, lastReminderDays: number | null): number | null {
+  const due = [...CHEF_DOCUMENT_CONFIG.REMINDER_DAYS]
+    .sort((a, b) => a - b)
+    .find(days => daysLeft <= days)
+
+  if (due === undefined || (lastReminderDays !== null && lastReminderDays <= due)) {
+    return null
+  }
+
+  return due
+}
+
+/**
+ * Emails chefs, and the admin, about approved documents that expire within
+ * the reminder window
+ *
+ * Documents already replaced by a newer one of the same type (approved or
+ * awaiting review) are skipped. The chef's reminder and the admin's alert are
+ * recorded separately once sent, so neither is repeated - a failed chef email
+ * is tried again on the next run without alerting the admin again.
+ *
+ * @throws If documents can't be read
+ */
+export async function sendDocumentExpiryReminders(): Promise<DocumentReminderResult> {
+  const supabase = createSupabaseAdminClient()
+  const today = todayDateString()
+  const windowEnd = new Date(Date.parse(today) + Math.max(...CHEF_DOCUMENT_CONFIG.REMINDER_DAYS) * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10)
+
+  const { data: expiring, error } = await supabase
+    .from('chef_documents')
+    .select('id, chef_id, document_type, expires_on, last_reminder_days, last_admin_alert_days, chefs!inner(name, status)')
+    .eq('status', 'approved')
+    .gte('expires_on', today)
+    .lte('expires_on', windowEnd)
+    .neq('chefs.status', 'deleted')
+    .order('expires_on')
+    .overrideTypes<ExpiringDocument[], { merge: false }>()
+
+  if (error) {
+    throw error
+  }
+
+  const due = (expiring || []).flatMap(document => {
+    const daysLeft = daysUntil(document.expires_on)
+    const reminderDays = dueReminder(daysLeft, document.last_reminder_days)
+    const adminAlertDays = dueReminder(daysLeft, document.last_admin_alert_days)
+    return reminderDays === null && adminAlertDays === null ? [] : [{ ...document, reminderDays, adminAlertDays }]
+  })
+
+  const result: DocumentReminderResult = { documentsReminded: 0, chefsEmailed: 0, chefEmailsFailed: 0, adminAlerted: false }
+  if (due.length === 0) {
+    return result
+  }
+
+  // === SKIP REPLACED DOCUMENTS ===
+  const { data: replacements } = await supabase
+    .from('chef_documents')
+    .select('chef_id, document_type, expires_on')
+    .in('chef_id', [...new Set(due.map(document => document.chef_id))])
+    .in('status', ['pending', 'approved'])
+    .gt('expires_on', today)
+
+  const reminders = due.filter(document => !(replacements || []).some(replacement =>
+    replacement.chef_id === document.chef_id &&
+    replacement.document_type === document.document_type &&
+    replacement.expires_on > document.expires_on
+  ))
+
+  const details = (document: typeof reminders[number]): DocumentEmailDetails => ({
+    chefId: document.chef_id,
+    chefName: document.chefs.name,
+    documentLabel: CHEF_DOCUMENT_LABELS[document.document_type],
+    expiresOn: new Date(document.expires_on).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }),
+    daysLeft: daysUntil(document.expires_on),
+  })
+
+  const record = async (document: typeof reminders[number], fields: Record<string, number>) => {
+    const { error: updateError } = await supabase
+      .from('chef_documents')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', document.id)
+
+    if (updateError) {
+      console.error('Error recording document reminder:', updateError)
+      // Continue anyway - at worst the reminder is sent again tomorrow
+    }
+  }
+
+  // === EMAIL CHEFS ===
+  const chefReminders = reminders.flatMap(document =>
+    document.reminderDays === null ? [] : [{ ...document, reminderDays: document.reminderDays }]
+  )
+
+  const byChef = new Map<string, typeof chefReminders>()
+  for (const document of chefReminders) {
+    byChef.set(document.chef_id, [...(byChef.get(document.chef_id) || []), document])
+  }
+
+  for (const [chefId, documents] of byChef) {
+    const email = await findChefEmail(supabase, chefId)
+    const emailResult = email
+      ? await sendChefDocumentExpiryEmail(email, documents[0].chefs.name, documents.map(details))
+      : { success: false, error: 'No approved application email for chef' }
+
+    if (!emailResult.success) {
+      console.error(`Failed to send document expiry reminder to chef ${chefId}:`, emailResult.error)
+      result.chefEmailsFailed++
+      // Continue anyway - the admin is still alerted, and the reminder isn't
+      // recorded so the next run tries again
+      continue
+    }
+
+    result.chefsEmailed++
+
+    for (const document of documents) {
+      await record(document, { last_reminder_days: document.reminderDays })
+    }
+
+    result.documentsReminded += documents.length
+  }
+
+  // === ALERT ADMIN ===
+  const alerts = reminders.flatMap(document =>
+    document.adminAlertDays === null ? [] : [{ ...document, adminAlertDays: document.adminAlertDays }]
+  )
+  if (alerts.length > 0) {
+    const alertResult = await sendAdminDocumentExpiryAlert(alerts.map(details))
+    if (alertResult.success) {
+      for (const document of alerts) {
+        await record(document, { last_admin_alert_days: document.adminAlertDays })
+      }
+    } else {
+      console.error('Failed to send document expiry alert:', alertResult.error)
+    }
+    result.adminAlerted = alertResult.success
+  }
+
+  return result
+}
@@ -0,0 +1,158 @@
+/**
+ * Chef Verification Documents
+ *
+ * Chefs upload evidence for each check from the chef portal and admins review
+ * it on the chef's admin page. An approved document counts as a current check
+ * from its issue date until it expires; current checks are what the badges on
+ * chef cards and pages show (the chef_current_checks view).
+ *
+ * Shared by the portal upload form, the admin review panel and
+ * lib/chef-documents-server.ts.
+ */
+
+export const CHEF_DOCUMENT_TYPES = ['food_hygiene', 'right_to_work', 'dbs_check'] as const
+
+export type ChefDocumentType = typeof CHEF_DOCUMENT_TYPES[number]
+
+export type ChefDocumentStatus = 'pending' | 'approved' | 'rejected'
+
+export interface ChefDocument {
+  id: string
+  chef_id: string
+  document_type: ChefDocumentType
+  storage_path: string
+  file_name: string
+  issued_on: string
+  expires_on: string
+  status: ChefDocumentStatus
+  review_notes: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+// With a signed URL to the file, for admin review
+export interface SignedChefDocument extends ChefDocument {
+  url: string | null
+}
+
+export const CHEF_DOCUMENT_LABELS: Record<ChefDocumentType, string> = {
+  food_hygiene: 'Food Hygiene Certificate',
+  right_to_work: 'Right to Work',
+  dbs_check: 'DBS Check',
+}
+
+// Shorter labels for badges on chef cards and pages
+export const CHEF_CHECK_BADGE_LABELS: Record<ChefDocumentType, string> = {
+  food_hygiene: 'Food Hygiene',
+  right_to_work: 'Right to Work',
+  dbs_check: 'DBS Checked',
+}
+
+export const CHEF_DOCUMENT_STATUS_LABELS: Record<ChefDocumentStatus, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Not accepted',
+}
+
+export const CHEF_DOCUMENT_CONFIG = {
+  // Private bucket - files are only shown to admins through signed URLs
+  BUCKET_NAME: 'chef-documents',
+  SIGNED_URL_TTL: 60 * 60, // seconds
+  MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
+  ALLOWED_TYPES: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'],
+  // Days before expiry the chef and admin are reminded, furthest first
+  REMINDER_DAYS: [30, 7],
+  // Documents listed per chef in the portal and admin panel
+  HISTORY_LIMIT: 20,
+} as const
+
+export interface ChefDocumentInput {
+  documentType: string
+  issuedOn: string
+  expiresOn: string
+}
+
+export function isChefDocumentType(value: unknown): value is ChefDocumentType {
+  return CHEF_DOCUMENT_TYPES.includes(value as ChefDocumentType)
+}
+
+/**
+ * Today's date as YYYY-MM-DD in UTC, to compare with issued_on/expires_on
+ */
+export function todayDateString(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/**
+ * Whole days from today until a YYYY-MM-DD date (negative once it's passed)
+ */
+export function daysUntil(date: string): number {
+  return Math.round((Date.parse(date) - Date.parse(todayDateString())) / (24 * 60 * 60 * 1000))
+}
+
+/**
+ * Validates an uploaded document file
+ *
+ * @returns Error message, or null if the file is acceptable
+ */
+export function validateDocumentFile(file: File): string | null {
+  if (!CHEF_DOCUMENT_CONFIG.ALLOWED_TYPES.includes(file.type as typeof CHEF_DOCUMENT_CONFIG.ALLOWED_TYPES[number])) {
+    return 'Please upload a PDF, JPEG, PNG or WebP file'
+  }
+
+  if (file.size > CHEF_DOCUMENT_CONFIG.MAX_FILE_SIZE) {
+    return `File size must be less than ${CHEF_DOCUMENT_CONFIG.MAX_FILE_SIZE / 1024 / 1024}MB`
+  }
+
+  return null
+}
+
+/**
+ * Validates a document's type and dates
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateChefDocument(data: ChefDocumentInput): string | null {
+  if (!isChefDocumentType(data.documentType)) {
+    return 'Please choose a document type'
+  }
+
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/
+  if (!datePattern.test(data.issuedOn) || Number.isNaN(Date.parse(data.issuedOn))) {
+    return 'Please enter the date the document was issued'
+  }
+
+  if (!datePattern.test(data.expiresOn) || Number.isNaN(Date.parse(data.expiresOn))) {
+    return 'Please enter the date the document expires'
+  }
+
+  if (data.issuedOn > todayDateString()) {
+    return 'The issue date can\'t be in the future'
+  }
+
+  if (data.expiresOn <= data.issuedOn) {
+    return 'The expiry date must be after the issue date'
+  }
+
+  if (data.expiresOn < todayDateString()) {
+    return 'This document has already expired'
+  }
+
+  return null
+}
+
+/**
+ * Whether an approved document currently counts as a check
+ * (matches the chef_current_checks view)
+ */
+export function isCurrentDocument(document: Pick<ChefDocument, 'status' | 'issued_on' | 'expires_on'>): boolean {
+  const today = todayDateString()
+  return document.status === 'approved' && document.issued_on <= today && document.expires_on >= today
+}
+
+/**
+ * Checks in display order, ignoring anything unrecognised
+ */
+export function sortChefChecks(checks: unknown[] | null | undefined): ChefDocumentType[] {
+  return CHEF_DOCUMENT_TYPES.filter(type => (checks || []).includes(type))
+}
@@ -0,0 +1,256 @@
+/**
+ * Chef Directory Filters
+ *
+ * Parses, applies and serialises the homepage filters. All filter state lives in
+ * the query string so filtered views can be shared and stay server-rendered:
+ *
+ *   /?cuisine=Punjabi&cuisine=Gujarati&max_rate=18&min_rating=4&sort=rating
+ *   /?day=saturday&time=evening
+ *   /?menu=vegan&free_from=peanuts&free_from=sesame
+ */
+
+import type { DirectoryChef } from './chef-directory'
+import { DAY_NAMES, WEEK_ORDER, isChefAvailable, isTimePeriod, parseDayOfWeek, type TimePeriod } from './availability'
+import { DIETARY_TAGS, UK_ALLERGENS, dishMatches, isAllergen, isDietaryTag, type Allergen, type DietaryTag } from './dishes'
+
+export type ChefSort = 'relevance' | 'newest' | 'rating' | 'price_low' | 'price_high' | 'distance'
+
+export const SORT_OPTIONS: { value: ChefSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'rating', label: 'Highest rated' },
+  { value: 'price_low', label: 'Price: low to high' },
+  { value: 'price_high', label: 'Price: high to low' },
+  { value: 'distance', label: 'Nearest' },
+]
+
+export const MIN_RATING_OPTIONS = [3, 4, 4.5] as const
+
+/**
+ * Parsed filter state
+ */
+export interface ChefFilters {
+  cuisines: string[]
+  minRate?: number
+  maxRate?: number
+  dietary: string[]
+  languages: string[]
+  houseHelp: string[]
+  minRating?: number
+  // Free on this day (0 = Sunday) and/or time of day
+  day?: number
+  time?: TimePeriod
+  // Has at least one dish with these tags and without these allergens
+  menuTags: DietaryTag[]
+  freeFrom: Allergen[]
+  sort: ChefSort
+}
+
+/**
+ * Values available for each facet, derived from the current chef list
+ */
+export interface FilterOptions {
+  cuisines: string[]
+  dietary: string[]
+  languages: string[]
+  houseHelp: string[]
+  menuTags: DietaryTag[]
+  allergens: Allergen[]
+  minRate: number
+  maxRate: number
+}
+
+export type SearchParams = Record<string, string | string[] | undefined>
+
+function getAll(params: SearchParams, key: string): string[] {
+  const value = params[key]
+  const values = Array.isArray(value) ? value : value ? [value] : []
+  return values.map(v => v.trim()).filter(Boolean)
+}
+
+function getNumber(params: SearchParams, key: string): number | undefined {
+  const [value] = getAll(params, key)
+  if (value === undefined) return undefined
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+/**
+ * Splits free-text list fields ("Hindi, Punjabi and English") into tidy values
+ */
+export function splitList(text: string | null | undefined): string[] {
+  if (!text) return []
+  return text
+    .split(/,|;|\/|&|\band\b|\n/i)
+    .map(item => item.trim().replace(/\.$/, ''))
+    .filter(item => item.length > 1 && !/^(none|no|n\/a)$/i.test(item))
+    .map(item => item.charAt(0).toUpperCase() + item.slice(1))
+}
+
+function includesAny(values: string[], selected: string[]): boolean {
+  const lower = values.map(v => v.toLowerCase())
+  return selected.some(s => lower.includes(s.toLowerCase()))
+}
+
+function uniqueSorted(values: string[]): string[] {
+  const seen = new Map<string, string>()
+  for (const value of values) {
+    const key = value.toLowerCase()
+    if (!seen.has(key)) seen.set(key, value)
+  }
+  return [...seen.values()].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Which search contexts are active - some sorts only make sense with them
+ */
+export interface SearchContext {
+  hasQuery?: boolean
+  hasLocation?: boolean
+}
+
+/**
+ * Lists the sort options that apply to the current search
+ */
+export function getSortOptions({ hasQuery, hasLocation }: SearchContext) {
+  return SORT_OPTIONS.filter(o =>
+    (o.value !== 'relevance' || hasQuery) && (o.value !== 'distance' || hasLocation)
+  )
+}
+
+/**
+ * Parses filters from page searchParams, ignoring anything malformed
+ *
+ * Default sort: best match for text searches, then nearest for postcode
+ * searches, otherwise newest.
+ *
+ * @param params - Next.js searchParams
+ * @param context - Active text/postcode searches
+ */
+export function parseChefFilters(params: SearchParams, context: SearchContext = {}): ChefFilters {
+  const [sortParam] = getAll(params, 'sort')
+  const [timeParam] = getAll(params, 'time')
+  const available = getSortOptions(context)
+  const defaultSort: ChefSort = context.hasQuery ? 'relevance' : context.hasLocation ? 'distance' : 'newest'
+  const sort = available.some(o => o.value === sortParam) ? (sortParam as ChefSort) : defaultSort
+
+  return {
+    cuisines: getAll(params, 'cuisine'),
+    minRate: getNumber(params, 'min_rate'),
+    maxRate: getNumber(params, 'max_rate'),
+    dietary: getAll(params, 'dietary'),
+    languages: getAll(params, 'language'),
+    houseHelp: getAll(params, 'house_help'),
+    minRating: getNumber(params, 'min_rating'),
+    day: parseDayOfWeek(getAll(params, 'day')[0]),
+    time: isTimePeriod(timeParam) ? timeParam : undefined,
+    menuTags: getAll(params, 'menu').map(v => v.toLowerCase()).filter(isDietaryTag),
+    freeFrom: getAll(params, 'free_from').map(v => v.toLowerCase()).filter(isAllergen),
+    sort,
+  }
+}
+
+/**
+ * Day options for the availability filter, Monday first, as URL values
+ */
+export function getDayOptions(): { value: string; label: string }[] {
+  return WEEK_ORDER.map(day => ({ value: DAY_NAMES[day].toLowerCase(), label: DAY_NAMES[day] }))
+}
+
+/**
+ * Counts filters that narrow the list (sort is not counted)
+ */
+export function countActiveFilters(filters: ChefFilters): number {
+  return (
+    filters.cuisines.length +
+    filters.dietary.length +
+    filters.languages.length +
+    filters.houseHelp.length +
+    (filters.minRate !== undefined ? 1 : 0) +
+    (filters.maxRate !== undefined ? 1 : 0) +
+    (filters.minRating !== undefined ? 1 : 0) +
+    (filters.day !== undefined ? 1 : 0) +
+    (filters.time !== undefined ? 1 : 0) +
+    filters.menuTags.length +
+    filters.freeFrom.length
+  )
+}
+
+/**
+ * Builds facet options from the unfiltered chef list
+ */
+export function getFilterOptions(chefs: DirectoryChef[]): FilterOptions {
+  const rates = chefs.map(c => c.hourlyRate).filter(rate => rate > 0)
+  const dishes = chefs.flatMap(c => c.dishes)
+  return {
+    cuisines: uniqueSorted(chefs.flatMap(c => c.cuisines)),
+    dietary: uniqueSorted(chefs.flatMap(c => splitList(c.dietarySpecialties))),
+    languages: uniqueSorted(chefs.flatMap(c => splitList(c.languagesSpoken))),
+    houseHelp: uniqueSorted(chefs.flatMap(c => splitList(c.houseHelpServices))),
+    menuTags: DIETARY_TAGS.filter(tag => dishes.some(d => d.dietaryTags.includes(tag))),
+    // Offer every allergen once any chef has a menu - "free from" works even if nobody declares it
+    allergens: dishes.length > 0 ? [...UK_ALLERGENS] : [],
+    minRate: rates.length ? Math.floor(Math.min(...rates)) : 0,
+    maxRate: rates.length ? Math.ceil(Math.max(...rates)) : 0,
+  }
+}
+
+/**
+ * Applies filters and sorting to the chef list
+ *
+ * Values within a facet are OR'd (Punjabi or Gujarati); facets are AND'd.
+ */
+export function applyChefFilters<T extends DirectoryChef>(chefs: T[], filters: ChefFilters): T[] {
+  const filtered = chefs.filter(chef => {
+    if (filters.cuisines.length && !includesAny(chef.cuisines, filters.cuisines)) return false
+    if (filters.minRate !== undefined && chef.hourlyRate < filters.minRate) return false
+    if (filters.maxRate !== undefined && chef.hourlyRate > filters.maxRate) return false
+    if (filters.dietary.length && !includesAny(splitList(chef.dietarySpecialties), filters.dietary)) return false
+    if (filters.languages.length && !includesAny(splitList(chef.languagesSpoken), filters.languages)) return false
+    if (filters.houseHelp.length && !includesAny(splitList(chef.houseHelpServices), filters.houseHelp)) return false
+    if (filters.minRating !== undefined && (chef.avgRating ?? 0) < filters.minRating) return false
+    if ((filters.day !== undefined || filters.time !== undefined) &&
+        !isChefAvailable(chef.availabilitySlots, chef.blackoutDates, filters.day, filters.time)) return false
+    if ((filters.menuTags.length || filters.freeFrom.length) &&
+        !chef.dishes.some(dish => dishMatches(dish, filters.menuTags, filters.freeFrom))) return false
+    return true
+  })
+
+  return filtered.sort((a, b) => {
+    switch (filters.sort) {
+      case 'rating':
+        return (b.avgRating ?? 0) - (a.avgRating ?? 0) || (b.reviewCount ?? 0) - (a.reviewCount ?? 0)
+      case 'price_low':
+        return a.hourlyRate - b.hourlyRate
+      case 'price_high':
+        return b.hourlyRate - a.hourlyRate
+      case 'relevance':
+        return (b.searchRank ?? 0) - (a.searchRank ?? 0)
+      case 'distance':
+        return (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity)
+      case 'newest':
+      default:
+        return b.createdAt.localeCompare(a.createdAt)
+    }
+  })
+}
+
+/**
+ * Serialises the current query string, minus the given keys, as [name, value]
+ * pairs - used for hidden inputs and links that should keep the other filters
+ */
+export function getSearchParamEntries(params: SearchParams, exclude: string[] = []): [string, string][] {
+  return Object.entries(params).flatMap(([key, value]) => {
+    if (exclude.includes(key) || value === undefined) return []
+    const values = Array.isArray(value) ? value : [value]
+    return values.filter(Boolean).map(v => [key, v] as [string, string])
+  })
+}
+
+/**
+ * Builds a homepage href from [name, value] pairs
+ */
+export function buildDirectoryHref(entries: [string, string][]): string {
+  const query = new URLSearchParams(entries).toString()
+  return query ? `/?${query}` : '/'
+}
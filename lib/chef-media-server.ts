@@ -0,0 +1,261 @@
+/**
+ * Chef Media Storage
+ *
+ * Live chef photos and videos are stored in the public `chefs` bucket under
+ * the chef's id ({chefId}/profile/..., {chefId}/food/..., {chefId}/video/...).
+ * Application uploads stay in the private chef-applications bucket and are
+ * copied here when an application is approved.
+ *
+ * Photos are processed on the way in (lib/image-processing-server.ts): the
+ * stored original has no metadata, and its AVIF/WebP variants sit next to it
+ * as {name}_{width}.{format}.
+ */
+
+import type { createSupabaseAdminClient } from './supabase-admin'
+import { STORAGE_CONFIG, type FileUploadResult } from './storage'
+import type { ApplicationFileUploads } from './application-drafts'
+import { imageVariantUrls, type ImageVariants } from './image-variants'
+import { processImage, type ProcessedImage } from './image-processing-server'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+export const CHEF_MEDIA_BUCKET = 'chefs'
+
+export type ChefMediaFolder = 'profile' | 'food' | 'video'
+
+/**
+ * Public URLs of an application's media once copied for its chef, in
+ * display order
+ */
+export interface CopiedApplicationMedia {
+  profile_photo_url: string | null
+  profile_photo_variants: ImageVariants | null
+  food_photo_urls: string[]
+  // Same order as food_photo_urls
+  food_photo_variants: (ImageVariants | null)[]
+  video_urls: string[]
+}
+
+function chefMediaPath(chefId: string, folder: ChefMediaFolder, originalName: string): string {
+  const fileExt = originalName.split('.').pop()
+  const random = Math.random().toString(36).substring(2, 15)
+  return `${chefId}/${folder}/${Date.now()}_${random}.${fileExt}`
+}
+
+function publicUrl(supabase: AdminClient, path: string): string {
+  return supabase.storage.from(CHEF_MEDIA_BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+/**
+ * Uploads a processed photo and its variants
+ *
+ * All or nothing: if any upload fails, the files uploaded so far are removed
+ * and the error is thrown.
+ */
+async function uploadProcessedImage(supabase: AdminClient, path: string, image: ProcessedImage): Promise<ImageVariants> {
+  const uploadedPaths: string[] = []
+  const stem = path.replace(/\.[^./]+$/, '')
+
+  const upload = async (filePath: string, data: Buffer, contentType: string) => {
+    const { error } = await supabase.storage
+      .from(CHEF_MEDIA_BUCKET)
+      .upload(filePath, data, {
+        cacheControl: '3600',
+        contentType,
+        upsert: false
+      })
+
+    if (error) {
+      throw error
+    }
+
+    uploadedPaths.push(filePath)
+  }
+
+  try {
+    await upload(path, image.data, image.contentType)
+
+    const variants: ImageVariants = {
+      width: image.width,
+      height: image.height,
+      placeholder: image.placeholder,
+      avif: [],
+      webp: [],
+    }
+
+    for (const variant of image.variants) {
+      const variantPath = `${stem}_${variant.width}.${variant.format}`
+      await upload(variantPath, variant.data, `image/${variant.format}`)
+      variants[variant.format].push({ width: variant.width, url: publicUrl(supabase, variantPath) })
+    }
+
+    return variants
+  } catch (error) {
+    await removeChefMedia(supabase, uploadedPaths)
+    throw error
+  }
+}
+
+/**
+ * Uploads a photo or video to a chef's folder
+ *
+ * Photos are stripped of metadata and get responsive variants; videos are
+ * stored as received.
+ *
+ * @returns Public URL of the upload and the photo's variants, or the error
+ */
+export async function uploadChefMedia(
+  supabase: AdminClient,
+  chefId: string,
+  folder: ChefMediaFolder,
+  file: File
+): Promise<{ url: string | null; variants: ImageVariants | null; error: Error | null }> {
+  const path = chefMediaPath(chefId, folder, file.name)
+
+  if (folder !== 'video') {
+    try {
+      const image = await processImage(Buffer.from(await file.arrayBuffer()))
+      const variants = await uploadProcessedImage(supabase, path, image)
+      return { url: publicUrl(supabase, path), variants, error: null }
+    } catch (error) {
+      return { url: null, variants: null, error: error instanceof Error ? error : new Error('Failed to process photo') }
+    }
+  }
+
+  const { error } = await supabase.storage
+    .from(CHEF_MEDIA_BUCKET)
+    .upload(path, file, {
+      cacheControl: '3600',
+      upsert: false
+    })
+
+  if (error) {
+    return { url: null, variants: null, error }
+  }
+
+  return { url: publicUrl(supabase, path), variants: null, error: null }
+}
+
+/**
+ * Downloads and processes an application photo
+ *
+ * @returns The processed photo, or null if it isn't an image sharp can read
+ * @throws If the download fails
+ */
+async function processApplicationPhoto(supabase: AdminClient, fileName: string): Promise<ProcessedImage | null> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_CONFIG.BUCKET_NAME)
+    .download(fileName)
+
+  if (error || !data) {
+    throw error || new Error(`Failed to download ${fileName}`)
+  }
+
+  try {
+    return await processImage(Buffer.from(await data.arrayBuffer()))
+  } catch (processError) {
+    console.error(`Error processing application photo ${fileName}:`, processError)
+    return null
+  }
+}
+
+/**
+ * Copies an application's profile photo, food photos and introduction videos
+ * into the chef's folder
+ *
+ * Photos are processed like any other chef photo. One that can't be read is
+ * left out rather than published with its metadata, so it doesn't block the
+ * approval.
+ *
+ * All or nothing: if any copy fails, the files copied so far are removed and
+ * the error is thrown.
+ */
+export async function copyApplicationMedia(
+  supabase: AdminClient,
+  fileUploads: Partial<ApplicationFileUploads>,
+  chefId: string
+): Promise<CopiedApplicationMedia> {
+  const copiedPaths: string[] = []
+
+  const copyFiles = async (
+    files: FileUploadResult[] | undefined,
+    folder: ChefMediaFolder
+  ): Promise<{ url: string; variants: ImageVariants | null }[]> => {
+    const copies: { url: string; variants: ImageVariants | null }[] = []
+
+    for (const file of files || []) {
+      if (!file.fileName) continue
+
+      const path = chefMediaPath(chefId, folder, file.fileName)
+
+      if (folder !== 'video') {
+        const image = await processApplicationPhoto(supabase, file.fileName)
+        if (!image) continue
+
+        const variants = await uploadProcessedImage(supabase, path, image)
+        copiedPaths.push(path, ...imageVariantUrls(variants))
+        copies.push({ url: publicUrl(supabase, path), variants })
+        continue
+      }
+
+      const { error } = await supabase.storage
+        .from(STORAGE_CONFIG.BUCKET_NAME)
+        .copy(file.fileName, path, { destinationBucket: CHEF_MEDIA_BUCKET })
+
+      if (error) {
+        throw error
+      }
+
+      copiedPaths.push(path)
+      copies.push({ url: publicUrl(supabase, path), variants: null })
+    }
+
+    return copies
+  }
+
+  try {
+    const [profilePhoto] = await copyFiles(fileUploads.profile_photos?.slice(0, 1), 'profile')
+    const foodPhotos = await copyFiles(fileUploads.food_photos, 'food')
+    const videos = await copyFiles(fileUploads.introduction_videos, 'video')
+
+    return {
+      profile_photo_url: profilePhoto?.url || null,
+      profile_photo_variants: profilePhoto?.variants || null,
+      food_photo_urls: foodPhotos.map(photo => photo.url),
+      food_photo_variants: foodPhotos.map(photo => photo.variants),
+      video_urls: videos.map(video => video.url),
+    }
+  } catch (error) {
+    await removeChefMedia(supabase, copiedPaths)
+    throw error
+  }
+}
+
+/**
+ * Storage path of a chefs bucket public URL, or null for any other URL
+ */
+export function chefMediaPathFromUrl(url: string): string | null {
+  const marker = `/storage/v1/object/public/${CHEF_MEDIA_BUCKET}/`
+  const index = url.indexOf(marker)
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length))
+}
+
+/**
+ * Removes files from the chefs bucket, by path or public URL
+ */
+export async function removeChefMedia(supabase: AdminClient, pathsOrUrls: string[]): Promise<void> {
+  const paths = pathsOrUrls
+    .map(value => chefMediaPathFromUrl(value) ?? value)
+    .filter(path => !path.startsWith('http'))
+
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(CHEF_MEDIA_BUCKET)
+    .remove(paths)
+
+  if (error) {
+    console.error('Error removing chef media:', error)
+    // Continue anyway - leftover files are only wasted space
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Chef Portal Session
+ *
+ * Server-only helpers that tie a signed-in portal user to a chef. Chefs have no
+ * email column, so the link is the email on their approved chef_applications
+ * record (chef_applications.applicant_email).
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import { createSupabaseServerClient } from './supabase-server'
+import { normalisePortalEmail } from './chef-portal'
+
+export interface PortalChef {
+  chefId: string
+  chefName: string
+  userId: string
+  email: string
+}
+
+/**
+ * Finds the chef whose approved application used this email
+ *
+ * @param email - Email as typed by the chef
+ * @returns Chef id and name, or null if there is no approved, live chef
+ */
+export async function findApprovedChefByEmail(email: string): Promise<{ chefId: string; chefName: string } | null> {
+  const supabase = createSupabaseAdminClient()
+
+  const { data: application } = await supabase
+    .from('chef_applications')
+    .select('chef_id, chefs(id, name, status)')
+    .eq('applicant_email', normalisePortalEmail(email))
+    .eq('status', 'approved')
+    .not('chef_id', 'is', null)
+    .order('approved_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const chef = application?.chefs as { id: string; name: string; status: string } | null | undefined
+  if (!chef || chef.status === 'deleted') {
+    return null
+  }
+
+  return { chefId: chef.id, chefName: chef.name }
+}
+
+/**
+ * Resolves the current portal session to a chef
+ *
+ * Always re-checked on the server - the session only proves the email, the
+ * approved application decides which chef it can edit.
+ *
+ * @returns The signed-in chef, or null if not signed in or not a chef
+ */
+export async function getPortalChef(): Promise<PortalChef | null> {
+  const supabase = await createSupabaseServerClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user?.email) {
+    return null
+  }
+
+  const chef = await findApprovedChefByEmail(user.email)
+  if (!chef) {
+    return null
+  }
+
+  return { ...chef, userId: user.id, email: user.email }
+}
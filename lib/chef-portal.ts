@@ -0,0 +1,141 @@
+/**
+ * Chef Portal Utilities
+ *
+ * Shared field lists and types for the chef self-service portal. Used by the
+ * portal server actions, the portal forms and the admin change-request review
+ * so all three agree on which edits apply immediately and which need approval.
+ */
+
+/**
+ * Profile fields chefs can change themselves - applied immediately
+ */
+export const PORTAL_EDITABLE_FIELDS = [
+  'bio',
+  'experience_years',
+  'availability',
+  'languages_spoken',
+  'travel_distance',
+  'frequency_preference',
+  'special_events',
+  'house_help_services',
+  'dietary_specialties',
+] as const
+
+/**
+ * Fields customers rely on when booking - held for admin approval
+ */
+export const SENSITIVE_FIELDS = ['hourly_rate', 'minimum_booking'] as const
+
+export type PortalEditableField = typeof PORTAL_EDITABLE_FIELDS[number]
+export type SensitiveField = typeof SENSITIVE_FIELDS[number]
+
+export const PORTAL_FIELD_LABELS: Record<PortalEditableField | SensitiveField, string> = {
+  bio: 'Bio',
+  experience_years: 'Years of experience',
+  availability: 'Availability notes',
+  languages_spoken: 'Languages spoken',
+  travel_distance: 'Travel distance (miles)',
+  frequency_preference: 'Frequency preference',
+  special_events: 'Special events',
+  house_help_services: 'House help services',
+  dietary_specialties: 'Dietary specialties',
+  hourly_rate: 'Hourly rate (£)',
+  minimum_booking: 'Minimum booking (hours)',
+}
+
+export const PORTAL_CONFIG = {
+  MAX_BIO_LENGTH: 2000,
+  MAX_TEXT_LENGTH: 500,
+  MAX_HOURLY_RATE: 200,
+  MAX_MINIMUM_BOOKING: 12,
+  MAX_FOOD_PHOTOS: 20,
+  MAX_LINK_REQUESTS_PER_HOUR: 5,
+} as const
+
+/**
+ * Profile values submitted from the portal form
+ */
+export interface PortalProfileInput {
+  bio: string
+  experience_years: number | null
+  availability: string | null
+  languages_spoken: string | null
+  travel_distance: number | null
+  frequency_preference: string | null
+  special_events: string | null
+  house_help_services: string | null
+  dietary_specialties: string | null
+  hourly_rate: number
+  minimum_booking: number | null
+}
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'superseded'
+
+/**
+ * Sensitive change as stored in chef_profile_change_requests
+ */
+export interface ChefChangeRequest {
+  id: string
+  chef_id: string
+  changes: Partial<Record<SensitiveField, number | null>>
+  previous_values: Partial<Record<SensitiveField, number | null>>
+  status: ChangeRequestStatus
+  review_notes: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+/**
+ * Validates portal profile values
+ *
+ * @returns Error message, or null if valid
+ */
+export function validatePortalProfile(data: PortalProfileInput): string | null {
+  if (!data.bio.trim()) {
+    return 'Please add a short bio'
+  }
+
+  if (data.bio.length > PORTAL_CONFIG.MAX_BIO_LENGTH) {
+    return `Bio must be ${PORTAL_CONFIG.MAX_BIO_LENGTH} characters or fewer`
+  }
+
+  const textFields: PortalEditableField[] = [
+    'availability',
+    'languages_spoken',
+    'frequency_preference',
+    'special_events',
+    'house_help_services',
+    'dietary_specialties',
+  ]
+  for (const field of textFields) {
+    const value = data[field]
+    if (typeof value === 'string' && value.length > PORTAL_CONFIG.MAX_TEXT_LENGTH) {
+      return `${PORTAL_FIELD_LABELS[field]} must be ${PORTAL_CONFIG.MAX_TEXT_LENGTH} characters or fewer`
+    }
+  }
+
+  if (!Number.isFinite(data.hourly_rate) || data.hourly_rate <= 0 || data.hourly_rate > PORTAL_CONFIG.MAX_HOURLY_RATE) {
+    return `Hourly rate must be between £1 and £${PORTAL_CONFIG.MAX_HOURLY_RATE}`
+  }
+
+  if (data.minimum_booking !== null &&
+      (!Number.isFinite(data.minimum_booking) || data.minimum_booking <= 0 || data.minimum_booking > PORTAL_CONFIG.MAX_MINIMUM_BOOKING)) {
+    return `Minimum booking must be between 1 and ${PORTAL_CONFIG.MAX_MINIMUM_BOOKING} hours`
+  }
+
+  for (const field of ['experience_years', 'travel_distance'] as const) {
+    const value = data[field]
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      return `${PORTAL_FIELD_LABELS[field]} must be a positive number`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Normalises an email for matching against chef_applications.applicant_email
+ */
+export function normalisePortalEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
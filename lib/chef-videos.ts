@@ -0,0 +1,58 @@
+/**
+ * Chef Video Utilities
+ *
+ * Introduction videos are stored as uploaded, then picked up by
+ * /api/cron/process-chef-videos (lib/video-processing-server.ts), which
+ * checks their length and transcodes them to a web-friendly MP4 with a
+ * poster frame. Only ready videos are shown on the chef page.
+ */
+
+import { STORAGE_CONFIG } from './storage'
+
+export type ChefVideoStatus = 'pending' | 'processing' | 'ready' | 'rejected' | 'failed'
+
+export interface ChefVideo {
+  id: string
+  video_url: string
+  poster_url: string | null
+  status: ChefVideoStatus
+  duration_seconds: number | null
+  processing_error: string | null
+  display_order: number | null
+}
+
+export const CHEF_VIDEO_STATUS_LABELS: Record<ChefVideoStatus, string> = {
+  pending: 'Waiting to process',
+  processing: 'Processing',
+  ready: 'Ready',
+  rejected: 'Rejected',
+  failed: 'Processing failed',
+}
+
+export const VIDEO_PROCESSING_CONFIG = {
+  MAX_DURATION: STORAGE_CONFIG.MAX_VIDEO_DURATION, // seconds
+  // Longest side of the transcoded video
+  MAX_DIMENSION: 1280,
+  VIDEO_BITRATE: '2000k',
+  MAX_VIDEO_BITRATE: '2500k',
+  VIDEO_BUFFER_SIZE: '5000k',
+  AUDIO_BITRATE: '128k',
+  // Seconds into the video for the poster frame (or halfway, if shorter)
+  POSTER_AT: 1,
+  // Videos per cron run - transcoding is slow
+  BATCH_SIZE: 2,
+  MAX_ATTEMPTS: 3,
+  // A video still processing after this long is assumed abandoned and retried
+  STALE_AFTER_MINUTES: 30,
+  // Per ffmpeg/ffprobe call
+  COMMAND_TIMEOUT_MS: 4 * 60 * 1000,
+} as const
+
+/**
+ * Videos the public can see, in display order
+ */
+export function readyChefVideos<T extends Pick<ChefVideo, 'status' | 'display_order'>>(videos: T[] | null | undefined): T[] {
+  return (videos || [])
+    .filter(video => video.status === 'ready')
+    .sort((a, b) => (a.display_order || 0) - (b.display_order || 0))
+}
@@ -16,6 +16,14 @@ export function hashIP(ip: string): string {
   return crypto.createHash('sha256').update(ip.trim()).digest('hex')
 }
 
+/**
+ * Hash a secret link token before storing it
+ * Links carry the raw token; the database only keeps the hash
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
 /**
  * Generate a cryptographically secure random token
  * Used for verification links and other security tokens
@@ -1,17 +1,28 @@
+import type { ImageVariants } from './image-variants'
+import type { ChefDocumentType } from './chef-documents'
+
 export interface Chef {
   id: string
   name: string
   photo: string
+  // Responsive variants of photo, when it has them
+  photoVariants?: ImageVariants | null
   foodPhotos: string[]
   cuisines: string[]
   hourlyRate: number
   phone: string
   verified: boolean
+  // Checks backed by an approved, unexpired document (chef_current_checks)
+  checks?: ChefDocumentType[]
   bio: string
   // Location fields - optional since they might not be set
   location?: string
   latitude?: number
   longitude?: number
+  // Distance from a searched postcode, only set on postcode searches
+  distanceMiles?: number
+  // Bio excerpt with matches wrapped in [[ ]], only set on text searches
+  searchSnippet?: string
   // Review fields - populated from database queries
   avgRating?: number
   reviewCount?: number
@@ -23,10 +34,29 @@ export interface Review {
   rating: number
   comment: string | null
   reviewer_name: string | null
-  status: 'awaiting_email' | 'awaiting_moderation' | 'published' | 'spam'
+  status: 'awaiting_email' | 'awaiting_moderation' | 'published' | 'spam' | 'expired'
   published_at: string
   verified_at: string | null
   created_at: string
+  // Chef's reply - only published replies are shown publicly
+  reply?: ReviewReply | null
+  // Signed URLs, only loaded for published reviews
+  photos?: ReviewPhoto[]
+}
+
+export interface ReviewPhoto {
+  id: string
+  url: string
+}
+
+export interface ReviewReply {
+  id: string
+  review_id: string
+  body: string
+  status: 'awaiting_moderation' | 'published' | 'spam'
+  created_at: string
+  updated_at: string
+  published_at: string | null
 }
 
 export const chefs: Chef[] = [
@@ -0,0 +1,133 @@
+/**
+ * Chef Dish Persistence
+ *
+ * Server-only writes for chef menus, shared by the admin chef editor and the
+ * chef portal so both validate and store dishes the same way.
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import { DISH_CONFIG, validateDish, type DishInput } from './dishes'
+
+/**
+ * Creates a dish, or updates it when dishId is given
+ *
+ * The photo must be one of the chef's own food photos.
+ *
+ * @returns Error message, or null on success
+ */
+export async function upsertChefDish(chefId: string, data: DishInput, dishId?: string): Promise<string | null> {
+  const validationError = validateDish(data)
+  if (validationError) return validationError
+
+  const supabase = createSupabaseAdminClient()
+
+  if (data.foodPhotoId) {
+    const { data: photo } = await supabase
+      .from('food_photos')
+      .select('id')
+      .eq('id', data.foodPhotoId)
+      .eq('chef_id', chefId)
+      .maybeSingle()
+
+    if (!photo) {
+      return 'Please choose one of your own food photos'
+    }
+  }
+
+  const values = {
+    name: data.name.trim(),
+    description: data.description?.trim() || null,
+    food_photo_id: data.foodPhotoId,
+    dietary_tags: [...new Set(data.dietaryTags)],
+    allergens: [...new Set(data.allergens)],
+  }
+
+  if (dishId) {
+    const { data: updated, error } = await supabase
+      .from('chef_dishes')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', dishId)
+      .eq('chef_id', chefId)
+      .select('id')
+
+    if (error) {
+      console.error('Error updating dish:', error)
+      return 'Failed to update dish'
+    }
+
+    return updated && updated.length > 0 ? null : 'Dish not found'
+  }
+
+  const { data: existing, error: countError } = await supabase
+    .from('chef_dishes')
+    .select('display_order')
+    .eq('chef_id', chefId)
+
+  if (countError) {
+    console.error('Error loading dishes:', countError)
+    return 'Failed to add dish'
+  }
+
+  if ((existing?.length || 0) >= DISH_CONFIG.MAX_DISHES) {
+    return `Menus can have up to ${DISH_CONFIG.MAX_DISHES} dishes`
+  }
+
+  const nextOrder = Math.max(0, ...(existing || []).map(d => d.display_order || 0)) + 1
+
+  const { error: insertError } = await supabase
+    .from('chef_dishes')
+    .insert({ ...values, chef_id: chefId, display_order: nextOrder })
+
+  if (insertError) {
+    console.error('Error inserting dish:', insertError)
+    return 'Failed to add dish'
+  }
+
+  return null
+}
+
+/**
+ * Deletes one of a chef's dishes
+ *
+ * @returns Error message, or null on success
+ */
+export async function removeChefDish(chefId: string, dishId: string): Promise<string | null> {
+  const supabase = createSupabaseAdminClient()
+
+  const { error } = await supabase
+    .from('chef_dishes')
+    .delete()
+    .eq('id', dishId)
+    .eq('chef_id', chefId)
+
+  if (error) {
+    console.error('Error deleting dish:', error)
+    return 'Failed to delete dish'
+  }
+
+  return null
+}
+
+/**
+ * Saves menu order from a list of dish ids
+ *
+ * @returns Error message, or null on success
+ */
+export async function reorderChefDishes(chefId: string, dishIds: string[]): Promise<string | null> {
+  const supabase = createSupabaseAdminClient()
+
+  for (const [index, dishId] of dishIds.entries()) {
+    const { error } = await supabase
+      .from('chef_dishes')
+      .update({ display_order: index + 1 })
+      .eq('id', dishId)
+      .eq('chef_id', chefId)
+
+    if (error) {
+      console.error('Error reordering dishes:', error)
+      return 'Failed to reorder dishes'
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,172 @@
+/**
+ * Chef Dish Menu Utilities
+ *
+ * Dish types, dietary tags and the 14 UK allergens, shared by the profile
+ * menu, the homepage menu filters and the admin/chef portal editors.
+ */
+
+export const DIETARY_TAGS = ['vegetarian', 'vegan', 'halal', 'jain'] as const
+
+// The 14 allergens caterers must declare under UK food information law
+export const UK_ALLERGENS = [
+  'celery',
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'lupin',
+  'milk',
+  'molluscs',
+  'mustard',
+  'tree_nuts',
+  'peanuts',
+  'sesame',
+  'soya',
+  'sulphites',
+] as const
+
+export type DietaryTag = typeof DIETARY_TAGS[number]
+export type Allergen = typeof UK_ALLERGENS[number]
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  halal: 'Halal',
+  jain: 'Jain',
+}
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  celery: 'Celery',
+  gluten: 'Cereals containing gluten',
+  crustaceans: 'Crustaceans',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  lupin: 'Lupin',
+  milk: 'Milk',
+  molluscs: 'Molluscs',
+  mustard: 'Mustard',
+  tree_nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  sesame: 'Sesame',
+  soya: 'Soya',
+  sulphites: 'Sulphites',
+}
+
+export const DISH_CONFIG = {
+  MAX_DISHES: 30,
+  MAX_NAME_LENGTH: 80,
+  MAX_DESCRIPTION_LENGTH: 500,
+} as const
+
+export interface Dish {
+  id: string
+  name: string
+  description: string | null
+  foodPhotoId: string | null
+  photoUrl: string | null
+  dietaryTags: DietaryTag[]
+  allergens: Allergen[]
+  displayOrder: number
+}
+
+/**
+ * Dish values submitted from an editor
+ */
+export interface DishInput {
+  name: string
+  description: string | null
+  foodPhotoId: string | null
+  dietaryTags: DietaryTag[]
+  allergens: Allergen[]
+}
+
+interface DishRow {
+  id: string
+  name: string
+  description: string | null
+  food_photo_id: string | null
+  dietary_tags: string[] | null
+  allergens: string[] | null
+  display_order: number | null
+  food_photos?: { photo_url: string } | { photo_url: string }[] | null
+}
+
+export function isDietaryTag(value: string): value is DietaryTag {
+  return (DIETARY_TAGS as readonly string[]).includes(value)
+}
+
+export function isAllergen(value: string): value is Allergen {
+  return (UK_ALLERGENS as readonly string[]).includes(value)
+}
+
+/**
+ * Converts a database row (optionally joined to food_photos) to a dish
+ */
+export function toDish(row: DishRow): Dish {
+  // Supabase types a to-one join as an array when the client is untyped
+  const photo = Array.isArray(row.food_photos) ? row.food_photos[0] : row.food_photos
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    foodPhotoId: row.food_photo_id,
+    photoUrl: photo?.photo_url || null,
+    dietaryTags: (row.dietary_tags || []).filter(isDietaryTag),
+    allergens: (row.allergens || []).filter(isAllergen),
+    displayOrder: row.display_order || 0,
+  }
+}
+
+/**
+ * Sorts dishes into menu order
+ */
+export function sortDishes<T extends { displayOrder: number; name: string }>(dishes: T[]): T[] {
+  return [...dishes].sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name))
+}
+
+/**
+ * Validates dish values from an editor
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateDish(data: DishInput): string | null {
+  const name = data.name.trim()
+  if (!name) {
+    return 'Please enter a dish name'
+  }
+
+  if (name.length > DISH_CONFIG.MAX_NAME_LENGTH) {
+    return `Dish name must be ${DISH_CONFIG.MAX_NAME_LENGTH} characters or fewer`
+  }
+
+  if (data.description && data.description.length > DISH_CONFIG.MAX_DESCRIPTION_LENGTH) {
+    return `Description must be ${DISH_CONFIG.MAX_DESCRIPTION_LENGTH} characters or fewer`
+  }
+
+  if (!data.dietaryTags.every(isDietaryTag)) {
+    return 'Invalid dietary tag'
+  }
+
+  if (!data.allergens.every(isAllergen)) {
+    return 'Invalid allergen'
+  }
+
+  // Vegan dishes can't contain animal products
+  if (data.dietaryTags.includes('vegan') && data.allergens.some(a => ['eggs', 'milk', 'fish', 'crustaceans', 'molluscs'].includes(a))) {
+    return 'A vegan dish cannot contain eggs, milk, fish or shellfish'
+  }
+
+  return null
+}
+
+/**
+ * Whether a dish has every selected tag and none of the excluded allergens
+ */
+export function dishMatches(
+  dish: { dietaryTags: DietaryTag[]; allergens: Allergen[] },
+  tags: DietaryTag[],
+  freeFrom: Allergen[]
+): boolean {
+  return tags.every(tag => dish.dietaryTags.includes(tag)) &&
+    !freeFrom.some(allergen => dish.allergens.includes(allergen))
+}
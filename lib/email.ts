@@ -53,12 +53,13 @@ export async function sendReviewVerificationEmail(
 
 /**
  * Send application confirmation email to chef
- * Confirms their application has been received and is under review
+ * Confirms their application has been received and links to the status page
  */
 export async function sendApplicationConfirmationEmail(
   email: string,
   chefName: string,
-  applicationId: string
+  applicationId: string,
+  statusUrl: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // === TEST MODE: Bypass email sending in development ===
@@ -66,6 +67,7 @@ export async function sendApplicationConfirmationEmail(
       console.log('🧪 TEST MODE: Application confirmation email would be sent to:', email)
       console.log('🧪 TEST MODE: Chef Name:', chefName)
       console.log('🧪 TEST MODE: Application ID:', applicationId)
+      console.log('🧪 TEST MODE: Status URL:', statusUrl)
       return { success: true }
     }
 
@@ -77,7 +79,7 @@ export async function sendApplicationConfirmationEmail(
       from: 'Tastes Like Home <noreply@tastes-like-home.com>',
       to: email,
       subject: 'Application Received - Welcome to Tastes Like Home!',
-      html: createApplicationConfirmationHTML(chefName, applicationId)
+      html: createApplicationConfirmationHTML(chefName, applicationId, statusUrl)
     })
     
     return { success: true }
@@ -212,6 +214,407 @@ export async function sendApplicationRejectionEmail(
   }
 }
 
+/**
+ * Send an admin's request for more information to an applicant
+ * The applicant responds, with any extra files, on their application status page
+ */
+export async function sendApplicationQuestionEmail(
+  email: string,
+  chefName: string,
+  question: string,
+  statusUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Application question email would be sent to:', email)
+      console.log('🧪 TEST MODE: Question:', question)
+      console.log('🧪 TEST MODE: Status URL:', statusUrl)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: email,
+      subject: 'More information needed for your chef application',
+      html: createApplicationQuestionHTML(chefName, question, statusUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Application question email failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send question email'
+    }
+  }
+}
+
+/**
+ * Send admin alert when an applicant responds to an information request
+ */
+export async function sendAdminApplicantReplyAlert(
+  chefName: string,
+  applicationId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Applicant reply alert would be sent for:', chefName)
+      console.log('🧪 TEST MODE: Application ID:', applicationId)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    const adminEmail = process.env.ADMIN_EMAIL || 'admin@tastes-like-home.com'
+    const reviewUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/admin/applications/${applicationId}`
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: adminEmail,
+      subject: `Applicant replied: ${chefName}`,
+      html: createApplicantReplyAlertHTML(chefName, reviewUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Applicant reply alert failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send reply alert'
+    }
+  }
+}
+
+/**
+ * Send the resume link for a saved application draft
+ * The link carries the draft token, so anyone with it can continue the draft
+ */
+export async function sendApplicationDraftEmail(
+  email: string,
+  chefName: string | null,
+  resumeUrl: string,
+  retentionDays: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Application draft email would be sent to:', email)
+      console.log('🧪 TEST MODE: Resume URL:', resumeUrl)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: email,
+      subject: 'Finish your Tastes Like Home chef application',
+      html: createApplicationDraftHTML(chefName, resumeUrl, retentionDays)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Application draft email failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send draft email'
+    }
+  }
+}
+
+/**
+ * ============================================================================
+ * BOOKING EMAIL FUNCTIONS
+ * ============================================================================
+ */
+
+/**
+ * Booking details shown in booking emails
+ */
+export interface BookingEmailDetails {
+  when: string // Pre-formatted date and start time
+  hours: number
+  guestCount: number
+  addressArea: string
+  notes?: string | null
+}
+
+/**
+ * Send new booking request to the chef
+ * Contains a secure link to accept, decline or suggest another time
+ */
+export async function sendBookingRequestEmail(
+  email: string,
+  chefName: string,
+  customerName: string,
+  details: BookingEmailDetails,
+  respondUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Booking request email would be sent to:', email)
+      console.log('🧪 TEST MODE: Chef Name:', chefName)
+      console.log('🧪 TEST MODE: Respond URL:', respondUrl)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: email,
+      subject: `New booking request for ${details.when}`,
+      html: createBookingRequestHTML(chefName, customerName, details, respondUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Booking request email failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send booking request email'
+    }
+  }
+}
+
+/**
+ * Send booking update email to the customer or chef
+ * Used for every status change after the initial request
+ */
+export async function sendBookingUpdateEmail(
+  email: string,
+  recipientName: string,
+  update: {
+    subject: string
+    heading: string
+    message: string
+    chefMessage?: string | null
+  },
+  details: BookingEmailDetails,
+  bookingUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Booking update email would be sent to:', email)
+      console.log('🧪 TEST MODE: Subject:', update.subject)
+      console.log('🧪 TEST MODE: Booking URL:', bookingUrl)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: email,
+      subject: update.subject,
+      html: createBookingUpdateHTML(recipientName, update, details, bookingUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Booking update email failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send booking update email'
+    }
+  }
+}
+
+/**
+ * ============================================================================
+ * CHEF PORTAL EMAIL FUNCTIONS
+ * ============================================================================
+ */
+
+/**
+ * Send chef portal sign-in link
+ * The link is single-use and expires after the Supabase magic link lifetime
+ */
+export async function sendChefPortalLoginEmail(
+  email: string,
+  chefName: string,
+  loginUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Chef portal login email would be sent to:', email)
+      console.log('🧪 TEST MODE: Chef Name:', chefName)
+      console.log('🧪 TEST MODE: Login URL:', loginUrl)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: email,
+      subject: 'Your Tastes Like Home chef portal sign-in link',
+      html: createChefPortalLoginHTML(chefName, loginUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Chef portal login email failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send sign-in email'
+    }
+  }
+}
+
+/**
+ * ============================================================================
+ * CHEF DOCUMENT EMAIL FUNCTIONS
+ * ============================================================================
+ */
+
+/**
+ * A verification document in reminder and alert emails
+ */
+export interface DocumentEmailDetails {
+  chefId: string
+  chefName: string
+  documentLabel: string
+  expiresOn: string // Pre-formatted date
+  daysLeft?: number
+}
+
+/**
+ * Send admin alert when a chef uploads a verification document for review
+ */
+export async function sendAdminDocumentUploadAlert(
+  document: DocumentEmailDetails
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Document upload alert would be sent for:', document.chefName)
+      console.log('🧪 TEST MODE: Document:', document.documentLabel)
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    const adminEmail = process.env.ADMIN_EMAIL || 'admin@tastes-like-home.com'
+    const reviewUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/admin/chefs/${document.chefId}`
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: adminEmail,
+      subject: `Document to review: ${document.documentLabel} from ${document.chefName}`,
+      html: createDocumentUploadAlertHTML(document, reviewUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Document upload alert failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send document upload alert'
+    }
+  }
+}
+
+/**
+ * Send a chef a reminder that verification documents are about to expire
+ * Links to the chef portal, where they can upload a replacement
+ */
+export async function sendChefDocumentExpiryEmail(
+  email: string,
+  chefName: string,
+  documents: DocumentEmailDetails[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Document expiry reminder would be sent to:', email)
+      console.log('🧪 TEST MODE: Documents:', documents.map(d => `${d.documentLabel} (${d.expiresOn})`).join(', '))
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    const portalUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/chef-portal`
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: email,
+      subject: documents.length === 1
+        ? `Your ${documents[0].documentLabel} expires on ${documents[0].expiresOn}`
+        : 'Your verification documents are about to expire',
+      html: createChefDocumentExpiryHTML(chefName, documents, portalUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Document expiry reminder failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send document expiry reminder'
+    }
+  }
+}
+
+/**
+ * Send admin a summary of verification documents about to expire
+ */
+export async function sendAdminDocumentExpiryAlert(
+  documents: DocumentEmailDetails[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // === TEST MODE: Bypass email sending in development ===
+    if (process.env.REVIEW_TEST_MODE === 'true') {
+      console.log('🧪 TEST MODE: Document expiry alert would be sent for', documents.length, 'documents')
+      return { success: true }
+    }
+
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY environment variable is not set')
+    }
+
+    const adminEmail = process.env.ADMIN_EMAIL || 'admin@tastes-like-home.com'
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || ''
+
+    await resend.emails.send({
+      from: 'Tastes Like Home <noreply@tastes-like-home.com>',
+      to: adminEmail,
+      subject: `${documents.length} chef document${documents.length !== 1 ? 's' : ''} expiring soon`,
+      html: createAdminDocumentExpiryHTML(documents, siteUrl)
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Document expiry alert failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send document expiry alert'
+    }
+  }
+}
+
 /**
  * ============================================================================
  * EMAIL HTML TEMPLATES
@@ -276,7 +679,7 @@ function createVerificationEmailHTML(chefName: string, verificationUrl: string):
 /**
  * Create HTML template for application confirmation email
  */
-function createApplicationConfirmationHTML(chefName: string, applicationId: string): string {
+function createApplicationConfirmationHTML(chefName: string, applicationId: string, statusUrl: string): string {
   const onboardingUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/onboarding`
   const referUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/apply`
   
@@ -313,7 +716,11 @@ function createApplicationConfirmationHTML(chefName: string, applicationId: stri
 
         <!-- Action Buttons -->
         <div style="text-align: center; margin: 30px 0;">
-          <a href="${onboardingUrl}" 
+          <a href="${statusUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none; margin: 0 10px 10px 0;">
+            Check My Application
+          </a>
+          <a href="${onboardingUrl}" 
              style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none; margin: 0 10px 10px 0;">
             Get Ready - Chef Guide
           </a>
@@ -331,7 +738,7 @@ function createApplicationConfirmationHTML(chefName: string, applicationId: stri
             <strong>Application ID:</strong> ${applicationId.substring(0, 8)}
           </p>
           <p style="color: #6b7280; font-size: 14px; margin: 0;">
-            We will email you when we have news.
+            We will email you when we have news. You can also check your application any time from the link above - keep it private.
           </p>
         </div>
       </div>
@@ -570,4 +977,473 @@ function createRejectionEmailHTML(chefName: string, reason?: string): string {
     </body>
     </html>
   `
-} 
\ No newline at end of file
+} 
+
+/**
+ * Escape user-provided text before placing it in email HTML
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Create the booking details table shared by booking emails
+ */
+function createBookingDetailsHTML(details: BookingEmailDetails): string {
+  const row = (label: string, value: string) => `
+          <tr>
+            <td style="color: #6b7280; padding: 6px 0; font-size: 14px; width: 120px;">${label}</td>
+            <td style="color: #111827; padding: 6px 0; font-size: 14px; font-weight: 600;">${value}</td>
+          </tr>`
+
+  return `
+        <table style="width: 100%; background: #fff; padding: 15px 20px; border-radius: 6px; border: 1px solid #e5e7eb; margin: 20px 0;">
+          ${row('When', escapeHTML(details.when))}
+          ${row('Hours', `${details.hours}`)}
+          ${row('Guests', `${details.guestCount}`)}
+          ${row('Area', escapeHTML(details.addressArea))}
+          ${details.notes ? row('Notes', escapeHTML(details.notes)) : ''}
+        </table>`
+}
+
+/**
+ * Create HTML template for new booking request (sent to chef)
+ */
+function createBookingRequestHTML(
+  chefName: string,
+  customerName: string,
+  details: BookingEmailDetails,
+  respondUrl: string
+): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>New Booking Request</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #ea580c; margin: 0; font-size: 28px;">Tastes Like Home</h1>
+        <p style="color: #666; margin: 5px 0 0 0; font-size: 14px;">Authentic home cooking</p>
+      </div>
+
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">Hi ${chefName}, you have a new booking request!</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          ${escapeHTML(customerName)} would like to book you. Please reply quickly - families book the chef who answers first.
+        </p>
+
+        ${createBookingDetailsHTML(details)}
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${respondUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            Accept, Decline or Suggest a Time
+          </a>
+        </div>
+        
+        <div style="border-top: 1px solid #e5e7eb; padding-top: 20px; margin-top: 30px;">
+          <p style="color: #6b7280; font-size: 14px; margin: 0;">
+            Keep this email - the link above is how you manage this booking.
+          </p>
+        </div>
+      </div>
+      
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          © 2025 Tastes Like Home. Bringing authentic home cooking to your table.
+        </p>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for booking status updates (customer or chef)
+ */
+function createBookingUpdateHTML(
+  recipientName: string,
+  update: { heading: string; message: string; chefMessage?: string | null },
+  details: BookingEmailDetails,
+  bookingUrl: string
+): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${update.heading}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #ea580c; margin: 0; font-size: 28px;">Tastes Like Home</h1>
+        <p style="color: #666; margin: 5px 0 0 0; font-size: 14px;">Authentic home cooking</p>
+      </div>
+
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">${update.heading}</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          Hi ${escapeHTML(recipientName)}, ${update.message}
+        </p>
+
+        ${update.chefMessage ? `
+        <div style="background: #fff7ed; padding: 15px 20px; border-radius: 6px; border: 1px solid #fdba74; margin: 20px 0;">
+          <p style="color: #9a3412; margin: 0; font-size: 15px;">${escapeHTML(update.chefMessage)}</p>
+        </div>` : ''}
+
+        ${createBookingDetailsHTML(details)}
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${bookingUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            View Booking
+          </a>
+        </div>
+      </div>
+      
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          © 2025 Tastes Like Home. Bringing authentic home cooking to your table.
+        </p>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for chef portal sign-in emails
+ */
+function createChefPortalLoginHTML(chefName: string, loginUrl: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Sign in to your chef portal</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #ea580c; margin: 0; font-size: 28px;">Tastes Like Home</h1>
+        <p style="color: #666; margin: 5px 0 0 0; font-size: 14px;">Authentic home cooking</p>
+      </div>
+
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">Sign in to your chef portal</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          Hi ${escapeHTML(chefName)}, use the button below to update your bio, rates, availability, cuisines and food photos.
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${loginUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            Open Chef Portal
+          </a>
+        </div>
+        
+        <p style="color: #6b7280; font-size: 14px; margin: 20px 0 0 0;">
+          This link works once and expires in 1 hour. If you didn't ask to sign in, you can ignore this email.
+        </p>
+      </div>
+      
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          © 2025 Tastes Like Home. Bringing authentic home cooking to your table.
+        </p>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for application draft resume emails
+ */
+function createApplicationDraftHTML(chefName: string | null, resumeUrl: string, retentionDays: number): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Finish your chef application</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #ea580c; margin: 0; font-size: 28px;">Tastes Like Home</h1>
+        <p style="color: #666; margin: 5px 0 0 0; font-size: 14px;">Authentic home cooking</p>
+      </div>
+
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">Your application is saved</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          ${chefName ? `Hi ${escapeHTML(chefName)}, we` : 'We'}'ve saved your answers and photos so far. Use the button below to pick up where you left off, on any device.
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${resumeUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            Continue My Application
+          </a>
+        </div>
+        
+        <p style="color: #6b7280; font-size: 14px; margin: 20px 0 0 0;">
+          Unfinished applications are deleted after ${retentionDays} days without changes. Keep this link private - anyone with it can see and edit your draft.
+        </p>
+      </div>
+      
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          © 2025 Tastes Like Home. Bringing authentic home cooking to your table.
+        </p>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for admin follow-up question emails
+ */
+function createApplicationQuestionHTML(chefName: string, question: string, statusUrl: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>More information needed</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #ea580c; margin: 0; font-size: 28px;">Tastes Like Home</h1>
+        <p style="color: #666; margin: 5px 0 0 0; font-size: 14px;">Authentic home cooking</p>
+      </div>
+
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">We need a little more information</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          Hi ${escapeHTML(chefName)}, we're looking at your application and have a request:
+        </p>
+
+        <div style="background: #fff; padding: 20px; border-radius: 6px; border: 1px solid #e5e7eb; margin: 20px 0; white-space: pre-wrap; color: #111827;">${escapeHTML(question)}</div>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${statusUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            Respond to Our Request
+          </a>
+        </div>
+        
+        <p style="color: #6b7280; font-size: 14px; margin: 20px 0 0 0;">
+          Please respond using the button above rather than replying to this email - you can upload photos or a video there too.
+        </p>
+      </div>
+      
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          © 2025 Tastes Like Home. Bringing authentic home cooking to your table.
+        </p>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for applicant reply alerts
+ */
+function createApplicantReplyAlertHTML(chefName: string, reviewUrl: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Applicant replied</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">${escapeHTML(chefName)} replied</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          The applicant has responded to your request for information and their application is back in the pending queue.
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${reviewUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            View Application
+          </a>
+        </div>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Describe how soon a document expires, e.g. "expires in 7 days (1 Dec 2025)"
+ */
+function describeDocumentExpiry(document: DocumentEmailDetails): string {
+  if (document.daysLeft === undefined) {
+    return `expires ${escapeHTML(document.expiresOn)}`
+  }
+  const when = document.daysLeft <= 0
+    ? 'expires today'
+    : `expires in ${document.daysLeft} day${document.daysLeft !== 1 ? 's' : ''}`
+  return `${when} (${escapeHTML(document.expiresOn)})`
+}
+
+/**
+ * Create HTML template for document upload alerts
+ */
+function createDocumentUploadAlertHTML(document: DocumentEmailDetails, reviewUrl: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Document to review</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">${escapeHTML(document.chefName)} uploaded a document</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          A new ${escapeHTML(document.documentLabel)} (${describeDocumentExpiry(document)}) is waiting for review.
+          It won't show as a check on their profile until it's approved.
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${reviewUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            Review Document
+          </a>
+        </div>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for document expiry reminders (sent to chef)
+ */
+function createChefDocumentExpiryHTML(chefName: string, documents: DocumentEmailDetails[], portalUrl: string): string {
+  const items = documents
+    .map(document => `<li style="margin: 0 0 8px 0;"><strong>${escapeHTML(document.documentLabel)}</strong> ${describeDocumentExpiry(document)}</li>`)
+    .join('')
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Your documents are about to expire</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #ea580c; margin: 0; font-size: 28px;">Tastes Like Home</h1>
+        <p style="color: #666; margin: 5px 0 0 0; font-size: 14px;">Authentic home cooking</p>
+      </div>
+
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">Time to renew your documents</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          Hi ${escapeHTML(chefName)}, these documents on your profile are about to expire:
+        </p>
+
+        <ul style="color: #374151; margin: 0 0 20px 0; padding-left: 20px; font-size: 16px;">
+          ${items}
+        </ul>
+
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          Once a document expires its check is no longer shown to families. Upload the renewed document from your chef portal and we'll review it.
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${portalUrl}" 
+             style="background-color: #ea580c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px; border: none;">
+            Open Chef Portal
+          </a>
+        </div>
+      </div>
+      
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+        <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+          © 2025 Tastes Like Home. Bringing authentic home cooking to your table.
+        </p>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Create HTML template for document expiry alerts (sent to admin)
+ */
+function createAdminDocumentExpiryHTML(documents: DocumentEmailDetails[], siteUrl: string): string {
+  const items = documents
+    .map(document => `<li style="margin: 0 0 8px 0;"><a href="${siteUrl}/admin/chefs/${document.chefId}" style="color: #ea580c;">${escapeHTML(document.chefName)}</a> - ${escapeHTML(document.documentLabel)} ${describeDocumentExpiry(document)}</li>`)
+    .join('')
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Chef documents expiring soon</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      
+      <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+        <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 24px;">Chef documents expiring soon</h2>
+        
+        <p style="color: #374151; margin: 0 0 20px 0; font-size: 16px;">
+          The chefs below have been reminded to upload renewed documents. Their checks drop off their profiles when these expire.
+        </p>
+
+        <ul style="color: #374151; margin: 0; padding-left: 20px; font-size: 16px;">
+          ${items}
+        </ul>
+      </div>
+      
+    </body>
+    </html>
+  `
+}
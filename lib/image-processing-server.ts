@@ -0,0 +1,85 @@
+/**
+ * Server-side Image Processing
+ *
+ * Photos are re-encoded before they're made public: rotated to match their
+ * EXIF orientation, with all metadata (GPS position, camera, timestamps)
+ * dropped, plus the responsive variants described in lib/image-variants.ts.
+ */
+
+import sharp from 'sharp'
+import { IMAGE_VARIANT_CONFIG, type ImageVariantFormat } from './image-variants'
+
+// Auto-oriented original without metadata, in its original format
+export interface StrippedImage {
+  data: Buffer
+  contentType: string
+  width: number
+  height: number
+}
+
+export interface ProcessedImage extends StrippedImage {
+  placeholder: string
+  variants: { format: ImageVariantFormat; width: number; data: Buffer }[]
+}
+
+/**
+ * Applies the EXIF orientation and drops all metadata, keeping the format
+ *
+ * sharp only copies metadata to its output when asked to, so re-encoding is
+ * enough to remove it.
+ */
+export async function stripImageMetadata(input: Buffer): Promise<StrippedImage> {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .toBuffer({ resolveWithObject: true })
+
+  return { data, contentType: `image/${info.format}`, width: info.width, height: info.height }
+}
+
+/**
+ * Widths to generate for a photo: the configured widths below its own width,
+ * then the photo's own width (or the largest configured width)
+ */
+function variantWidths(width: number): number[] {
+  const largest = Math.max(...IMAGE_VARIANT_CONFIG.WIDTHS)
+  const smaller = IMAGE_VARIANT_CONFIG.WIDTHS.filter(candidate => candidate < Math.min(width, largest))
+  return [...smaller, Math.min(width, largest)]
+}
+
+/**
+ * Strips metadata and encodes the AVIF and WebP variants and blur placeholder
+ *
+ * @throws If the input isn't an image sharp can read
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  const original = await stripImageMetadata(input)
+  const variants: ProcessedImage['variants'] = []
+
+  // One at a time - AVIF encoding is CPU heavy
+  for (const width of variantWidths(original.width)) {
+    const resized = sharp(original.data).resize({ width, withoutEnlargement: true })
+
+    variants.push({
+      format: 'avif',
+      width,
+      data: await resized.clone().avif({ quality: IMAGE_VARIANT_CONFIG.AVIF_QUALITY }).toBuffer(),
+    })
+    variants.push({
+      format: 'webp',
+      width,
+      data: await resized.clone().webp({ quality: IMAGE_VARIANT_CONFIG.WEBP_QUALITY }).toBuffer(),
+    })
+  }
+
+  const placeholder = await sharp(original.data)
+    .resize({ width: IMAGE_VARIANT_CONFIG.PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 50 })
+    .toBuffer()
+
+  return {
+    ...original,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+    variants,
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Responsive Image Variants
+ *
+ * Chef photos are re-encoded on upload (see lib/image-processing-server.ts)
+ * into AVIF and WebP copies at a few widths, stored next to the original in
+ * the chefs bucket, plus a tiny blurred placeholder. The description below is
+ * saved with the photo (chefs.photo_variants, food_photos.variants) and
+ * rendered by components/responsive-image.tsx.
+ */
+
+export const IMAGE_VARIANT_CONFIG = {
+  // Widths generated, capped at the photo's own width
+  WIDTHS: [320, 640, 1024, 1600],
+  AVIF_QUALITY: 50,
+  WEBP_QUALITY: 75,
+  PLACEHOLDER_WIDTH: 16,
+} as const
+
+export type ImageVariantFormat = 'avif' | 'webp'
+
+export interface ImageVariant {
+  width: number
+  url: string
+}
+
+export interface ImageVariants {
+  // Dimensions of the auto-oriented original
+  width: number
+  height: number
+  // Blurred WebP data URL shown while the photo loads
+  placeholder: string
+  avif: ImageVariant[]
+  webp: ImageVariant[]
+}
+
+/**
+ * srcset attribute for one format's variants
+ */
+export function variantSrcSet(variants: ImageVariant[]): string {
+  return variants.map(variant => `${variant.url} ${variant.width}w`).join(', ')
+}
+
+/**
+ * Public URLs of every variant, e.g. to remove them with the original
+ */
+export function imageVariantUrls(variants: ImageVariants | null | undefined): string[] {
+  if (!variants) return []
+  return [...variants.avif, ...variants.webp].map(variant => variant.url)
+}
+
+/**
+ * Reads a photo_variants / variants column, ignoring anything malformed
+ */
+export function parseImageVariants(value: unknown): ImageVariants | null {
+  if (!value || typeof value !== 'object') return null
+
+  const variants = value as Partial<ImageVariants>
+  if (
+    typeof variants.placeholder !== 'string' ||
+    !Array.isArray(variants.avif) ||
+    !Array.isArray(variants.webp) ||
+    variants.webp.length === 0
+  ) {
+    return null
+  }
+
+  return variants as ImageVariants
+}
@@ -0,0 +1,160 @@
+/**
+ * UK Postcode Utilities for Chef Location Search
+ *
+ * Resolves UK postcodes (full or outward code only) to approximate coordinates
+ * using a bundled outcode dataset, so proximity search never depends on an
+ * external geocoding API. The dataset only covers London outcodes, so
+ * postcodes elsewhere don't resolve. Also decodes PostGIS points returned by Supabase.
+ */
+
+import outcodeData from './uk-outcodes.json'
+
+/**
+ * Outcode → [latitude, longitude] centroids (approximate, district level)
+ */
+const OUTCODES: Record<string, number[]> = outcodeData
+
+/**
+ * Default travel radius used when a chef has not set travel_distance
+ */
+export const DEFAULT_TRAVEL_MILES = 5
+
+/**
+ * Resolved postcode location
+ */
+export interface PostcodeLocation {
+  outcode: string
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Simple coordinate pair
+ */
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+// Full postcode without spaces (e.g. TW31AA) and outward code on its own (e.g. TW3)
+const FULL_POSTCODE_REGEX = /^([A-Z]{1,2}[0-9][A-Z0-9]?)([0-9][A-Z]{2})$/
+const OUTWARD_CODE_REGEX = /^[A-Z]{1,2}[0-9][A-Z0-9]?$/
+
+/**
+ * Normalises user input into an uppercase postcode with single spacing
+ *
+ * @param input - Raw postcode input (e.g. " tw3 1aa ")
+ * @returns Normalised postcode (e.g. "TW3 1AA") or null if not a valid format
+ */
+export function normalisePostcode(input: string): string | null {
+  const compact = input.trim().toUpperCase().replace(/\s+/g, '')
+  if (!compact) return null
+
+  const full = compact.match(FULL_POSTCODE_REGEX)
+  if (full) return `${full[1]} ${full[2]}`
+
+  if (OUTWARD_CODE_REGEX.test(compact)) return compact
+
+  return null
+}
+
+/**
+ * Extracts the outward code (district) from a postcode
+ *
+ * @param input - Full postcode or outward code
+ * @returns Outward code (e.g. "TW3") or null if invalid
+ */
+export function getOutwardCode(input: string): string | null {
+  const normalised = normalisePostcode(input)
+  if (!normalised) return null
+  return normalised.split(' ')[0]
+}
+
+/**
+ * Looks up the approximate coordinates of a postcode
+ *
+ * Sub-districts such as "W1D" or "EC1A" fall back to their parent district when
+ * the dataset does not contain them directly.
+ *
+ * @param input - Full postcode or outward code
+ * @returns Location with outcode and coordinates, or null if unknown
+ */
+export function lookupPostcode(input: string): PostcodeLocation | null {
+  const outcode = getOutwardCode(input)
+  if (!outcode) return null
+
+  const candidates = [outcode]
+  if (/[A-Z]$/.test(outcode)) {
+    candidates.push(outcode.slice(0, -1))
+  }
+
+  for (const candidate of candidates) {
+    const coords = OUTCODES[candidate]
+    if (coords) {
+      return { outcode: candidate, latitude: coords[0], longitude: coords[1] }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Formats coordinates as EWKT for writing to a PostGIS geometry/geography column
+ *
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @returns EWKT string (e.g. "SRID=4326;POINT(-0.362 51.4668)")
+ */
+export function toPostgisPoint(latitude: number, longitude: number): string {
+  return `SRID=4326;POINT(${longitude} ${latitude})`
+}
+
+/**
+ * Decodes a PostGIS point as returned by Supabase
+ *
+ * PostgREST serialises geometry columns as hex-encoded EWKB by default, but
+ * GeoJSON objects are accepted too.
+ *
+ * @param value - EWKB hex string or GeoJSON point
+ * @returns Coordinates or null if the value cannot be decoded
+ */
+export function parseLocationPoint(value: unknown): Coordinates | null {
+  if (!value) return null
+
+  // GeoJSON: { type: 'Point', coordinates: [lng, lat] }
+  if (typeof value === 'object') {
+    const geo = value as { type?: string; coordinates?: number[] }
+    if (geo.type === 'Point' && Array.isArray(geo.coordinates) && geo.coordinates.length >= 2) {
+      return { latitude: geo.coordinates[1], longitude: geo.coordinates[0] }
+    }
+    return null
+  }
+
+  if (typeof value !== 'string' || !/^[0-9a-fA-F]+$/.test(value) || value.length < 42) {
+    return null
+  }
+
+  try {
+    const bytes = new Uint8Array(value.length / 2)
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(value.substr(i * 2, 2), 16)
+    }
+
+    const view = new DataView(bytes.buffer)
+    const littleEndian = view.getUint8(0) === 1
+    const geometryType = view.getUint32(1, littleEndian)
+    const hasSrid = (geometryType & 0x20000000) !== 0
+
+    // Only plain points are supported (type 1)
+    if ((geometryType & 0xff) !== 1) return null
+
+    const offset = hasSrid ? 9 : 5
+    const longitude = view.getFloat64(offset, littleEndian)
+    const latitude = view.getFloat64(offset + 8, littleEndian)
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null
+    return { latitude, longitude }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Review Moderation Utilities
+ *
+ * Risk signals that hold a verified review for admin moderation instead of
+ * publishing it straight away. Content checks are pure so the admin queue can
+ * label them; the database checks run when the reviewer verifies their email.
+ */
+
+import type { createSupabaseAdminClient } from './supabase-admin'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+export type RiskSignal = 'low_rating' | 'contains_link' | 'contains_phone' | 'review_burst' | 'shared_ip'
+
+export const RISK_SIGNAL_LABELS: Record<RiskSignal, string> = {
+  low_rating: 'Low rating',
+  contains_link: 'Contains a link',
+  contains_phone: 'Contains a phone number',
+  review_burst: 'Burst of reviews for this chef',
+  shared_ip: 'IP seen on other reviews',
+}
+
+export const MODERATION_CONFIG = {
+  LOW_RATING_MAX: 2,
+  BURST_WINDOW_HOURS: 24,
+  // Other reviews for the same chef within the window
+  BURST_THRESHOLD: 3,
+  MIN_REASON_LENGTH: 5,
+} as const
+
+const LINK_PATTERN = /(https?:\/\/|www\.|\b[a-z0-9-]+\.(com|co\.uk|uk|net|org|io)\b)/i
+// UK and international numbers, allowing spaces, dashes and brackets
+const PHONE_PATTERN = /(\+?\d[\d\s().-]{8,}\d)/
+
+/**
+ * Signals found in the review itself
+ */
+export function getContentRiskSignals(rating: number, comment: string | null): RiskSignal[] {
+  const signals: RiskSignal[] = []
+
+  if (rating <= MODERATION_CONFIG.LOW_RATING_MAX) {
+    signals.push('low_rating')
+  }
+
+  if (comment && LINK_PATTERN.test(comment)) {
+    signals.push('contains_link')
+  }
+
+  if (comment) {
+    const phoneMatch = comment.match(PHONE_PATTERN)
+    // Require enough digits to be a phone number rather than e.g. a date
+    if (phoneMatch && phoneMatch[0].replace(/\D/g, '').length >= 10) {
+      signals.push('contains_phone')
+    }
+  }
+
+  return signals
+}
+
+/**
+ * All risk signals for a review, including ones that need the database
+ */
+export async function assessReviewRisk(
+  supabase: AdminClient,
+  review: { id: string; chef_id: string; rating: number; comment: string | null; ip_hash: string }
+): Promise<RiskSignal[]> {
+  const signals = getContentRiskSignals(review.rating, review.comment)
+
+  const windowStart = new Date(Date.now() - MODERATION_CONFIG.BURST_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+  const { count: recentCount, error: burstError } = await supabase
+    .from('reviews')
+    .select('id', { count: 'exact', head: true })
+    .eq('chef_id', review.chef_id)
+    .neq('id', review.id)
+    .gte('created_at', windowStart)
+
+  if (burstError) {
+    console.error('Error checking review burst:', burstError)
+    // Continue anyway - the other signals still apply
+  } else if ((recentCount || 0) >= MODERATION_CONFIG.BURST_THRESHOLD) {
+    signals.push('review_burst')
+  }
+
+  const { count: ipCount, error: ipError } = await supabase
+    .from('reviews')
+    .select('id', { count: 'exact', head: true })
+    .eq('ip_hash', review.ip_hash)
+    .neq('id', review.id)
+
+  if (ipError) {
+    console.error('Error checking shared IP:', ipError)
+  } else if ((ipCount || 0) > 0) {
+    signals.push('shared_ip')
+  }
+
+  return signals
+}
+
+export function isRiskSignal(value: string): value is RiskSignal {
+  return value in RISK_SIGNAL_LABELS
+}
@@ -0,0 +1,93 @@
+/**
+ * Server-only review photo helpers - storage access needs the service role
+ */
+
+import type { createSupabaseAdminClient } from './supabase-admin'
+import type { ReviewPhoto } from './data'
+import { REVIEW_PHOTO_CONFIG } from './review-photos'
+import { stripImageMetadata, type StrippedImage } from './image-processing-server'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+interface ReviewPhotoRow {
+  id: string
+  storage_path: string
+  display_order: number | null
+}
+
+/**
+ * Uploads review photos and records them against the review
+ *
+ * Photos are shown on the chef's page, so their metadata (including any GPS
+ * position) is stripped first.
+ *
+ * @returns Number of photos saved
+ */
+export async function uploadReviewPhotos(supabase: AdminClient, reviewId: string, files: File[]): Promise<number> {
+  const records = []
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i]
+    const fileExt = file.name.split('.').pop()
+    const random = Math.random().toString(36).substring(2, 15)
+    const storagePath = `${reviewId}/${Date.now()}_${random}_${i}.${fileExt}`
+
+    let photo: StrippedImage
+    try {
+      photo = await stripImageMetadata(Buffer.from(await file.arrayBuffer()))
+    } catch (processError) {
+      console.error('Review photo processing error:', processError)
+      continue
+    }
+
+    const { error: uploadError } = await supabase.storage
+      .from(REVIEW_PHOTO_CONFIG.BUCKET_NAME)
+      .upload(storagePath, photo.data, {
+        cacheControl: '3600',
+        contentType: photo.contentType,
+        upsert: false
+      })
+
+    if (uploadError) {
+      console.error('Review photo upload error:', uploadError)
+      continue
+    }
+
+    records.push({ review_id: reviewId, storage_path: storagePath, display_order: i })
+  }
+
+  if (records.length === 0) return 0
+
+  const { error: insertError } = await supabase
+    .from('review_photos')
+    .insert(records)
+
+  if (insertError) {
+    console.error('Error saving review photo records:', insertError)
+    return 0
+  }
+
+  return records.length
+}
+
+/**
+ * Signs embedded review_photos rows for display, in display order
+ */
+export async function signReviewPhotos(
+  supabase: AdminClient,
+  rows: ReviewPhotoRow[] | null | undefined
+): Promise<ReviewPhoto[]> {
+  if (!rows || rows.length === 0) return []
+
+  const sorted = [...rows].sort((a, b) => (a.display_order || 0) - (b.display_order || 0))
+  const { data, error } = await supabase.storage
+    .from(REVIEW_PHOTO_CONFIG.BUCKET_NAME)
+    .createSignedUrls(sorted.map(row => row.storage_path), REVIEW_PHOTO_CONFIG.SIGNED_URL_TTL)
+
+  if (error || !data) {
+    console.error('Error signing review photos:', error)
+    return []
+  }
+
+  return sorted.flatMap((row, i) => (data[i]?.signedUrl ? [{ id: row.id, url: data[i].signedUrl }] : []))
+}
@@ -0,0 +1,35 @@
+/**
+ * Review Photo Utilities
+ *
+ * Customers can attach a few photos of the food to a review. Uploads go
+ * through validateFile from lib/storage, like every other image upload.
+ */
+
+import { validateFile } from './storage'
+
+export const REVIEW_PHOTO_CONFIG = {
+  // Private bucket - photos are served through signed URLs only
+  BUCKET_NAME: 'review-photos',
+  MAX_PHOTOS: 3,
+  SIGNED_URL_TTL: 60 * 60, // seconds
+} as const
+
+/**
+ * Checks the number of photos and each file
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateReviewPhotos(files: File[]): string | null {
+  if (files.length > REVIEW_PHOTO_CONFIG.MAX_PHOTOS) {
+    return `You can attach up to ${REVIEW_PHOTO_CONFIG.MAX_PHOTOS} photos`
+  }
+
+  for (const file of files) {
+    const validation = validateFile(file, 'food')
+    if (!validation.isValid) {
+      return `${file.name}: ${validation.error}`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,68 @@
+/**
+ * Review Sub-Rating Utilities
+ *
+ * Optional per-dimension ratings families can give alongside the overall
+ * star rating. Each dimension maps to a `<dimension>_rating` column on
+ * reviews and `avg_<dimension>` / `<dimension>_count` in chef_rating_stats.
+ */
+
+export const SUB_RATING_DIMENSIONS = ['taste', 'punctuality', 'cleanliness', 'communication'] as const
+
+export type SubRatingDimension = typeof SUB_RATING_DIMENSIONS[number]
+
+export type SubRatings = Partial<Record<SubRatingDimension, number>>
+
+export const SUB_RATING_LABELS: Record<SubRatingDimension, string> = {
+  taste: 'Taste',
+  punctuality: 'Punctuality',
+  cleanliness: 'Cleanliness',
+  communication: 'Communication',
+}
+
+export interface SubRatingAverage {
+  dimension: SubRatingDimension
+  label: string
+  average: number
+  count: number
+}
+
+/**
+ * Returns an error message, or null if every given sub-rating is 1-5
+ */
+export function validateSubRatings(subRatings: SubRatings): string | null {
+  for (const dimension of SUB_RATING_DIMENSIONS) {
+    const value = subRatings[dimension]
+    if (value === undefined) continue
+    if (!Number.isInteger(value) || value < 1 || value > 5) {
+      return `${SUB_RATING_LABELS[dimension]} rating must be between 1 and 5`
+    }
+  }
+  return null
+}
+
+/**
+ * Review columns for the given sub-ratings; unrated dimensions are null
+ */
+export function toSubRatingColumns(subRatings: SubRatings): Record<`${SubRatingDimension}_rating`, number | null> {
+  return {
+    taste_rating: subRatings.taste ?? null,
+    punctuality_rating: subRatings.punctuality ?? null,
+    cleanliness_rating: subRatings.cleanliness ?? null,
+    communication_rating: subRatings.communication ?? null,
+  }
+}
+
+/**
+ * Per-dimension averages from a chef_rating_stats row, skipping
+ * dimensions nobody has rated yet
+ */
+export function toSubRatingAverages(stats: Record<string, unknown> | null | undefined): SubRatingAverage[] {
+  if (!stats) return []
+
+  return SUB_RATING_DIMENSIONS.flatMap(dimension => {
+    const average = Number(stats[`avg_${dimension}`])
+    const count = Number(stats[`${dimension}_count`])
+    if (!count || Number.isNaN(average)) return []
+    return [{ dimension, label: SUB_RATING_LABELS[dimension], average, count }]
+  })
+}
@@ -0,0 +1,39 @@
+/**
+ * Review Reply Utilities
+ *
+ * Shared by the chef portal reply form, the admin review actions and the
+ * public review list.
+ */
+
+import type { ReviewReply } from './data'
+
+export const REPLY_CONFIG = {
+  MAX_LENGTH: 1000,
+} as const
+
+/**
+ * Validates a reply body
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateReplyBody(body: string): string | null {
+  if (!body.trim()) {
+    return 'Please write a reply'
+  }
+
+  if (body.length > REPLY_CONFIG.MAX_LENGTH) {
+    return `Replies must be ${REPLY_CONFIG.MAX_LENGTH} characters or fewer`
+  }
+
+  return null
+}
+
+/**
+ * Normalises an embedded review_replies join
+ *
+ * review_id is unique so PostgREST returns an object, but the untyped client
+ * can't know that - accept either shape.
+ */
+export function toReviewReply(value: ReviewReply | ReviewReply[] | null | undefined): ReviewReply | null {
+  return (Array.isArray(value) ? value[0] : value) || null
+}
@@ -0,0 +1,326 @@
+/**
+ * Storage Garbage Collection (server)
+ *
+ * Reconciles the chef-applications, chefs and chef-documents buckets with the
+ * database and deletes objects nothing references once they're older than
+ * STORAGE_GC_CONFIG.GRACE_DAYS. Referenced are:
+ * - chef-applications: files listed on applications (until their files are
+ *   purged), applicant responses and drafts, everything under the folder of a draft or an application
+ *   still awaiting a decision, and legacy chef media never moved out
+ * - chefs: chef and food photos with their variants, and videos with their
+ *   posters
+ * - chef-documents: every verification document on record
+ *
+ * If any reference can't be read the run fails before deleting anything.
+ */
+
+import { createSupabaseAdminClient } from './supabase-admin'
+import { STORAGE_CONFIG, storageObjectPath } from './storage'
+import { CHEF_MEDIA_BUCKET } from './chef-media-server'
+import { CHEF_DOCUMENT_CONFIG } from './chef-documents'
+import { imageVariantUrls, parseImageVariants } from './image-variants'
+import { isOpenApplicationStatus } from './application-status'
+import { STORAGE_GC_CONFIG, type StorageGcOrphan } from './storage-gc'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+const GC_BUCKETS = [STORAGE_CONFIG.BUCKET_NAME, CHEF_MEDIA_BUCKET, CHEF_DOCUMENT_CONFIG.BUCKET_NAME]
+
+// Created by the Supabase dashboard to keep empty folders
+const FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder'
+
+interface StorageReferences {
+  paths: Set<string>
+  // Folders whose every file counts as referenced
+  prefixes: string[]
+}
+
+interface StorageObject {
+  name: string
+  size_bytes: number | null
+  created_at: string
+}
+
+type Orphan = Omit<StorageGcOrphan, 'id'>
+
+export interface StorageGcResult {
+  runId: string
+  dryRun: boolean
+  objectsScanned: number
+  orphansFound: number
+  orphansDeleted: number
+  bytesReclaimed: number
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message)
+  return 'Unknown error'
+}
+
+/**
+ * Reads every row of a query, a page at a time
+ *
+ * @throws The first query error
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += STORAGE_GC_CONFIG.PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + STORAGE_GC_CONFIG.PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < STORAGE_GC_CONFIG.PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+/**
+ * Storage paths in a file_uploads value - either an ApplicationFileUploads
+ * object or a list of uploads
+ */
+function uploadFileNames(value: unknown): string[] {
+  const files = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? Object.values(value).flatMap(group => (Array.isArray(group) ? group : []))
+      : []
+
+  return files.flatMap(file => (file && typeof file.fileName === 'string' ? [file.fileName] : []))
+}
+
+/**
+ * Everything the database points at, by bucket
+ */
+async function collectReferences(supabase: AdminClient): Promise<Record<string, StorageReferences>> {
+  const applicationFiles: StorageReferences = { paths: new Set(), prefixes: [] }
+  const chefMedia: StorageReferences = { paths: new Set(), prefixes: [] }
+  const chefDocuments: StorageReferences = { paths: new Set(), prefixes: [] }
+
+  // Chef media URLs, including any still pointing at chef-applications
+  const addMediaUrl = (url: unknown) => {
+    if (typeof url !== 'string') return
+
+    const chefPath = storageObjectPath(url, CHEF_MEDIA_BUCKET)
+    if (chefPath) chefMedia.paths.add(chefPath)
+
+    const applicationPath = storageObjectPath(url, STORAGE_CONFIG.BUCKET_NAME)
+    if (applicationPath) applicationFiles.paths.add(applicationPath)
+  }
+
+  const [applications, messages, drafts, chefs, foodPhotos, videos, documents] = await Promise.all([
+    fetchAllRows((from, to) => supabase
+      .from('chef_applications')
+      .select('status, upload_prefix, file_uploads, files_purged_at')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('chef_application_messages')
+      .select('file_uploads')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('chef_application_drafts')
+      .select('upload_prefix, file_uploads')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('chefs')
+      .select('photo_url, photo_variants')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('food_photos')
+      .select('photo_url, variants')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('chef_videos')
+      .select('video_url, poster_url')
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('chef_documents')
+      .select('storage_path')
+      .order('id')
+      .range(from, to)),
+  ])
+
+  for (const application of applications) {
+    // Purged applications have let go of their files - older ones without an
+    // upload folder are only cleared from here
+    if (!application.files_purged_at) {
+      uploadFileNames(application.file_uploads).forEach(path => applicationFiles.paths.add(path))
+    }
+
+    // Files an applicant is still attaching to a response aren't listed yet
+    if (application.upload_prefix && isOpenApplicationStatus(application.status)) {
+      applicationFiles.prefixes.push(application.upload_prefix)
+    }
+  }
+
+  for (const message of messages) {
+    uploadFileNames(message.file_uploads).forEach(path => applicationFiles.paths.add(path))
+  }
+
+  // Drafts autosave, so their newest uploads may not be listed yet. Expired
+  // drafts and their folders are removed by purge-application-drafts.
+  for (const draft of drafts) {
+    applicationFiles.prefixes.push(draft.upload_prefix)
+  }
+
+  for (const chef of chefs) {
+    addMediaUrl(chef.photo_url)
+    imageVariantUrls(parseImageVariants(chef.photo_variants)).forEach(addMediaUrl)
+  }
+
+  for (const photo of foodPhotos) {
+    addMediaUrl(photo.photo_url)
+    imageVariantUrls(parseImageVariants(photo.variants)).forEach(addMediaUrl)
+  }
+
+  for (const video of videos) {
+    addMediaUrl(video.video_url)
+    addMediaUrl(video.poster_url)
+  }
+
+  for (const document of documents) {
+    chefDocuments.paths.add(document.storage_path)
+  }
+
+  return {
+    [STORAGE_CONFIG.BUCKET_NAME]: applicationFiles,
+    [CHEF_MEDIA_BUCKET]: chefMedia,
+    [CHEF_DOCUMENT_CONFIG.BUCKET_NAME]: chefDocuments,
+  }
+}
+
+function isReferenced(references: StorageReferences, path: string): boolean {
+  return references.paths.has(path) || references.prefixes.some(prefix => path.startsWith(`${prefix}/`))
+}
+
+/**
+ * Removes orphans in batches, marking each as deleted or with its error
+ */
+async function deleteOrphans(supabase: AdminClient, orphans: Orphan[]): Promise<void> {
+  for (const bucket of GC_BUCKETS) {
+    const inBucket = orphans.filter(orphan => orphan.bucket === bucket)
+
+    for (let i = 0; i < inBucket.length; i += STORAGE_GC_CONFIG.REMOVE_BATCH_SIZE) {
+      const batch = inBucket.slice(i, i + STORAGE_GC_CONFIG.REMOVE_BATCH_SIZE)
+      const { error } = await supabase.storage
+        .from(bucket)
+        .remove(batch.map(orphan => orphan.path))
+
+      if (error) {
+        console.error(`Error removing orphaned objects from ${bucket}:`, error)
+        // Continue anyway - the rest may still go, and these are retried next run
+      }
+
+      for (const orphan of batch) {
+        orphan.deleted = !error
+        orphan.error = error ? error.message : null
+      }
+    }
+  }
+}
+
+/**
+ * Finds, and unless it's a dry run deletes, unreferenced storage objects
+ * older than the grace period, recording the run and every orphan found
+ *
+ * @throws If the run couldn't be completed (it's recorded as failed)
+ */
+export async function runStorageGc({ dryRun }: { dryRun: boolean }): Promise<StorageGcResult> {
+  const supabase = createSupabaseAdminClient()
+
+  const { data: run, error: runError } = await supabase
+    .from('storage_gc_runs')
+    .insert({ dry_run: dryRun, grace_days: STORAGE_GC_CONFIG.GRACE_DAYS })
+    .select('id')
+    .single()
+
+  if (runError || !run) {
+    throw runError || new Error('Failed to record storage gc run')
+  }
+
+  try {
+    const cutoff = new Date(Date.now() - STORAGE_GC_CONFIG.GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const references = await collectReferences(supabase)
+    const orphans: Orphan[] = []
+    let objectsScanned = 0
+
+    for (const bucket of GC_BUCKETS) {
+      const objects = await fetchAllRows<StorageObject>((from, to) => supabase
+        .rpc('list_storage_objects', { target_bucket: bucket, created_before: cutoff })
+        .range(from, to))
+
+      objectsScanned += objects.length
+
+      for (const object of objects) {
+        if (object.name.endsWith(FOLDER_PLACEHOLDER) || isReferenced(references[bucket], object.name)) continue
+
+        orphans.push({
+          bucket,
+          path: object.name,
+          size_bytes: object.size_bytes,
+          object_created_at: object.created_at,
+          deleted: false,
+          error: null,
+        })
+      }
+    }
+
+    if (!dryRun) {
+      await deleteOrphans(supabase, orphans.slice(0, STORAGE_GC_CONFIG.MAX_DELETIONS_PER_RUN))
+    }
+
+    for (let i = 0; i < orphans.length; i += STORAGE_GC_CONFIG.PAGE_SIZE) {
+      const { error: reportError } = await supabase
+        .from('storage_gc_orphans')
+        .insert(orphans.slice(i, i + STORAGE_GC_CONFIG.PAGE_SIZE).map(orphan => ({ run_id: run.id, ...orphan })))
+
+      if (reportError) {
+        throw reportError
+      }
+    }
+
+    const deleted = orphans.filter(orphan => orphan.deleted)
+    const result: StorageGcResult = {
+      runId: run.id,
+      dryRun,
+      objectsScanned,
+      orphansFound: orphans.length,
+      orphansDeleted: deleted.length,
+      bytesReclaimed: deleted.reduce((total, orphan) => total + (orphan.size_bytes || 0), 0),
+    }
+
+    await supabase
+      .from('storage_gc_runs')
+      .update({
+        status: 'completed',
+        objects_scanned: result.objectsScanned,
+        orphans_found: result.orphansFound,
+        orphans_deleted: result.orphansDeleted,
+        bytes_reclaimed: result.bytesReclaimed,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+
+    return result
+  } catch (error) {
+    await supabase
+      .from('storage_gc_runs')
+      .update({ status: 'failed', error: errorMessage(error), finished_at: new Date().toISOString() })
+      .eq('id', run.id)
+
+    throw error
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Storage Garbage Collection
+ *
+ * Shared by the storage-gc cron job (lib/storage-gc-server.ts) and the admin
+ * report at /admin/storage.
+ */
+
+export const STORAGE_GC_CONFIG = {
+  // Objects younger than this are never touched - uploads in progress,
+  // approvals still copying media, videos waiting to be processed
+  GRACE_DAYS: 7,
+  // Safety cap: a run deletes at most this many objects, the rest wait for
+  // the next run (and show up in the report)
+  MAX_DELETIONS_PER_RUN: 1000,
+  REMOVE_BATCH_SIZE: 100,
+  // Rows per database page when listing objects and references
+  PAGE_SIZE: 1000,
+  // Runs and orphans listed on the admin report
+  REPORT_RUNS: 10,
+  REPORT_ORPHANS: 200,
+} as const
+
+export type StorageGcRunStatus = 'running' | 'completed' | 'failed'
+
+export interface StorageGcRun {
+  id: string
+  dry_run: boolean
+  grace_days: number
+  status: StorageGcRunStatus
+  objects_scanned: number
+  orphans_found: number
+  orphans_deleted: number
+  bytes_reclaimed: number
+  error: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+export interface StorageGcOrphan {
+  id: string
+  bucket: string
+  path: string
+  size_bytes: number | null
+  object_created_at: string | null
+  deleted: boolean
+  error: string | null
+}
+
+/**
+ * Human-readable size, e.g. "3.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+
+  const units = ['KB', 'MB', 'GB', 'TB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+
+  return `${value.toFixed(1)} ${units[unit]}`
+}
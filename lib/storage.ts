@@ -12,15 +12,29 @@ import { createSupabaseAdminClient } from './supabase-admin'
  * Configuration for file uploads
  */
 export const STORAGE_CONFIG = {
+  // Private bucket - files are shown through signed URLs and copied to the
+  // public chefs bucket on approval (see lib/chef-media-server.ts)
   BUCKET_NAME: 'chef-applications',
+  SIGNED_URL_TTL: 60 * 60, // seconds
+  // Days after an application is approved or rejected before its files are deleted
+  RETENTION_DAYS: 90,
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB for images
   MAX_VIDEO_SIZE: 50 * 1024 * 1024, // 50MB for videos
   ALLOWED_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
   ALLOWED_VIDEO_TYPES: ['video/mp4', 'video/webm'],
   MAX_FILES_PER_APPLICATION: 10,
-  MAX_VIDEO_DURATION: 90, // seconds
+  MAX_VIDEO_DURATION: 90, // seconds - enforced by lib/video-processing-server.ts
 } as const
 
+/**
+ * Object path of a public storage URL in the given bucket, or null
+ */
+export function storageObjectPath(url: string, bucket: string): string | null {
+  const marker = `/storage/v1/object/public/${bucket}/`
+  const index = url.indexOf(marker)
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length))
+}
+
 /**
  * File upload result interface
  */
@@ -0,0 +1,15 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Cookie-less anon client for public reads - safe to use inside unstable_cache
+export function createSupabasePublicClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  )
+}
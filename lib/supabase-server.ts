@@ -1,4 +1,4 @@
-import { createServerClient } from '@supabase/ssr'
+import { createServerClient, type CookieOptions } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 
 export async function createSupabaseServerClient() {
@@ -12,7 +12,23 @@ export async function createSupabaseServerClient() {
         get(name: string) {
           return cookieStore.get(name)?.value
         },
+        // Cookies can only be written from server actions and route handlers
+        // (e.g. chef portal sign-in); in server components these are no-ops
+        set(name: string, value: string, options: CookieOptions) {
+          try {
+            cookieStore.set({ name, value, ...options })
+          } catch {
+            // Called from a server component - middleware refreshes the session
+          }
+        },
+        remove(name: string, options: CookieOptions) {
+          try {
+            cookieStore.set({ name, value: '', ...options })
+          } catch {
+            // Called from a server component - middleware refreshes the session
+          }
+        },
       },
     }
   )
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,321 @@
+/**
+ * Chef Video Processing
+ *
+ * Run by /api/cron/process-chef-videos. Needs ffmpeg and ffprobe installed
+ * on the machine running the job - FFMPEG_PATH and FFPROBE_PATH point at
+ * them if they aren't on the PATH.
+ *
+ * Each claimed video is downloaded to a temporary folder, probed, rejected if
+ * it's over VIDEO_PROCESSING_CONFIG.MAX_DURATION or has no video stream, and
+ * otherwise transcoded to H.264/AAC MP4 (metadata removed, fast start) with a
+ * JPEG poster frame. The transcoded video replaces the upload in the chefs
+ * bucket.
+ */
+
+import { execFile } from 'child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { createSupabaseAdminClient } from './supabase-admin'
+import { CHEF_MEDIA_BUCKET, chefMediaPathFromUrl, removeChefMedia } from './chef-media-server'
+import { VIDEO_PROCESSING_CONFIG, type ChefVideo } from './chef-videos'
+
+type AdminClient = ReturnType<typeof createSupabaseAdminClient>
+
+const execFileAsync = promisify(execFile)
+
+interface ClaimedVideo {
+  id: string
+  chef_id: string
+  video_url: string
+  processing_attempts: number
+}
+
+type VideoUpdate = Partial<Pick<ChefVideo, 'status' | 'video_url' | 'poster_url' | 'duration_seconds' | 'processing_error'>> & {
+  processed_at?: string
+}
+
+interface VideoProbe {
+  durationSeconds: number
+  videoCodec: string | null
+  audioCodec: string | null
+}
+
+interface FfprobeOutput {
+  format?: { duration?: string }
+  streams?: { codec_type?: string; codec_name?: string; duration?: string }[]
+}
+
+export interface VideoProcessingSummary {
+  // False when ffmpeg or ffprobe couldn't be run; nothing was claimed
+  available: boolean
+  ready: number
+  rejected: number
+  failed: number
+  retrying: number
+  // Chefs with a newly ready video, whose pages need revalidating
+  chefIds: string[]
+}
+
+function ffmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg'
+}
+
+function ffprobePath(): string {
+  return process.env.FFPROBE_PATH || 'ffprobe'
+}
+
+async function run(command: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync(command, args, {
+    timeout: VIDEO_PROCESSING_CONFIG.COMMAND_TIMEOUT_MS,
+    maxBuffer: 10 * 1024 * 1024,
+  })
+  return stdout
+}
+
+/**
+ * Whether ffmpeg and ffprobe can be run here
+ */
+async function isFfmpegAvailable(): Promise<boolean> {
+  try {
+    await run(ffmpegPath(), ['-version'])
+    await run(ffprobePath(), ['-version'])
+    return true
+  } catch (error) {
+    console.error('ffmpeg is not available:', error)
+    return false
+  }
+}
+
+async function probeVideo(file: string): Promise<VideoProbe> {
+  const output = await run(ffprobePath(), [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    file,
+  ])
+
+  const probe = JSON.parse(output) as FfprobeOutput
+  const videoStream = probe.streams?.find(stream => stream.codec_type === 'video')
+  const audioStream = probe.streams?.find(stream => stream.codec_type === 'audio')
+
+  return {
+    durationSeconds: Number(probe.format?.duration ?? videoStream?.duration ?? 0),
+    videoCodec: videoStream?.codec_name ?? null,
+    audioCodec: audioStream?.codec_name ?? null,
+  }
+}
+
+/**
+ * Why a probed video can't be published, or null if it can
+ */
+function rejectionReason(probe: VideoProbe): string | null {
+  if (!probe.videoCodec) {
+    return 'The file has no video stream'
+  }
+
+  if (!probe.durationSeconds || !Number.isFinite(probe.durationSeconds)) {
+    return 'The video length could not be read'
+  }
+
+  if (probe.durationSeconds > VIDEO_PROCESSING_CONFIG.MAX_DURATION) {
+    return `The video is ${Math.ceil(probe.durationSeconds)} seconds long - the limit is ${VIDEO_PROCESSING_CONFIG.MAX_DURATION} seconds`
+  }
+
+  return null
+}
+
+/**
+ * Transcodes to an MP4 that plays everywhere, no larger than
+ * MAX_DIMENSION on its longest side, then grabs the poster frame
+ */
+async function transcodeVideo(input: string, output: string, poster: string, probe: VideoProbe): Promise<void> {
+  const maxDimension = VIDEO_PROCESSING_CONFIG.MAX_DIMENSION
+  // -2 keeps the aspect ratio with an even size, which H.264 needs
+  const scale = `scale='if(gte(iw,ih),min(${maxDimension},iw),-2)':'if(gte(iw,ih),-2,min(${maxDimension},ih))'`
+
+  await run(ffmpegPath(), [
+    '-y',
+    '-i', input,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    '-vf', scale,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-profile:v', 'high',
+    '-pix_fmt', 'yuv420p',
+    '-b:v', VIDEO_PROCESSING_CONFIG.VIDEO_BITRATE,
+    '-maxrate', VIDEO_PROCESSING_CONFIG.MAX_VIDEO_BITRATE,
+    '-bufsize', VIDEO_PROCESSING_CONFIG.VIDEO_BUFFER_SIZE,
+    '-c:a', 'aac',
+    '-b:a', VIDEO_PROCESSING_CONFIG.AUDIO_BITRATE,
+    '-ac', '2',
+    '-map_metadata', '-1',
+    '-movflags', '+faststart',
+    output,
+  ])
+
+  const posterAt = Math.min(VIDEO_PROCESSING_CONFIG.POSTER_AT, probe.durationSeconds / 2)
+
+  await run(ffmpegPath(), [
+    '-y',
+    '-ss', posterAt.toFixed(2),
+    '-i', output,
+    '-frames:v', '1',
+    '-q:v', '3',
+    poster,
+  ])
+}
+
+async function uploadFile(supabase: AdminClient, filePath: string, localFile: string, contentType: string): Promise<string> {
+  const { error } = await supabase.storage
+    .from(CHEF_MEDIA_BUCKET)
+    .upload(filePath, await readFile(localFile), {
+      cacheControl: '3600',
+      contentType,
+      // A retried video overwrites its earlier attempt
+      upsert: true
+    })
+
+  if (error) {
+    throw error
+  }
+
+  return supabase.storage.from(CHEF_MEDIA_BUCKET).getPublicUrl(filePath).data.publicUrl
+}
+
+async function updateVideo(supabase: AdminClient, videoId: string, fields: VideoUpdate): Promise<void> {
+  const { error } = await supabase
+    .from('chef_videos')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', videoId)
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * Probes and transcodes one claimed video and records the outcome
+ *
+ * @throws If the video couldn't be processed (it may be retried)
+ */
+async function processChefVideo(supabase: AdminClient, video: ClaimedVideo): Promise<'ready' | 'rejected'> {
+  const sourcePath = chefMediaPathFromUrl(video.video_url)
+  if (!sourcePath) {
+    throw new Error('Video is not stored in the chefs bucket')
+  }
+
+  const { data: source, error: downloadError } = await supabase.storage
+    .from(CHEF_MEDIA_BUCKET)
+    .download(sourcePath)
+
+  if (downloadError || !source) {
+    throw downloadError || new Error('Failed to download video')
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'chef-video-'))
+
+  try {
+    const input = path.join(workDir, 'source')
+    const output = path.join(workDir, 'video.mp4')
+    const poster = path.join(workDir, 'poster.jpg')
+
+    await writeFile(input, Buffer.from(await source.arrayBuffer()))
+
+    const probe = await probeVideo(input)
+    const reason = rejectionReason(probe)
+
+    if (reason) {
+      await updateVideo(supabase, video.id, {
+        status: 'rejected',
+        duration_seconds: probe.durationSeconds || null,
+        processing_error: reason,
+        processed_at: new Date().toISOString(),
+      })
+      return 'rejected'
+    }
+
+    await transcodeVideo(input, output, poster, probe)
+
+    const stem = sourcePath.replace(/\.[^./]+$/, '')
+    const videoUrl = await uploadFile(supabase, `${stem}_web.mp4`, output, 'video/mp4')
+    const posterUrl = await uploadFile(supabase, `${stem}_poster.jpg`, poster, 'image/jpeg')
+
+    await updateVideo(supabase, video.id, {
+      status: 'ready',
+      video_url: videoUrl,
+      poster_url: posterUrl,
+      duration_seconds: probe.durationSeconds,
+      processing_error: null,
+      processed_at: new Date().toISOString(),
+    })
+
+    // The upload is replaced by the transcoded copy
+    if (`${stem}_web.mp4` !== sourcePath) {
+      await removeChefMedia(supabase, [sourcePath])
+    }
+
+    return 'ready'
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Processes the next batch of pending chef videos
+ *
+ * Failed videos go back to pending for the next run until they've had
+ * MAX_ATTEMPTS tries. If ffmpeg isn't available nothing is claimed, so
+ * videos wait rather than using up their attempts.
+ */
+export async function processPendingChefVideos(): Promise<VideoProcessingSummary> {
+  const summary: VideoProcessingSummary = { available: false, ready: 0, rejected: 0, failed: 0, retrying: 0, chefIds: [] }
+
+  if (!(await isFfmpegAvailable())) {
+    return summary
+  }
+  summary.available = true
+
+  const supabase = createSupabaseAdminClient()
+
+  const { data: videos, error } = await supabase.rpc('claim_chef_videos', {
+    batch_size: VIDEO_PROCESSING_CONFIG.BATCH_SIZE,
+    stale_after_minutes: VIDEO_PROCESSING_CONFIG.STALE_AFTER_MINUTES,
+    max_attempts: VIDEO_PROCESSING_CONFIG.MAX_ATTEMPTS,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  // One at a time - ffmpeg uses every core it can get
+  for (const video of (videos || []) as ClaimedVideo[]) {
+    try {
+      const outcome = await processChefVideo(supabase, video)
+      summary[outcome]++
+      if (outcome === 'ready') {
+        summary.chefIds.push(video.chef_id)
+      }
+    } catch (processError) {
+      console.error(`Error processing chef video ${video.id}:`, processError)
+
+      const finalAttempt = video.processing_attempts >= VIDEO_PROCESSING_CONFIG.MAX_ATTEMPTS
+      summary[finalAttempt ? 'failed' : 'retrying']++
+
+      try {
+        await updateVideo(supabase, video.id, {
+          status: finalAttempt ? 'failed' : 'pending',
+          processing_error: processError instanceof Error ? processError.message : 'Processing failed',
+        })
+      } catch (updateError) {
+        console.error('Error recording chef video failure:', updateError)
+        // Continue anyway - the claim goes stale and is retried
+      }
+    }
+  }
+
+  return summary
+}
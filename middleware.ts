@@ -8,16 +8,25 @@ export async function middleware(request: NextRequest) {
     },
   })
 
-  // Only apply middleware to admin routes
-  if (!request.nextUrl.pathname.startsWith('/admin')) {
+  const isAdminRoute = request.nextUrl.pathname.startsWith('/admin')
+  const isChefPortalRoute = request.nextUrl.pathname.startsWith('/chef-portal')
+
+  // Only apply middleware to admin and chef portal routes
+  if (!isAdminRoute && !isChefPortalRoute) {
     return response
   }
 
-  // Allow access to the login page without authentication
-  if (request.nextUrl.pathname === '/admin/login') {
+  // Allow access to the login pages (and magic link exchange) without authentication
+  if (
+    request.nextUrl.pathname === '/admin/login' ||
+    request.nextUrl.pathname === '/chef-portal/login' ||
+    request.nextUrl.pathname.startsWith('/chef-portal/auth/')
+  ) {
     return response
   }
 
+  const loginPath = isChefPortalRoute ? '/chef-portal/login' : '/admin/login'
+
   try {
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -73,11 +82,18 @@ export async function middleware(request: NextRequest) {
 
     // If no user or error getting user, redirect to login
     if (error || !user) {
-      return NextResponse.redirect(new URL('/admin/login', request.url))
+      return NextResponse.redirect(new URL(loginPath, request.url))
+    }
+
+    // Chef portal only needs a session - the page checks the user is an
+    // approved chef, and refreshed session cookies are carried on the response
+    if (isChefPortalRoute) {
+      return response
     }
 
-    // Check if user has admin role
-    const userRole = user.user_metadata?.role
+    // Check if user has admin role - app_metadata can only be set server-side,
+    // unlike user_metadata which users can edit on themselves
+    const userRole = user.app_metadata?.role
     if (userRole !== 'admin') {
       // User is authenticated but not an admin - redirect to login with error
       const loginUrl = new URL('/admin/login', request.url)
@@ -90,19 +106,20 @@ export async function middleware(request: NextRequest) {
   } catch (error) {
     console.error('Middleware error:', error)
     // On any error, redirect to login for security
-    return NextResponse.redirect(new URL('/admin/login', request.url))
+    return NextResponse.redirect(new URL(loginPath, request.url))
   }
 }
 
 export const config = {
   matcher: [
     /*
-     * Match all admin routes except:
+     * Match all admin and chef portal routes except:
      * - api routes (handled separately)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      */
     '/admin/:path*',
+    '/chef-portal/:path*',
   ],
 }
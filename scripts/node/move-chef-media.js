@@ -0,0 +1,110 @@
+// Load environment variables from .env.local
+require('dotenv').config({ path: '.env.local' })
+
+const { createClient } = require('@supabase/supabase-js')
+
+// Keep in sync with lib/storage.ts and lib/chef-media-server.ts
+const APPLICATION_BUCKET = 'chef-applications'
+const CHEF_MEDIA_BUCKET = 'chefs'
+const APPLICATION_URL_MARKER = `/storage/v1/object/public/${APPLICATION_BUCKET}/`
+
+/**
+ * Copies chef media still stored in the chef-applications bucket into the
+ * chef's folder in the public chefs bucket, rewrites the URLs, then makes
+ * chef-applications private.
+ *
+ * Safe to re-run: only URLs still pointing at chef-applications are touched,
+ * and the bucket stays public if anything fails to move.
+ */
+async function moveChefMedia() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY // Admin key bypasses RLS
+  )
+
+  console.log('📦 Moving chef media out of chef-applications...')
+
+  let moved = 0
+  let failed = 0
+
+  // Returns the new public URL, or null if the file couldn't be copied
+  async function copyToChef(url, chefId, folder) {
+    const index = url.indexOf(APPLICATION_URL_MARKER)
+    if (index === -1) return null
+
+    const sourcePath = decodeURIComponent(url.slice(index + APPLICATION_URL_MARKER.length))
+    const fileName = sourcePath.split('/').pop()
+    const targetPath = `${chefId}/${folder}/${fileName}`
+
+    const { error } = await supabase.storage
+      .from(APPLICATION_BUCKET)
+      .copy(sourcePath, targetPath, { destinationBucket: CHEF_MEDIA_BUCKET })
+
+    // Already copied by an earlier run
+    if (error && !/already exists/i.test(error.message)) {
+      console.error(`❌ Failed to copy ${sourcePath}:`, error.message)
+      return null
+    }
+
+    return supabase.storage.from(CHEF_MEDIA_BUCKET).getPublicUrl(targetPath).data.publicUrl
+  }
+
+  const tables = [
+    { table: 'chefs', column: 'photo_url', chefColumn: 'id', folder: 'profile' },
+    { table: 'food_photos', column: 'photo_url', chefColumn: 'chef_id', folder: 'food' },
+    { table: 'chef_videos', column: 'video_url', chefColumn: 'chef_id', folder: 'video' },
+  ]
+
+  for (const { table, column, chefColumn, folder } of tables) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select(`id, ${chefColumn}, ${column}`)
+      .like(column, `%${APPLICATION_URL_MARKER}%`)
+
+    if (error) {
+      console.error(`❌ Error reading ${table}:`, error)
+      return
+    }
+
+    for (const row of rows || []) {
+      const newUrl = await copyToChef(row[column], row[chefColumn], folder)
+      if (!newUrl) {
+        failed++
+        continue
+      }
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ [column]: newUrl })
+        .eq('id', row.id)
+
+      if (updateError) {
+        console.error(`❌ Error updating ${table} ${row.id}:`, updateError)
+        failed++
+        continue
+      }
+
+      moved++
+    }
+
+    console.log(`✅ ${table}: ${rows?.length || 0} file(s) processed`)
+  }
+
+  if (failed > 0) {
+    console.log(`⚠️ ${moved} moved, ${failed} failed - chef-applications left public. Fix the errors and re-run.`)
+    return
+  }
+
+  const { error: bucketError } = await supabase.storage
+    .updateBucket(APPLICATION_BUCKET, { public: false })
+
+  if (bucketError) {
+    console.error('❌ Error making chef-applications private:', bucketError)
+    return
+  }
+
+  console.log(`🎉 ${moved} file(s) moved. chef-applications is now private.`)
+}
+
+// Run move
+moveChefMedia().catch(console.error)
@@ -0,0 +1,157 @@
+// Load environment variables from .env.local
+require('dotenv').config({ path: '.env.local' })
+
+const { createClient } = require('@supabase/supabase-js')
+const sharp = require('sharp')
+
+// Keep in sync with lib/image-variants.ts and lib/chef-media-server.ts
+const CHEF_MEDIA_BUCKET = 'chefs'
+const CHEF_MEDIA_URL_MARKER = `/storage/v1/object/public/${CHEF_MEDIA_BUCKET}/`
+const IMAGE_VARIANT_CONFIG = {
+  WIDTHS: [320, 640, 1024, 1600],
+  AVIF_QUALITY: 50,
+  WEBP_QUALITY: 75,
+  PLACEHOLDER_WIDTH: 16,
+}
+
+/**
+ * Processes chef and food photos uploaded before image variants existed:
+ * the original is rewritten in place without its metadata (same URL), and
+ * the AVIF/WebP variants and blur placeholder are generated and saved.
+ *
+ * Run after move-chef-media.js - only photos in the chefs bucket are touched.
+ * Safe to re-run: photos that already have variants are skipped.
+ */
+async function processChefPhotos() {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY // Admin key bypasses RLS
+  )
+
+  console.log('🖼️ Processing chef photos without variants...')
+
+  let processed = 0
+  let failed = 0
+
+  // Returns the variants JSON, or null if the photo couldn't be processed
+  async function processPhoto(url) {
+    const index = url.indexOf(CHEF_MEDIA_URL_MARKER)
+    if (index === -1) return null
+
+    const path = decodeURIComponent(url.slice(index + CHEF_MEDIA_URL_MARKER.length))
+    const stem = path.replace(/\.[^./]+$/, '')
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(CHEF_MEDIA_BUCKET)
+      .download(path)
+
+    if (downloadError || !file) {
+      console.error(`❌ Failed to download ${path}:`, downloadError?.message)
+      return null
+    }
+
+    try {
+      const { data: original, info } = await sharp(Buffer.from(await file.arrayBuffer()))
+        .rotate()
+        .toBuffer({ resolveWithObject: true })
+
+      const upload = async (filePath, data, contentType) => {
+        const { error } = await supabase.storage
+          .from(CHEF_MEDIA_BUCKET)
+          .upload(filePath, data, { cacheControl: '3600', contentType, upsert: true })
+        if (error) throw error
+      }
+
+      // Same path, so the stored URL keeps working
+      await upload(path, original, `image/${info.format}`)
+
+      const largest = Math.max(...IMAGE_VARIANT_CONFIG.WIDTHS)
+      const widths = [
+        ...IMAGE_VARIANT_CONFIG.WIDTHS.filter(width => width < Math.min(info.width, largest)),
+        Math.min(info.width, largest),
+      ]
+
+      const placeholder = await sharp(original)
+        .resize({ width: IMAGE_VARIANT_CONFIG.PLACEHOLDER_WIDTH })
+        .blur()
+        .webp({ quality: 50 })
+        .toBuffer()
+
+      const variants = {
+        width: info.width,
+        height: info.height,
+        placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+        avif: [],
+        webp: [],
+      }
+
+      for (const width of widths) {
+        const resized = sharp(original).resize({ width, withoutEnlargement: true })
+        const encoded = {
+          avif: await resized.clone().avif({ quality: IMAGE_VARIANT_CONFIG.AVIF_QUALITY }).toBuffer(),
+          webp: await resized.clone().webp({ quality: IMAGE_VARIANT_CONFIG.WEBP_QUALITY }).toBuffer(),
+        }
+
+        for (const format of ['avif', 'webp']) {
+          const variantPath = `${stem}_${width}.${format}`
+          await upload(variantPath, encoded[format], `image/${format}`)
+          variants[format].push({
+            width,
+            url: supabase.storage.from(CHEF_MEDIA_BUCKET).getPublicUrl(variantPath).data.publicUrl,
+          })
+        }
+      }
+
+      return variants
+    } catch (error) {
+      console.error(`❌ Failed to process ${path}:`, error.message)
+      return null
+    }
+  }
+
+  const tables = [
+    { table: 'chefs', column: 'photo_url', variantsColumn: 'photo_variants' },
+    { table: 'food_photos', column: 'photo_url', variantsColumn: 'variants' },
+  ]
+
+  for (const { table, column, variantsColumn } of tables) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select(`id, ${column}`)
+      .is(variantsColumn, null)
+      .like(column, `%${CHEF_MEDIA_URL_MARKER}%`)
+
+    if (error) {
+      console.error(`❌ Error reading ${table}:`, error)
+      return
+    }
+
+    for (const row of rows || []) {
+      const variants = await processPhoto(row[column])
+      if (!variants) {
+        failed++
+        continue
+      }
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ [variantsColumn]: variants })
+        .eq('id', row.id)
+
+      if (updateError) {
+        console.error(`❌ Error updating ${table} ${row.id}:`, updateError)
+        failed++
+        continue
+      }
+
+      processed++
+    }
+
+    console.log(`✅ ${table}: ${rows?.length || 0} photo(s) checked`)
+  }
+
+  console.log(`🎉 ${processed} photo(s) processed${failed > 0 ? `, ${failed} failed - fix the errors and re-run` : ''}.`)
+}
+
+// Run processing
+processChefPhotos().catch(console.error)
@@ -0,0 +1,55 @@
+-- Chef Postcode Search Migration
+-- Adds postcode/radius search on top of the existing PostGIS `location` column
+--
+-- - chefs.location_outcode stores the UK outward code the location was derived from
+-- - search_chefs_near() returns verified chefs whose own travel_distance covers
+--   the searched point, nearest first
+--
+-- Relies on idx_chefs_location (GIST) created with the original location columns.
+
+-- =================================================================
+-- PART 1: COLUMNS
+-- =================================================================
+
+ALTER TABLE public.chefs
+  ADD COLUMN location_outcode TEXT;
+
+COMMENT ON COLUMN public.chefs.location_outcode IS
+  'UK outward code (e.g. TW3) used to derive location; set by admin or on application approval';
+
+-- =================================================================
+-- PART 2: SEARCH FUNCTION
+-- =================================================================
+
+CREATE FUNCTION public.search_chefs_near(
+  search_lat DOUBLE PRECISION,
+  search_lng DOUBLE PRECISION,
+  default_travel_miles NUMERIC DEFAULT 5
+)
+RETURNS TABLE (chef_id UUID, distance_miles DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH search_point AS (
+    SELECT ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography AS point
+  )
+  SELECT
+    c.id AS chef_id,
+    ST_Distance(c.location, sp.point) / 1609.344 AS distance_miles
+  FROM public.chefs c, search_point sp
+  WHERE c.verified = true
+    AND c.location IS NOT NULL
+    AND ST_DWithin(
+      c.location,
+      sp.point,
+      COALESCE(c.travel_distance, default_travel_miles) * 1609.344
+    )
+  ORDER BY distance_miles ASC;
+$$;
+
+COMMENT ON FUNCTION public.search_chefs_near IS
+  'Verified chefs willing to travel to the given point (uses each chef''s travel_distance in miles), nearest first';
+
+GRANT EXECUTE ON FUNCTION public.search_chefs_near(DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC) TO anon, authenticated;
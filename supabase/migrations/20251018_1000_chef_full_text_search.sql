@@ -0,0 +1,132 @@
+-- Chef Full-Text Search Migration
+-- Ranked search across chef names, bios, cuisines and dietary specialties
+--
+-- - chefs.search_document: weighted tsvector (name A, cuisines A, dietary B, bio C)
+-- - chefs.search_text: plain lowercase text used for pg_trgm typo tolerance
+-- - Both are kept up to date by triggers on chefs and chef_cuisines
+-- - search_chefs() returns ranked chef ids with a highlighted bio snippet
+
+-- =================================================================
+-- PART 1: EXTENSIONS & COLUMNS
+-- =================================================================
+
+CREATE EXTENSION pg_trgm;
+
+ALTER TABLE public.chefs
+  ADD COLUMN search_document TSVECTOR,
+  ADD COLUMN search_text TEXT;
+
+CREATE INDEX idx_chefs_search_document ON public.chefs USING gin(search_document);
+CREATE INDEX idx_chefs_search_text_trgm ON public.chefs USING gin(search_text gin_trgm_ops);
+
+-- =================================================================
+-- PART 2: KEEP SEARCH COLUMNS IN SYNC
+-- =================================================================
+
+CREATE FUNCTION public.refresh_chef_search_document(target_chef_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  UPDATE public.chefs c
+  SET
+    search_document =
+      setweight(to_tsvector('english', coalesce(c.name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(cu.cuisines, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(c.dietary_specialties, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(c.bio, '')), 'C'),
+    search_text = lower(concat_ws(' ', c.name, cu.cuisines, c.dietary_specialties, c.bio))
+  FROM (
+    SELECT string_agg(cuisine, ' ') AS cuisines
+    FROM public.chef_cuisines
+    WHERE chef_id = target_chef_id
+  ) cu
+  WHERE c.id = target_chef_id;
+$$;
+
+CREATE FUNCTION public.chefs_search_document_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM public.refresh_chef_search_document(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE FUNCTION public.chef_cuisines_search_document_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_chef_search_document(OLD.chef_id);
+  ELSE
+    PERFORM public.refresh_chef_search_document(NEW.chef_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Only fire when searchable fields change (the refresh itself updates chefs)
+CREATE TRIGGER trg_chefs_search_document
+  AFTER INSERT OR UPDATE OF name, bio, dietary_specialties ON public.chefs
+  FOR EACH ROW EXECUTE FUNCTION public.chefs_search_document_trigger();
+
+CREATE TRIGGER trg_chef_cuisines_search_document
+  AFTER INSERT OR UPDATE OR DELETE ON public.chef_cuisines
+  FOR EACH ROW EXECUTE FUNCTION public.chef_cuisines_search_document_trigger();
+
+-- Backfill existing chefs
+SELECT public.refresh_chef_search_document(id) FROM public.chefs;
+
+-- =================================================================
+-- PART 3: SEARCH FUNCTION
+-- =================================================================
+
+-- Full-text matches rank first; trigram word similarity catches typos
+-- ("gujrati", "dossa"). Snippets wrap matches in [[ ]] for the UI to highlight.
+CREATE FUNCTION public.search_chefs(search_query TEXT, result_limit INTEGER DEFAULT 50)
+RETURNS TABLE (chef_id UUID, rank REAL, snippet TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS tsq,
+      lower(trim(search_query)) AS term
+  )
+  SELECT
+    c.id AS chef_id,
+    (ts_rank_cd(c.search_document, q.tsq) * 2 + word_similarity(q.term, c.search_text))::REAL AS rank,
+    CASE
+      WHEN c.bio IS NULL OR c.bio = '' THEN NULL
+      ELSE ts_headline(
+        'english',
+        c.bio,
+        q.tsq,
+        'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, ShortWord=2, MaxFragments=1, FragmentDelimiter=" … "'
+      )
+    END AS snippet
+  FROM public.chefs c, q
+  WHERE c.verified = true
+    AND q.term <> ''
+    AND (
+      c.search_document @@ q.tsq
+      OR q.term <% c.search_text
+    )
+  ORDER BY rank DESC
+  LIMIT result_limit;
+$$;
+
+COMMENT ON FUNCTION public.search_chefs IS
+  'Ranked full-text + trigram search over verified chefs; snippet highlights matches in the bio with [[ ]]';
+
+GRANT EXECUTE ON FUNCTION public.search_chefs(TEXT, INTEGER) TO anon, authenticated;
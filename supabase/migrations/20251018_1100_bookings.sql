@@ -0,0 +1,86 @@
+-- Booking Requests Migration
+-- Adds a real booking entity between customers and chefs
+--
+-- Lifecycle: requested -> accepted | declined | countered
+--            countered -> accepted | cancelled (customer declines the counter)
+--            requested | countered | accepted -> cancelled (customer cancels)
+--
+-- Both parties act through unguessable token links sent by email, so there is
+-- no customer login. Every status change is recorded in booking_events,
+-- modelled on review_events.
+
+-- =================================================================
+-- PART 1: CORE TABLES
+-- =================================================================
+
+CREATE TABLE public.bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+  customer_ref UUID NOT NULL REFERENCES public.customer_contacts(id) ON DELETE CASCADE,
+
+  -- Requested booking
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'countered', 'accepted', 'declined', 'cancelled')),
+  booking_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  hours NUMERIC(4,1) NOT NULL CHECK (hours > 0 AND hours <= 12),
+  guest_count INTEGER NOT NULL CHECK (guest_count BETWEEN 1 AND 50),
+  address_area TEXT NOT NULL CHECK (length(address_area) <= 100), -- Area only, never the full address
+  notes TEXT CHECK (length(notes) <= 500),
+
+  -- Chef counter-proposal (replaces the requested values once accepted)
+  counter_date DATE,
+  counter_start_time TIME,
+  counter_hours NUMERIC(4,1) CHECK (counter_hours IS NULL OR (counter_hours > 0 AND counter_hours <= 12)),
+  chef_message TEXT CHECK (length(chef_message) <= 500),
+
+  -- Access tokens for email links (one per party)
+  chef_token TEXT NOT NULL UNIQUE,
+  customer_token TEXT NOT NULL UNIQUE,
+
+  -- Security & Rate Limiting
+  ip_hash TEXT NOT NULL,
+
+  -- Timestamps
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Booking status history (following review_events pattern)
+CREATE TABLE public.booking_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL CHECK (actor IN ('customer', 'chef', 'admin', 'system')),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =================================================================
+-- PART 2: PERFORMANCE INDEXES
+-- =================================================================
+
+CREATE INDEX idx_bookings_chef_id ON public.bookings(chef_id, booking_date DESC);
+CREATE INDEX idx_bookings_customer_ref ON public.bookings(customer_ref);
+CREATE INDEX idx_bookings_status ON public.bookings(status, created_at DESC);
+CREATE INDEX idx_bookings_ip_hash ON public.bookings(ip_hash, created_at DESC);
+CREATE INDEX idx_booking_events_booking_id ON public.booking_events(booking_id, created_at);
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY (RLS) POLICIES
+-- =================================================================
+
+-- All customer/chef access goes through server actions with the service role
+ALTER TABLE public.bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin only access to bookings" ON public.bookings
+  FOR ALL USING ((auth.jwt()->>'role') = 'admin');
+
+CREATE POLICY "Admin can view booking events" ON public.booking_events
+  FOR SELECT USING ((auth.jwt()->>'role') = 'admin');
+
+COMMENT ON TABLE public.bookings IS 'Booking requests between customers and chefs, managed via emailed token links';
+COMMENT ON TABLE public.booking_events IS 'Audit trail of booking status changes';
@@ -0,0 +1,64 @@
+-- Chef Portal Migration
+-- Lets approved chefs sign in with an email magic link and edit their own profile
+--
+-- Chefs have no email column of their own - a portal login is matched to the
+-- email on their approved chef_applications record. Everyday fields (bio,
+-- availability, cuisines, food photos) apply immediately; sensitive fields
+-- (rates and minimum booking) are queued in chef_profile_change_requests
+-- until an admin approves them. Everything is written to chef_audit_log.
+
+-- =================================================================
+-- PART 1: APPLICANT EMAIL LOOKUP
+-- =================================================================
+
+-- Normalised copy of the application email so portal logins can be matched
+-- with an indexed equality lookup instead of scanning answers JSON
+ALTER TABLE public.chef_applications
+ADD COLUMN applicant_email TEXT GENERATED ALWAYS AS (lower(trim(answers->>'Email Address'))) STORED;
+
+CREATE INDEX idx_chef_applications_applicant_email
+  ON public.chef_applications(applicant_email)
+  WHERE status = 'approved';
+
+-- =================================================================
+-- PART 2: PENDING PROFILE CHANGES
+-- =================================================================
+
+CREATE TABLE public.chef_profile_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+
+  -- Requested values and the values they would replace, keyed by chefs column
+  changes JSONB NOT NULL,
+  previous_values JSONB NOT NULL DEFAULT '{}',
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+  review_notes TEXT,
+  reviewed_at TIMESTAMPTZ,
+
+  -- Portal user who asked for the change
+  requested_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =================================================================
+-- PART 3: PERFORMANCE INDEXES
+-- =================================================================
+
+CREATE INDEX idx_chef_change_requests_chef ON public.chef_profile_change_requests(chef_id, created_at DESC);
+CREATE INDEX idx_chef_change_requests_pending ON public.chef_profile_change_requests(created_at)
+  WHERE status = 'pending';
+
+-- =================================================================
+-- PART 4: ROW LEVEL SECURITY (RLS) POLICIES
+-- =================================================================
+
+-- Portal reads and writes go through server actions using the service role
+ALTER TABLE public.chef_profile_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin only access to chef change requests" ON public.chef_profile_change_requests
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
+
+COMMENT ON COLUMN public.chef_applications.applicant_email IS 'Lowercased Email Address answer, used to match chef portal logins';
+COMMENT ON TABLE public.chef_profile_change_requests IS 'Sensitive chef profile edits from the chef portal awaiting admin approval';
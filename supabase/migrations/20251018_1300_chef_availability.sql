@@ -0,0 +1,241 @@
+-- Chef Availability Migration
+-- Replaces free-text availability with structured weekly slots and blackout dates
+--
+-- Weekly slots: day of week (0 = Sunday ... 6 = Saturday, matching EXTRACT(DOW)
+-- and JavaScript's getDay) with a start and end time. Blackout dates are
+-- one-off days the chef can't work, overriding the weekly pattern.
+--
+-- chefs.availability (free text) is kept as notes. Existing values are
+-- converted on a best-effort basis by import_chef_availability(); anything it
+-- can't convert cleanly is flagged with chefs.availability_needs_review.
+
+-- =================================================================
+-- PART 1: CORE TABLES
+-- =================================================================
+
+CREATE TABLE public.chef_availability_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (end_time > start_time),
+  UNIQUE (chef_id, day_of_week, start_time, end_time)
+);
+
+CREATE TABLE public.chef_blackout_dates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+  blackout_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (chef_id, blackout_date)
+);
+
+-- Set when free-text availability couldn't be fully converted to slots
+ALTER TABLE public.chefs
+ADD COLUMN availability_needs_review BOOLEAN NOT NULL DEFAULT false;
+
+-- =================================================================
+-- PART 2: PERFORMANCE INDEXES
+-- =================================================================
+
+CREATE INDEX idx_chef_availability_slots_chef ON public.chef_availability_slots(chef_id, day_of_week);
+CREATE INDEX idx_chef_availability_slots_day ON public.chef_availability_slots(day_of_week, start_time, end_time);
+CREATE INDEX idx_chef_blackout_dates_chef ON public.chef_blackout_dates(chef_id, blackout_date);
+CREATE INDEX idx_chefs_availability_needs_review ON public.chefs(availability_needs_review)
+  WHERE availability_needs_review = true;
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY (RLS) POLICIES
+-- =================================================================
+
+-- Availability is public profile data; writes go through server actions
+ALTER TABLE public.chef_availability_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chef_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view availability slots" ON public.chef_availability_slots
+FOR SELECT USING (true);
+
+CREATE POLICY "Admin can manage availability slots" ON public.chef_availability_slots
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
+
+CREATE POLICY "Public can view blackout dates" ON public.chef_blackout_dates
+FOR SELECT USING (true);
+
+CREATE POLICY "Admin can manage blackout dates" ON public.chef_blackout_dates
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
+
+-- =================================================================
+-- PART 4: FREE-TEXT CONVERSION
+-- =================================================================
+
+-- Best-effort conversion of chefs.availability into weekly slots.
+--
+-- The text is split into clauses on commas, semicolons, full stops and new
+-- lines. In each clause:
+--   days:    "monday", "mon-fri", "weekdays", "weekends", "every day", "flexible"
+--   periods: morning 08:00-12:00, afternoon 12:00-17:00, evening 17:00-22:00
+--            ("all day" or no period = 08:00-22:00; no days = every day)
+-- e.g. "Monday-Friday evenings, Weekends all day"
+--
+-- Flags the chef for review when a clause has no recognisable day or period,
+-- the text mentions clock times (approximated by periods), or nothing converts.
+-- Chefs that already have slots are left untouched.
+--
+-- Returns true when the text was converted cleanly
+CREATE OR REPLACE FUNCTION public.import_chef_availability(target_chef_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  source_text TEXT;
+  clause TEXT;
+  clause_days SMALLINT[];
+  clause_periods TEXT[];
+  day_match TEXT[];
+  day_keys TEXT[] := ARRAY['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+  day_pattern TEXT := '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat)s?';
+  from_day INTEGER;
+  to_day INTEGER;
+  current_day INTEGER;
+  needs_review BOOLEAN := false;
+BEGIN
+  SELECT availability INTO source_text FROM chefs WHERE id = target_chef_id;
+
+  IF EXISTS (SELECT 1 FROM chef_availability_slots WHERE chef_id = target_chef_id) THEN
+    RETURN true;
+  END IF;
+
+  IF source_text IS NULL OR trim(source_text) = '' THEN
+    UPDATE chefs SET availability_needs_review = false WHERE id = target_chef_id;
+    RETURN true;
+  END IF;
+
+  FOREACH clause IN ARRAY regexp_split_to_array(lower(source_text), '[,;.\n]+')
+  LOOP
+    clause := trim(clause);
+    CONTINUE WHEN clause = '';
+
+    clause_days := '{}';
+    clause_periods := '{}';
+
+    -- Day ranges ("monday-friday", "mon to thu"), wrapping past Sunday
+    FOR day_match IN SELECT regexp_matches(clause, '\m' || day_pattern || '\s*(?:-|–|to|till|until)\s*' || day_pattern || '\M', 'g')
+    LOOP
+      from_day := array_position(day_keys, left(day_match[1], 3)) - 1;
+      to_day := array_position(day_keys, left(day_match[2], 3)) - 1;
+      current_day := from_day;
+      LOOP
+        clause_days := clause_days || current_day::SMALLINT;
+        EXIT WHEN current_day = to_day;
+        current_day := (current_day + 1) % 7;
+      END LOOP;
+    END LOOP;
+
+    -- Individual days
+    FOR day_match IN SELECT regexp_matches(clause, '\m' || day_pattern || '\M', 'g')
+    LOOP
+      clause_days := clause_days || (array_position(day_keys, left(day_match[1], 3)) - 1)::SMALLINT;
+    END LOOP;
+
+    IF clause ~ '\mweekdays?\M' THEN
+      clause_days := clause_days || ARRAY[1, 2, 3, 4, 5]::SMALLINT[];
+    END IF;
+
+    IF clause ~ '\mweekends?\M' THEN
+      clause_days := clause_days || ARRAY[0, 6]::SMALLINT[];
+    END IF;
+
+    IF clause ~ '\m(every ?day|daily|any ?day|all week|7 days|seven days|flexible|any ?time)\M' THEN
+      clause_days := clause_days || ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[];
+    END IF;
+
+    -- Times of day
+    IF clause ~ '\m(mornings?|breakfast)\M' THEN
+      clause_periods := clause_periods || 'morning';
+    END IF;
+
+    IF clause ~ '\m(afternoons?|lunch|lunchtimes?)\M' THEN
+      clause_periods := clause_periods || 'afternoon';
+    END IF;
+
+    IF clause ~ '\m(daytimes?|during the day)\M' THEN
+      clause_periods := clause_periods || ARRAY['morning', 'afternoon'];
+    END IF;
+
+    IF clause ~ '\m(evenings?|nights?|dinners?)\M' THEN
+      clause_periods := clause_periods || 'evening';
+    END IF;
+
+    IF clause ~ '\m(all|full|whole) day\M' THEN
+      clause_periods := ARRAY['all'];
+    END IF;
+
+    IF cardinality(clause_days) = 0 AND cardinality(clause_periods) = 0 THEN
+      needs_review := true;
+      CONTINUE;
+    END IF;
+
+    IF cardinality(clause_days) = 0 THEN
+      clause_days := ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[];
+    END IF;
+
+    IF cardinality(clause_periods) = 0 THEN
+      clause_periods := ARRAY['all'];
+    END IF;
+
+    INSERT INTO chef_availability_slots (chef_id, day_of_week, start_time, end_time)
+    SELECT DISTINCT target_chef_id, slot_day, periods.start_time, periods.end_time
+    FROM unnest(clause_days) AS slot_day
+    CROSS JOIN (VALUES
+      ('morning', '08:00'::TIME, '12:00'::TIME),
+      ('afternoon', '12:00'::TIME, '17:00'::TIME),
+      ('evening', '17:00'::TIME, '22:00'::TIME),
+      ('all', '08:00'::TIME, '22:00'::TIME)
+    ) AS periods(period, start_time, end_time)
+    WHERE periods.period = ANY(clause_periods)
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  -- Drop slots covered by a longer slot on the same day (e.g. evening + all day)
+  DELETE FROM chef_availability_slots covered
+  USING chef_availability_slots covering
+  WHERE covered.chef_id = target_chef_id
+    AND covering.chef_id = target_chef_id
+    AND covered.day_of_week = covering.day_of_week
+    AND covered.id <> covering.id
+    AND covered.start_time >= covering.start_time
+    AND covered.end_time <= covering.end_time
+    AND (covered.end_time - covered.start_time) < (covering.end_time - covering.start_time);
+
+  -- Specific times ("after 6pm") are only approximated by the periods above
+  IF source_text ~* '\d{1,2}(:\d{2})?\s*(am|pm)' THEN
+    needs_review := true;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM chef_availability_slots WHERE chef_id = target_chef_id) THEN
+    needs_review := true;
+  END IF;
+
+  UPDATE chefs SET availability_needs_review = needs_review WHERE id = target_chef_id;
+
+  RETURN NOT needs_review;
+END;
+$$;
+
+COMMENT ON FUNCTION public.import_chef_availability IS 'Best-effort conversion of chefs.availability free text into chef_availability_slots; flags anything unclear for admin review';
+
+-- =================================================================
+-- PART 5: CONVERT EXISTING CHEFS
+-- =================================================================
+
+SELECT public.import_chef_availability(id) FROM public.chefs;
+
+COMMENT ON TABLE public.chef_availability_slots IS 'Weekly recurring availability per chef (0 = Sunday)';
+COMMENT ON TABLE public.chef_blackout_dates IS 'One-off dates a chef is unavailable, overriding weekly slots';
+COMMENT ON COLUMN public.chefs.availability_needs_review IS 'Free-text availability could not be fully converted to slots';
@@ -0,0 +1,115 @@
+-- Chef Dish Menu Migration
+-- Per-chef menu of dishes with dietary tags and UK allergen information
+--
+-- - chef_dishes: name, description, optional photo (an existing food_photos
+--   row), dietary tags and the 14 allergens UK law requires caterers to declare
+-- - Dish names, descriptions and tags are added to chefs.search_document so
+--   homepage searches like "paneer" or "vegan thali" find the chef
+
+-- =================================================================
+-- PART 1: CORE TABLE
+-- =================================================================
+
+CREATE TABLE public.chef_dishes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  description TEXT CHECK (description IS NULL OR length(description) <= 500),
+  -- Removing the photo keeps the dish
+  food_photo_id UUID REFERENCES public.food_photos(id) ON DELETE SET NULL,
+  dietary_tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['vegetarian', 'vegan', 'halal', 'jain']::TEXT[]),
+  allergens TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY[
+      'celery', 'gluten', 'crustaceans', 'eggs', 'fish', 'lupin', 'milk',
+      'molluscs', 'mustard', 'tree_nuts', 'peanuts', 'sesame', 'soya', 'sulphites'
+    ]::TEXT[]),
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.chef_dishes.allergens IS
+  'UK FIC 14 allergens contained in the dish, as declared by the chef';
+
+-- =================================================================
+-- PART 2: PERFORMANCE INDEXES
+-- =================================================================
+
+CREATE INDEX idx_chef_dishes_chef ON public.chef_dishes(chef_id, display_order);
+CREATE INDEX idx_chef_dishes_food_photo ON public.chef_dishes(food_photo_id)
+  WHERE food_photo_id IS NOT NULL;
+CREATE INDEX idx_chef_dishes_dietary_tags ON public.chef_dishes USING gin(dietary_tags);
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY (RLS) POLICIES
+-- =================================================================
+
+-- Menus are public profile data; writes go through server actions
+ALTER TABLE public.chef_dishes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view dishes" ON public.chef_dishes
+FOR SELECT USING (true);
+
+CREATE POLICY "Admin can manage dishes" ON public.chef_dishes
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
+
+-- =================================================================
+-- PART 4: SEARCH DOCUMENT
+-- =================================================================
+
+-- Same weights as before, plus dish names and tags (B) and dish
+-- descriptions (C). Tags are stored as 'vegetarian', 'vegan', etc. so they
+-- match plain-word searches.
+CREATE OR REPLACE FUNCTION public.refresh_chef_search_document(target_chef_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  UPDATE public.chefs c
+  SET
+    search_document =
+      setweight(to_tsvector('english', coalesce(c.name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(cu.cuisines, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(c.dietary_specialties, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(d.dish_names, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(d.dish_tags, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(c.bio, '')), 'C') ||
+      setweight(to_tsvector('english', coalesce(d.dish_descriptions, '')), 'C'),
+    search_text = lower(concat_ws(' ', c.name, cu.cuisines, c.dietary_specialties, d.dish_names, c.bio))
+  FROM (
+    SELECT string_agg(cuisine, ' ') AS cuisines
+    FROM public.chef_cuisines
+    WHERE chef_id = target_chef_id
+  ) cu, (
+    SELECT
+      string_agg(name, ' ') AS dish_names,
+      string_agg(description, ' ') AS dish_descriptions,
+      string_agg(array_to_string(dietary_tags, ' '), ' ') AS dish_tags
+    FROM public.chef_dishes
+    WHERE chef_id = target_chef_id
+  ) d
+  WHERE c.id = target_chef_id;
+$$;
+
+CREATE FUNCTION public.chef_dishes_search_document_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_chef_search_document(OLD.chef_id);
+  ELSE
+    PERFORM public.refresh_chef_search_document(NEW.chef_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Display order changes don't affect search
+CREATE TRIGGER trg_chef_dishes_search_document
+  AFTER INSERT OR DELETE OR UPDATE OF name, description, dietary_tags ON public.chef_dishes
+  FOR EACH ROW EXECUTE FUNCTION public.chef_dishes_search_document_trigger();
@@ -0,0 +1,58 @@
+-- Review Replies Migration
+-- Lets a chef post one public reply to each published review
+--
+-- Replies go through moderation like reviews: they start as
+-- 'awaiting_moderation' and only show on the profile once an admin publishes
+-- them. Status changes are logged to review_events against the parent review,
+-- with reply_id set so reply history can be told apart from review history.
+
+-- =================================================================
+-- PART 1: CORE TABLE
+-- =================================================================
+
+CREATE TABLE public.review_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- One reply per review
+  review_id UUID NOT NULL UNIQUE REFERENCES public.reviews(id) ON DELETE CASCADE,
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 1000),
+  -- Replies skip email verification - the chef is already signed in
+  status review_status NOT NULL DEFAULT 'awaiting_moderation'
+    CHECK (status <> 'awaiting_email'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  published_at TIMESTAMPTZ
+);
+
+-- =================================================================
+-- PART 2: AUDIT TRAIL
+-- =================================================================
+
+ALTER TABLE public.review_events
+ADD COLUMN reply_id UUID REFERENCES public.review_replies(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.review_events.reply_id IS
+  'Set when the event tracks the chef reply rather than the review itself';
+
+-- =================================================================
+-- PART 3: PERFORMANCE INDEXES
+-- =================================================================
+
+CREATE INDEX idx_review_replies_chef ON public.review_replies(chef_id);
+CREATE INDEX idx_review_replies_awaiting ON public.review_replies(created_at)
+  WHERE status = 'awaiting_moderation';
+CREATE INDEX idx_review_events_reply ON public.review_events(reply_id)
+  WHERE reply_id IS NOT NULL;
+
+-- =================================================================
+-- PART 4: ROW LEVEL SECURITY (RLS) POLICIES
+-- =================================================================
+
+-- Only published replies are public; writes go through server actions
+ALTER TABLE public.review_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view published replies" ON public.review_replies
+FOR SELECT USING (status = 'published');
+
+CREATE POLICY "Admin can manage replies" ON public.review_replies
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
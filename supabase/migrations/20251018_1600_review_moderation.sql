@@ -0,0 +1,32 @@
+-- Review Moderation Migration
+-- Holds risky reviews in 'awaiting_moderation' after email verification
+--
+-- When a reviewer verifies their email, the review is checked for risk
+-- signals (low rating, links or phone numbers in the comment, a burst of
+-- reviews for the chef, an IP hash seen on other reviews). Reviews with any
+-- signal wait in the admin moderation queue instead of publishing straight
+-- away. Admin decisions record a required reason, also logged to
+-- review_events.
+
+-- =================================================================
+-- PART 1: COLUMNS
+-- =================================================================
+
+ALTER TABLE public.reviews
+  ADD COLUMN risk_signals TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN moderated_at TIMESTAMPTZ,
+  ADD COLUMN moderation_reason TEXT;
+
+COMMENT ON COLUMN public.reviews.risk_signals IS
+  'Signals found at verification: low_rating, contains_link, contains_phone, review_burst, shared_ip';
+
+-- =================================================================
+-- PART 2: PERFORMANCE INDEXES
+-- =================================================================
+
+-- Moderation queue, oldest first
+CREATE INDEX idx_reviews_awaiting_moderation ON public.reviews(verified_at)
+  WHERE status = 'awaiting_moderation';
+
+-- Burst detection counts recent reviews per chef
+CREATE INDEX idx_reviews_chef_created ON public.reviews(chef_id, created_at);
@@ -0,0 +1,74 @@
+-- Review Verification Resend Migration
+-- Lets reviewers request a fresh verification link and expires stale reviews
+--
+-- - review_verification_resends: one row per resend request, used to rate
+--   limit by email_hash and ip_hash (rows are written even when no review
+--   matches, so the form can't be used to probe for reviews)
+-- - 'expired' review status: set by expire_stale_reviews() once a
+--   verification link has lapsed. A resend revives an expired review.
+
+-- =================================================================
+-- PART 1: EXPIRED STATUS
+-- =================================================================
+
+ALTER TYPE review_status ADD VALUE 'expired';
+
+-- =================================================================
+-- PART 2: RESEND LOG
+-- =================================================================
+
+CREATE TABLE public.review_verification_resends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.reviews(id) ON DELETE SET NULL,
+  email_hash TEXT NOT NULL,
+  ip_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_review_resends_email ON public.review_verification_resends(email_hash, created_at);
+CREATE INDEX idx_review_resends_ip ON public.review_verification_resends(ip_hash, created_at);
+
+-- Sweep looks for lapsed links
+CREATE INDEX idx_reviews_verification_expiry ON public.reviews(verification_expires_at)
+  WHERE status = 'awaiting_email';
+
+ALTER TABLE public.review_verification_resends ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can view review resends" ON public.review_verification_resends
+FOR SELECT USING ((auth.jwt()->>'role') = 'admin');
+
+-- =================================================================
+-- PART 3: EXPIRY SWEEP
+-- =================================================================
+
+-- Marks reviews whose verification link has lapsed as expired and logs each
+-- one to review_events. Run on a schedule by /api/cron/expire-reviews.
+CREATE FUNCTION public.expire_stale_reviews()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE public.reviews
+    SET status = 'expired'
+    WHERE status = 'awaiting_email'
+      AND verification_expires_at < NOW()
+    RETURNING id
+  )
+  INSERT INTO public.review_events (review_id, from_status, to_status, actor, notes)
+  SELECT id, 'awaiting_email', 'expired', 'system', 'Verification link expired without being used'
+  FROM expired;
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.expire_stale_reviews IS
+  'Expires unverified reviews whose verification link has lapsed; returns the number expired';
+
+REVOKE EXECUTE ON FUNCTION public.expire_stale_reviews() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Review Sub-Ratings Migration
+-- Optional 1-5 ratings for taste, punctuality, cleanliness and communication
+--
+-- The overall `rating` stays required. chef_rating_stats is rebuilt to
+-- average each dimension over the published reviews that rated it, with a
+-- per-dimension count so the profile can hide thinly-rated dimensions.
+
+-- =================================================================
+-- PART 1: COLUMNS
+-- =================================================================
+
+ALTER TABLE public.reviews
+  ADD COLUMN taste_rating SMALLINT CHECK (taste_rating BETWEEN 1 AND 5),
+  ADD COLUMN punctuality_rating SMALLINT CHECK (punctuality_rating BETWEEN 1 AND 5),
+  ADD COLUMN cleanliness_rating SMALLINT CHECK (cleanliness_rating BETWEEN 1 AND 5),
+  ADD COLUMN communication_rating SMALLINT CHECK (communication_rating BETWEEN 1 AND 5);
+
+-- =================================================================
+-- PART 2: RATING STATS VIEW
+-- =================================================================
+
+-- Materialized views can't gain columns in place, so rebuild it
+DROP MATERIALIZED VIEW public.chef_rating_stats;
+
+CREATE MATERIALIZED VIEW public.chef_rating_stats AS
+SELECT
+  chef_id,
+  COUNT(*) AS review_count,
+  ROUND(AVG(rating)::numeric, 1) AS avg_rating,
+  MAX(published_at) AS latest_review_date,
+  -- AVG/COUNT skip NULLs, so each dimension only counts reviews that rated it
+  ROUND(AVG(taste_rating)::numeric, 1) AS avg_taste,
+  COUNT(taste_rating) AS taste_count,
+  ROUND(AVG(punctuality_rating)::numeric, 1) AS avg_punctuality,
+  COUNT(punctuality_rating) AS punctuality_count,
+  ROUND(AVG(cleanliness_rating)::numeric, 1) AS avg_cleanliness,
+  COUNT(cleanliness_rating) AS cleanliness_count,
+  ROUND(AVG(communication_rating)::numeric, 1) AS avg_communication,
+  COUNT(communication_rating) AS communication_count
+FROM public.reviews
+WHERE status = 'published'
+GROUP BY chef_id;
+
+-- Required for REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX idx_chef_rating_stats_chef_id ON public.chef_rating_stats(chef_id);
+
+REVOKE ALL ON public.chef_rating_stats FROM public;
+GRANT SELECT ON public.chef_rating_stats TO anon, authenticated;
@@ -0,0 +1,47 @@
+-- Review Photos Migration
+-- Up to three food photos per customer review
+--
+-- Files live in the private `review-photos` bucket and are only ever served
+-- through short-lived signed URLs, so nothing is reachable until the review
+-- is published. Admins can strip individual photos; each removal is logged
+-- to review_events.
+
+-- =================================================================
+-- PART 1: STORAGE BUCKET
+-- =================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', false);
+
+-- =================================================================
+-- PART 2: REVIEW PHOTOS TABLE
+-- =================================================================
+
+CREATE TABLE public.review_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_review_photos_review ON public.review_photos(review_id, display_order);
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY
+-- =================================================================
+
+ALTER TABLE public.review_photos ENABLE ROW LEVEL SECURITY;
+
+-- Photos only become visible alongside their published review
+CREATE POLICY "Public can view photos on published reviews" ON public.review_photos
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.reviews r
+    WHERE r.id = review_photos.review_id
+    AND r.status = 'published'
+  )
+);
+
+CREATE POLICY "Admin can manage review photos" ON public.review_photos
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
@@ -0,0 +1,86 @@
+-- Application Question Builder Migration
+-- Versioned question sets for the admin question builder
+--
+-- Every admin change to chef_questions snapshots the visible, ordered set
+-- into chef_question_set_versions. Applications record the version they
+-- were answered against, so old answers can be read against the questions
+-- the applicant actually saw.
+
+-- =================================================================
+-- PART 1: QUESTION SET VERSIONS
+-- =================================================================
+
+CREATE TABLE public.chef_question_set_versions (
+  version INTEGER PRIMARY KEY,
+  questions JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.chef_questions
+  ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE public.chef_applications
+  ADD COLUMN question_set_version INTEGER REFERENCES public.chef_question_set_versions(version);
+
+-- =================================================================
+-- PART 2: SNAPSHOT FUNCTION
+-- =================================================================
+
+-- Records the current visible question set as a new version and returns it.
+-- Called by the admin question builder after each change.
+CREATE FUNCTION public.snapshot_chef_questions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  -- Serialise concurrent snapshots so version numbers don't collide
+  LOCK TABLE public.chef_question_set_versions IN EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO new_version
+  FROM public.chef_question_set_versions;
+
+  INSERT INTO public.chef_question_set_versions (version, questions)
+  SELECT new_version, COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', q.id,
+        'text', q.text,
+        'hint_text', q.hint_text,
+        'field_type', q.field_type,
+        'is_required', q.is_required,
+        'display_order', q.display_order
+      ) ORDER BY q.display_order
+    ),
+    '[]'::jsonb
+  )
+  FROM public.chef_questions q
+  WHERE q.is_visible = true;
+
+  RETURN new_version;
+END;
+$$;
+
+COMMENT ON FUNCTION public.snapshot_chef_questions IS
+  'Snapshots the visible chef_questions as a new question set version; returns the version number';
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_chef_questions() FROM PUBLIC, anon, authenticated;
+
+-- The live form starts at version 1
+SELECT public.snapshot_chef_questions();
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY
+-- =================================================================
+
+ALTER TABLE public.chef_question_set_versions ENABLE ROW LEVEL SECURITY;
+
+-- The apply page reads the current version number
+CREATE POLICY "Public can view question set versions" ON public.chef_question_set_versions
+FOR SELECT USING (true);
+
+CREATE POLICY "Admin can manage question set versions" ON public.chef_question_set_versions
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
@@ -0,0 +1,196 @@
+-- Stable Question Keys Migration
+-- Application answers are keyed by a fixed machine key instead of the
+-- question text
+--
+-- Until now chef_applications.answers used the question text as the key, so
+-- rewording a question in chef_questions silently broke chef creation. Each
+-- question gets an immutable `key`; the app maps keys to chefs columns.
+-- Existing answers are rewritten to the new keys. Answer keys that can't be
+-- mapped are left as they are and reported with RAISE NOTICE.
+
+-- =================================================================
+-- PART 1: QUESTION KEYS
+-- =================================================================
+
+ALTER TABLE public.chef_questions
+  ADD COLUMN key TEXT;
+
+-- Keys for the questions the app reads directly
+CREATE TEMP TABLE legacy_question_keys (text TEXT PRIMARY KEY, key TEXT NOT NULL) ON COMMIT DROP;
+
+INSERT INTO legacy_question_keys (text, key) VALUES
+  ('Full Name', 'full_name'),
+  ('Email Address', 'email'),
+  ('Phone Number', 'phone'),
+  ('Bio/About You', 'bio'),
+  ('Hourly Rate (£)', 'hourly_rate'),
+  ('Profile Photo', 'profile_photo'),
+  ('Food Photos', 'food_photos'),
+  ('Cuisine Specialties', 'cuisines'),
+  ('Introduction Video', 'introduction_video'),
+  ('Location/Area', 'location'),
+  ('Experience Years', 'experience_years'),
+  ('Availability', 'availability'),
+  ('Languages Spoken', 'languages_spoken'),
+  ('Travel Distance', 'travel_distance'),
+  ('Frequency Preference', 'frequency_preference'),
+  ('Minimum Booking', 'minimum_booking'),
+  ('Special Events', 'special_events'),
+  ('House Help Services', 'house_help_services'),
+  ('Dietary Specialties', 'dietary_specialties');
+
+UPDATE public.chef_questions q
+SET key = l.key
+FROM legacy_question_keys l
+WHERE q.text = l.text;
+
+-- Anything else gets a key derived from its text (suffixed if that clashes)
+UPDATE public.chef_questions q
+SET key = derived.key
+FROM (
+  SELECT
+    id,
+    CASE WHEN ROW_NUMBER() OVER (PARTITION BY slug ORDER BY created_at) = 1
+         AND NOT EXISTS (SELECT 1 FROM public.chef_questions taken WHERE taken.key = slug)
+      THEN slug
+      ELSE slug || '_' || ROW_NUMBER() OVER (PARTITION BY slug ORDER BY created_at)
+    END AS key
+  FROM (
+    SELECT id, created_at,
+      COALESCE(NULLIF(trim(BOTH '_' FROM regexp_replace(lower(text), '[^a-z0-9]+', '_', 'g')), ''), 'question') AS slug
+    FROM public.chef_questions
+    WHERE key IS NULL
+  ) slugs
+) derived
+WHERE q.id = derived.id;
+
+-- Keys must start with a letter for the form field names
+UPDATE public.chef_questions
+SET key = 'q_' || key
+WHERE key !~ '^[a-z]';
+
+ALTER TABLE public.chef_questions
+  ALTER COLUMN key SET NOT NULL,
+  ADD CONSTRAINT chef_questions_key_format CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  ADD CONSTRAINT chef_questions_key_unique UNIQUE (key);
+
+COMMENT ON COLUMN public.chef_questions.key IS
+  'Stable answer key - never changes once set, so the question text can be reworded freely';
+
+-- =================================================================
+-- PART 2: REWRITE EXISTING ANSWERS
+-- =================================================================
+
+-- Current question text wins over the legacy list if both match
+CREATE TEMP TABLE answer_key_map ON COMMIT DROP AS
+SELECT text, key FROM public.chef_questions
+UNION
+SELECT l.text, l.key FROM legacy_question_keys l
+WHERE NOT EXISTS (SELECT 1 FROM public.chef_questions q WHERE q.text = l.text);
+
+DO $$
+DECLARE
+  unmapped RECORD;
+  unmapped_total INTEGER := 0;
+BEGIN
+  FOR unmapped IN
+    SELECT a.answer_key, COUNT(*) AS application_count
+    FROM public.chef_applications app
+    CROSS JOIN LATERAL jsonb_object_keys(app.answers) AS a(answer_key)
+    WHERE NOT EXISTS (SELECT 1 FROM answer_key_map m WHERE m.text = a.answer_key)
+      AND NOT EXISTS (SELECT 1 FROM answer_key_map m WHERE m.key = a.answer_key)
+    GROUP BY a.answer_key
+    ORDER BY a.answer_key
+  LOOP
+    RAISE NOTICE 'Unmapped answer key "%" left unchanged on % application(s)',
+      unmapped.answer_key, unmapped.application_count;
+    unmapped_total := unmapped_total + 1;
+  END LOOP;
+
+  IF unmapped_total = 0 THEN
+    RAISE NOTICE 'All application answer keys mapped';
+  END IF;
+END $$;
+
+-- Mapped keys are renamed; unmapped ones (reported above) are kept as-is
+UPDATE public.chef_applications app
+SET answers = rewritten.answers
+FROM (
+  SELECT
+    app.id,
+    jsonb_object_agg(COALESCE(m.key, a.answer_key), a.value) AS answers
+  FROM public.chef_applications app
+  CROSS JOIN LATERAL jsonb_each(app.answers) AS a(answer_key, value)
+  LEFT JOIN answer_key_map m ON m.text = a.answer_key
+  GROUP BY app.id
+) rewritten
+WHERE app.id = rewritten.id;
+
+-- =================================================================
+-- PART 3: APPLICANT EMAIL LOOKUP
+-- =================================================================
+
+-- The generated column from the chef portal migration read the old key
+DROP INDEX public.idx_chef_applications_applicant_email;
+
+ALTER TABLE public.chef_applications
+  DROP COLUMN applicant_email;
+
+ALTER TABLE public.chef_applications
+  ADD COLUMN applicant_email TEXT GENERATED ALWAYS AS (lower(trim(answers->>'email'))) STORED;
+
+CREATE INDEX idx_chef_applications_applicant_email
+  ON public.chef_applications(applicant_email)
+  WHERE status = 'approved';
+
+-- =================================================================
+-- PART 4: QUESTION SET VERSIONS
+-- =================================================================
+
+-- Add keys to the existing snapshots
+UPDATE public.chef_question_set_versions v
+SET questions = (
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN q.key IS NULL THEN item ELSE item || jsonb_build_object('key', q.key) END
+    ORDER BY ordinality
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(v.questions) WITH ORDINALITY AS items(item, ordinality)
+  LEFT JOIN public.chef_questions q ON q.id::text = item->>'id'
+);
+
+CREATE OR REPLACE FUNCTION public.snapshot_chef_questions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  -- Serialise concurrent snapshots so version numbers don't collide
+  LOCK TABLE public.chef_question_set_versions IN EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO new_version
+  FROM public.chef_question_set_versions;
+
+  INSERT INTO public.chef_question_set_versions (version, questions)
+  SELECT new_version, COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', q.id,
+        'key', q.key,
+        'text', q.text,
+        'hint_text', q.hint_text,
+        'field_type', q.field_type,
+        'is_required', q.is_required,
+        'display_order', q.display_order
+      ) ORDER BY q.display_order
+    ),
+    '[]'::jsonb
+  )
+  FROM public.chef_questions q
+  WHERE q.is_visible = true;
+
+  RETURN new_version;
+END;
+$$;
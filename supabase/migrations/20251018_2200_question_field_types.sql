@@ -0,0 +1,147 @@
+-- Application Field Types Migration
+-- Select, yes/no, postcode and availability-grid questions, plus follow-ups
+-- that only show for a particular answer
+--
+-- - options: choices for single_select and multi_select questions
+-- - show_if_key / show_if_value: the question is only shown (and only
+--   validated) when the answer to show_if_key is show_if_value, e.g.
+--   "Which house help services?" only after "Do you offer house help?" = yes
+--
+-- The existing cuisine, language, dietary, location, availability and house
+-- help questions are converted to the new types. Older answers stay as text;
+-- the app reads both shapes.
+
+-- =================================================================
+-- PART 1: QUESTION COLUMNS
+-- =================================================================
+
+ALTER TABLE public.chef_questions
+  DROP CONSTRAINT chef_questions_field_type_check;
+
+ALTER TABLE public.chef_questions
+  ADD CONSTRAINT chef_questions_field_type_check CHECK (field_type IN (
+    'text', 'textarea', 'email', 'phone', 'number', 'photo', 'video',
+    'single_select', 'multi_select', 'yes_no', 'postcode', 'availability'
+  ));
+
+ALTER TABLE public.chef_questions
+  ADD COLUMN options TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN show_if_key TEXT REFERENCES public.chef_questions(key),
+  ADD COLUMN show_if_value TEXT;
+
+ALTER TABLE public.chef_questions
+  ADD CONSTRAINT chef_questions_select_options CHECK (
+    field_type NOT IN ('single_select', 'multi_select') OR cardinality(options) > 0
+  ),
+  ADD CONSTRAINT chef_questions_show_if_pair CHECK (
+    (show_if_key IS NULL) = (show_if_value IS NULL)
+  ),
+  ADD CONSTRAINT chef_questions_show_if_not_self CHECK (show_if_key <> key);
+
+COMMENT ON COLUMN public.chef_questions.show_if_key IS
+  'Only show this question when the answer to show_if_key equals show_if_value';
+
+-- =================================================================
+-- PART 2: CONVERT EXISTING QUESTIONS
+-- =================================================================
+
+UPDATE public.chef_questions
+SET field_type = 'multi_select',
+    options = ARRAY['North Indian', 'South Indian', 'Punjabi', 'Gujarati', 'Bengali', 'Pakistani',
+                    'Sri Lankan', 'Nepali', 'Chinese', 'Thai', 'Middle Eastern', 'Caribbean',
+                    'African', 'Italian', 'British'],
+    updated_at = NOW()
+WHERE key = 'cuisines';
+
+UPDATE public.chef_questions
+SET field_type = 'multi_select',
+    options = ARRAY['English', 'Hindi', 'Punjabi', 'Urdu', 'Gujarati', 'Bengali', 'Tamil',
+                    'Telugu', 'Malayalam', 'Marathi', 'Nepali', 'Sinhala'],
+    updated_at = NOW()
+WHERE key = 'languages_spoken';
+
+UPDATE public.chef_questions
+SET field_type = 'multi_select',
+    options = ARRAY['Vegetarian', 'Vegan', 'Halal', 'Jain', 'Gluten-free', 'Dairy-free',
+                    'Nut-free', 'Diabetic-friendly'],
+    updated_at = NOW()
+WHERE key = 'dietary_specialties';
+
+UPDATE public.chef_questions
+SET field_type = 'postcode',
+    hint_text = 'Your postcode (e.g. TW3 1AA) - we use it to match you with families nearby',
+    updated_at = NOW()
+WHERE key = 'location';
+
+UPDATE public.chef_questions
+SET field_type = 'availability',
+    hint_text = 'Tick the times you are usually free to cook each week',
+    updated_at = NOW()
+WHERE key = 'availability';
+
+-- "Do you offer house help?" goes just before the services question
+UPDATE public.chef_questions
+SET display_order = display_order + 1
+WHERE display_order >= (SELECT display_order FROM public.chef_questions WHERE key = 'house_help_services');
+
+INSERT INTO public.chef_questions (key, text, hint_text, field_type, is_required, is_visible, display_order)
+SELECT 'offers_house_help', 'Do you offer house help?',
+       'Some families also like help around the house while you cook',
+       'yes_no', false, is_visible, display_order - 1
+FROM public.chef_questions
+WHERE key = 'house_help_services';
+
+UPDATE public.chef_questions
+SET field_type = 'multi_select',
+    options = ARRAY['Washing up', 'Kitchen cleaning', 'Laundry', 'Ironing', 'Grocery shopping', 'Childcare'],
+    show_if_key = 'offers_house_help',
+    show_if_value = 'yes',
+    updated_at = NOW()
+WHERE key = 'house_help_services';
+
+-- =================================================================
+-- PART 3: QUESTION SET VERSIONS
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.snapshot_chef_questions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  -- Serialise concurrent snapshots so version numbers don't collide
+  LOCK TABLE public.chef_question_set_versions IN EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO new_version
+  FROM public.chef_question_set_versions;
+
+  INSERT INTO public.chef_question_set_versions (version, questions)
+  SELECT new_version, COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', q.id,
+        'key', q.key,
+        'text', q.text,
+        'hint_text', q.hint_text,
+        'field_type', q.field_type,
+        'is_required', q.is_required,
+        'display_order', q.display_order,
+        'options', to_jsonb(q.options),
+        'show_if_key', q.show_if_key,
+        'show_if_value', q.show_if_value
+      ) ORDER BY q.display_order
+    ),
+    '[]'::jsonb
+  )
+  FROM public.chef_questions q
+  WHERE q.is_visible = true;
+
+  RETURN new_version;
+END;
+$$;
+
+-- The converted form is a new version
+SELECT public.snapshot_chef_questions();
@@ -0,0 +1,56 @@
+-- Chef Application Drafts Migration
+-- Save-and-resume for the chef application form
+--
+-- - chef_application_drafts: answers so far plus files already uploaded,
+--   reached through an emailed resume link (/apply?draft=<token>). Only a
+--   SHA-256 hash of the token is stored.
+-- - upload_prefix: the chef-applications storage folder the draft's files
+--   were uploaded to, so resumed uploads land in the same place and the purge
+--   can remove them
+-- - Drafts are deleted when the application is submitted. Unfinished drafts
+--   are purged, with their files, by /api/cron/purge-application-drafts once
+--   they haven't changed for 30 days.
+-- - chef_applications.upload_prefix records the folder a submitted
+--   application's files are in, so a purge never touches them
+
+-- =================================================================
+-- PART 1: DRAFTS
+-- =================================================================
+
+CREATE TABLE public.chef_application_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_hash TEXT NOT NULL UNIQUE,
+  email TEXT NOT NULL, -- lowercased
+  upload_prefix TEXT NOT NULL UNIQUE CHECK (upload_prefix ~ '^temp_[0-9]+_[a-z0-9]+$'),
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  file_uploads JSONB NOT NULL DEFAULT '{}'::jsonb,
+  question_set_version INTEGER REFERENCES public.chef_question_set_versions(version),
+  link_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Purge looks for drafts that haven't changed in a while
+CREATE INDEX idx_chef_application_drafts_updated ON public.chef_application_drafts(updated_at);
+
+-- Rate limiting new drafts per email
+CREATE INDEX idx_chef_application_drafts_email ON public.chef_application_drafts(email, created_at);
+
+-- =================================================================
+-- PART 2: APPLICATION UPLOAD FOLDER
+-- =================================================================
+
+ALTER TABLE public.chef_applications
+  ADD COLUMN upload_prefix TEXT;
+
+CREATE INDEX idx_chef_applications_upload_prefix ON public.chef_applications(upload_prefix);
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY
+-- =================================================================
+
+-- Applicants reach drafts through server actions only (service role)
+ALTER TABLE public.chef_application_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can view application drafts" ON public.chef_application_drafts
+FOR SELECT USING ((auth.jwt()->>'role') = 'admin');
@@ -0,0 +1,45 @@
+-- Application Status Tracker Migration
+-- Private status page for applicants (/apply/status/[status_token])
+--
+-- - status_token: unguessable link token sent in the confirmation email and
+--   reused in later emails (same approach as bookings.customer_token)
+-- - rejection_reason: the reason shown to the applicant. rejectApplication
+--   used to write it over admin_notes, which are internal.
+-- - chef_application_messages: follow-up questions from admins and the
+--   applicant's replies
+--
+-- Applications submitted before this migration have no status token and no
+-- status page.
+
+-- =================================================================
+-- PART 1: APPLICATION COLUMNS
+-- =================================================================
+
+ALTER TABLE public.chef_applications
+  ADD COLUMN status_token TEXT UNIQUE,
+  ADD COLUMN rejection_reason TEXT;
+
+-- =================================================================
+-- PART 2: MESSAGES
+-- =================================================================
+
+CREATE TABLE public.chef_application_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.chef_applications(id) ON DELETE CASCADE,
+  sender TEXT NOT NULL CHECK (sender IN ('admin', 'applicant')),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_chef_application_messages_application
+  ON public.chef_application_messages(application_id, created_at);
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY
+-- =================================================================
+
+-- Applicants reach messages through the status page only (service role)
+ALTER TABLE public.chef_application_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can view application messages" ON public.chef_application_messages
+FOR SELECT USING ((auth.jwt()->>'role') = 'admin');
@@ -0,0 +1,25 @@
+-- Application Information Requests Migration
+-- Lets admins put an application on hold while they ask the applicant for
+-- more information, e.g. another photo or clearer availability
+--
+-- - information_requested: new application status. Set when an admin sends a
+--   request; the applicant's response on their status page puts the
+--   application back to pending.
+-- - chef_application_messages.file_uploads: extra files sent with a response,
+--   stored under the application's upload_prefix folder
+--
+-- Each request and response is a chef_application_messages row, so the
+-- messages plus the application's own timestamps make up its timeline.
+
+-- =================================================================
+-- PART 1: STATUS
+-- =================================================================
+
+ALTER TYPE application_status ADD VALUE 'information_requested';
+
+-- =================================================================
+-- PART 2: RESPONSE FILES
+-- =================================================================
+
+ALTER TABLE public.chef_application_messages
+  ADD COLUMN file_uploads JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,136 @@
+-- Application Duplicate Detection Migration
+-- Flags applicants who have applied before or are already chefs
+--
+-- - email_hash: hashEmail() of the application email (SHA-256 of the trimmed,
+--   lowercased address), set on submit and backfilled here
+-- - phone_normalised: digits-only phone with a UK +44 prefix folded to 0, on
+--   both chef_applications and chefs
+-- - profile_photo_hash: 64-bit difference hash (hex) of the profile photo,
+--   set on submit. Near-identical photos differ in only a few bits.
+-- - find_application_duplicates(): earlier applications and chefs matching an
+--   application by email, phone, similar name or similar profile photo.
+--   Chefs have no email or photo hash of their own, so those are compared
+--   through the application the chef was approved from.
+-- - duplicate_matches: the matches found when the application was submitted
+
+-- =================================================================
+-- PART 1: PHONE NORMALISATION
+-- =================================================================
+
+CREATE FUNCTION public.normalise_phone(phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN length(d.digits) >= 7 THEN d.digits END
+  FROM (
+    SELECT regexp_replace(regexp_replace(coalesce(phone, ''), '\D', '', 'g'), '^(0044|44)', '0') AS digits
+  ) d
+$$;
+
+COMMENT ON FUNCTION public.normalise_phone IS
+  'Digits-only phone number with +44 folded to a leading 0; NULL when too short to compare';
+
+-- =================================================================
+-- PART 2: MATCH COLUMNS
+-- =================================================================
+
+ALTER TABLE public.chef_applications
+  ADD COLUMN email_hash TEXT,
+  ADD COLUMN phone_normalised TEXT GENERATED ALWAYS AS (public.normalise_phone(answers->>'phone')) STORED,
+  ADD COLUMN profile_photo_hash TEXT CHECK (profile_photo_hash ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN duplicate_matches JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.chefs
+  ADD COLUMN phone_normalised TEXT GENERATED ALWAYS AS (public.normalise_phone(phone)) STORED;
+
+UPDATE public.chef_applications
+SET email_hash = encode(sha256(convert_to(lower(trim(answers->>'email')), 'UTF8')), 'hex')
+WHERE answers->>'email' IS NOT NULL;
+
+CREATE INDEX idx_chef_applications_email_hash ON public.chef_applications(email_hash);
+CREATE INDEX idx_chef_applications_phone_normalised ON public.chef_applications(phone_normalised);
+CREATE INDEX idx_chefs_phone_normalised ON public.chefs(phone_normalised);
+
+-- =================================================================
+-- PART 3: MATCHING
+-- =================================================================
+
+CREATE FUNCTION public.find_application_duplicates(
+  target_application_id UUID,
+  min_name_similarity REAL DEFAULT 0.7,
+  max_photo_distance INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  match_type TEXT,
+  match_id UUID,
+  name TEXT,
+  status TEXT,
+  reasons TEXT[],
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH target AS (
+    SELECT
+      a.id,
+      a.email_hash,
+      a.phone_normalised,
+      lower(trim(a.answers->>'full_name')) AS name,
+      ('x' || a.profile_photo_hash)::BIT(64) AS photo_bits
+    FROM public.chef_applications a
+    WHERE a.id = target_application_id
+  ),
+  candidates AS (
+    SELECT
+      'application'::TEXT AS match_type,
+      a.id AS match_id,
+      a.answers->>'full_name' AS name,
+      a.status::TEXT AS status,
+      a.email_hash,
+      a.phone_normalised,
+      a.profile_photo_hash,
+      a.created_at
+    FROM public.chef_applications a, target t
+    WHERE a.id <> t.id
+    UNION ALL
+    SELECT
+      'chef',
+      c.id,
+      c.name,
+      CASE WHEN c.verified THEN 'verified' ELSE 'unverified' END,
+      ca.email_hash,
+      c.phone_normalised,
+      ca.profile_photo_hash,
+      c.created_at
+    FROM public.chefs c
+    LEFT JOIN public.chef_applications ca ON ca.chef_id = c.id
+  ),
+  matched AS (
+    SELECT
+      m.match_type,
+      m.match_id,
+      m.name,
+      m.status,
+      array_remove(ARRAY[
+        CASE WHEN m.email_hash = t.email_hash THEN 'email' END,
+        CASE WHEN m.phone_normalised = t.phone_normalised THEN 'phone' END,
+        CASE WHEN similarity(lower(trim(m.name)), t.name) >= min_name_similarity THEN 'name' END,
+        CASE WHEN bit_count(('x' || m.profile_photo_hash)::BIT(64) # t.photo_bits) <= max_photo_distance THEN 'photo' END
+      ], NULL) AS reasons,
+      m.created_at
+    FROM candidates m, target t
+  )
+  SELECT DISTINCT ON (match_type, match_id) *
+  FROM matched
+  WHERE cardinality(reasons) > 0
+  ORDER BY match_type, match_id, cardinality(reasons) DESC
+$$;
+
+COMMENT ON FUNCTION public.find_application_duplicates IS
+  'Earlier applications and chefs matching an application by email hash, phone, name similarity or profile photo hash';
+
+REVOKE EXECUTE ON FUNCTION public.find_application_duplicates(UUID, REAL, INTEGER) FROM PUBLIC, anon, authenticated;
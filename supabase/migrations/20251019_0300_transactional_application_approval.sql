@@ -0,0 +1,122 @@
+-- Transactional Application Approval Migration
+-- Approving an application used to be a series of separate calls (create the
+-- chef, add availability, cuisines, food photos and videos, mark the
+-- application approved), each carrying on past failures. A failure part way
+-- left a half-created chef and an application still marked pending, and
+-- approving again created a second chef.
+--
+-- approve_chef_application() does all of it in one transaction, so it either
+-- fully succeeds or changes nothing. The application row is locked for the
+-- duration and an application that is already approved returns its existing
+-- chef, so retries and double clicks never create a second chef.
+
+-- =================================================================
+-- PART 1: APPROVAL FUNCTION
+-- =================================================================
+
+-- chef_fields: chefs columns worked out by the app (answers mapped by
+-- CHEF_COLUMN_BY_KEY, plus location and location_outcode). Only the columns
+-- listed in the INSERT below are read.
+-- availability_slots: [{ dayOfWeek, startTime, endTime }] from an availability
+-- grid answer, or NULL to convert the free-text availability instead.
+-- cuisines: cuisine specialties chosen on the form.
+--
+-- Returns the chef id and an outcome:
+--   approved          - chef created and application approved
+--   already_approved  - nothing changed; chef_id is the existing chef
+--   not_open          - the application was rejected; nothing changed
+--   not_found         - no such application
+CREATE FUNCTION public.approve_chef_application(
+  target_application_id UUID,
+  chef_fields JSONB,
+  availability_slots JSONB DEFAULT NULL,
+  cuisines TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (chef_id UUID, outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  application public.chef_applications%ROWTYPE;
+  fields public.chefs%ROWTYPE;
+  new_chef_id UUID;
+BEGIN
+  SELECT * INTO application
+  FROM public.chef_applications
+  WHERE id = target_application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF application.status = 'approved' AND application.chef_id IS NOT NULL THEN
+    RETURN QUERY SELECT application.chef_id, 'already_approved'::TEXT;
+    RETURN;
+  END IF;
+
+  IF application.status NOT IN ('pending', 'information_requested') THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_open'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Casts each JSON value to its column's type
+  fields := jsonb_populate_record(NULL::public.chefs, chef_fields);
+
+  INSERT INTO public.chefs (
+    name, bio, phone, hourly_rate, location_label, experience_years,
+    availability, languages_spoken, travel_distance, frequency_preference,
+    minimum_booking, special_events, house_help_services, dietary_specialties,
+    location, location_outcode, photo_url, verified
+  )
+  VALUES (
+    fields.name, fields.bio, fields.phone, fields.hourly_rate, fields.location_label, fields.experience_years,
+    fields.availability, fields.languages_spoken, fields.travel_distance, fields.frequency_preference,
+    fields.minimum_booking, fields.special_events, fields.house_help_services, fields.dietary_specialties,
+    fields.location, fields.location_outcode,
+    application.file_uploads->'profile_photos'->0->>'fileUrl',
+    true -- Auto-approve when created from application
+  )
+  RETURNING id INTO new_chef_id;
+
+  IF availability_slots IS NOT NULL THEN
+    INSERT INTO public.chef_availability_slots (chef_id, day_of_week, start_time, end_time)
+    SELECT new_chef_id, (slot->>'dayOfWeek')::SMALLINT, (slot->>'startTime')::TIME, (slot->>'endTime')::TIME
+    FROM jsonb_array_elements(availability_slots) AS slot;
+  ELSE
+    -- Flags unclear text for review rather than failing
+    PERFORM public.import_chef_availability(new_chef_id);
+  END IF;
+
+  INSERT INTO public.chef_cuisines (chef_id, cuisine)
+  SELECT new_chef_id, cuisine
+  FROM unnest(cuisines) AS cuisine;
+
+  INSERT INTO public.food_photos (chef_id, photo_url, display_order)
+  SELECT new_chef_id, photo->>'fileUrl', (ordinal - 1)::INTEGER
+  FROM jsonb_array_elements(coalesce(application.file_uploads->'food_photos', '[]'::jsonb))
+    WITH ORDINALITY AS photos(photo, ordinal);
+
+  INSERT INTO public.chef_videos (chef_id, video_url, video_type, display_order)
+  SELECT new_chef_id, video->>'fileUrl', 'introduction', (ordinal - 1)::INTEGER
+  FROM jsonb_array_elements(coalesce(application.file_uploads->'introduction_videos', '[]'::jsonb))
+    WITH ORDINALITY AS videos(video, ordinal);
+
+  UPDATE public.chef_applications
+  SET
+    status = 'approved',
+    approved_at = NOW(),
+    updated_at = NOW(),
+    chef_id = new_chef_id
+  WHERE id = target_application_id;
+
+  RETURN QUERY SELECT new_chef_id, 'approved'::TEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.approve_chef_application IS
+  'Creates the chef for an application and marks it approved in one transaction; returns the existing chef if already approved';
+
+REVOKE EXECUTE ON FUNCTION public.approve_chef_application(UUID, JSONB, JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,159 @@
+-- Chef Media Storage Migration
+-- Moves live chef media out of the chef-applications bucket
+--
+-- - chefs: new public bucket for live chef photos and videos, stored under
+--   the chef's id ({chef_id}/profile/..., {chef_id}/food/..., {chef_id}/video/...).
+--   Admin and chef portal uploads go here too.
+-- - approve_chef_application() now takes the chef id and the URLs of the
+--   media already copied into the chefs bucket, instead of pointing the new
+--   chef at the application's own files
+-- - chef-applications becomes private: application files are only shown to
+--   admins (and applicants) through signed URLs, and are deleted
+--   STORAGE_CONFIG.RETENTION_DAYS after the application is decided by
+--   /api/cron/purge-application-files. files_purged_at records when.
+--
+-- Existing chefs still pointing at chef-applications must be moved with
+-- scripts/node/move-chef-media.js, which makes the bucket private when done.
+-- PART 4 only does so here if nothing live points at it (e.g. a new project).
+
+-- =================================================================
+-- PART 1: BUCKET
+-- =================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('chefs', 'chefs', true);
+
+-- =================================================================
+-- PART 2: APPLICATION FILE RETENTION
+-- =================================================================
+
+ALTER TABLE public.chef_applications
+  ADD COLUMN files_purged_at TIMESTAMPTZ;
+
+-- =================================================================
+-- PART 3: APPROVAL FUNCTION
+-- =================================================================
+
+DROP FUNCTION public.approve_chef_application(UUID, JSONB, JSONB, TEXT[]);
+
+-- new_chef_id: id for the chef, chosen by the app so media can be copied into
+-- the chef's folder first. Ignored when the application is already approved.
+-- chef_fields: chefs columns worked out by the app (answers mapped by
+-- CHEF_COLUMN_BY_KEY, plus location and location_outcode). Only the columns
+-- listed in the INSERT below are read.
+-- media: { profile_photo_url, food_photo_urls[], video_urls[] } in the chefs
+-- bucket, in display order.
+-- availability_slots: [{ dayOfWeek, startTime, endTime }] from an availability
+-- grid answer, or NULL to convert the free-text availability instead.
+-- cuisines: cuisine specialties chosen on the form.
+--
+-- Returns the chef id and an outcome:
+--   approved          - chef created and application approved
+--   already_approved  - nothing changed; chef_id is the existing chef
+--   not_open          - the application was rejected; nothing changed
+--   not_found         - no such application
+CREATE FUNCTION public.approve_chef_application(
+  target_application_id UUID,
+  new_chef_id UUID,
+  chef_fields JSONB,
+  media JSONB,
+  availability_slots JSONB DEFAULT NULL,
+  cuisines TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (chef_id UUID, outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  application public.chef_applications%ROWTYPE;
+  fields public.chefs%ROWTYPE;
+BEGIN
+  SELECT * INTO application
+  FROM public.chef_applications
+  WHERE id = target_application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF application.status = 'approved' AND application.chef_id IS NOT NULL THEN
+    RETURN QUERY SELECT application.chef_id, 'already_approved'::TEXT;
+    RETURN;
+  END IF;
+
+  IF application.status NOT IN ('pending', 'information_requested') THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_open'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Casts each JSON value to its column's type
+  fields := jsonb_populate_record(NULL::public.chefs, chef_fields);
+
+  INSERT INTO public.chefs (
+    id, name, bio, phone, hourly_rate, location_label, experience_years,
+    availability, languages_spoken, travel_distance, frequency_preference,
+    minimum_booking, special_events, house_help_services, dietary_specialties,
+    location, location_outcode, photo_url, verified
+  )
+  VALUES (
+    new_chef_id, fields.name, fields.bio, fields.phone, fields.hourly_rate, fields.location_label, fields.experience_years,
+    fields.availability, fields.languages_spoken, fields.travel_distance, fields.frequency_preference,
+    fields.minimum_booking, fields.special_events, fields.house_help_services, fields.dietary_specialties,
+    fields.location, fields.location_outcode,
+    media->>'profile_photo_url',
+    true -- Auto-approve when created from application
+  );
+
+  IF availability_slots IS NOT NULL THEN
+    INSERT INTO public.chef_availability_slots (chef_id, day_of_week, start_time, end_time)
+    SELECT new_chef_id, (slot->>'dayOfWeek')::SMALLINT, (slot->>'startTime')::TIME, (slot->>'endTime')::TIME
+    FROM jsonb_array_elements(availability_slots) AS slot;
+  ELSE
+    -- Flags unclear text for review rather than failing
+    PERFORM public.import_chef_availability(new_chef_id);
+  END IF;
+
+  INSERT INTO public.chef_cuisines (chef_id, cuisine)
+  SELECT new_chef_id, cuisine
+  FROM unnest(cuisines) AS cuisine;
+
+  INSERT INTO public.food_photos (chef_id, photo_url, display_order)
+  SELECT new_chef_id, url, (ordinal - 1)::INTEGER
+  FROM jsonb_array_elements_text(coalesce(media->'food_photo_urls', '[]'::jsonb))
+    WITH ORDINALITY AS photos(url, ordinal);
+
+  INSERT INTO public.chef_videos (chef_id, video_url, video_type, display_order)
+  SELECT new_chef_id, url, 'introduction', (ordinal - 1)::INTEGER
+  FROM jsonb_array_elements_text(coalesce(media->'video_urls', '[]'::jsonb))
+    WITH ORDINALITY AS videos(url, ordinal);
+
+  UPDATE public.chef_applications
+  SET
+    status = 'approved',
+    approved_at = NOW(),
+    updated_at = NOW(),
+    chef_id = new_chef_id
+  WHERE id = target_application_id;
+
+  RETURN QUERY SELECT new_chef_id, 'approved'::TEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.approve_chef_application IS
+  'Creates the chef for an application, with media already copied to the chefs bucket, and marks it approved in one transaction; returns the existing chef if already approved';
+
+REVOKE EXECUTE ON FUNCTION public.approve_chef_application(UUID, UUID, JSONB, JSONB, JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- PART 4: PRIVATE APPLICATION BUCKET
+-- =================================================================
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'chef-applications'
+  AND NOT EXISTS (SELECT 1 FROM public.chefs WHERE photo_url LIKE '%/chef-applications/%')
+  AND NOT EXISTS (SELECT 1 FROM public.food_photos WHERE photo_url LIKE '%/chef-applications/%')
+  AND NOT EXISTS (SELECT 1 FROM public.chef_videos WHERE video_url LIKE '%/chef-applications/%');
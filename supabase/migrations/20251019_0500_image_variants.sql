@@ -0,0 +1,127 @@
+-- Image Variants Migration
+-- Chef photos are re-encoded on upload: auto-oriented, stripped of metadata
+-- (phone photos carry the GPS position they were taken at) and saved with
+-- responsive AVIF/WebP variants and a blur placeholder next to the original
+-- in the chefs bucket. See lib/image-variants.ts.
+--
+-- - photo_variants / variants: ImageVariants JSON
+--   { width, height, placeholder, avif: [{ width, url }], webp: [{ width, url }] },
+--   NULL for photos uploaded before this change or that couldn't be processed
+--   (the plain URL is shown instead)
+-- - approve_chef_application() saves the variants made when the
+--   application's photos were copied
+--
+-- Existing photos are processed with scripts/node/process-chef-photos.js.
+
+-- =================================================================
+-- PART 1: VARIANT COLUMNS
+-- =================================================================
+
+ALTER TABLE public.chefs
+  ADD COLUMN photo_variants JSONB;
+
+ALTER TABLE public.food_photos
+  ADD COLUMN variants JSONB;
+
+-- =================================================================
+-- PART 2: APPROVAL FUNCTION
+-- =================================================================
+
+-- Same arguments as before (see 20251019_0400_chef_media_storage.sql).
+-- media also carries profile_photo_variants and food_photo_variants[], the
+-- latter in the same order as food_photo_urls. JSON nulls are stored as NULL.
+CREATE OR REPLACE FUNCTION public.approve_chef_application(
+  target_application_id UUID,
+  new_chef_id UUID,
+  chef_fields JSONB,
+  media JSONB,
+  availability_slots JSONB DEFAULT NULL,
+  cuisines TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (chef_id UUID, outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  application public.chef_applications%ROWTYPE;
+  fields public.chefs%ROWTYPE;
+BEGIN
+  SELECT * INTO application
+  FROM public.chef_applications
+  WHERE id = target_application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF application.status = 'approved' AND application.chef_id IS NOT NULL THEN
+    RETURN QUERY SELECT application.chef_id, 'already_approved'::TEXT;
+    RETURN;
+  END IF;
+
+  IF application.status NOT IN ('pending', 'information_requested') THEN
+    RETURN QUERY SELECT NULL::UUID, 'not_open'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Casts each JSON value to its column's type
+  fields := jsonb_populate_record(NULL::public.chefs, chef_fields);
+
+  INSERT INTO public.chefs (
+    id, name, bio, phone, hourly_rate, location_label, experience_years,
+    availability, languages_spoken, travel_distance, frequency_preference,
+    minimum_booking, special_events, house_help_services, dietary_specialties,
+    location, location_outcode, photo_url, photo_variants, verified
+  )
+  VALUES (
+    new_chef_id, fields.name, fields.bio, fields.phone, fields.hourly_rate, fields.location_label, fields.experience_years,
+    fields.availability, fields.languages_spoken, fields.travel_distance, fields.frequency_preference,
+    fields.minimum_booking, fields.special_events, fields.house_help_services, fields.dietary_specialties,
+    fields.location, fields.location_outcode,
+    media->>'profile_photo_url',
+    nullif(media->'profile_photo_variants', 'null'::jsonb),
+    true -- Auto-approve when created from application
+  );
+
+  IF availability_slots IS NOT NULL THEN
+    INSERT INTO public.chef_availability_slots (chef_id, day_of_week, start_time, end_time)
+    SELECT new_chef_id, (slot->>'dayOfWeek')::SMALLINT, (slot->>'startTime')::TIME, (slot->>'endTime')::TIME
+    FROM jsonb_array_elements(availability_slots) AS slot;
+  ELSE
+    -- Flags unclear text for review rather than failing
+    PERFORM public.import_chef_availability(new_chef_id);
+  END IF;
+
+  INSERT INTO public.chef_cuisines (chef_id, cuisine)
+  SELECT new_chef_id, cuisine
+  FROM unnest(cuisines) AS cuisine;
+
+  INSERT INTO public.food_photos (chef_id, photo_url, variants, display_order)
+  SELECT new_chef_id, url, nullif(media->'food_photo_variants'->((ordinal - 1)::INTEGER), 'null'::jsonb), (ordinal - 1)::INTEGER
+  FROM jsonb_array_elements_text(coalesce(media->'food_photo_urls', '[]'::jsonb))
+    WITH ORDINALITY AS photos(url, ordinal);
+
+  INSERT INTO public.chef_videos (chef_id, video_url, video_type, display_order)
+  SELECT new_chef_id, url, 'introduction', (ordinal - 1)::INTEGER
+  FROM jsonb_array_elements_text(coalesce(media->'video_urls', '[]'::jsonb))
+    WITH ORDINALITY AS videos(url, ordinal);
+
+  UPDATE public.chef_applications
+  SET
+    status = 'approved',
+    approved_at = NOW(),
+    updated_at = NOW(),
+    chef_id = new_chef_id
+  WHERE id = target_application_id;
+
+  RETURN QUERY SELECT new_chef_id, 'approved'::TEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.approve_chef_application IS
+  'Creates the chef for an application, with media and photo variants already in the chefs bucket, and marks it approved in one transaction; returns the existing chef if already approved';
+
+REVOKE EXECUTE ON FUNCTION public.approve_chef_application(UUID, UUID, JSONB, JSONB, JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,106 @@
+-- Chef Video Processing Migration
+-- Introduction videos were served exactly as uploaded, and the 90 second
+-- limit (STORAGE_CONFIG.MAX_VIDEO_DURATION) was never checked.
+--
+-- /api/cron/process-chef-videos now probes each new video with ffprobe,
+-- rejects ones that are too long, and transcodes the rest with ffmpeg to an
+-- H.264/AAC MP4 at a capped bitrate, plus a poster frame. See
+-- lib/video-processing-server.ts.
+--
+-- - status: pending -> processing -> ready, rejected (too long or not a
+--   video) or failed (gave up after VIDEO_PROCESSING_CONFIG.MAX_ATTEMPTS)
+-- - Existing videos are marked ready so they stay on profiles; only new
+--   uploads wait for processing
+-- - Only ready videos are visible to the public
+
+-- =================================================================
+-- PART 1: PROCESSING COLUMNS
+-- =================================================================
+
+-- Added as ready to backfill existing videos, then new rows default to pending
+ALTER TABLE public.chef_videos
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'ready'
+    CHECK (status IN ('pending', 'processing', 'ready', 'rejected', 'failed')),
+  ADD COLUMN poster_url TEXT,
+  ADD COLUMN duration_seconds NUMERIC(7, 2),
+  ADD COLUMN processing_error TEXT,
+  ADD COLUMN processing_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN processing_started_at TIMESTAMPTZ,
+  ADD COLUMN processed_at TIMESTAMPTZ;
+
+ALTER TABLE public.chef_videos
+  ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX idx_chef_videos_processing_queue
+  ON public.chef_videos(created_at)
+  WHERE status IN ('pending', 'processing');
+
+-- =================================================================
+-- PART 2: PUBLIC ACCESS
+-- =================================================================
+
+DROP POLICY IF EXISTS "Anyone can view videos for verified chefs" ON public.chef_videos;
+
+CREATE POLICY "Anyone can view ready videos for verified chefs" ON public.chef_videos
+FOR SELECT USING (
+  status = 'ready'
+  AND chef_id IN (
+    SELECT id FROM public.chefs WHERE verified = true
+  )
+);
+
+-- =================================================================
+-- PART 3: PROCESSING QUEUE
+-- =================================================================
+
+-- Claims up to batch_size videos for processing, oldest first. Videos left
+-- processing for longer than stale_after_minutes (e.g. the job timed out)
+-- are claimed again, until they've had max_attempts tries and are marked
+-- failed. SKIP LOCKED keeps overlapping runs from claiming the same video.
+CREATE FUNCTION public.claim_chef_videos(
+  batch_size INTEGER DEFAULT 2,
+  stale_after_minutes INTEGER DEFAULT 30,
+  max_attempts INTEGER DEFAULT 3
+)
+RETURNS SETOF public.chef_videos
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE public.chef_videos
+  SET
+    status = 'failed',
+    processing_error = coalesce(processing_error, 'Processing did not finish'),
+    updated_at = NOW()
+  WHERE status = 'processing'
+    AND processing_started_at < NOW() - make_interval(mins => stale_after_minutes)
+    AND processing_attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.chef_videos v
+  SET
+    status = 'processing',
+    processing_attempts = v.processing_attempts + 1,
+    processing_started_at = NOW(),
+    updated_at = NOW()
+  WHERE v.id IN (
+    SELECT q.id
+    FROM public.chef_videos q
+    WHERE q.processing_attempts < max_attempts
+      AND (
+        q.status = 'pending'
+        OR (q.status = 'processing' AND q.processing_started_at < NOW() - make_interval(mins => stale_after_minutes))
+      )
+    ORDER BY q.created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING v.*;
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_chef_videos IS
+  'Marks up to batch_size pending (or abandoned) chef videos as processing and returns them';
+
+REVOKE EXECUTE ON FUNCTION public.claim_chef_videos(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,86 @@
+-- Storage Garbage Collection Migration
+-- Files nothing points at pile up in storage: uploads from abandoned /apply
+-- visits (temp_... folders), photos whose food_photos row was deleted,
+-- media of deleted chefs, and copies left by approvals that didn't finish.
+--
+-- /api/cron/storage-gc (lib/storage-gc-server.ts) lists the objects in the
+-- chef-applications and chefs buckets older than a grace period, compares
+-- them with everything the database references, and deletes the rest. Each
+-- run is recorded for admins to review at /admin/storage. Dry runs only
+-- record what would be deleted.
+
+-- =================================================================
+-- PART 1: OBJECT LISTING
+-- =================================================================
+
+-- Objects created before created_before, by path. Storage's list API only
+-- returns one folder level at a time; this reads the whole bucket.
+CREATE FUNCTION public.list_storage_objects(
+  target_bucket TEXT,
+  created_before TIMESTAMPTZ
+)
+RETURNS TABLE (name TEXT, size_bytes BIGINT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT o.name, (o.metadata->>'size')::BIGINT, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = target_bucket
+    AND o.created_at < created_before
+  ORDER BY o.name
+$$;
+
+COMMENT ON FUNCTION public.list_storage_objects IS
+  'Every object in a storage bucket created before a cutoff, for garbage collection';
+
+REVOKE EXECUTE ON FUNCTION public.list_storage_objects(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- PART 2: REPORTS
+-- =================================================================
+
+CREATE TABLE public.storage_gc_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dry_run BOOLEAN NOT NULL,
+  grace_days INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  objects_scanned INTEGER NOT NULL DEFAULT 0,
+  orphans_found INTEGER NOT NULL DEFAULT 0,
+  orphans_deleted INTEGER NOT NULL DEFAULT 0,
+  bytes_reclaimed BIGINT NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_storage_gc_runs_started ON public.storage_gc_runs(started_at DESC);
+
+-- One row per unreferenced object found by a run
+CREATE TABLE public.storage_gc_orphans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.storage_gc_runs(id) ON DELETE CASCADE,
+  bucket TEXT NOT NULL,
+  path TEXT NOT NULL,
+  size_bytes BIGINT,
+  object_created_at TIMESTAMPTZ,
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  error TEXT
+);
+
+CREATE INDEX idx_storage_gc_orphans_run ON public.storage_gc_orphans(run_id, bucket, path);
+
+-- =================================================================
+-- PART 3: ROW LEVEL SECURITY
+-- =================================================================
+
+-- Written by the cron job and read by admin pages, both with the service role
+ALTER TABLE public.storage_gc_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.storage_gc_orphans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can view storage gc runs" ON public.storage_gc_runs
+FOR SELECT USING ((auth.jwt()->>'role') = 'admin');
+
+CREATE POLICY "Admin can view storage gc orphans" ON public.storage_gc_orphans
+FOR SELECT USING ((auth.jwt()->>'role') = 'admin');
@@ -0,0 +1,92 @@
+-- Chef Verification Documents Migration
+-- chefs.verified is set when an application is approved and only means the
+-- chef is listed. Chefs now upload evidence for each check from the chef
+-- portal - food hygiene certificate, right to work, DBS check - and admins
+-- review it. Approved, unexpired documents become the checks shown on the
+-- chef's card and page.
+--
+-- - chef-documents: private bucket, files under {chef_id}/..., shown to
+--   admins through signed URLs
+-- - chef_documents: one row per upload, with issue and expiry dates and the
+--   admin's decision
+-- - chef_current_checks: public view of which checks each chef currently
+--   holds (no files, notes or rejected documents)
+-- - /api/cron/document-expiry-reminders emails the chef and admin
+--   CHEF_DOCUMENT_CONFIG.REMINDER_DAYS before a document expires;
+--   last_reminder_days records the last reminder the chef was sent, and
+--   last_admin_alert_days the last one the admin was, so a failed chef
+--   email is retried without repeating the admin alert
+
+-- =================================================================
+-- PART 1: BUCKET
+-- =================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('chef-documents', 'chef-documents', false);
+
+-- =================================================================
+-- PART 2: DOCUMENTS
+-- =================================================================
+
+CREATE TABLE public.chef_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chef_id UUID NOT NULL REFERENCES public.chefs(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL
+    CHECK (document_type IN ('food_hygiene', 'right_to_work', 'dbs_check')),
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL, -- as uploaded, for display
+  issued_on DATE NOT NULL,
+  expires_on DATE NOT NULL CHECK (expires_on > issued_on),
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_notes TEXT,
+  reviewed_at TIMESTAMPTZ,
+
+  last_reminder_days INTEGER,
+  last_admin_alert_days INTEGER,
+
+  -- Portal user who uploaded the document
+  uploaded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_chef_documents_chef ON public.chef_documents(chef_id, document_type, expires_on DESC);
+CREATE INDEX idx_chef_documents_pending ON public.chef_documents(created_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_chef_documents_expiry ON public.chef_documents(expires_on)
+  WHERE status = 'approved';
+
+-- =================================================================
+-- PART 3: CURRENT CHECKS
+-- =================================================================
+
+-- Runs as its owner, so it can read chef_documents for the public
+CREATE VIEW public.chef_current_checks AS
+SELECT
+  d.chef_id,
+  d.document_type,
+  max(d.expires_on) AS expires_on
+FROM public.chef_documents d
+JOIN public.chefs c ON c.id = d.chef_id AND c.verified = true
+WHERE d.status = 'approved'
+  AND d.issued_on <= CURRENT_DATE
+  AND d.expires_on >= CURRENT_DATE
+GROUP BY d.chef_id, d.document_type;
+
+GRANT SELECT ON public.chef_current_checks TO anon, authenticated;
+
+COMMENT ON VIEW public.chef_current_checks IS 'Checks each listed chef holds an approved, unexpired document for';
+
+-- =================================================================
+-- PART 4: ROW LEVEL SECURITY
+-- =================================================================
+
+-- Portal uploads and admin review go through server actions using the service role
+ALTER TABLE public.chef_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin only access to chef documents" ON public.chef_documents
+FOR ALL USING ((auth.jwt()->>'role') = 'admin');
+
+COMMENT ON TABLE public.chef_documents IS 'Verification documents uploaded by chefs, with expiry dates and admin review';
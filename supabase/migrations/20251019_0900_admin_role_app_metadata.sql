@@ -0,0 +1,28 @@
+-- Admin Role in App Metadata Migration
+-- The /admin gate read the role from user_metadata, which signed-in users can
+-- change themselves (supabase.auth.updateUser({ data })). Chefs now have real
+-- sessions through the chef portal, so the role moves to app_metadata, which
+-- only the service role can write. middleware.ts and the admin login page
+-- read app_metadata.role from now on.
+--
+-- New admins: set app_metadata to {"role": "admin"} from the Supabase
+-- dashboard or auth.admin.updateUserById - never user_metadata.
+
+-- =================================================================
+-- PART 1: MOVE EXISTING ADMINS
+-- =================================================================
+
+-- Portal users (app_metadata.role = 'chef') are never promoted, even if they
+-- set the old field on themselves
+UPDATE auth.users
+SET raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || '{"role": "admin"}'::jsonb
+WHERE raw_user_meta_data->>'role' = 'admin'
+  AND coalesce(raw_app_meta_data->>'role', '') <> 'chef';
+
+-- =================================================================
+-- PART 2: DROP THE OLD FIELD
+-- =================================================================
+
+UPDATE auth.users
+SET raw_user_meta_data = raw_user_meta_data - 'role'
+WHERE raw_user_meta_data ? 'role';